@@ -0,0 +1,65 @@
+import { storage } from "../../../lib/storage.js";
+import {
+  getJsonBody,
+  getLastPathSegment,
+  getQueryParam,
+  isAdminRequest,
+  type ReqLike,
+  type ResLike,
+} from "../../../lib/apiUtils.js";
+import { isContentKind, lintContentItem, parseContentBody } from "../../../lib/contentBank.js";
+
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "GET" && req.method !== "PUT" && req.method !== "DELETE") {
+    res.setHeader("Allow", "GET, PUT, DELETE");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const id = getQueryParam(req, "id") || getLastPathSegment(req);
+    if (!id) {
+      return res.status(400).json({ message: "Missing content id" });
+    }
+
+    const item = await storage.getContentItem(id);
+    if (!item || !isContentKind(item.kind)) {
+      return res.status(404).json({ message: "Content not found" });
+    }
+
+    if (req.method === "GET") {
+      return res.status(200).json({ item, lint: lintContentItem(item) });
+    }
+
+    // Published and archived versions are history; edits start a new draft.
+    if (item.status !== "draft") {
+      return res.status(409).json({ message: "Only drafts can be changed" });
+    }
+
+    if (req.method === "DELETE") {
+      await storage.deleteContentItem(id);
+      return res.status(200).json({ success: true });
+    }
+
+    const bodyResult = parseContentBody(item.kind, item.contentKey, getJsonBody(req)?.body);
+    if (!bodyResult.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: bodyResult.error.flatten().fieldErrors,
+      });
+    }
+
+    const updated = await storage.updateContentItem(id, {
+      category: bodyResult.data.category,
+      body: bodyResult.data,
+    });
+
+    return res.status(200).json({ item: updated, lint: updated ? lintContentItem(updated) : [] });
+  } catch (error: any) {
+    console.error("Error handling content item:", error);
+    return res.status(500).json({ message: "Failed to handle content item" });
+  }
+}
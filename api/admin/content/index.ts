@@ -0,0 +1,83 @@
+import { z } from "zod";
+import { storage } from "../../../lib/storage.js";
+import { getJsonBody, getQueryParam, isAdminRequest, type ReqLike, type ResLike } from "../../../lib/apiUtils.js";
+import {
+  CONTENT_KINDS,
+  DEFAULT_LOCALE,
+  isContentKind,
+  isContentStatus,
+  lintContentItem,
+  localeSchema,
+  parseContentBody,
+} from "../../../lib/contentBank.js";
+
+const createContentSchema = z.object({
+  kind: z.enum(CONTENT_KINDS),
+  contentKey: z.string().trim().min(1).max(64).regex(/^[a-z0-9-]+$/i, "Use letters, numbers and dashes"),
+  locale: localeSchema.default(DEFAULT_LOCALE),
+  body: z.unknown(),
+});
+
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    if (req.method === "GET") {
+      const kind = getQueryParam(req, "kind");
+      const status = getQueryParam(req, "status");
+      const items = await storage.getContentItems({
+        kind: isContentKind(kind) ? kind : undefined,
+        status: isContentStatus(status) ? status : undefined,
+        locale: getQueryParam(req, "locale") || undefined,
+        contentKey: getQueryParam(req, "key") || undefined,
+      });
+      return res.status(200).json(items);
+    }
+
+    const parseResult = createContentSchema.safeParse(getJsonBody(req));
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parseResult.error.flatten().fieldErrors,
+      });
+    }
+    const { kind, contentKey, locale } = parseResult.data;
+
+    const bodyResult = parseContentBody(kind, contentKey, parseResult.data.body);
+    if (!bodyResult.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: bodyResult.error.flatten().fieldErrors,
+      });
+    }
+
+    // One draft per key and locale; further edits go to that draft.
+    const [draft] = await storage.getContentItems({ kind, contentKey, locale, status: "draft" });
+    if (draft) {
+      return res.status(409).json({ message: "A draft already exists for this content", id: draft.id });
+    }
+
+    const latest = await storage.getLatestContentVersion(kind, contentKey, locale);
+    const item = await storage.createContentItem({
+      kind,
+      contentKey,
+      locale,
+      version: latest + 1,
+      status: "draft",
+      category: bodyResult.data.category,
+      body: bodyResult.data,
+    });
+
+    return res.status(200).json({ item, lint: lintContentItem(item) });
+  } catch (error: any) {
+    console.error("Error handling content items:", error);
+    return res.status(500).json({ message: "Failed to handle content items" });
+  }
+}
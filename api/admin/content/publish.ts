@@ -0,0 +1,47 @@
+import { storage } from "../../../lib/storage.js";
+import { getJsonBody, isAdminRequest, type ReqLike, type ResLike } from "../../../lib/apiUtils.js";
+import { invalidateContentCache, lintContentItem } from "../../../lib/contentBank.js";
+import { hasLintErrors } from "../../../shared/scenarioLint.js";
+
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const id = getJsonBody(req)?.id as string | undefined;
+    if (!id) {
+      return res.status(400).json({ message: "Missing content id" });
+    }
+
+    const item = await storage.getContentItem(id);
+    if (!item) {
+      return res.status(404).json({ message: "Content not found" });
+    }
+    if (item.status === "published") {
+      return res.status(200).json(item);
+    }
+
+    const lint = lintContentItem(item);
+    if (hasLintErrors(lint)) {
+      return res.status(400).json({
+        message: "Content doesn't follow the Mirror Play Scenario Rules",
+        violations: lint,
+      });
+    }
+
+    // Publishing an archived version rolls back to it.
+    const published = await storage.publishContentItem(id);
+    invalidateContentCache();
+
+    return res.status(200).json(published);
+  } catch (error: any) {
+    console.error("Error publishing content:", error);
+    return res.status(500).json({ message: "Failed to publish content" });
+  }
+}
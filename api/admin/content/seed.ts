@@ -0,0 +1,21 @@
+import { isAdminRequest, type ReqLike, type ResLike } from "../../../lib/apiUtils.js";
+import { seedContentBank } from "../../../lib/contentBank.js";
+
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const result = await seedContentBank();
+    return res.status(200).json(result);
+  } catch (error: any) {
+    console.error("Error seeding content bank:", error);
+    return res.status(500).json({ message: "Failed to seed content" });
+  }
+}
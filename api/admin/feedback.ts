@@ -1,23 +1,5 @@
 import { storage } from "../../lib/storage.js";
-
-type ReqLike = {
-  method?: string;
-  headers: Record<string, string | string[] | undefined>;
-};
-
-type ResLike = {
-  status: (code: number) => ResLike;
-  json: (payload: unknown) => void;
-  setHeader: (name: string, value: string) => void;
-};
-
-function getHeaderValue(
-  headers: Record<string, string | string[] | undefined>,
-  name: string
-) {
-  const value = headers[name] ?? headers[name.toLowerCase()];
-  return Array.isArray(value) ? value[0] : value;
-}
+import { isAdminRequest, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
 
 export default async function handler(req: ReqLike, res: ResLike) {
   if (req.method !== "GET") {
@@ -26,10 +8,7 @@ export default async function handler(req: ReqLike, res: ResLike) {
   }
 
   try {
-    const authHeader = getHeaderValue(req.headers, "authorization") || "";
-    const token = authHeader.replace(/^Bearer\s+/i, "");
-
-    if (!token || token !== process.env.ADMIN_FEEDBACK_TOKEN) {
+    if (!isAdminRequest(req)) {
       return res.status(401).json({ error: "Unauthorized" });
     }
 
@@ -40,4 +19,3 @@ export default async function handler(req: ReqLike, res: ResLike) {
     res.status(500).json({ message: "Failed to fetch feedback" });
   }
 }
-
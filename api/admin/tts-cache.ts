@@ -0,0 +1,16 @@
+import { isAdminRequest, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
+import { getTtsCacheMetrics } from "../../lib/ttsCache.js";
+
+// Hit/miss counters for the TTS cache on the instance that serves the request.
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  res.status(200).json(getTtsCacheMetrics());
+}
@@ -0,0 +1,46 @@
+import { storage } from "../../lib/storage.js";
+import { getUploadStore } from "../../lib/audioUploads.js";
+import { verifyPlaybackSignature } from "../../lib/recordings.js";
+import { getQueryParam, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
+
+// Serves recordings kept on disk. The signed URL comes from getPlaybackUrl,
+// so an <audio> element can play it without an Authorization header.
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  try {
+    const uploadId = getQueryParam(req, "id");
+    const expires = Number(getQueryParam(req, "expires"));
+    const signature = getQueryParam(req, "sig");
+
+    if (!uploadId || !signature || !verifyPlaybackSignature(uploadId, expires, signature)) {
+      return res.status(403).json({ message: "Playback link is invalid or has expired" });
+    }
+
+    const upload = await storage.getAudioUpload(uploadId);
+    const audio = upload ? await getUploadStore()?.get(upload.storagePath) : null;
+    if (!upload || !audio) {
+      return res.status(404).json({ message: "Recording not found" });
+    }
+
+    res.setHeader("Content-Type", upload.mimeType);
+    res.setHeader("Cache-Control", "private, max-age=3600");
+    if (res.end) {
+      res.status(200);
+      return res.end(audio);
+    }
+
+    if (res.send) {
+      res.status(200);
+      return res.send(audio);
+    }
+
+    res.status(200).json({ audio: audio.toString("base64"), mimeType: upload.mimeType });
+  } catch (error) {
+    console.error("Error playing recording:", error);
+    res.status(500).json({ message: "Failed to play recording" });
+  }
+}
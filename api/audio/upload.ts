@@ -0,0 +1,34 @@
+import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
+import { AudioUploadError, ingestAudio, readAudioBody } from "../../lib/audioUploads.js";
+import { type ReqLike, type ResLike } from "../../lib/apiUtils.js";
+
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  try {
+    const user = await requireSupabaseUser(req);
+    const { audio } = await readAudioBody(req);
+    const upload = await ingestAudio(user.id, audio);
+
+    res.status(200).json({
+      uploadId: upload.id,
+      mimeType: upload.mimeType,
+      sizeBytes: upload.sizeBytes,
+      durationSeconds: upload.durationSeconds,
+    });
+  } catch (error: any) {
+    if (error instanceof SupabaseAuthError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    if (error instanceof AudioUploadError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    console.error("Error uploading audio:", error);
+    res.status(500).json({ message: "Failed to upload audio" });
+  }
+}
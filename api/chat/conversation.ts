@@ -1,6 +1,9 @@
-import { storage } from "../../lib/storage.js";
 import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
-import { type ReqLike, type ResLike } from "../../lib/apiUtils.js";
+import { ChatThreadError, getChatThread, resolveChatThread } from "../../lib/chatThreads.js";
+import { getQueryParam, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
+
+// ?id= returns that thread; without it, the latest active thread (created
+// when the user has none).
 
 export default async function handler(req: ReqLike, res: ResLike) {
   if (req.method !== "GET") {
@@ -10,15 +13,8 @@ export default async function handler(req: ReqLike, res: ResLike) {
 
   try {
     const user = await requireSupabaseUser(req);
-    let conversation = await storage.getConversation(user.id);
-
-    if (!conversation) {
-      conversation = await storage.createConversation({
-        userId: user.id,
-        messages: [],
-        emotionState: "calm",
-      });
-    }
+    const id = getQueryParam(req, "id");
+    const conversation = id ? await getChatThread(user.id, id) : await resolveChatThread(user.id);
 
     res.status(200).json(conversation);
   } catch (error: any) {
@@ -26,6 +22,10 @@ export default async function handler(req: ReqLike, res: ResLike) {
       return res.status(error.status).json({ message: error.message });
     }
 
+    if (error instanceof ChatThreadError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
     console.error("Error fetching conversation:", error);
     res.status(500).json({ message: "Failed to fetch conversation" });
   }
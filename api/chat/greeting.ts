@@ -1,7 +1,9 @@
 import { storage } from "../../lib/storage.js";
 import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
-import { requireOpenAI, handleOpenAIError } from "../../lib/services/openaiClient.js";
-import { isElevenLabsAvailable, textToSpeech } from "../../lib/elevenLabsClient.js";
+import { handleOpenAIError } from "../../lib/services/openaiClient.js";
+import { requireLlm } from "../../lib/services/llmProvider.js";
+import { ChatThreadError, getThreadMessages, resolveChatThread } from "../../lib/chatThreads.js";
+import { isTtsAvailable, synthesizeSpeech } from "../../lib/services/ttsProvider.js";
 import { getJsonBody, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
 
 export default async function handler(req: ReqLike, res: ResLike) {
@@ -56,8 +58,8 @@ export default async function handler(req: ReqLike, res: ResLike) {
       }
     }
 
-    const greetingResponse = await requireOpenAI().chat.completions.create({
-      model: "gpt-4o",
+    const greetingResponse = await requireLlm().complete({
+      task: "greeting",
       messages: [
         {
           role: "system",
@@ -73,35 +75,46 @@ If they have progress, briefly acknowledge it in an encouraging way.`,
           content: `Generate a greeting for ${userName}. ${contextInfo}`,
         },
       ],
-      max_tokens: 100,
+      maxTokens: 100,
     });
 
     const greetingText =
-      greetingResponse.choices[0].message.content ||
+      greetingResponse ||
       `Hi ${userName}! I'm here to help you grow. What's on your mind today?`;
 
-    const conversation = await storage.createConversation({
-      userId: user.id,
-      messages: [{ role: "assistant", content: greetingText }],
-      emotionState: "warm",
-    });
+    // The greeting opens the thread the client is showing when it is still
+    // empty; otherwise it starts a new one.
+    const thread = await resolveChatThread(user.id, body?.conversationId as string | undefined);
+    const greetingMessages = [{ role: "assistant", content: greetingText }];
+    const conversation =
+      getThreadMessages(thread).length === 0
+        ? (await storage.updateConversation(thread.id, { messages: greetingMessages, emotionState: "warm" })) ?? thread
+        : await storage.createConversation({
+            userId: user.id,
+            messages: greetingMessages,
+            emotionState: "warm",
+          });
 
     let audioBase64: string | null = null;
-    if (includeTts && isElevenLabsAvailable()) {
+    let audioMimeType: string | null = null;
+    if (includeTts && isTtsAvailable()) {
       const prefs = await storage.getUserVoicePreferences(user.id);
-      const selectedVoiceId = voiceId || prefs?.selectedVoiceId || "21m00Tcm4TlvDq8ikWAM";
 
-      const audioBuffer = await textToSpeech(greetingText, selectedVoiceId, {
+      const result = await synthesizeSpeech(greetingText, {
         section: "scenario",
+        voiceId: voiceId || prefs?.selectedVoiceId,
+        provider: prefs?.ttsProvider,
       });
-      if (audioBuffer) {
-        audioBase64 = audioBuffer.toString("base64");
+      if (result) {
+        audioBase64 = result.audio.toString("base64");
+        audioMimeType = result.mimeType;
       }
     }
 
     res.status(200).json({
       greeting: greetingText,
       audio: audioBase64,
+      audioMimeType,
       conversationId: conversation.id,
       context: {
         isNewUser: totalSessions === 0,
@@ -112,7 +125,7 @@ If they have progress, briefly acknowledge it in an encouraging way.`,
         hasRecentSessions: recentSessions.length > 0,
         lastSessionCategory: recentSessions[0]?.category,
       },
-      ttsAvailable: isElevenLabsAvailable(),
+      ttsAvailable: isTtsAvailable(),
     });
   } catch (error: any) {
     if (error?.name === "OpenAIUnavailableError") {
@@ -123,6 +136,10 @@ If they have progress, briefly acknowledge it in an encouraging way.`,
       return res.status(error.status).json({ message: error.message });
     }
 
+    if (error instanceof ChatThreadError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
     console.error("Error generating greeting:", error);
     res.status(500).json({ message: "Failed to generate greeting" });
   }
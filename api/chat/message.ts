@@ -1,23 +1,20 @@
-import { storage } from "../../lib/storage.js";
 import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
-import { requireOpenAI, handleOpenAIError } from "../../lib/services/openaiClient.js";
+import { handleOpenAIError } from "../../lib/services/openaiClient.js";
+import { ChatThreadError } from "../../lib/chatThreads.js";
+import { beginChatTurn, completeChatReply, finishChatTurn, streamChatReply } from "../../lib/mirrorChat.js";
+import { openEventStream, wantsEventStream, type EventStream } from "../../lib/eventStream.js";
 import { getJsonBody, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
 
-const SYSTEM_PROMPT = `You are Mirror AI, a warm and supportive emotional intelligence coach. Your role is to:
-1. Listen with empathy and validate feelings
-2. Help users navigate difficult emotions and situations
-3. Provide practical communication strategies
-4. Encourage self-reflection and growth
-5. Celebrate progress and wins
-
-Be conversational, warm, and supportive. Use "I" statements and ask thoughtful questions. Keep responses concise but meaningful (2-3 paragraphs max).`;
-
+// Streams the reply over SSE when the client sends Accept: text/event-stream
+// (see lib/mirrorChat.ts for the events); otherwise returns it whole.
 export default async function handler(req: ReqLike, res: ResLike) {
   if (req.method !== "POST") {
     res.setHeader("Allow", "POST");
     return res.status(405).json({ message: "Method Not Allowed" });
   }
 
+  let stream: EventStream | null = null;
+
   try {
     const user = await requireSupabaseUser(req);
     const body = getJsonBody(req);
@@ -27,48 +24,34 @@ export default async function handler(req: ReqLike, res: ResLike) {
       return res.status(400).json({ message: "Message is required" });
     }
 
-    let conversation = await storage.getConversation(user.id);
-    if (!conversation) {
-      conversation = await storage.createConversation({
-        userId: user.id,
-        messages: [],
-        emotionState: "calm",
-      });
-    }
-
-    const messages = (conversation.messages as any[]) || [];
-    messages.push({ role: "user", content: message });
-
-    const chatResponse = await requireOpenAI().chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        { role: "system", content: SYSTEM_PROMPT },
-        ...messages.map((m: any) => ({ role: m.role, content: m.content })),
-      ],
-    });
+    const turn = await beginChatTurn(user.id, body?.conversationId as string | undefined, message);
 
-    const assistantMessage =
-      chatResponse.choices[0].message.content ||
-      "I'm here to help. Could you tell me more?";
-    messages.push({ role: "assistant", content: assistantMessage });
-
-    await storage.updateConversation(conversation.id, {
-      messages,
-      emotionState: "supportive",
-    });
+    if (wantsEventStream(req)) {
+      stream = openEventStream(res);
+      const reply = await streamChatReply(turn, stream);
+      stream.send("done", await finishChatTurn(turn, reply));
+      stream.close();
+      return;
+    }
 
-    res.status(200).json({ message: assistantMessage });
+    const saved = await finishChatTurn(turn, await completeChatReply(turn));
+    res.status(200).json(saved);
   } catch (error: any) {
+    const out = stream?.errorResponse ?? res;
+
     if (error?.name === "OpenAIUnavailableError") {
-      return handleOpenAIError(res, error);
+      return handleOpenAIError(out, error);
     }
 
     if (error instanceof SupabaseAuthError) {
-      return res.status(error.status).json({ message: error.message });
+      return out.status(error.status).json({ message: error.message });
+    }
+
+    if (error instanceof ChatThreadError) {
+      return out.status(error.status).json({ message: error.message });
     }
 
     console.error("Error sending message:", error);
-    res.status(500).json({ message: "Failed to send message" });
+    out.status(500).json({ message: "Failed to send message" });
   }
 }
-
@@ -1,5 +1,5 @@
-import { storage } from "../../lib/storage.js";
 import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
+import { createChatThread } from "../../lib/chatThreads.js";
 import { type ReqLike, type ResLike } from "../../lib/apiUtils.js";
 
 export default async function handler(req: ReqLike, res: ResLike) {
@@ -11,11 +11,8 @@ export default async function handler(req: ReqLike, res: ResLike) {
   try {
     const user = await requireSupabaseUser(req);
 
-    const conversation = await storage.createConversation({
-      userId: user.id,
-      messages: [],
-      emotionState: "calm",
-    });
+    // Earlier threads are kept; this starts a fresh one.
+    const conversation = await createChatThread(user.id);
 
     res.status(200).json(conversation);
   } catch (error: any) {
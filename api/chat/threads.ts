@@ -0,0 +1,40 @@
+import { storage } from "../../lib/storage.js";
+import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
+import { createChatThread } from "../../lib/chatThreads.js";
+import { getJsonBody, getQueryParam, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
+
+// GET lists threads, newest activity first: ?q= searches titles and message
+// text, ?archived=true lists archived threads. POST { title? } starts one.
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  try {
+    const user = await requireSupabaseUser(req);
+
+    if (req.method === "POST") {
+      const body = getJsonBody(req);
+      const conversation = await createChatThread(user.id, body?.title as string | undefined);
+      return res.status(200).json(conversation);
+    }
+
+    const limitParam = getQueryParam(req, "limit");
+    const limit = limitParam ? parseInt(limitParam, 10) : 50;
+
+    const threads = await storage.getAllConversations(user.id, Number.isFinite(limit) && limit > 0 ? limit : 50, {
+      archived: getQueryParam(req, "archived") === "true",
+      search: getQueryParam(req, "q") || undefined,
+    });
+
+    res.status(200).json(threads);
+  } catch (error: any) {
+    if (error instanceof SupabaseAuthError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    console.error("Error handling chat threads:", error);
+    res.status(500).json({ message: "Failed to handle chat threads" });
+  }
+}
@@ -0,0 +1,48 @@
+import { requireSupabaseUser, SupabaseAuthError } from "../../../lib/supabaseServer.js";
+import { ChatThreadError, deleteChatThread, getChatThread, updateChatThread } from "../../../lib/chatThreads.js";
+import { getJsonBody, getLastPathSegment, getQueryParam, type ReqLike, type ResLike } from "../../../lib/apiUtils.js";
+
+// GET returns the thread with its messages, PATCH { title?, archived? }
+// renames or archives it, DELETE removes it for good.
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "GET" && req.method !== "PATCH" && req.method !== "DELETE") {
+    res.setHeader("Allow", "GET, PATCH, DELETE");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  try {
+    const user = await requireSupabaseUser(req);
+    const threadId = getQueryParam(req, "threadId") || getLastPathSegment(req);
+    if (!threadId) {
+      return res.status(400).json({ message: "Thread ID is required" });
+    }
+
+    if (req.method === "DELETE") {
+      await deleteChatThread(user.id, threadId);
+      return res.status(200).json({ success: true });
+    }
+
+    if (req.method === "PATCH") {
+      const body = getJsonBody(req);
+      const conversation = await updateChatThread(user.id, threadId, {
+        title: body?.title,
+        archived: body?.archived,
+      });
+      return res.status(200).json(conversation);
+    }
+
+    const conversation = await getChatThread(user.id, threadId);
+    res.status(200).json(conversation);
+  } catch (error: any) {
+    if (error instanceof SupabaseAuthError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    if (error instanceof ChatThreadError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    console.error("Error handling chat thread:", error);
+    res.status(500).json({ message: "Failed to handle chat thread" });
+  }
+}
@@ -0,0 +1,22 @@
+import { getQueryParam, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
+import { DEFAULT_LOCALE, getPublishedHandoffs } from "../../lib/contentBank.js";
+
+// Published handoff lines. Public, like the bundled bank it replaces.
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  try {
+    const category = getQueryParam(req, "category");
+    const locale = getQueryParam(req, "locale") || DEFAULT_LOCALE;
+
+    const handoffs = await getPublishedHandoffs(locale);
+    res.setHeader("Cache-Control", "public, max-age=60");
+    return res.status(200).json(category ? handoffs.filter(h => h.category === category) : handoffs);
+  } catch (error: any) {
+    console.error("Error fetching handoffs:", error);
+    return res.status(500).json({ message: "Failed to fetch handoffs" });
+  }
+}
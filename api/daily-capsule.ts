@@ -1,7 +1,8 @@
 import { storage } from "../lib/storage.js";
 import { requireSupabaseUser, SupabaseAuthError } from "../lib/supabaseServer.js";
-import { PRACTICE_HANDOFFS, DEFAULT_HANDOFF_LINE } from "../shared/promptBank.js";
+import { DEFAULT_HANDOFF_LINE } from "../shared/promptBank.js";
 import { type ReqLike, type ResLike } from "../lib/apiUtils.js";
+import { rankDuePractice } from "../lib/reviewScheduler.js";
 
 const CATEGORIES = ["workplace", "relationships", "family", "social", "self-advocacy"];
 
@@ -18,11 +19,9 @@ export default async function handler(req: ReqLike, res: ResLike) {
     let capsule = await storage.getDailyCapsule(user.id, today);
 
     if (!capsule) {
-      const category = CATEGORIES[Math.floor(Math.random() * CATEGORIES.length)];
-      const questions = Array.from({ length: 3 }, () => {
-        const prompt = PRACTICE_HANDOFFS[Math.floor(Math.random() * PRACTICE_HANDOFFS.length)];
-        return prompt?.line ?? DEFAULT_HANDOFF_LINE;
-      });
+      const due = await rankDuePractice(user.id, { limit: 3, now: today });
+      const category = due[0]?.handoff.category ?? CATEGORIES[Math.floor(Math.random() * CATEGORIES.length)];
+      const questions = Array.from({ length: 3 }, (_, i) => due[i]?.handoff.line ?? DEFAULT_HANDOFF_LINE);
 
       capsule = await storage.createDailyCapsule({
         userId: user.id,
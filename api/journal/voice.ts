@@ -0,0 +1,61 @@
+import { storage } from "../../lib/storage.js";
+import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
+import { AudioUploadError, loadAudioUpload } from "../../lib/audioUploads.js";
+import { transcribeWithTimeline, type TimedTranscription } from "../../lib/transcription.js";
+import { withPlaybackUrls } from "../../lib/recordings.js";
+import { getJsonBody, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
+import { summarizeFillers } from "../../shared/fillers.js";
+
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  try {
+    const user = await requireSupabaseUser(req);
+
+    if (req.method === "GET") {
+      const entries = await storage.getVoiceJournals(user.id);
+      return res.status(200).json(await withPlaybackUrls(user.id, entries));
+    }
+
+    const body = getJsonBody(req);
+    const uploadId = body?.uploadId as string | undefined;
+    if (!uploadId) {
+      return res.status(400).json({ message: "Upload ID is required" });
+    }
+
+    const { upload, audio, format } = await loadAudioUpload(user.id, uploadId);
+
+    // An entry is kept even when it can't be transcribed right now.
+    let transcribed: TimedTranscription | null = null;
+    try {
+      transcribed = await transcribeWithTimeline(audio, { mimeType: format.mimeType, language: body?.language });
+    } catch (error) {
+      console.error("Error transcribing voice journal:", error);
+    }
+
+    const entry = await storage.createVoiceJournal({
+      userId: user.id,
+      uploadId: upload.id,
+      transcription: transcribed?.text ?? null,
+      fillerBreakdown: transcribed ? summarizeFillers(transcribed.timeline.fillers) : null,
+      duration: Math.round(upload.durationSeconds),
+    });
+
+    const [withUrl] = await withPlaybackUrls(user.id, [entry]);
+    res.status(200).json(withUrl);
+  } catch (error: any) {
+    if (error instanceof SupabaseAuthError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    if (error instanceof AudioUploadError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    console.error("Error handling voice journal:", error);
+    res.status(500).json({ message: "Failed to handle voice journal" });
+  }
+}
@@ -1,16 +1,22 @@
-import { storage } from "../../lib/storage.js";
 import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
-import { requireOpenAI, handleOpenAIError } from "../../lib/services/openaiClient.js";
+import { handleOpenAIError } from "../../lib/services/openaiClient.js";
+import {
+  completeStructured,
+  handleAiResponseError,
+  AiResponseValidationError,
+} from "../../lib/services/llmProvider.js";
 import { canAnalyze } from "../../lib/subscriptionLimits.js";
-import { updateStreak, checkAndAwardBadges } from "../../lib/badgeService.js";
+import { completePractice } from "../../lib/practiceCompletion.js";
 import { getJsonBody, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
-
-function getStreakMultiplier(streakDays: number): number {
-  if (streakDays >= 30) return 5;
-  if (streakDays >= 14) return 3;
-  if (streakDays >= 7) return 2;
-  return 1;
-}
+import { analyzeProsody, formatDeliveryForPrompt, readDelivery, type VocalMetrics } from "../../lib/prosody.js";
+import { transcribeWithTimeline } from "../../lib/transcription.js";
+import { AudioUploadError, loadAudioUpload } from "../../lib/audioUploads.js";
+import { resolvePracticeDifficulty } from "../../lib/skillRating.js";
+import { getScoringRubric, formatRubricForPrompt } from "../../shared/rubrics.js";
+import { openEventStream, wantsEventStream, type EventStream } from "../../lib/eventStream.js";
+import { fullAnalysisSchema, getAnalysisTips, splitFullAnalysis } from "../../shared/analysis.js";
+import { detectFillersInText, summarizeFillers } from "../../shared/fillers.js";
+import type { SpeechTimeline } from "../../shared/timeline.js";
 
 export default async function handler(req: ReqLike, res: ResLike) {
   if (req.method !== "POST") {
@@ -18,20 +24,24 @@ export default async function handler(req: ReqLike, res: ResLike) {
     return res.status(405).json({ message: "Method Not Allowed" });
   }
 
+  let stream: EventStream | null = null;
+
   try {
     const user = await requireSupabaseUser(req);
     const body = getJsonBody(req);
-    const audioBase64 = body?.audioBase64 as string | undefined;
+    const uploadId = body?.uploadId as string | undefined;
     const duration = body?.duration as number | undefined;
     const prompt = body?.prompt as string | undefined;
     const category = body?.category as string | undefined;
+    const locale = body?.locale as string | undefined;
+    const handoffId = body?.handoffId as string | undefined;
     const textResponse = body?.response as string | undefined;
 
     if (!prompt) {
       return res.status(400).json({ message: "Prompt is required" });
     }
 
-    if (!audioBase64 && !textResponse) {
+    if (!uploadId && !textResponse) {
       return res.status(400).json({ message: "Either audio data or text response is required" });
     }
 
@@ -46,62 +56,83 @@ export default async function handler(req: ReqLike, res: ResLike) {
       });
     }
 
-    const audioDuration = duration || 0;
-    let transcribedText = textResponse;
-
-    if (audioBase64 && !textResponse) {
-      const audioBuffer = Buffer.from(audioBase64, "base64");
-      const audioFile = new File([audioBuffer], "audio.webm", { type: "audio/webm" });
+    const recording = uploadId ? await loadAudioUpload(user.id, uploadId) : null;
 
-      const transcription = await requireOpenAI().audio.transcriptions.create({
-        file: audioFile,
-        model: "whisper-1",
-      });
+    if (wantsEventStream(req)) {
+      stream = openEventStream(res);
+    }
 
-      transcribedText = transcription.text;
+    // The measured length of the recording beats the client's timer.
+    const audioDuration = recording ? Math.round(recording.upload.durationSeconds) : duration || 0;
+    let transcribedText = textResponse;
+    let timeline: SpeechTimeline | null = null;
+    let transcriptionConfidence: number | null = null;
+    let measured: VocalMetrics | null = null;
+
+    if (recording) {
+      const [transcription, metrics] = await Promise.all([
+        textResponse
+          ? undefined
+          : transcribeWithTimeline(recording.audio, { mimeType: recording.format.mimeType, language: locale }),
+        analyzeProsody(recording.audio),
+      ]);
+
+      if (transcription) {
+        transcribedText = transcription.text;
+        timeline = transcription.timeline;
+        transcriptionConfidence = transcription.confidence;
+      }
+      measured = metrics;
     }
 
     if (!transcribedText || transcribedText.trim().length === 0) {
-      return res.status(400).json({
+      return (stream?.errorResponse ?? res).status(400).json({
         message: "No response provided. Please try speaking or typing.",
       });
     }
 
-    const wordCount = transcribedText.split(/\s+/).filter((w: string) => w.length > 0).length;
+    const words = transcribedText.split(/\s+/).filter((w: string) => w.length > 0);
+    const wordCount = words.length;
     const wordsPerMinute = audioDuration > 0 ? Math.round((wordCount / audioDuration) * 60) : 0;
 
-    const fillerWords = [
-      "um",
-      "uh",
-      "like",
-      "you know",
-      "basically",
-      "actually",
-      "literally",
-      "so",
-      "well",
-      "right",
-      "i mean",
-      "kind of",
-      "sort of",
-    ];
-    const lowerText = transcribedText.toLowerCase();
-    let fillerWordCount = 0;
-    const detectedFillers: string[] = [];
-
-    for (const filler of fillerWords) {
-      const regex = new RegExp(`\\b${filler}\\b`, "gi");
-      const matches = lowerText.match(regex);
-      if (matches) {
-        fillerWordCount += matches.length;
-        if (!detectedFillers.includes(filler)) {
-          detectedFillers.push(filler);
-        }
-      }
+    // Typed responses have no timestamps, so fillers are found in the plain text.
+    const fillers = timeline ? timeline.fillers : detectFillersInText(transcribedText, locale);
+    const fillerWordCount = fillers.length;
+    const fillerBreakdown = summarizeFillers(fillers);
+    const detectedFillers = Array.from(new Set(fillers.map(f => f.text)));
+
+    let paceFeedback = "Good pace";
+    if (wordsPerMinute < 100) {
+      paceFeedback = "Speaking slowly - try to increase pace slightly";
+    } else if (wordsPerMinute > 170) {
+      paceFeedback = "Speaking quickly - try to slow down for clarity";
+    } else if (wordsPerMinute >= 120 && wordsPerMinute <= 150) {
+      paceFeedback = "Excellent speaking pace";
     }
 
-    const analysis = await requireOpenAI().chat.completions.create({
-      model: "gpt-4o",
+    const delivery = measured ? readDelivery(measured, wordCount) : null;
+    const vocalMetrics = measured && delivery ? { ...measured, ...delivery } : null;
+
+    const voiceMetrics = {
+      transcription: transcribedText,
+      wordCount,
+      wordsPerMinute,
+      paceFeedback,
+      fillerWordCount,
+      fillerBreakdown,
+      detectedFillers,
+      audioDuration,
+      vocalMetrics,
+      timeline,
+      transcriptionConfidence,
+    };
+    stream?.send("transcription", voiceMetrics);
+
+    const difficulty = await resolvePracticeDifficulty(user.id, { difficulty: body?.difficulty, handoffId, category });
+    const rubric = getScoringRubric(category, difficulty);
+
+    const result = await completeStructured(fullAnalysisSchema, {
+      task: "analysis-full",
       messages: [
         {
           role: "system",
@@ -118,12 +149,16 @@ Difficulty voice (if not provided, assume intermediate):
 - intermediate: balanced reflection + refinement.
 - advanced: sharp, concise, expects control.
 
+${formatRubricForPrompt(rubric)}
+
+When measured delivery is provided, it comes from the recording itself: use the measured pace and energy as given, and ground bodyLanguageTip and whyItMatters in the pauses, pitch range and loudness it reports.
+
 Produce concise, spoken-friendly strings (no bullets, no lists in text fields). Avoid questions in any text field.
 
 Fields to return:
 - tone: primary tone label
 - secondaryTone: secondary tone label or null
-- score: 0-100
+- score: 0-100, the weighted rubric total
 - energy: "low" | "medium" | "high"
 - pace: "slow" | "moderate" | "fast"
 - emotionalClarity: 0-100 clarity
@@ -152,169 +187,102 @@ JSON only:
         },
         {
           role: "user",
-          content: `Category: ${category || "general"}\nScenario: ${prompt}\nUser's Spoken Response (transcribed): ${transcribedText}`,
+          content: [
+            `Category: ${category || "general"}`,
+            `Difficulty: ${rubric.difficulty}`,
+            `Scenario: ${prompt}`,
+            ...(measured && delivery ? [`Measured delivery:\n${formatDeliveryForPrompt(measured, delivery)}`] : []),
+            `User's Spoken Response (transcribed): ${transcribedText}`,
+          ].join("\n"),
         },
       ],
-      response_format: { type: "json_object" },
     });
 
-    const result = JSON.parse(analysis.choices[0].message.content || "{}");
-
-    const score = result.score || 50;
-    const baseXp = Math.floor(15 + (score / 100) * 25);
-    const ppEarned = Math.floor(8 + (score / 100) * 12);
+    // The model is told to use the measurements, but they win regardless.
+    if (delivery) {
+      result.pace = delivery.pace;
+      result.energy = delivery.energy;
+    }
 
-    const { streakBonus, currentStreak } = await updateStreak(user.id);
-    const multiplier = getStreakMultiplier(currentStreak);
-    const xpEarned = Math.floor(baseXp * multiplier) + streakBonus;
+    const score = result.score;
 
-    let paceFeedback = "Good pace";
-    if (wordsPerMinute < 100) {
-      paceFeedback = "Speaking slowly - try to increase pace slightly";
-    } else if (wordsPerMinute > 170) {
-      paceFeedback = "Speaking quickly - try to slow down for clarity";
-    } else if (wordsPerMinute >= 120 && wordsPerMinute <= 150) {
-      paceFeedback = "Excellent speaking pace";
+    if (stream) {
+      const { reading, coaching } = splitFullAnalysis(result);
+      stream.send("analysis", { ...reading, rubricVersion: rubric.version });
+      stream.send("coaching", coaching);
     }
 
-    const session = await storage.createPracticeSession({
+    const completion = await completePractice({
       userId: user.id,
-      prompt,
-      response: transcribedText,
-      category,
       mode: "voice",
-      tone: result.tone,
       score,
-      tips: result.coachingInsight
-        ? [result.coachingInsight]
-        : result.tip
-          ? [result.tip]
-          : [],
-      exampleResponses: result.exampleResponses || result.alternatives || [],
-      audioDuration,
-      wordsPerMinute,
-      fillerWordCount,
-      transcription: transcribedText,
-      xpEarned,
-      ppEarned,
+      prompt,
+      responseText: transcribedText,
+      tone: result.tone,
+      category,
+      session: {
+        mode: "voice",
+        tips: getAnalysisTips(result),
+        exampleResponses: result.exampleResponses,
+        audioDuration,
+        wordsPerMinute,
+        fillerWordCount,
+        transcription: transcribedText,
+        uploadId: recording?.upload.id,
+        rubricVersion: rubric.version,
+        vocalMetrics,
+        timeline,
+      },
+      handoffId,
+      difficulty: rubric.difficulty,
+      insightContext: [`Words Per Minute: ${wordsPerMinute}`],
     });
 
-    let bestMomentCreated = false;
-    if (score >= 85) {
-      try {
-        const insightResponse = await requireOpenAI().chat.completions.create({
-          model: "gpt-4o",
-          messages: [
-            {
-              role: "system",
-              content: `You are an expert communication and voice coach. Analyze this excellent spoken response and explain what made it exceptional. Generate a short title (5-8 words), extract a key excerpt (1-2 sentences from the transcription that showcase the best part), provide an AI insight (2-3 sentences explaining what made it great including any notable vocal delivery aspects), and suggest 2-3 relevant tags.
-                
-Respond in JSON format:
-{
-  "title": "string",
-  "excerpt": "string",
-  "aiInsight": "string",
-  "tags": ["tag1", "tag2"]
-}`,
-            },
-            {
-              role: "user",
-              content: `Scenario: ${prompt}\n\nSpoken Response (score: ${score}): ${transcribedText}\nTone: ${result.tone}\nCategory: ${category || "general"}\nWords Per Minute: ${wordsPerMinute}`,
-            },
-          ],
-          response_format: { type: "json_object" },
-        });
-
-        const insightResult = JSON.parse(
-          insightResponse.choices[0].message.content || "{}"
-        );
-
-        await storage.createBestMoment({
-          userId: user.id,
-          sessionId: session.id,
-          title: insightResult.title || `Excellent ${result.tone} Response`,
-          excerpt: insightResult.excerpt || transcribedText.substring(0, 150),
-          category: category || "general",
-          score,
-          aiInsight: insightResult.aiInsight,
-          tags: insightResult.tags,
-          isPublic: false,
-        });
-        bestMomentCreated = true;
-      } catch (momentError) {
-        console.error("Error creating best moment:", momentError);
-      }
+    const rewards = {
+      xpEarned: completion.xpEarned,
+      ppEarned: completion.ppEarned,
+      streakBonus: completion.streakBonus,
+      currentStreak: completion.currentStreak,
+      streakMultiplier: completion.streakMultiplier,
+      bestMomentCreated: completion.bestMomentCreated,
+      newBadges: completion.newBadges,
+      skillLevel: completion.skillLevel,
+    };
+    const attempt = {
+      sessionId: completion.session?.id,
+      attemptNumber: completion.session?.attemptNumber ?? undefined,
+    };
+    const payload = { ...result, ...voiceMetrics, rubricVersion: rubric.version, ...rewards, ...attempt };
+
+    if (stream) {
+      stream.send("rewards", rewards);
+      stream.send("done", payload);
+      stream.close();
+      return;
     }
 
-    const progress = await storage.getProgress(user.id);
-    if (progress) {
-      const oldLevel = progress.level || 1;
-      const newTotalXp = (progress.totalXp || 0) + xpEarned;
-      const newLevel = Math.floor(newTotalXp / 100) + 1;
-      await storage.updateProgress(user.id, {
-        totalXp: newTotalXp,
-        totalPp: (progress.totalPp || 0) + ppEarned,
-        practiceCount: (progress.practiceCount || 0) + 1,
-        level: newLevel,
-      });
+    res.status(200).json(payload);
+  } catch (error: any) {
+    const out = stream?.errorResponse ?? res;
 
-      if (newLevel > oldLevel) {
-        try {
-          await storage.createCommunityPost({
-            userId: user.id,
-            type: "milestone",
-            content: `Reached Level ${newLevel}!`,
-            metadata: {
-              level: newLevel,
-              previousLevel: oldLevel,
-              autoShared: true,
-            },
-          });
-        } catch (postError) {
-          console.error("Failed to auto-share level-up:", postError);
-        }
-      }
+    if (error?.name === "OpenAIUnavailableError") {
+      return handleOpenAIError(out, error);
     }
 
-    const newBadges = await checkAndAwardBadges({
-      userId: user.id,
-      eventType: "voice_practice",
-      score,
-      mode: "voice",
-    });
-
-    res.status(200).json({
-      ...result,
-      transcription: transcribedText,
-      wordCount,
-      wordsPerMinute,
-      paceFeedback,
-      fillerWordCount,
-      detectedFillers,
-      audioDuration,
-      xpEarned,
-      ppEarned,
-      streakBonus,
-      currentStreak,
-      streakMultiplier: multiplier,
-      bestMomentCreated,
-      newBadges: newBadges.map((b) => ({
-        name: b.name,
-        icon: b.icon,
-        description: b.description,
-      })),
-    });
-  } catch (error: any) {
-    if (error?.name === "OpenAIUnavailableError") {
-      return handleOpenAIError(res, error);
+    if (error instanceof AiResponseValidationError) {
+      return handleAiResponseError(out, error);
     }
 
     if (error instanceof SupabaseAuthError) {
-      return res.status(error.status).json({ message: error.message });
+      return out.status(error.status).json({ message: error.message });
+    }
+
+    if (error instanceof AudioUploadError) {
+      return out.status(error.status).json({ message: error.message });
     }
 
     console.error("Error analyzing voice practice:", error);
-    res.status(500).json({ message: "Failed to analyze voice response" });
+    out.status(500).json({ message: "Failed to analyze voice response" });
   }
 }
 
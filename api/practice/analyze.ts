@@ -1,16 +1,23 @@
-import { storage } from "../../lib/storage.js";
 import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
-import { requireOpenAI, handleOpenAIError } from "../../lib/services/openaiClient.js";
+import { handleOpenAIError } from "../../lib/services/openaiClient.js";
+import {
+  completeStructured,
+  handleAiResponseError,
+  AiResponseValidationError,
+} from "../../lib/services/llmProvider.js";
 import { canAnalyze } from "../../lib/subscriptionLimits.js";
-import { updateStreak, checkAndAwardBadges } from "../../lib/badgeService.js";
+import { storage } from "../../lib/storage.js";
+import { completePractice, MAX_RESPONSE_LENGTH, type PracticeCompletionMode } from "../../lib/practiceCompletion.js";
 import { getJsonBody, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
-
-function getStreakMultiplier(streakDays: number): number {
-  if (streakDays >= 30) return 5;
-  if (streakDays >= 14) return 3;
-  if (streakDays >= 7) return 2;
-  return 1;
-}
+import { resolvePracticeDifficulty } from "../../lib/skillRating.js";
+import { getScoringRubric, formatRubricForPrompt } from "../../shared/rubrics.js";
+import { openEventStream, wantsEventStream, type EventStream } from "../../lib/eventStream.js";
+import {
+  quickAnalysisSchema,
+  fullAnalysisSchema,
+  getAnalysisTips,
+  splitFullAnalysis,
+} from "../../shared/analysis.js";
 
 export default async function handler(req: ReqLike, res: ResLike) {
   if (req.method !== "POST") {
@@ -18,18 +25,27 @@ export default async function handler(req: ReqLike, res: ResLike) {
     return res.status(405).json({ message: "Method Not Allowed" });
   }
 
+  let stream: EventStream | null = null;
+
   try {
     const user = await requireSupabaseUser(req);
     const body = getJsonBody(req);
     const prompt = body?.prompt as string | undefined;
     const responseText = body?.response as string | undefined;
     const category = body?.category as string | undefined;
+    const handoffId = body?.handoffId as string | undefined;
     const quickMode = body?.quickMode === true;
+    const capsuleId = body?.capsuleId as string | undefined;
+    const selectedQuestionIndex = body?.selectedQuestionIndex as number | undefined;
 
     if (!prompt || !responseText) {
       return res.status(400).json({ message: "Prompt and response are required" });
     }
 
+    if (responseText.length > MAX_RESPONSE_LENGTH) {
+      return res.status(400).json({ message: `Response must be ${MAX_RESPONSE_LENGTH} characters or fewer` });
+    }
+
     const usageCheck = await canAnalyze(user.id);
     if (!usageCheck.allowed) {
       return res.status(402).json({
@@ -41,6 +57,13 @@ export default async function handler(req: ReqLike, res: ResLike) {
       });
     }
 
+    if (wantsEventStream(req)) {
+      stream = openEventStream(res);
+    }
+
+    const difficulty = await resolvePracticeDifficulty(user.id, { difficulty: body?.difficulty, handoffId, category });
+    const rubric = getScoringRubric(category, difficulty);
+
     const systemPrompt = quickMode
       ? `You are a voice-first communication coach. Deliver spoken-friendly, presence-first analysis. Never ask questions. No theory lectures. Keep it calm, precise, human.
 
@@ -55,9 +78,11 @@ Difficulty voice (if not provided, assume intermediate):
 - intermediate: balanced reflection + refinement.
 - advanced: sharper, precise, higher expectation of control.
 
+${formatRubricForPrompt(rubric)}
+
 Output fields:
 - tone: primary tone label.
-- score: 0-100.
+- score: 0-100, the weighted rubric total.
 - tip: 2-3 short sentences in this order: presence reflection (what they conveyed emotionally), performance insight (how it landed), optional forward cue (tiny adjustment). No questions. No bullet lists. Natural to speak aloud.
 
 JSON only:
@@ -79,12 +104,14 @@ Difficulty voice (if not provided, assume intermediate):
 - intermediate: balanced reflection + refinement.
 - advanced: sharp, concise, expects control.
 
+${formatRubricForPrompt(rubric)}
+
 Produce concise, spoken-friendly strings (no bullets, no lists in text fields). For any text fields below, avoid questions.
 
 Fields to return:
 - tone: primary tone label
 - secondaryTone: secondary tone label or null
-- score: 0-100
+- score: 0-100, the weighted rubric total
 - energy: "low" | "medium" | "high"
 - pace: "slow" | "moderate" | "fast"
 - emotionalClarity: 0-100 clarity
@@ -111,167 +138,117 @@ JSON only:
   "bodyLanguageTip": "string"
 }`;
 
-    const analysis = await requireOpenAI().chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: systemPrompt,
-        },
-        {
-          role: "user",
-          content: `Category: ${category || "general"}\nScenario: ${prompt}\nUser's Response: ${responseText}`,
-        },
-      ],
-      response_format: { type: "json_object" },
-    });
-
-    const result = JSON.parse(analysis.choices[0].message.content || "{}");
-
-    const score = result.score || 50;
-    const xpMultiplier = quickMode ? 0.5 : 1;
-    const baseXp = Math.floor((10 + (score / 100) * 20) * xpMultiplier);
-    const ppEarned = Math.floor((5 + (score / 100) * 10) * xpMultiplier);
+    const messages = [
+      {
+        role: "system" as const,
+        content: systemPrompt,
+      },
+      {
+        role: "user" as const,
+        content: `Category: ${category || "general"}\nDifficulty: ${rubric.difficulty}\nScenario: ${prompt}\nUser's Response: ${responseText}`,
+      },
+    ];
+
+    const result = quickMode
+      ? await completeStructured(quickAnalysisSchema, { task: "analysis-quick", messages })
+      : await completeStructured(fullAnalysisSchema, { task: "analysis-full", messages });
+    const score = result.score;
+
+    if (stream) {
+      if ("tip" in result) {
+        stream.send("analysis", { tone: result.tone, score, rubricVersion: rubric.version });
+        stream.send("coaching", { tip: result.tip, tips: [result.tip] });
+      } else {
+        const { reading, coaching } = splitFullAnalysis(result);
+        stream.send("analysis", { ...reading, rubricVersion: rubric.version });
+        stream.send("coaching", coaching);
+      }
+    }
 
-    const { streakBonus, currentStreak } = await updateStreak(user.id);
-    const multiplier = getStreakMultiplier(currentStreak);
-    const xpEarned = Math.floor(baseXp * multiplier) + streakBonus;
+    const capsule = capsuleId ? await storage.getDailyCapsule(user.id, new Date()) : undefined;
+    const fromCapsule = !!capsule && capsule.id === capsuleId && !capsule.completed;
+    const mode: PracticeCompletionMode = quickMode ? "quick" : fromCapsule ? "daily-capsule" : "text";
 
-    const session = await storage.createPracticeSession({
+    const completion = await completePractice({
       userId: user.id,
+      mode,
+      score,
       prompt,
-      response: responseText,
-      category,
-      mode: quickMode ? "quick" : "text",
+      responseText,
       tone: result.tone,
-      score,
-      tips: quickMode ? (result.tip ? [result.tip] : []) : result.tips,
-      exampleResponses: quickMode ? [] : result.exampleResponses,
-      xpEarned,
-      ppEarned,
+      category: category ?? (fromCapsule ? capsule.category : undefined),
+      session: {
+        mode,
+        tips: "tip" in result ? [result.tip] : getAnalysisTips(result),
+        exampleResponses: "exampleResponses" in result ? result.exampleResponses : [],
+        rubricVersion: rubric.version,
+      },
+      handoffId,
+      difficulty: rubric.difficulty,
     });
 
-    let bestMomentCreated = false;
-    if (score >= 85) {
-      try {
-        const insightResponse = await requireOpenAI().chat.completions.create({
-          model: "gpt-4o",
-          messages: [
-            {
-              role: "system",
-              content: `You are an expert communication coach. Analyze this excellent response and explain what made it exceptional. Generate a short title (5-8 words), extract a key excerpt (1-2 sentences from the response that showcase the best part), provide an AI insight (2-3 sentences explaining what made it great), and suggest 2-3 relevant tags.
-                
-Respond in JSON format:
-{
-  "title": "string",
-  "excerpt": "string",
-  "aiInsight": "string",
-  "tags": ["tag1", "tag2"]
-}`,
-            },
-            {
-              role: "user",
-              content: `Scenario: ${prompt}\n\nResponse (score: ${score}): ${responseText}\nTone: ${result.tone}\nCategory: ${category || "general"}`,
-            },
-          ],
-          response_format: { type: "json_object" },
-        });
-
-        const insightResult = JSON.parse(
-          insightResponse.choices[0].message.content || "{}"
-        );
-
-        await storage.createBestMoment({
-          userId: user.id,
-          sessionId: session.id,
-          title: insightResult.title || `Excellent ${result.tone} Response`,
-          excerpt: insightResult.excerpt || responseText.substring(0, 150),
-          category: category || "general",
-          score,
-          aiInsight: insightResult.aiInsight,
-          tags: insightResult.tags,
-          isPublic: false,
-        });
-        bestMomentCreated = true;
-      } catch (momentError) {
-        console.error("Error creating best moment:", momentError);
-      }
-    }
-
-    const progress = await storage.getProgress(user.id);
-    if (progress) {
-      const oldLevel = progress.level || 1;
-      const newTotalXp = (progress.totalXp || 0) + xpEarned;
-      const newLevel = Math.floor(newTotalXp / 100) + 1;
-      await storage.updateProgress(user.id, {
-        totalXp: newTotalXp,
-        totalPp: (progress.totalPp || 0) + ppEarned,
-        practiceCount: (progress.practiceCount || 0) + 1,
-        level: newLevel,
+    if (fromCapsule) {
+      await storage.updateDailyCapsule(capsule.id, {
+        completed: true,
+        selectedQuestionIndex: selectedQuestionIndex ?? capsule.selectedQuestionIndex,
       });
-
-      if (newLevel > oldLevel) {
-        try {
-          await storage.createCommunityPost({
-            userId: user.id,
-            type: "milestone",
-            content: `Reached Level ${newLevel}!`,
-            metadata: {
-              level: newLevel,
-              previousLevel: oldLevel,
-              autoShared: true,
-            },
-          });
-        } catch (postError) {
-          console.error("Failed to auto-share level-up:", postError);
-        }
-      }
     }
 
-    const newBadges = await checkAndAwardBadges({
-      userId: user.id,
-      eventType: "practice",
-      score,
-      mode: "text",
-    });
-
-    if (quickMode) {
-      res.status(200).json({
-        tone: result.tone,
-        score,
-        tip: result.tip || (result.tips ? result.tips[0] : "Keep practicing!"),
-        xpEarned,
-        ppEarned,
-        currentStreak,
-        quickMode: true,
-      });
-    } else {
-      res.status(200).json({
-        ...result,
-        xpEarned,
-        ppEarned,
-        streakBonus,
-        currentStreak,
-        streakMultiplier: multiplier,
-        bestMomentCreated,
-        newBadges: newBadges.map((b) => ({
-          name: b.name,
-          icon: b.icon,
-          description: b.description,
-        })),
-      });
+    const rewards = {
+      xpEarned: completion.xpEarned,
+      ppEarned: completion.ppEarned,
+      streakBonus: completion.streakBonus,
+      currentStreak: completion.currentStreak,
+      streakMultiplier: completion.streakMultiplier,
+      bestMomentCreated: completion.bestMomentCreated,
+      newBadges: completion.newBadges,
+      skillLevel: completion.skillLevel,
+    };
+    const attempt = {
+      sessionId: completion.session?.id,
+      attemptNumber: completion.session?.attemptNumber ?? undefined,
+    };
+    const payload =
+      "tip" in result
+        ? {
+            tone: result.tone,
+            score,
+            tip: result.tip,
+            rubricVersion: rubric.version,
+            xpEarned: completion.xpEarned,
+            ppEarned: completion.ppEarned,
+            currentStreak: completion.currentStreak,
+            skillLevel: completion.skillLevel,
+            quickMode: true,
+            ...attempt,
+          }
+        : { ...result, rubricVersion: rubric.version, ...rewards, ...attempt };
+
+    if (stream) {
+      stream.send("rewards", rewards);
+      stream.send("done", payload);
+      stream.close();
+      return;
     }
+
+    res.status(200).json(payload);
   } catch (error: any) {
+    const out = stream?.errorResponse ?? res;
+
     if (error?.name === "OpenAIUnavailableError") {
-      return handleOpenAIError(res, error);
+      return handleOpenAIError(out, error);
+    }
+
+    if (error instanceof AiResponseValidationError) {
+      return handleAiResponseError(out, error);
     }
 
     if (error instanceof SupabaseAuthError) {
-      return res.status(error.status).json({ message: error.message });
+      return out.status(error.status).json({ message: error.message });
     }
 
     console.error("Error analyzing practice:", error);
-    res.status(500).json({ message: "Failed to analyze response" });
+    out.status(500).json({ message: "Failed to analyze response" });
   }
 }
 
@@ -0,0 +1,40 @@
+import { storage } from "../../../lib/storage.js";
+import { requireSupabaseUser, SupabaseAuthError } from "../../../lib/supabaseServer.js";
+import { getLastPathSegment, getQueryParam, type ReqLike, type ResLike } from "../../../lib/apiUtils.js";
+import { buildAttemptChain } from "../../../shared/attempts.js";
+
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  try {
+    const user = await requireSupabaseUser(req);
+    const sessionId = getQueryParam(req, "sessionId") || getLastPathSegment(req);
+
+    if (!sessionId) {
+      return res.status(400).json({ message: "Missing session id" });
+    }
+
+    const session = await storage.getPracticeSession(sessionId);
+    if (!session || session.userId !== user.id) {
+      return res.status(404).json({ message: "Session not found" });
+    }
+
+    // Sessions from before attempt chains were introduced stand alone.
+    if (!session.chainKey) {
+      return res.status(200).json(buildAttemptChain(`session:${session.id}`, [session]));
+    }
+
+    const chain = await storage.getAttemptChain(user.id, session.chainKey);
+    res.status(200).json(buildAttemptChain(session.chainKey, chain));
+  } catch (error: any) {
+    if (error instanceof SupabaseAuthError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    console.error("Error fetching attempt chain:", error);
+    res.status(500).json({ message: "Failed to fetch attempts" });
+  }
+}
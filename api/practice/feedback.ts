@@ -1,8 +1,14 @@
 import { storage } from "../../lib/storage.js";
 import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
-import { requireOpenAI, handleOpenAIError } from "../../lib/services/openaiClient.js";
+import { handleOpenAIError } from "../../lib/services/openaiClient.js";
+import {
+  completeStructured,
+  handleAiResponseError,
+  AiResponseValidationError,
+} from "../../lib/services/llmProvider.js";
 import { canAnalyze } from "../../lib/subscriptionLimits.js";
 import { getJsonBody, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
+import { practiceFeedbackSchema } from "../../shared/analysis.js";
 
 export default async function handler(req: ReqLike, res: ResLike) {
   if (req.method !== "POST") {
@@ -61,17 +67,14 @@ Guidelines:
 - Be concise and human
 - Focus on actionable improvements`;
 
-    const analysis = await requireOpenAI().chat.completions.create({
-      model: "gpt-4o",
+    const feedback = await completeStructured(practiceFeedbackSchema, {
+      task: "feedback",
       messages: [
         { role: "system", content: systemPrompt },
         { role: "user", content: `Scenario: ${prompt}\n\nUser's Response: "${responseText}"` },
       ],
-      response_format: { type: "json_object" },
     });
 
-    const feedback = JSON.parse(analysis.choices[0].message.content || "{}");
-
     const xpEarned = 15;
     const ppEarned = 5;
 
@@ -94,6 +97,10 @@ Guidelines:
       return handleOpenAIError(res, error);
     }
 
+    if (error instanceof AiResponseValidationError) {
+      return handleAiResponseError(res, error);
+    }
+
     if (error instanceof SupabaseAuthError) {
       return res.status(error.status).json({ message: error.message });
     }
@@ -0,0 +1,25 @@
+import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
+import { getQueryParam, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
+import { rankDuePractice } from "../../lib/reviewScheduler.js";
+
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  try {
+    const user = await requireSupabaseUser(req);
+    const category = getQueryParam(req, "category");
+    const [next] = await rankDuePractice(user.id, { category });
+
+    res.status(200).json(next);
+  } catch (error: any) {
+    if (error instanceof SupabaseAuthError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    console.error("Error fetching next due practice:", error);
+    res.status(500).json({ message: "Failed to fetch next practice" });
+  }
+}
@@ -0,0 +1,28 @@
+import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
+import { getQueryParam, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
+import { getSkillLevel, getSkillLevels } from "../../lib/skillRating.js";
+
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  try {
+    const user = await requireSupabaseUser(req);
+    const category = getQueryParam(req, "category");
+
+    if (category) {
+      return res.status(200).json(await getSkillLevel(user.id, category));
+    }
+
+    res.status(200).json(await getSkillLevels(user.id));
+  } catch (error: any) {
+    if (error instanceof SupabaseAuthError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    console.error("Error fetching skill ratings:", error);
+    res.status(500).json({ message: "Failed to fetch skill ratings" });
+  }
+}
@@ -0,0 +1,109 @@
+import { storage } from "../../lib/storage.js";
+import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
+import { handleOpenAIError } from "../../lib/services/openaiClient.js";
+import { handleAiResponseError, AiResponseValidationError } from "../../lib/services/llmProvider.js";
+import { canAnalyze } from "../../lib/subscriptionLimits.js";
+import {
+  rehearsalScenario,
+  scenarioFromCustom,
+  RehearsalError,
+  startRehearsal,
+  takeRehearsalTurn,
+  type RehearsalScenario,
+} from "../../lib/rehearsalEngine.js";
+import { getJsonBody, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
+import { findPublishedScenario } from "../../lib/contentBank.js";
+
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  try {
+    const user = await requireSupabaseUser(req);
+    const body = getJsonBody(req);
+    const message = (body?.message as string | undefined)?.trim();
+    const rehearsalId = body?.rehearsalId as string | undefined;
+    const scenarioId = body?.scenarioId as string | undefined;
+    const customScenarioId = body?.customScenarioId as string | undefined;
+
+    if (!message) {
+      return res.status(400).json({ message: "Message is required" });
+    }
+
+    const usageCheck = await canAnalyze(user.id);
+    if (!usageCheck.allowed) {
+      return res.status(402).json({
+        message: "Daily analysis limit reached. Upgrade your subscription for more analyses.",
+        tier: usageCheck.tier,
+        limit: usageCheck.limit,
+        usedToday: usageCheck.usedToday,
+        upgradeRequired: true,
+      });
+    }
+
+    let scenario: RehearsalScenario | undefined;
+    if (customScenarioId) {
+      const custom = await storage.getCustomScenario(customScenarioId);
+      if (custom && (custom.isPublic || custom.creatorId === user.id)) {
+        scenario = scenarioFromCustom(custom);
+      }
+    } else if (scenarioId) {
+      const published = await findPublishedScenario(scenarioId);
+      scenario = published && rehearsalScenario(published);
+    }
+
+    if (!scenario) {
+      return res.status(404).json({ message: "Scenario not found" });
+    }
+
+    let rehearsal = rehearsalId ? await storage.getRehearsal(rehearsalId) : undefined;
+    if (rehearsalId && (!rehearsal || rehearsal.userId !== user.id || (rehearsal.customScenarioId ?? rehearsal.scenarioId) !== scenario.id)) {
+      return res.status(404).json({ message: "Rehearsal not found" });
+    }
+    if (rehearsal?.completed) {
+      return res.status(409).json({ message: "This rehearsal is already complete" });
+    }
+    if (!rehearsal) {
+      rehearsal = await startRehearsal(user.id, scenario, { custom: !!customScenarioId });
+    }
+
+    const turn = await takeRehearsalTurn(user.id, rehearsal, scenario, message);
+
+    res.status(200).json({
+      rehearsalId: turn.rehearsal.id,
+      response: turn.reply,
+      tone: turn.tone,
+      nextPhase: turn.rehearsal.currentPhase,
+      escalationLevel: turn.rehearsal.escalationLevel,
+      completed: turn.rehearsal.completed,
+      phaseFeedback: turn.phaseFeedback,
+      score: turn.rehearsal.score ?? undefined,
+      feedback: turn.rehearsal.completed ? turn.rehearsal.feedback : undefined,
+      xpEarned: turn.completion?.xpEarned,
+      ppEarned: turn.completion?.ppEarned,
+      currentStreak: turn.completion?.currentStreak,
+      newBadges: turn.completion?.newBadges,
+    });
+  } catch (error: any) {
+    if (error?.name === "OpenAIUnavailableError") {
+      return handleOpenAIError(res, error);
+    }
+
+    if (error instanceof AiResponseValidationError) {
+      return handleAiResponseError(res, error);
+    }
+
+    if (error instanceof RehearsalError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    if (error instanceof SupabaseAuthError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    console.error("Error in rehearsal message:", error);
+    res.status(500).json({ message: "Failed to process rehearsal message" });
+  }
+}
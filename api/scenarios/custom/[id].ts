@@ -0,0 +1,69 @@
+import { storage } from "../../../lib/storage.js";
+import { requireSupabaseUser, SupabaseAuthError } from "../../../lib/supabaseServer.js";
+import { getJsonBody, getLastPathSegment, getQueryParam, type ReqLike, type ResLike } from "../../../lib/apiUtils.js";
+import { customScenarioInputSchema } from "../../../shared/schema.js";
+import { hasLintErrors, lintCustomScenario } from "../../../shared/scenarioLint.js";
+
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "GET" && req.method !== "PUT" && req.method !== "DELETE") {
+    res.setHeader("Allow", "GET, PUT, DELETE");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  try {
+    const user = await requireSupabaseUser(req);
+    const id = getQueryParam(req, "id") || getLastPathSegment(req);
+
+    if (!id) {
+      return res.status(400).json({ message: "Missing scenario id" });
+    }
+
+    const scenario = await storage.getCustomScenario(id);
+    const isOwner = scenario?.creatorId === user.id;
+    if (!scenario || (!isOwner && !scenario.isPublic)) {
+      return res.status(404).json({ message: "Scenario not found" });
+    }
+
+    if (req.method === "GET") {
+      return res.status(200).json(scenario);
+    }
+
+    if (!isOwner) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+
+    if (req.method === "DELETE") {
+      await storage.deleteCustomScenario(id);
+      return res.status(200).json({ success: true });
+    }
+
+    const parseResult = customScenarioInputSchema.partial().safeParse(getJsonBody(req));
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parseResult.error.flatten().fieldErrors,
+      });
+    }
+
+    const lint = lintCustomScenario({
+      prompt: parseResult.data.prompt ?? scenario.prompt,
+      handoffLines: parseResult.data.handoffLines ?? scenario.handoffLines,
+    });
+    if (hasLintErrors(lint)) {
+      return res.status(400).json({
+        message: "Scenario doesn't follow the Mirror Play Scenario Rules",
+        violations: lint,
+      });
+    }
+
+    const updated = await storage.updateCustomScenario(id, parseResult.data);
+    return res.status(200).json(updated);
+  } catch (error: any) {
+    if (error instanceof SupabaseAuthError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    console.error("Error handling custom scenario:", error);
+    return res.status(500).json({ message: "Failed to handle custom scenario" });
+  }
+}
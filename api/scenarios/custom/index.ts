@@ -0,0 +1,53 @@
+import { storage } from "../../../lib/storage.js";
+import { requireSupabaseUser, SupabaseAuthError } from "../../../lib/supabaseServer.js";
+import { getJsonBody, type ReqLike, type ResLike } from "../../../lib/apiUtils.js";
+import { customScenarioInputSchema } from "../../../shared/schema.js";
+import { hasLintErrors, lintCustomScenario } from "../../../shared/scenarioLint.js";
+
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", "GET, POST");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  try {
+    const user = await requireSupabaseUser(req);
+
+    if (req.method === "GET") {
+      const scenarios = await storage.getUserCustomScenarios(user.id);
+      return res.status(200).json(scenarios);
+    }
+
+    const parseResult = customScenarioInputSchema.safeParse(getJsonBody(req));
+    if (!parseResult.success) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: parseResult.error.flatten().fieldErrors,
+      });
+    }
+
+    const lint = lintCustomScenario(parseResult.data);
+    if (hasLintErrors(lint)) {
+      return res.status(400).json({
+        message: "Scenario doesn't follow the Mirror Play Scenario Rules",
+        violations: lint,
+      });
+    }
+
+    // Scenarios start private; sharing is a separate step.
+    const scenario = await storage.createCustomScenario({
+      ...parseResult.data,
+      creatorId: user.id,
+      isPublic: false,
+    });
+
+    return res.status(200).json(scenario);
+  } catch (error: any) {
+    if (error instanceof SupabaseAuthError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    console.error("Error handling custom scenarios:", error);
+    return res.status(500).json({ message: "Failed to handle custom scenarios" });
+  }
+}
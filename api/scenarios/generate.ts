@@ -0,0 +1,65 @@
+import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
+import { handleOpenAIError } from "../../lib/services/openaiClient.js";
+import { handleAiResponseError, AiResponseValidationError } from "../../lib/services/llmProvider.js";
+import { canAnalyze } from "../../lib/subscriptionLimits.js";
+import { getJsonBody, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
+import {
+  generatePersonalScenario,
+  MAX_SITUATION_LENGTH,
+  MIN_SITUATION_LENGTH,
+} from "../../lib/personalScenarios.js";
+
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  try {
+    const user = await requireSupabaseUser(req);
+    const body = getJsonBody(req);
+    const situation = typeof body?.situation === "string" ? body.situation.trim() : "";
+
+    if (situation.length < MIN_SITUATION_LENGTH) {
+      return res.status(400).json({ message: "Describe the situation in a sentence or two" });
+    }
+
+    if (situation.length > MAX_SITUATION_LENGTH) {
+      return res.status(400).json({ message: `Situation must be ${MAX_SITUATION_LENGTH} characters or fewer` });
+    }
+
+    const usageCheck = await canAnalyze(user.id);
+    if (!usageCheck.allowed) {
+      return res.status(402).json({
+        message: "Daily analysis limit reached. Upgrade your subscription for more analyses.",
+        tier: usageCheck.tier,
+        limit: usageCheck.limit,
+        usedToday: usageCheck.usedToday,
+        upgradeRequired: true,
+      });
+    }
+
+    const draft = await generatePersonalScenario(user.id, {
+      situation,
+      category: body?.category,
+      difficulty: body?.difficulty,
+    });
+
+    res.status(200).json(draft);
+  } catch (error: any) {
+    if (error?.name === "OpenAIUnavailableError") {
+      return handleOpenAIError(res, error);
+    }
+
+    if (error instanceof AiResponseValidationError) {
+      return handleAiResponseError(res, error);
+    }
+
+    if (error instanceof SupabaseAuthError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    console.error("Error generating scenario:", error);
+    res.status(500).json({ message: "Failed to generate scenario" });
+  }
+}
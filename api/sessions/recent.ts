@@ -1,5 +1,6 @@
 import { storage } from "../../lib/storage.js";
 import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
+import { withPlaybackUrls } from "../../lib/recordings.js";
 import { type ReqLike, type ResLike } from "../../lib/apiUtils.js";
 
 export default async function handler(req: ReqLike, res: ResLike) {
@@ -11,7 +12,7 @@ export default async function handler(req: ReqLike, res: ResLike) {
   try {
     const user = await requireSupabaseUser(req);
     const sessions = await storage.getPracticeSessions(user.id, 10);
-    res.status(200).json(sessions);
+    res.status(200).json(await withPlaybackUrls(user.id, sessions));
   } catch (error: any) {
     if (error instanceof SupabaseAuthError) {
       return res.status(error.status).json({ message: error.message });
@@ -1,6 +1,8 @@
 import { storage } from "../lib/storage.js";
 import { requireSupabaseUser, SupabaseAuthError } from "../lib/supabaseServer.js";
+import { isRecordingRetention } from "../lib/recordings.js";
 import { getJsonBody, type ReqLike, type ResLike } from "../lib/apiUtils.js";
+import type { InsertUserProgress } from "../shared/schema.js";
 
 export default async function handler(req: ReqLike, res: ResLike) {
   if (req.method !== "PATCH") {
@@ -11,16 +13,25 @@ export default async function handler(req: ReqLike, res: ResLike) {
   try {
     const user = await requireSupabaseUser(req);
     const body = getJsonBody(req);
-    const textInputEnabled = body?.textInputEnabled === true;
+
+    // Only the settings present in the body change.
+    const updates: Partial<InsertUserProgress> = {};
+    if (typeof body?.textInputEnabled === "boolean") {
+      updates.textInputEnabled = body.textInputEnabled;
+    }
+    if (body?.recordingRetention !== undefined) {
+      if (!isRecordingRetention(body.recordingRetention)) {
+        return res.status(400).json({ message: "recordingRetention must be 7d, 30d or forever" });
+      }
+      updates.recordingRetention = body.recordingRetention;
+    }
 
     let progress = await storage.getProgress(user.id);
     if (!progress) {
       progress = await storage.createProgress({ userId: user.id });
     }
 
-    const updated = await storage.updateProgress(user.id, {
-      textInputEnabled,
-    });
+    const updated = await storage.updateProgress(user.id, updates);
 
     res.status(200).json(updated);
   } catch (error: any) {
@@ -1,6 +1,7 @@
 import { storage } from "../lib/storage.js";
 import { requireSupabaseUser, SupabaseAuthError } from "../lib/supabaseServer.js";
 import { type ReqLike, type ResLike } from "../lib/apiUtils.js";
+import { normalizeTone, WEAK_TONE_THRESHOLD } from "../lib/toneStats.js";
 
 export default async function handler(req: ReqLike, res: ResLike) {
   if (req.method !== "GET") {
@@ -12,34 +13,6 @@ export default async function handler(req: ReqLike, res: ResLike) {
     const user = await requireSupabaseUser(req);
     const sessions = await storage.getPracticeSessions(user.id, 1000);
 
-    const canonicalTones = [
-      "calm",
-      "assertive",
-      "empathetic",
-      "confident",
-      "defensive",
-      "anxious",
-      "aggressive",
-      "passive",
-    ];
-
-    const toneAliases: Record<string, string> = {
-      empathic: "empathetic",
-      confidence: "confident",
-      assertion: "assertive",
-      "defensive behaviour": "defensive",
-    };
-
-    const normalizeTone = (tone: string): string | null => {
-      const normalized = tone.trim().toLowerCase();
-      if (toneAliases[normalized]) return toneAliases[normalized];
-      if (canonicalTones.includes(normalized)) return normalized;
-      for (const canonical of canonicalTones) {
-        if (normalized.includes(canonical)) return canonical;
-      }
-      return null;
-    };
-
     const toneStats: Map<
       string,
       { scores: number[]; bestScore: number; recentScores: number[] }
@@ -102,9 +75,9 @@ export default async function handler(req: ReqLike, res: ResLike) {
     });
 
     const sortedByScore = [...performances].sort((a, b) => b.averageScore - a.averageScore);
-    const strengths = sortedByScore.filter((p) => p.averageScore >= 70).slice(0, 3);
+    const strengths = sortedByScore.filter((p) => p.averageScore >= WEAK_TONE_THRESHOLD).slice(0, 3);
     const areasToImprove = sortedByScore
-      .filter((p) => p.averageScore < 70)
+      .filter((p) => p.averageScore < WEAK_TONE_THRESHOLD)
       .slice(-3)
       .reverse();
 
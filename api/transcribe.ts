@@ -1,5 +1,7 @@
 import { requireSupabaseUser, SupabaseAuthError } from "../lib/supabaseServer.js";
-import { requireOpenAI, handleOpenAIError } from "../lib/services/openaiClient.js";
+import { handleOpenAIError } from "../lib/services/openaiClient.js";
+import { transcribeWithTimeline } from "../lib/transcription.js";
+import { AudioUploadError, loadAudioUpload } from "../lib/audioUploads.js";
 import { getJsonBody, type ReqLike, type ResLike } from "../lib/apiUtils.js";
 
 export default async function handler(req: ReqLike, res: ResLike) {
@@ -9,31 +11,25 @@ export default async function handler(req: ReqLike, res: ResLike) {
   }
 
   try {
-    await requireSupabaseUser(req);
+    const user = await requireSupabaseUser(req);
     const body = getJsonBody(req);
-    const audioBase64 = body?.audioBase64 as string | undefined;
+    const uploadId = body?.uploadId as string | undefined;
+    const language = body?.language as string | undefined;
 
-    if (!audioBase64) {
-      return res.status(400).json({ message: "Audio data is required" });
+    if (!uploadId) {
+      return res.status(400).json({ message: "Upload ID is required" });
     }
 
-    const audioBuffer = Buffer.from(audioBase64, "base64");
-    const audioFile = new File([audioBuffer], "audio.webm", { type: "audio/webm" });
+    const { audio, format } = await loadAudioUpload(user.id, uploadId);
+    const transcription = await transcribeWithTimeline(audio, { mimeType: format.mimeType, language });
 
-    const transcription = await requireOpenAI().audio.transcriptions.create({
-      file: audioFile,
-      model: "whisper-1",
-    });
-
-    const text = transcription.text;
-
-    if (!text || text.trim().length === 0) {
+    if (!transcription.text || transcription.text.trim().length === 0) {
       return res.status(400).json({
         message: "Could not transcribe audio. Please try speaking more clearly.",
       });
     }
 
-    res.status(200).json({ text });
+    res.status(200).json(transcription);
   } catch (error: any) {
     if (error?.name === "OpenAIUnavailableError") {
       return handleOpenAIError(res, error);
@@ -43,6 +39,10 @@ export default async function handler(req: ReqLike, res: ResLike) {
       return res.status(error.status).json({ message: error.message });
     }
 
+    if (error instanceof AudioUploadError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
     console.error("Error transcribing audio:", error);
     res.status(500).json({ message: "Failed to transcribe audio" });
   }
@@ -1,7 +1,8 @@
 import { storage } from "../lib/storage.js";
 import { requireSupabaseUser, SupabaseAuthError } from "../lib/supabaseServer.js";
-import { textToSpeech, isElevenLabsAvailable, type TtsSection } from "../lib/elevenLabsClient.js";
+import { isTtsAvailable, synthesizeSpeech, TTS_SECTIONS, type TtsSection } from "../lib/services/ttsProvider.js";
 import { getJsonBody, type ReqLike, type ResLike } from "../lib/apiUtils.js";
+import { resolvePracticeDifficulty } from "../lib/skillRating.js";
 
 export default async function handler(req: ReqLike, res: ResLike) {
   if (req.method !== "POST") {
@@ -15,51 +16,48 @@ export default async function handler(req: ReqLike, res: ResLike) {
     const text = body?.text as string | undefined;
     const voiceId = body?.voiceId as string | undefined;
     const section = body?.section as TtsSection | string | undefined;
-    const difficulty = body?.difficulty as
-      | "beginner"
-      | "intermediate"
-      | "advanced"
-      | string
-      | undefined;
+    const category = body?.category as string | undefined;
+    const handoffId = body?.handoffId as string | undefined;
 
     if (!text || typeof text !== "string") {
       return res.status(400).json({ message: "Text is required" });
     }
 
-    if (!isElevenLabsAvailable()) {
+    if (!isTtsAvailable()) {
       return res.status(503).json({ message: "TTS not available" });
     }
 
     const prefs = await storage.getUserVoicePreferences(user.id);
-    const selectedVoiceId = voiceId || prefs?.selectedVoiceId || "21m00Tcm4TlvDq8ikWAM";
+    const selectedVoiceId = voiceId || prefs?.selectedVoiceId;
 
-    const allowedSections: TtsSection[] = [
-      "general",
-      "scenario",
-      "analysis-what",
-      "analysis-how",
-      "analysis-reframe",
-    ];
-    const sectionHint: TtsSection = allowedSections.includes(section as TtsSection)
+    const sectionHint: TtsSection = TTS_SECTIONS.includes(section as TtsSection)
       ? (section as TtsSection)
       : "general";
 
-    const difficultyHint =
-      difficulty === "beginner" || difficulty === "advanced"
-        ? difficulty
-        : "intermediate";
+    // Without an explicit difficulty, the delivery follows the handoff or the
+    // user's skill rating in the category.
+    const difficultyHint = await resolvePracticeDifficulty(user.id, {
+      difficulty: body?.difficulty,
+      handoffId,
+      category,
+    });
 
-    const audioBuffer = await textToSpeech(text.slice(0, 500), selectedVoiceId, {
+    const result = await synthesizeSpeech(text.slice(0, 500), {
       section: sectionHint,
       difficulty: difficultyHint,
+      voiceId: selectedVoiceId,
+      provider: prefs?.ttsProvider,
     });
 
-    if (!audioBuffer) {
+    if (!result) {
       return res.status(500).json({ message: "Failed to generate speech" });
     }
 
-    const audioBase64 = audioBuffer.toString("base64");
-    res.status(200).json({ audio: audioBase64 });
+    res.status(200).json({
+      audio: result.audio.toString("base64"),
+      mimeType: result.mimeType,
+      provider: result.provider,
+    });
   } catch (error: any) {
     if (error instanceof SupabaseAuthError) {
       return res.status(error.status).json({ message: error.message });
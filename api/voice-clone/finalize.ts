@@ -1,9 +1,39 @@
-import { type ReqLike, type ResLike } from "../../lib/apiUtils.js";
+import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
+import { AudioUploadError } from "../../lib/audioUploads.js";
+import { finalizeVoiceClone, VoiceCloneError } from "../../lib/voiceCloning.js";
+import { getJsonBody, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
 
-export default async function handler(_req: ReqLike, res: ResLike) {
-  return res.status(501).json({
-    error: "Not implemented",
-    feature: "voice-clone-finalize",
-  });
-}
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  try {
+    const user = await requireSupabaseUser(req);
+    const body = getJsonBody(req);
+    const voiceCloneId = body?.voiceCloneId as string | undefined;
+    if (!voiceCloneId) {
+      return res.status(400).json({ message: "Voice clone ID is required" });
+    }
+
+    // Cloning failures come back as a clone with status "failed".
+    const voiceClone = await finalizeVoiceClone(user.id, voiceCloneId);
+    res.status(200).json({ voiceClone });
+  } catch (error: any) {
+    if (error instanceof SupabaseAuthError) {
+      return res.status(error.status).json({ message: error.message });
+    }
 
+    if (error instanceof VoiceCloneError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    if (error instanceof AudioUploadError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    console.error("Error finalizing voice clone:", error);
+    res.status(500).json({ message: "Failed to finalize voice clone" });
+  }
+}
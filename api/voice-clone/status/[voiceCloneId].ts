@@ -1,8 +1,32 @@
-import { type ReqLike, type ResLike } from "../../../lib/apiUtils.js";
+import { requireSupabaseUser, SupabaseAuthError } from "../../../lib/supabaseServer.js";
+import { getVoiceCloneStatus, VoiceCloneError } from "../../../lib/voiceCloning.js";
+import { getLastPathSegment, getQueryParam, type ReqLike, type ResLike } from "../../../lib/apiUtils.js";
 
-export default async function handler(_req: ReqLike, res: ResLike) {
-  return res.status(501).json({
-    error: "Not implemented",
-    feature: "voice-clone-status",
-  });
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  try {
+    const user = await requireSupabaseUser(req);
+    const voiceCloneId = getQueryParam(req, "voiceCloneId") || getLastPathSegment(req);
+    if (!voiceCloneId) {
+      return res.status(400).json({ message: "Voice clone ID is required" });
+    }
+
+    const status = await getVoiceCloneStatus(user.id, voiceCloneId);
+    res.status(200).json(status);
+  } catch (error: any) {
+    if (error instanceof SupabaseAuthError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    if (error instanceof VoiceCloneError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    console.error("Error fetching voice clone status:", error);
+    res.status(500).json({ message: "Failed to fetch voice clone status" });
+  }
 }
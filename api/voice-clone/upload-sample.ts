@@ -1,9 +1,54 @@
-import { type ReqLike, type ResLike } from "../../lib/apiUtils.js";
+import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
+import { AudioUploadError } from "../../lib/audioUploads.js";
+import { addVoiceCloneSample, removeVoiceCloneSample, VoiceCloneError } from "../../lib/voiceCloning.js";
+import { getJsonBody, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
 
-export default async function handler(_req: ReqLike, res: ResLike) {
-  return res.status(501).json({
-    error: "Not implemented",
-    feature: "voice-clone-upload-sample",
-  });
-}
+// POST { voiceCloneId, uploadId } adds a recording from /api/audio/upload as
+// a sample; DELETE { voiceCloneId, sampleId } removes one.
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "POST" && req.method !== "DELETE") {
+    res.setHeader("Allow", "POST, DELETE");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  try {
+    const user = await requireSupabaseUser(req);
+    const body = getJsonBody(req);
+    const voiceCloneId = body?.voiceCloneId as string | undefined;
+    if (!voiceCloneId) {
+      return res.status(400).json({ message: "Voice clone ID is required" });
+    }
+
+    if (req.method === "DELETE") {
+      const sampleId = body?.sampleId as string | undefined;
+      if (!sampleId) {
+        return res.status(400).json({ message: "Sample ID is required" });
+      }
+      const voiceClone = await removeVoiceCloneSample(user.id, voiceCloneId, sampleId);
+      return res.status(200).json({ voiceClone });
+    }
+
+    const uploadId = body?.uploadId as string | undefined;
+    if (!uploadId) {
+      return res.status(400).json({ message: "Upload ID is required" });
+    }
 
+    const result = await addVoiceCloneSample(user.id, voiceCloneId, uploadId);
+    res.status(200).json(result);
+  } catch (error: any) {
+    if (error instanceof SupabaseAuthError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    if (error instanceof VoiceCloneError) {
+      return res.status(error.status).json({ message: error.message, issues: error.issues });
+    }
+
+    if (error instanceof AudioUploadError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    console.error("Error handling voice clone sample:", error);
+    res.status(500).json({ message: "Failed to handle voice clone sample" });
+  }
+}
@@ -1,9 +1,60 @@
-import { type ReqLike, type ResLike } from "../../lib/apiUtils.js";
+import { storage } from "../../lib/storage.js";
+import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
+import { AudioUploadError } from "../../lib/audioUploads.js";
+import { createVoiceCloneFromRecordings, removeVoiceClone, VoiceCloneError } from "../../lib/voiceCloning.js";
+import { getJsonBody, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
 
-export default async function handler(_req: ReqLike, res: ResLike) {
-  return res.status(501).json({
-    error: "Not implemented",
-    feature: "voice-clone-legacy",
-  });
-}
+// The one-call form of /api/voice-clone/*: POST { consent, uploadIds, name? }
+// checks every recording, then starts a clone, adds them and finalizes it.
+// DELETE removes the user's active clone (or the newest one).
+export default async function handler(req: ReqLike, res: ResLike) {
+  if (req.method !== "POST" && req.method !== "DELETE") {
+    res.setHeader("Allow", "POST, DELETE");
+    return res.status(405).json({ message: "Method Not Allowed" });
+  }
+
+  try {
+    const user = await requireSupabaseUser(req);
+
+    if (req.method === "DELETE") {
+      const clones = await storage.getUserVoiceClones(user.id);
+      const clone = clones.find(c => c.isDefault) ?? clones[0];
+      if (!clone) {
+        return res.status(404).json({ message: "Voice clone not found" });
+      }
+      await removeVoiceClone(user.id, clone.id);
+      return res.status(200).json({ success: true });
+    }
+
+    const body = getJsonBody(req);
+    const uploadIds = Array.isArray(body?.uploadIds)
+      ? body.uploadIds.filter((id: unknown): id is string => typeof id === "string")
+      : [];
+    if (uploadIds.length === 0) {
+      return res.status(400).json({ message: "Upload IDs are required" });
+    }
+
+    const voiceClone = await createVoiceCloneFromRecordings(
+      user.id,
+      { name: body?.name || "My Voice", description: body?.description, consent: body?.consent },
+      uploadIds
+    );
 
+    res.status(200).json({ voiceClone });
+  } catch (error: any) {
+    if (error instanceof SupabaseAuthError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    if (error instanceof VoiceCloneError) {
+      return res.status(error.status).json({ message: error.message, issues: error.issues });
+    }
+
+    if (error instanceof AudioUploadError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+
+    console.error("Error handling voice clone:", error);
+    res.status(500).json({ message: "Failed to handle voice clone" });
+  }
+}
@@ -1,4 +1,5 @@
-import { isElevenLabsAvailable, textToSpeech } from "../../../lib/elevenLabsClient.js";
+import { isElevenLabsAvailable } from "../../../lib/elevenLabsClient.js";
+import { synthesizeSpeech } from "../../../lib/services/ttsProvider.js";
 import { getLastPathSegment, getQueryParam, type ReqLike, type ResLike } from "../../../lib/apiUtils.js";
 
 export default async function handler(req: ReqLike, res: ResLike) {
@@ -18,17 +19,20 @@ export default async function handler(req: ReqLike, res: ResLike) {
       return res.status(503).json({ message: "TTS not available" });
     }
 
-    const audioBuffer = await textToSpeech(
-      "Hello, I'm your AI companion. How can I help you today?",
+    // Samples preview an ElevenLabs voice, so there is no fallback here.
+    const result = await synthesizeSpeech("Hello, I'm your AI companion. How can I help you today?", {
+      section: "general",
       voiceId,
-      { section: "general" }
-    );
+      provider: "elevenlabs",
+      fallback: false,
+    });
 
-    if (!audioBuffer) {
+    if (!result) {
       return res.status(500).json({ message: "Failed to generate sample" });
     }
 
-    res.setHeader("Content-Type", "audio/mpeg");
+    const audioBuffer = result.audio;
+    res.setHeader("Content-Type", result.mimeType);
     if (res.end) {
       res.status(200);
       return res.end(audioBuffer);
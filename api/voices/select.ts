@@ -1,5 +1,6 @@
 import { storage } from "../../lib/storage.js";
 import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
+import { isTtsProviderName } from "../../lib/services/ttsProvider.js";
 import { getJsonBody, type ReqLike, type ResLike } from "../../lib/apiUtils.js";
 
 export default async function handler(req: ReqLike, res: ResLike) {
@@ -13,14 +14,21 @@ export default async function handler(req: ReqLike, res: ResLike) {
     const body = getJsonBody(req);
     const voiceId = body?.voiceId as string | undefined;
     const ttsEnabled = body?.ttsEnabled;
+    const ttsProvider = body?.ttsProvider;
 
     if (!voiceId) {
       return res.status(400).json({ message: "Voice ID is required" });
     }
 
+    // Omitted leaves the saved provider; null clears it.
+    if (ttsProvider !== undefined && ttsProvider !== null && !isTtsProviderName(ttsProvider)) {
+      return res.status(400).json({ message: "Unknown TTS provider" });
+    }
+
     const prefs = await storage.upsertUserVoicePreferences(user.id, {
       selectedVoiceId: voiceId,
       ttsEnabled: ttsEnabled !== false,
+      ...(ttsProvider !== undefined ? { ttsProvider } : {}),
     });
 
     res.status(200).json({ success: true, preferences: prefs });
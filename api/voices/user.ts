@@ -1,6 +1,7 @@
 import { storage } from "../../lib/storage.js";
 import { requireSupabaseUser, SupabaseAuthError } from "../../lib/supabaseServer.js";
-import { isElevenLabsAvailable } from "../../lib/elevenLabsClient.js";
+import { getAvailableTtsProviders, isTtsAvailable } from "../../lib/services/ttsProvider.js";
+import { VOICE_CLONE_CONSENT_TEXT, VOICE_CLONE_REQUIREMENTS } from "../../lib/voiceCloning.js";
 import { type ReqLike, type ResLike } from "../../lib/apiUtils.js";
 
 export default async function handler(req: ReqLike, res: ResLike) {
@@ -17,7 +18,10 @@ export default async function handler(req: ReqLike, res: ResLike) {
     res.status(200).json({
       preferences: prefs || { selectedVoiceId: "21m00Tcm4TlvDq8ikWAM", ttsEnabled: true },
       voiceClones,
-      ttsAvailable: isElevenLabsAvailable(),
+      ttsAvailable: isTtsAvailable(),
+      ttsProviders: getAvailableTtsProviders(),
+      voiceCloneConsent: VOICE_CLONE_CONSENT_TEXT,
+      voiceCloneRequirements: VOICE_CLONE_REQUIREMENTS,
     });
   } catch (error: any) {
     if (error instanceof SupabaseAuthError) {
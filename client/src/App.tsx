@@ -36,6 +36,7 @@ import ToneJourney from "@/pages/ToneJourney";
 import NotFound from "@/pages/not-found";
 import VoiceSettings from "@/FutureFeatures/pages/VoiceSettings";
 import AdminFeedback from "@/pages/AdminFeedback";
+import AdminContent from "@/pages/AdminContent";
 
 const pageTransition = {
   initial: { opacity: 0, y: 12 },
@@ -84,6 +85,7 @@ function AnimatedRoutes() {
           <Route path="/faq" component={FAQ} />
           <Route path="/privacy" component={Privacy} />
           <Route path="/admin/feedback" component={AdminFeedback} />
+          <Route path="/admin/content" component={AdminContent} />
           
           <Route component={NotFound} />
         </Switch>
@@ -3,6 +3,7 @@ import { motion, AnimatePresence } from "framer-motion";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { cn } from "@/lib/utils";
+import { detectFillersInText } from "@shared/fillers";
 import { 
   Activity, 
   MessageCircle, 
@@ -46,11 +47,6 @@ const POSITIVE_WORDS = [
   "love", "care", "respect", "value", "trust", "confident", "hope"
 ];
 
-const FILLER_WORDS = [
-  "um", "uh", "like", "you know", "basically", "actually", "literally",
-  "kind of", "sort of", "i mean", "just"
-];
-
 function analyzeMessages(messages: Message[]): CoachingMetrics {
   const userMessages = messages.filter(m => m.role === "user");
   const allUserText = userMessages.map(m => m.content).join(" ").toLowerCase();
@@ -58,7 +54,7 @@ function analyzeMessages(messages: Message[]): CoachingMetrics {
   const wordCount = words.length;
 
   let positiveCount = 0;
-  let fillerCount = 0;
+  const fillerCount = userMessages.reduce((sum, m) => sum + detectFillersInText(m.content).length, 0);
   let questionCount = 0;
   let iStatementCount = 0;
 
@@ -68,12 +64,6 @@ function analyzeMessages(messages: Message[]): CoachingMetrics {
     if (matches) positiveCount += matches.length;
   });
 
-  FILLER_WORDS.forEach(fw => {
-    const regex = new RegExp(`\\b${fw}\\b`, "gi");
-    const matches = allUserText.match(regex);
-    if (matches) fillerCount += matches.length;
-  });
-
   userMessages.forEach(m => {
     if (m.content.includes("?")) questionCount++;
     const iRegex = /\bi\s+(feel|think|believe|want|need|am|would|understand)/gi;
@@ -5,14 +5,14 @@ import { GlassCard } from "@/components/GlassCard";
 import { MysticalOrb } from "@/components/MysticalOrb";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiEventStream, apiRequest, queryClient } from "@/lib/queryClient";
+import { transcribeRecording } from "@/lib/audioUpload";
 import { useToast } from "@/hooks/use-toast";
 import { 
   Send, 
   Loader2, 
   ChevronLeft,
   Sparkles,
-  RefreshCw,
   Volume2,
   VolumeX,
   Play,
@@ -23,9 +23,11 @@ import {
   TrendingUp,
   History,
   Mic,
-  Square
+  Square,
+  Plus,
+  MessagesSquare
 } from "lucide-react";
-import { Link } from "wouter";
+import { Link, useSearch } from "wouter";
 import { cn } from "@/lib/utils";
 import {
   Popover,
@@ -48,8 +50,24 @@ interface Message {
 
 interface Conversation {
   id: string;
+  title: string | null;
   messages: Message[];
   emotionState: string;
+  updatedAt: string;
+}
+
+// The `done` event of a streamed reply.
+interface ChatReply {
+  message: string;
+  conversationId: string;
+  title: string | null;
+}
+
+// A reply while it streams in, shown after the user's message until the
+// conversation is refetched.
+interface StreamingReply {
+  message: string;
+  reply: string;
 }
 
 interface Voice {
@@ -84,6 +102,7 @@ interface GreetingContext {
 interface GreetingResponse {
   greeting: string;
   audio: string | null;
+  audioMimeType?: string | null;
   conversationId: string;
   context: GreetingContext;
   ttsAvailable: boolean;
@@ -120,19 +139,30 @@ const QUICK_START_CATEGORIES = {
   },
 };
 
+const UNTITLED_THREAD = "New conversation";
+
 export default function Chat() {
   const { toast } = useToast();
+  const searchString = useSearch();
+  // The open thread; until one is picked, the latest active thread.
+  const [threadId, setThreadId] = useState<string | null>(
+    () => new URLSearchParams(searchString).get("thread")
+  );
+  const [threadsOpen, setThreadsOpen] = useState(false);
   const [input, setInput] = useState("");
   const [ttsEnabled, setTtsEnabled] = useState(true);
   const [playingAudio, setPlayingAudio] = useState<string | null>(null);
   const [selectedVoiceId, setSelectedVoiceId] = useState<string>("21m00Tcm4TlvDq8ikWAM");
-  const [messageAudios, setMessageAudios] = useState<Record<number, string>>({});
+  // Audio clips per assistant message; streamed replies have one per sentence.
+  const [messageAudios, setMessageAudios] = useState<Record<number, string[]>>({});
+  const [streamingReply, setStreamingReply] = useState<StreamingReply | null>(null);
   const [greetingContext, setGreetingContext] = useState<GreetingContext | null>(null);
   const [greetingFetched, setGreetingFetched] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [isTranscribing, setIsTranscribing] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const audioQueueRef = useRef<string[]>([]);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const streamRef = useRef<MediaStream | null>(null);
@@ -140,10 +170,51 @@ export default function Chat() {
   const ttsAvailableRef = useRef(false);
   const selectedVoiceIdRef = useRef(selectedVoiceId);
 
-  const { data: conversation, isLoading: conversationLoading } = useQuery<Conversation>({
-    queryKey: ["/api/chat/conversation"],
+  const { data: conversation, isLoading: conversationLoading, isError: conversationMissing } = useQuery<Conversation>({
+    queryKey: threadId ? ["/api/chat/threads", threadId] : ["/api/chat/conversation"],
+  });
+
+  const { data: threads = [] } = useQuery<Conversation[]>({
+    queryKey: ["/api/chat/threads"],
   });
 
+  // Pin the latest thread once it loads so later messages stay in it. A
+  // thread that was deleted elsewhere falls back to the latest one.
+  useEffect(() => {
+    if (!threadId && conversation) {
+      queryClient.setQueryData(["/api/chat/threads", conversation.id], conversation);
+      setThreadId(conversation.id);
+    } else if (threadId && conversationMissing) {
+      queryClient.removeQueries({ queryKey: ["/api/chat/conversation"] });
+      setThreadId(null);
+    }
+  }, [threadId, conversation, conversationMissing]);
+
+  const refreshThreads = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/threads"] }),
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/conversation"] }),
+    ]);
+
+  const stopAudio = () => {
+    audioQueueRef.current = [];
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current = null;
+    }
+    setPlayingAudio(null);
+  };
+
+  const openThread = (id: string) => {
+    setThreadsOpen(false);
+    if (id === threadId) return;
+    stopAudio();
+    setThreadId(id);
+    setMessageAudios({});
+    setGreetingFetched(false);
+    setGreetingContext(null);
+  };
+
   const { data: voicesData } = useQuery<VoicesResponse>({
     queryKey: ["/api/voices"],
   });
@@ -190,45 +261,43 @@ export default function Chat() {
     };
   }, []);
 
+  // Streams the reply: text fills in token by token, and with voice on each
+  // sentence's audio is queued to play as soon as it arrives.
   const sendMutation = useMutation({
     mutationFn: async (message: string) => {
       // Use refs to get current values (avoids closure issues)
       const useTts = ttsEnabledRef.current && ttsAvailableRef.current;
       const voiceId = selectedVoiceIdRef.current;
-      
-      console.log("Sending message, ttsEnabled:", ttsEnabledRef.current, "ttsAvailable:", ttsAvailableRef.current, "voiceId:", voiceId);
-      if (useTts) {
-        console.log("Using audio endpoint");
-        const res = await apiRequest("POST", "/api/chat/message/audio", { 
-          message,
-          voiceId
-        });
-        const data = await res.json();
-        console.log("Audio response:", { hasAudio: !!data.audio, audioLength: data.audio?.length });
-        return data;
-      } else {
-        console.log("Using text-only endpoint");
-        const res = await apiRequest("POST", "/api/chat/message", { message });
-        return res.json();
-      }
+      // +1 because user message is at currentLength, assistant at currentLength+1
+      const assistantMessageIndex = (conversation?.messages?.length || 0) + 1;
+
+      setStreamingReply({ message, reply: "" });
+      return apiEventStream<ChatReply>(
+        useTts ? "/api/chat/message/audio" : "/api/chat/message",
+        { message, conversationId: conversation?.id, ...(useTts ? { voiceId } : {}) },
+        (event, payload) => {
+          if (event === "token") {
+            setStreamingReply(prev => prev && { ...prev, reply: prev.reply + payload.text });
+          } else if (event === "audio" && payload.audio && ttsEnabledRef.current) {
+            // Sentences with nothing spoken arrive with no audio and are skipped
+            const audioUrl = `data:${payload.audioMimeType || "audio/mpeg"};base64,${payload.audio}`;
+            setMessageAudios(prev => ({
+              ...prev,
+              [assistantMessageIndex]: [...(prev[assistantMessageIndex] || []), audioUrl],
+            }));
+            queueAudio(audioUrl, assistantMessageIndex);
+          }
+        }
+      );
     },
-    onSuccess: async (data) => {
+    onSuccess: async () => {
       setInput("");
-      console.log("Message sent success, audio present:", !!data.audio, "ttsEnabled ref:", ttsEnabledRef.current);
-      
-      if (data.audio && ttsEnabledRef.current) {
-        // Store audio immediately before invalidating query
-        const currentLength = (conversation?.messages?.length || 0);
-        const assistantMessageIndex = currentLength + 1; // +1 because user message is at currentLength, assistant at currentLength+1
-        console.log("Storing and playing audio for index:", assistantMessageIndex);
-        setMessageAudios(prev => ({ ...prev, [assistantMessageIndex]: data.audio }));
-        playAudio(data.audio, assistantMessageIndex);
-      }
-      
-      // Invalidate after storing audio so we have the data ready
-      await queryClient.invalidateQueries({ queryKey: ["/api/chat/conversation"] });
+      // Refetch before dropping the streamed copy so the reply doesn't flicker
+      await refreshThreads();
+      setStreamingReply(null);
     },
     onError: () => {
+      setStreamingReply(null);
       toast({
         title: "Failed to send message",
         description: "Please try again",
@@ -237,19 +306,25 @@ export default function Chat() {
     },
   });
 
-  const resetMutation = useMutation({
+  const newThreadMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("POST", "/api/chat/reset");
-      return res.json();
+      const res = await apiRequest("POST", "/api/chat/threads", {});
+      return res.json() as Promise<Conversation>;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/chat/conversation"] });
-      setMessageAudios({});
-      setGreetingFetched(false);
-      setGreetingContext(null);
+    onSuccess: (created) => {
+      queryClient.setQueryData(["/api/chat/threads", created.id], created);
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/threads"], exact: true });
+      openThread(created.id);
+      toast({
+        title: "New conversation",
+        description: "Your earlier conversations are in the thread list",
+      });
+    },
+    onError: () => {
       toast({
-        title: "Conversation reset",
-        description: "Started a fresh conversation",
+        title: "Couldn't start a new conversation",
+        description: "Please try again",
+        variant: "destructive",
       });
     },
   });
@@ -266,7 +341,7 @@ export default function Chat() {
 
   // Greeting mutation for personalized welcome
   const greetingMutation = useMutation({
-    mutationFn: async (options: { includeTts: boolean; voiceId?: string }) => {
+    mutationFn: async (options: { includeTts: boolean; voiceId?: string; conversationId?: string }) => {
       const res = await apiRequest("POST", "/api/chat/greeting", options);
       return res.json() as Promise<GreetingResponse>;
     },
@@ -276,12 +351,16 @@ export default function Chat() {
       
       // Play greeting audio if available and TTS is enabled
       if (data.audio && ttsEnabledRef.current) {
-        setMessageAudios({ 0: data.audio });
-        playAudio(data.audio, 0);
+        const audioUrl = `data:${data.audioMimeType || "audio/mpeg"};base64,${data.audio}`;
+        setMessageAudios({ 0: [audioUrl] });
+        playAudio([audioUrl], 0);
       }
       
       // Refresh conversation to include the greeting message
-      await queryClient.invalidateQueries({ queryKey: ["/api/chat/conversation"] });
+      if (data.conversationId !== threadId) {
+        setThreadId(data.conversationId);
+      }
+      await refreshThreads();
     },
     onError: () => {
       setGreetingFetched(true); // Mark as fetched even on error to prevent retries
@@ -301,16 +380,18 @@ export default function Chat() {
       greetingMutation.mutate({
         includeTts: shouldUseTts,
         voiceId: selectedVoiceIdRef.current,
+        conversationId: conversation.id,
       });
     }
   }, [conversationLoading, conversation, greetingFetched, greetingMutation.isPending]);
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [conversation?.messages]);
+  }, [conversation?.messages, streamingReply]);
 
-  const playAudio = (audioBase64: string, messageIndex: number) => {
-    console.log("Playing audio for message", messageIndex, "audio length:", audioBase64?.length);
+  // Plays a message's clips back to back.
+  const playAudio = (audioUrls: string[], messageIndex: number) => {
+    console.log("Playing audio for message", messageIndex, "clips:", audioUrls.length);
     
     // Stop and clean up any existing audio
     if (audioRef.current) {
@@ -323,8 +404,27 @@ export default function Chat() {
       audioRef.current = null;
     }
 
-    const audio = new Audio(`data:audio/mpeg;base64,${audioBase64}`);
+    const [first, ...rest] = audioUrls;
+    audioQueueRef.current = rest;
+    if (first) playClip(first, messageIndex);
+  };
+
+  const playClip = (audioUrl: string, messageIndex: number) => {
+    const audio = new Audio(audioUrl);
     audioRef.current = audio;
+
+    // Moves on from this clip once, however it finished; does nothing if
+    // playback was stopped or replaced in the meantime.
+    const playNext = () => {
+      if (audioRef.current !== audio) return;
+      const next = audioQueueRef.current.shift();
+      if (next) {
+        playClip(next, messageIndex);
+      } else {
+        setPlayingAudio(null);
+        audioRef.current = null;
+      }
+    };
     
     audio.onplay = () => {
       console.log("Audio started playing");
@@ -332,24 +432,42 @@ export default function Chat() {
     };
     audio.onended = () => {
       console.log("Audio ended");
-      setPlayingAudio(null);
-      audioRef.current = null;
+      playNext();
     };
     audio.onpause = () => setPlayingAudio(null);
-    audio.onerror = (e) => console.error("Audio error:", e);
+    audio.onerror = (e) => {
+      console.error("Audio error:", e);
+      playNext();
+    };
     
-    audio.play().catch((e) => console.error("Audio play error:", e));
+    // A rejected play() (autoplay policy) fires neither onended nor onerror,
+    // so release the player here or later sentences would queue forever.
+    audio.play().catch((e) => {
+      console.error("Audio play error:", e);
+      playNext();
+    });
+  };
+
+  // A streamed sentence: starts playing if nothing is, otherwise waits its turn.
+  const queueAudio = (audioUrl: string, messageIndex: number) => {
+    if (audioRef.current) {
+      audioQueueRef.current.push(audioUrl);
+    } else {
+      playClip(audioUrl, messageIndex);
+    }
   };
 
   const toggleAudio = (messageIndex: number) => {
-    const audioBase64 = messageAudios[messageIndex];
-    if (!audioBase64) return;
+    const audioUrls = messageAudios[messageIndex];
+    if (!audioUrls?.length) return;
 
     if (playingAudio === String(messageIndex) && audioRef.current) {
+      audioQueueRef.current = [];
       audioRef.current.pause();
+      audioRef.current = null;
       setPlayingAudio(null);
     } else {
-      playAudio(audioBase64, messageIndex);
+      playAudio(audioUrls, messageIndex);
     }
   };
 
@@ -382,28 +500,22 @@ export default function Chat() {
         
         if (audioChunksRef.current.length > 0) {
           setIsTranscribing(true);
-          const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-          
-          const reader = new FileReader();
-          reader.onloadend = async () => {
-            const base64 = (reader.result as string).split(',')[1];
-            try {
-              const res = await apiRequest("POST", "/api/transcribe", { audioBase64: base64 });
-              const data = await res.json();
-              if (data.text) {
-                setInput(data.text);
-              }
-            } catch {
-              toast({
-                title: "Transcription failed",
-                description: "Could not convert your speech to text. Please try again.",
-                variant: "destructive",
-              });
-            } finally {
-              setIsTranscribing(false);
+          const audioBlob = new Blob(audioChunksRef.current, { type: mediaRecorder.mimeType || 'audio/webm' });
+
+          try {
+            const data = await transcribeRecording(audioBlob);
+            if (data.text) {
+              setInput(data.text);
             }
-          };
-          reader.readAsDataURL(audioBlob);
+          } catch {
+            toast({
+              title: "Transcription failed",
+              description: "Could not convert your speech to text. Please try again.",
+              variant: "destructive",
+            });
+          } finally {
+            setIsTranscribing(false);
+          }
         }
       };
 
@@ -460,13 +572,61 @@ export default function Chat() {
           />
           <div>
             <h1 className="font-semibold">Mirror AI</h1>
-            <p className="text-xs text-muted-foreground">
-              Your emotional intelligence companion
+            <p className="text-xs text-muted-foreground line-clamp-1" data-testid="text-thread-title">
+              {conversation?.title || (conversation?.messages.length ? UNTITLED_THREAD : "Your emotional intelligence companion")}
             </p>
           </div>
         </div>
 
         <div className="flex items-center gap-1">
+          {/* Thread Switcher */}
+          <Popover open={threadsOpen} onOpenChange={setThreadsOpen}>
+            <PopoverTrigger asChild>
+              <Button 
+                variant="ghost" 
+                size="icon"
+                data-testid="button-threads"
+              >
+                <MessagesSquare className="w-4 h-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 p-2" align="end">
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full justify-start mb-2"
+                onClick={() => newThreadMutation.mutate()}
+                disabled={newThreadMutation.isPending}
+                data-testid="button-new-thread-menu"
+              >
+                <Plus className="w-3 h-3 mr-2" /> New conversation
+              </Button>
+              <div className="max-h-72 overflow-y-auto space-y-1">
+                {threads.map((thread) => (
+                  <button
+                    key={thread.id}
+                    onClick={() => openThread(thread.id)}
+                    className={cn(
+                      "w-full text-left rounded-md px-2 py-1.5 text-sm hover:bg-muted/50 transition-colors",
+                      thread.id === threadId && "bg-muted"
+                    )}
+                    data-testid={`button-thread-${thread.id}`}
+                  >
+                    <span className="block line-clamp-1">{thread.title || UNTITLED_THREAD}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {thread.messages.length} messages
+                    </span>
+                  </button>
+                ))}
+              </div>
+              <Link href="/chat/history">
+                <Button variant="ghost" size="sm" className="w-full mt-2" data-testid="link-manage-threads">
+                  Search & manage
+                </Button>
+              </Link>
+            </PopoverContent>
+          </Popover>
+
           {/* History Link */}
           <Link href="/chat/history">
             <Button 
@@ -559,14 +719,15 @@ export default function Chat() {
           <Button 
             variant="ghost" 
             size="icon"
-            onClick={() => resetMutation.mutate()}
-            disabled={resetMutation.isPending}
-            data-testid="button-reset"
+            onClick={() => newThreadMutation.mutate()}
+            disabled={newThreadMutation.isPending}
+            data-testid="button-new-thread"
           >
-            <RefreshCw className={cn(
-              "w-4 h-4",
-              resetMutation.isPending && "animate-spin"
-            )} />
+            {newThreadMutation.isPending ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Plus className="w-4 h-4" />
+            )}
           </Button>
         </div>
       </motion.header>
@@ -582,7 +743,7 @@ export default function Chat() {
               </span>
             </div>
           </div>
-        ) : messages.length === 0 ? (
+        ) : messages.length === 0 && !streamingReply ? (
           <motion.div 
             className="flex flex-col items-center justify-center h-full text-center px-4"
             initial={{ opacity: 0, scale: 0.9 }}
@@ -698,21 +859,37 @@ export default function Chat() {
               </motion.div>
             ))}
             
-            {sendMutation.isPending && (
-              <motion.div
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                className="flex justify-start"
-              >
-                <div className="glass-dark rounded-2xl rounded-bl-md px-4 py-3">
-                  <div className="flex items-center gap-2">
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                    <span className="text-sm text-muted-foreground">
-                      {ttsEnabled && ttsAvailable ? "Thinking & generating voice..." : "Thinking..."}
-                    </span>
+            {streamingReply && (
+              <>
+                <motion.div
+                  key="streaming-message"
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="flex justify-end"
+                >
+                  <div className="max-w-[85%] rounded-2xl px-4 py-3 bg-primary text-primary-foreground rounded-br-md">
+                    <p className="text-sm whitespace-pre-wrap">{streamingReply.message}</p>
                   </div>
-                </div>
-              </motion.div>
+                </motion.div>
+                <motion.div
+                  key="streaming-reply"
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="flex justify-start"
+                  data-testid="message-streaming-reply"
+                >
+                  <div className="max-w-[85%] glass-dark rounded-2xl rounded-bl-md px-4 py-3">
+                    {streamingReply.reply ? (
+                      <p className="text-sm whitespace-pre-wrap">{streamingReply.reply}</p>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        <span className="text-sm text-muted-foreground">Thinking...</span>
+                      </div>
+                    )}
+                  </div>
+                </motion.div>
+              </>
             )}
           </AnimatePresence>
         )}
@@ -1,10 +1,12 @@
-import { useState, useRef } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useRef, useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { motion, AnimatePresence } from "framer-motion";
 import { GlassCard } from "@/components/GlassCard";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { 
   ChevronLeft,
   MessageCircle,
@@ -16,7 +18,14 @@ import {
   Pause,
   Filter,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  Pencil,
+  Archive,
+  ArchiveRestore,
+  Trash2,
+  Check,
+  X,
+  ArrowRight
 } from "lucide-react";
 import { Link } from "wouter";
 import { cn } from "@/lib/utils";
@@ -33,6 +42,16 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 
 interface Message {
   role: "user" | "assistant";
@@ -42,36 +61,114 @@ interface Message {
 
 interface Conversation {
   id: string;
+  title: string | null;
+  archivedAt: string | null;
   messages: Message[];
   emotionState: string;
   createdAt: string;
   updatedAt: string;
 }
 
+const UNTITLED_THREAD = "New conversation";
+const SEARCH_DEBOUNCE_MS = 300;
+
 export default function ConversationHistory() {
+  const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
   const [emotionFilter, setEmotionFilter] = useState<string>("all");
   const [expandedConversation, setExpandedConversation] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<Conversation | null>(null);
   const [playingAudio, setPlayingAudio] = useState<string | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // Search runs on the server so it covers threads beyond the first page.
   const { data: conversations = [], isLoading } = useQuery<Conversation[]>({
-    queryKey: ["/api/chat/history"],
+    queryKey: ["/api/chat/threads", { archived: showArchived, q: debouncedSearch }],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (showArchived) params.set("archived", "true");
+      if (debouncedSearch) params.set("q", debouncedSearch);
+      const res = await apiRequest("GET", `/api/chat/threads?${params.toString()}`);
+      return res.json();
+    },
   });
 
-  const filteredConversations = conversations.filter((conv) => {
-    if (emotionFilter !== "all" && conv.emotionState !== emotionFilter) {
-      return false;
-    }
-    if (searchQuery) {
-      const searchLower = searchQuery.toLowerCase();
-      return conv.messages.some((msg) =>
-        msg.content.toLowerCase().includes(searchLower)
-      );
-    }
-    return true;
+  const refreshThreads = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/threads"] }),
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/conversation"] }),
+    ]);
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...changes }: { id: string; title?: string; archived?: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/chat/threads/${id}`, changes);
+      return res.json() as Promise<Conversation>;
+    },
+    onSuccess: async (_updated, variables) => {
+      setEditingId(null);
+      await refreshThreads();
+      if (variables.archived !== undefined) {
+        toast({
+          title: variables.archived ? "Conversation archived" : "Conversation restored",
+          description: variables.archived
+            ? "Find it under Archived; sending a message brings it back"
+            : "It's back in your active conversations",
+        });
+      }
+    },
+    onError: () => {
+      toast({
+        title: "Couldn't update conversation",
+        description: "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/chat/threads/${id}`);
+      return res.json();
+    },
+    onSuccess: async () => {
+      setPendingDelete(null);
+      setExpandedConversation(null);
+      await refreshThreads();
+      toast({ title: "Conversation deleted" });
+    },
+    onError: () => {
+      setPendingDelete(null);
+      toast({
+        title: "Couldn't delete conversation",
+        description: "Please try again",
+        variant: "destructive",
+      });
+    },
   });
 
+  const startRename = (conv: Conversation) => {
+    setEditingId(conv.id);
+    setEditTitle(conv.title || "");
+  };
+
+  const saveRename = (id: string) => {
+    if (!editTitle.trim()) return;
+    updateMutation.mutate({ id, title: editTitle.trim() });
+  };
+
+  const filteredConversations = conversations.filter(
+    (conv) => emotionFilter === "all" || conv.emotionState === emotionFilter
+  );
+
   const emotionStates = ["all", ...Array.from(new Set(conversations.map((c) => c.emotionState).filter(Boolean)))];
 
   const playAudio = (audioBase64: string, messageId: string) => {
@@ -127,12 +224,30 @@ export default function ConversationHistory() {
           <div>
             <h1 className="text-2xl font-bold" data-testid="text-page-title">Conversation History</h1>
             <p className="text-sm text-muted-foreground">
-              Review your past conversations with Mirror AI
+              Search, rename and tidy up your conversations with Mirror AI
             </p>
           </div>
         </div>
 
-        <GlassCard className="p-4 mb-4">
+        <GlassCard className="p-4 mb-4 space-y-3">
+          <div className="flex gap-2">
+            <Button
+              variant={showArchived ? "outline" : "default"}
+              size="sm"
+              onClick={() => setShowArchived(false)}
+              data-testid="button-show-active"
+            >
+              Active
+            </Button>
+            <Button
+              variant={showArchived ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowArchived(true)}
+              data-testid="button-show-archived"
+            >
+              <Archive className="w-3 h-3 mr-1" /> Archived
+            </Button>
+          </div>
           <div className="flex flex-col sm:flex-row gap-3">
             <div className="relative flex-1">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
@@ -170,7 +285,9 @@ export default function ConversationHistory() {
             <p className="text-muted-foreground" data-testid="text-empty-state">
               {searchQuery || emotionFilter !== "all"
                 ? "No conversations match your filters"
-                : "No conversation history yet. Start chatting with Mirror AI!"}
+                : showArchived
+                  ? "No archived conversations"
+                  : "No conversation history yet. Start chatting with Mirror AI!"}
             </p>
           </GlassCard>
         ) : (
@@ -199,6 +316,9 @@ export default function ConversationHistory() {
                       <CollapsibleTrigger className="w-full text-left" data-testid={`conversation-${conv.id}`}>
                         <div className="flex items-start justify-between gap-3">
                           <div className="flex-1 min-w-0">
+                            <p className="font-medium line-clamp-1 mb-1" data-testid={`title-${conv.id}`}>
+                              {conv.title || UNTITLED_THREAD}
+                            </p>
                             <div className="flex items-center gap-2 mb-1 flex-wrap">
                               <Badge
                                 variant="outline"
@@ -236,6 +356,76 @@ export default function ConversationHistory() {
                       </CollapsibleTrigger>
 
                       <CollapsibleContent>
+                        {editingId === conv.id ? (
+                          <div className="mt-4 flex gap-2">
+                            <Input
+                              value={editTitle}
+                              onChange={(e) => setEditTitle(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === "Enter") saveRename(conv.id);
+                                if (e.key === "Escape") setEditingId(null);
+                              }}
+                              placeholder="Conversation name"
+                              maxLength={60}
+                              autoFocus
+                              data-testid={`input-rename-${conv.id}`}
+                            />
+                            <Button
+                              size="icon"
+                              onClick={() => saveRename(conv.id)}
+                              disabled={!editTitle.trim() || updateMutation.isPending}
+                              data-testid={`button-save-rename-${conv.id}`}
+                            >
+                              <Check className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setEditingId(null)}
+                              data-testid={`button-cancel-rename-${conv.id}`}
+                            >
+                              <X className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="mt-4 flex flex-wrap gap-2">
+                            <Link href={`/chat?thread=${conv.id}`}>
+                              <Button size="sm" data-testid={`button-open-${conv.id}`}>
+                                <ArrowRight className="w-3 h-3 mr-1" /> Continue
+                              </Button>
+                            </Link>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => startRename(conv)}
+                              data-testid={`button-rename-${conv.id}`}
+                            >
+                              <Pencil className="w-3 h-3 mr-1" /> Rename
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => updateMutation.mutate({ id: conv.id, archived: !conv.archivedAt })}
+                              disabled={updateMutation.isPending}
+                              data-testid={`button-archive-${conv.id}`}
+                            >
+                              {conv.archivedAt ? (
+                                <><ArchiveRestore className="w-3 h-3 mr-1" /> Restore</>
+                              ) : (
+                                <><Archive className="w-3 h-3 mr-1" /> Archive</>
+                              )}
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-destructive"
+                              onClick={() => setPendingDelete(conv)}
+                              data-testid={`button-delete-${conv.id}`}
+                            >
+                              <Trash2 className="w-3 h-3 mr-1" /> Delete
+                            </Button>
+                          </div>
+                        )}
                         <div className="mt-4 pt-4 border-t border-border/50 space-y-3 max-h-96 overflow-y-auto">
                           {conv.messages.map((msg, msgIndex) => (
                             <div
@@ -287,6 +477,28 @@ export default function ConversationHistory() {
           </div>
         )}
       </motion.div>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title || UNTITLED_THREAD}" and all of its messages will be removed for good. Archive it
+              instead to keep it out of the way.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingDelete && deleteMutation.mutate(pendingDelete.id)}
+              disabled={deleteMutation.isPending}
+              data-testid="button-confirm-delete"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
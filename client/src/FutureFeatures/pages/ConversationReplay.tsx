@@ -18,9 +18,13 @@ import {
   Target
 } from "lucide-react";
 import { format } from "date-fns";
+import { AnnotatedTranscript } from "@/components/AnnotatedTranscript";
 import type { PracticeSession } from "@shared/schema";
+import type { SpeechTimeline } from "@shared/timeline";
 
 interface SessionWithDetails extends PracticeSession {
+  // Signed link to the recording, while it is kept.
+  audioUrl?: string | null;
   scenario?: {
     title: string;
     category: string;
@@ -89,8 +93,20 @@ export default function ConversationReplay() {
               <div>
                 <p className="text-sm text-muted-foreground mb-1">Your Response</p>
                 <div className="bg-muted/30 p-3 rounded-md">
-                  <p className="text-sm">{selectedSession.response}</p>
+                  {selectedSession.timeline ? (
+                    <AnnotatedTranscript timeline={selectedSession.timeline as SpeechTimeline} />
+                  ) : (
+                    <p className="text-sm">{selectedSession.response}</p>
+                  )}
                 </div>
+                {selectedSession.audioUrl && (
+                  <audio
+                    controls
+                    src={selectedSession.audioUrl}
+                    className="w-full mt-2"
+                    data-testid="audio-session-recording"
+                  />
+                )}
               </div>
 
               <div className="grid grid-cols-2 gap-3">
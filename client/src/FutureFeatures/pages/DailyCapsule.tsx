@@ -57,7 +57,12 @@ export default function DailyCapsulePage() {
   });
 
   const analyzeMutation = useMutation({
-    mutationFn: async (data: { prompt: string; response: string }) => {
+    mutationFn: async (data: {
+      prompt: string;
+      response: string;
+      capsuleId: string;
+      selectedQuestionIndex: number;
+    }) => {
       const res = await apiRequest("POST", "/api/practice/analyze", data);
       return res.json();
     },
@@ -86,6 +91,8 @@ export default function DailyCapsulePage() {
     analyzeMutation.mutate({
       prompt: questions[selectedQuestion],
       response: response.trim(),
+      capsuleId: capsule.id,
+      selectedQuestionIndex: selectedQuestion,
     });
   };
 
@@ -194,10 +201,12 @@ export default function DailyCapsulePage() {
                 onSubmit={(text) => {
                   setResponse(text);
                   const questions = capsule?.questions as string[];
-                  if (questions && selectedQuestion !== null) {
+                  if (capsule && questions && selectedQuestion !== null) {
                     analyzeMutation.mutate({
                       prompt: questions[selectedQuestion],
                       response: text.trim(),
+                      capsuleId: capsule.id,
+                      selectedQuestionIndex: selectedQuestion,
                     });
                   }
                 }}
@@ -106,16 +106,16 @@ export default function PracticeFeedback() {
     },
     onSuccess: (data) => {
       if (data.audio) {
-        playAudio(data.audio);
+        playAudio(data.audio, data.mimeType);
       }
     },
   });
 
-  const playAudio = (audioBase64: string) => {
+  const playAudio = (audioBase64: string, mimeType = "audio/mpeg") => {
     if (audioRef.current) {
       audioRef.current.pause();
     }
-    const audio = new Audio(`data:audio/mpeg;base64,${audioBase64}`);
+    const audio = new Audio(`data:${mimeType};base64,${audioBase64}`);
     audioRef.current = audio;
     audio.onplay = () => setIsPlayingPrompt(true);
     audio.onended = () => setIsPlayingPrompt(false);
@@ -7,6 +7,7 @@ import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { detectFillersInText, summarizeFillers, FILLER_TYPES, FILLER_TYPE_LABELS } from "@shared/fillers";
 import { Mic, Square, Volume2, Star, Target, Loader2, ArrowLeft, RefreshCw } from "lucide-react";
 import { Link } from "wouter";
 
@@ -54,6 +55,10 @@ export default function PronunciationCoach() {
 
   const filteredPhrases = phrases.filter(p => p.category === selectedCategory);
 
+  // Fillers said around the phrase, by type; empty when the attempt was clean.
+  const fillerBreakdown = result ? summarizeFillers(detectFillersInText(result.transcription)) : null;
+  const fillerTypes = fillerBreakdown ? FILLER_TYPES.filter(type => fillerBreakdown[type] > 0) : [];
+
   const attemptMutation = useMutation({
     mutationFn: async (data: { phraseId: string; audioBase64: string }) => {
       const res = await apiRequest("POST", "/api/pronunciation/attempt", data);
@@ -251,6 +256,19 @@ export default function PronunciationCoach() {
                     <p className="text-muted-foreground italic">"{result.transcription}"</p>
                   </div>
 
+                  {fillerBreakdown && fillerTypes.length > 0 && (
+                    <div className="space-y-2" data-testid="pronunciation-fillers">
+                      <p className="font-medium">Fillers:</p>
+                      <div className="flex flex-wrap gap-2">
+                        {fillerTypes.map(type => (
+                          <Badge key={type} variant="outline">
+                            {FILLER_TYPE_LABELS[type]}: {fillerBreakdown[type]}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   <div className="space-y-2">
                     <p className="font-medium">Feedback:</p>
                     <p className="text-muted-foreground">{result.feedback.overallFeedback}</p>
@@ -11,6 +11,7 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { VoiceWaveform } from "@/components/VoiceWaveform";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { transcribeRecording } from "@/lib/audioUpload";
 import { useToast } from "@/hooks/use-toast";
 import { 
   ChevronLeft, 
@@ -34,13 +35,22 @@ interface Message {
   content: string;
 }
 
+interface PhaseFeedback {
+  name: string;
+  objectiveMet: boolean;
+  score: number;
+  note: string;
+}
+
 interface RehearsalState {
+  rehearsalId?: string;
   messages: Message[];
   currentPhase: number;
   escalationLevel: number;
   completed: boolean;
   score?: number;
   feedback?: {
+    phases?: PhaseFeedback[];
     strengths: string[];
     improvements: string[];
     overallTip: string;
@@ -99,18 +109,15 @@ export default function Rehearsal() {
 
   const sendMutation = useMutation({
     mutationFn: async (message: string) => {
+      // Phase, escalation and history live on the rehearsal row; the
+      // server only needs the rehearsal id after the first message.
       const payload: Record<string, unknown> = {
         message,
-        currentPhase: state.currentPhase,
-        escalationLevel: state.escalationLevel,
-        messageHistory: state.messages,
+        rehearsalId: state.rehearsalId,
       };
       
-      if (isCustomScenario && customScenarioData) {
+      if (isCustomScenario) {
         payload.customScenarioId = customScenarioId;
-        payload.customContext = customScenarioData.context;
-        payload.customPrompt = customScenarioData.prompt;
-        payload.customTips = customScenarioData.tips;
       } else {
         payload.scenarioId = scenarioId;
       }
@@ -118,15 +125,16 @@ export default function Rehearsal() {
       const res = await apiRequest("POST", "/api/rehearsal/message", payload);
       return res.json();
     },
-    onSuccess: (data) => {
+    onSuccess: (data, message) => {
       const newMessages = [
         ...state.messages,
-        { role: "user" as const, content: input },
+        { role: "user" as const, content: message },
         { role: "assistant" as const, content: data.response }
       ];
       
       setState(prev => ({
         ...prev,
+        rehearsalId: data.rehearsalId ?? prev.rehearsalId,
         messages: newMessages,
         currentPhase: data.nextPhase ?? prev.currentPhase,
         escalationLevel: data.escalationLevel ?? prev.escalationLevel,
@@ -137,6 +145,14 @@ export default function Rehearsal() {
       
       setInput("");
       
+      const phaseFeedback = data.phaseFeedback as PhaseFeedback | undefined;
+      if (phaseFeedback && !data.completed) {
+        toast({
+          title: phaseFeedback.objectiveMet ? `${phaseFeedback.name} complete` : `Moving on from ${phaseFeedback.name}`,
+          description: phaseFeedback.note,
+        });
+      }
+      
       if (data.completed) {
         queryClient.invalidateQueries({ queryKey: ["/api/progress"] });
         toast({
@@ -228,29 +244,23 @@ export default function Rehearsal() {
         
         if (audioChunksRef.current.length > 0) {
           setIsTranscribing(true);
-          const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-          
-          const reader = new FileReader();
-          reader.onloadend = async () => {
-            const base64 = (reader.result as string).split(',')[1];
-            try {
-              const res = await apiRequest("POST", "/api/transcribe", { audioBase64: base64 });
-              const data = await res.json();
-              if (data.text) {
-                setInput(data.text);
-                handleSend(data.text);
-              }
-            } catch {
-              toast({
-                title: "Transcription failed",
-                description: "Please try again or type your response.",
-                variant: "destructive",
-              });
-            } finally {
-              setIsTranscribing(false);
+          const audioBlob = new Blob(audioChunksRef.current, { type: mediaRecorder.mimeType || 'audio/webm' });
+
+          try {
+            const data = await transcribeRecording(audioBlob);
+            if (data.text) {
+              setInput(data.text);
+              handleSend(data.text);
             }
-          };
-          reader.readAsDataURL(audioBlob);
+          } catch {
+            toast({
+              title: "Transcription failed",
+              description: "Please try again or type your response.",
+              variant: "destructive",
+            });
+          } finally {
+            setIsTranscribing(false);
+          }
         }
       };
 
@@ -359,6 +369,23 @@ export default function Rehearsal() {
           </div>
         </GlassCard>
 
+        {state.feedback.phases && state.feedback.phases.length > 0 && (
+          <GlassCard variant="dark">
+            <h3 className="font-semibold mb-3">Phase by Phase</h3>
+            <div className="space-y-3">
+              {state.feedback.phases.map((phase, i) => (
+                <div key={i} className="p-3 rounded-lg bg-muted/30" data-testid={`phase-feedback-${i}`}>
+                  <div className="flex items-center justify-between gap-2 mb-1">
+                    <span className="text-sm font-medium">{phase.name}</span>
+                    <Badge variant={phase.objectiveMet ? "default" : "secondary"}>{phase.score}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{phase.note}</p>
+                </div>
+              ))}
+            </div>
+          </GlassCard>
+        )}
+
         <div className="flex gap-3">
           <Link to="/scenarios" className="flex-1">
             <Button variant="outline" className="w-full">
@@ -5,6 +5,7 @@ import { GlassCard } from "@/components/GlassCard";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { uploadAudio } from "@/lib/audioUpload";
 import { useToast } from "@/hooks/use-toast";
 import { 
   ChevronLeft,
@@ -22,8 +23,10 @@ import {
 import { Link } from "wouter";
 import { format } from "date-fns";
 import type { VoiceJournal } from "@shared/schema";
+import { FILLER_TYPES, FILLER_TYPE_LABELS, type FillerBreakdown } from "@shared/fillers";
 
-interface JournalWithAnalysis extends Omit<VoiceJournal, 'emotionAnalysis'> {
+interface JournalWithAnalysis extends Omit<VoiceJournal, 'emotionAnalysis' | 'fillerBreakdown'> {
+  fillerBreakdown?: FillerBreakdown | null;
   emotionAnalysis?: {
     primaryEmotion: string;
     emotions: { name: string; score: number }[];
@@ -45,12 +48,9 @@ export default function VoiceJournalPage() {
   });
 
   const saveMutation = useMutation({
-    mutationFn: async (formData: FormData) => {
-      const res = await fetch("/api/journal/voice", {
-        method: "POST",
-        body: formData,
-        credentials: "include",
-      });
+    mutationFn: async (recording: Blob) => {
+      const { uploadId } = await uploadAudio(recording);
+      const res = await apiRequest("POST", "/api/journal/voice", { uploadId, language: navigator.language });
       return res.json();
     },
     onSuccess: () => {
@@ -75,7 +75,7 @@ export default function VoiceJournalPage() {
       };
 
       mediaRecorder.onstop = () => {
-        const blob = new Blob(audioChunksRef.current, { type: "audio/webm" });
+        const blob = new Blob(audioChunksRef.current, { type: mediaRecorder.mimeType || "audio/webm" });
         setAudioBlob(blob);
         stream.getTracks().forEach(track => track.stop());
       };
@@ -96,9 +96,7 @@ export default function VoiceJournalPage() {
 
   const handleSave = () => {
     if (!audioBlob) return;
-    const formData = new FormData();
-    formData.append("audio", audioBlob, "journal.webm");
-    saveMutation.mutate(formData);
+    saveMutation.mutate(audioBlob);
   };
 
   const handlePlay = (entry: JournalWithAnalysis) => {
@@ -292,6 +290,13 @@ export default function VoiceJournalPage() {
                           {entry.emotionAnalysis.summary}
                         </p>
                       )}
+                      {entry.fillerBreakdown && FILLER_TYPES.some(type => entry.fillerBreakdown![type] > 0) && (
+                        <p className="text-xs text-muted-foreground/70 mt-1" data-testid={`journal-fillers-${entry.id}`}>
+                          {FILLER_TYPES.filter(type => entry.fillerBreakdown![type] > 0)
+                            .map(type => `${FILLER_TYPE_LABELS[type]}: ${entry.fillerBreakdown![type]}`)
+                            .join(" · ")}
+                        </p>
+                      )}
                     </div>
                   </div>
                 </GlassCard>
@@ -1,4 +1,4 @@
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { motion, AnimatePresence } from "framer-motion";
 import { GlassCard } from "@/components/GlassCard";
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
 import { 
   ChevronLeft, 
   Volume2, 
@@ -26,6 +27,7 @@ import {
 } from "lucide-react";
 import { Link } from "wouter";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { uploadAudio } from "@/lib/audioUpload";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 
@@ -51,6 +53,13 @@ interface VoiceClone {
   errorMessage: string | null;
 }
 
+interface VoiceCloneRequirements {
+  minSamples: number;
+  maxSamples: number;
+  minSampleSpeechSeconds: number;
+  minTotalSpeechSeconds: number;
+}
+
 interface UserVoiceSettings {
   preferences: {
     selectedVoiceId: string;
@@ -58,13 +67,19 @@ interface UserVoiceSettings {
   };
   voiceClones: VoiceClone[];
   ttsAvailable: boolean;
+  voiceCloneConsent: string;
+  voiceCloneRequirements: VoiceCloneRequirements;
 }
 
-interface AudioSample {
+interface VoiceCloneSample {
   id: string;
-  audioBase64: string;
-  filename: string;
-  duration: number;
+  duration: number | null;
+}
+
+interface VoiceCloneStatus {
+  voiceClone: VoiceClone;
+  samples: VoiceCloneSample[];
+  requirements: VoiceCloneRequirements;
 }
 
 interface UsageData {
@@ -75,6 +90,15 @@ interface UsageData {
   allowed: boolean;
 }
 
+// apiRequest errors read "422: {json}"; show the server's message.
+function describeError(error: Error): string {
+  try {
+    return JSON.parse(error.message.slice(error.message.indexOf(":") + 1)).message || error.message;
+  } catch {
+    return error.message;
+  }
+}
+
 export default function VoiceSettings() {
   const { toast } = useToast();
   const [playingVoiceId, setPlayingVoiceId] = useState<string | null>(null);
@@ -84,7 +108,7 @@ export default function VoiceSettings() {
   // Voice cloning state
   const [showCloneUI, setShowCloneUI] = useState(false);
   const [cloneName, setCloneName] = useState("");
-  const [audioSamples, setAudioSamples] = useState<AudioSample[]>([]);
+  const [consentGiven, setConsentGiven] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
   const [currentCloneId, setCurrentCloneId] = useState<string | null>(null);
@@ -107,6 +131,13 @@ export default function VoiceSettings() {
     queryKey: ["/api/voices/user"],
   });
 
+  // Polled while ElevenLabs is creating the voice.
+  const { data: cloneStatus } = useQuery<VoiceCloneStatus>({
+    queryKey: ["/api/voice-clone/status", currentCloneId],
+    enabled: !!currentCloneId,
+    refetchInterval: (query) => (query.state.data?.voiceClone.status === "processing" ? 3000 : false),
+  });
+
   const saveVoiceMutation = useMutation({
     mutationFn: async (data: { voiceId: string; ttsEnabled: boolean }) => {
       const res = await apiRequest("POST", "/api/voices/select", data);
@@ -128,48 +159,94 @@ export default function VoiceSettings() {
     },
   });
 
+  const closeCloneUI = useCallback(() => {
+    setShowCloneUI(false);
+    setCloneName("");
+    setConsentGiven(false);
+    setCurrentCloneId(null);
+  }, []);
+
   // Voice clone mutations
   const startCloneMutation = useMutation({
-    mutationFn: async (data: { name: string; description?: string }) => {
+    mutationFn: async (data: { name: string; consent: boolean }) => {
       const res = await apiRequest("POST", "/api/voice-clone/start", data);
       return res.json();
     },
     onSuccess: (data) => {
       setCurrentCloneId(data.voiceClone.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/voices/user"] });
       toast({
         title: "Voice clone started",
-        description: "Add audio samples to create your voice",
+        description: `Record at least ${data.requirements.minSamples} samples to create your voice`,
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Failed to start cloning",
-        description: "Please try again",
+        description: describeError(error),
         variant: "destructive",
       });
     },
   });
 
-  const finalizeCloneMutation = useMutation({
-    mutationFn: async (data: { voiceCloneId: string; samples: AudioSample[] }) => {
-      const res = await apiRequest("POST", "/api/voice-clone/finalize", data);
+  const addSampleMutation = useMutation({
+    mutationFn: async (recording: Blob) => {
+      const { uploadId } = await uploadAudio(recording);
+      const res = await apiRequest("POST", "/api/voice-clone/upload-sample", { voiceCloneId: currentCloneId, uploadId });
       return res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/voices/user"] });
-      setShowCloneUI(false);
-      setAudioSamples([]);
-      setCloneName("");
-      setCurrentCloneId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/voice-clone/status", currentCloneId] });
+      toast({ title: "Sample added" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Sample not added",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeSampleMutation = useMutation({
+    mutationFn: async (sampleId: string) => {
+      const res = await apiRequest("DELETE", "/api/voice-clone/upload-sample", { voiceCloneId: currentCloneId, sampleId });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/voice-clone/status", currentCloneId] });
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Voice clone created!",
-        description: "Your custom voice is now ready to use",
+        title: "Failed to remove sample",
+        description: describeError(error),
+        variant: "destructive",
       });
     },
-    onError: (error: any) => {
+  });
+
+  const finalizeCloneMutation = useMutation({
+    mutationFn: async (voiceCloneId: string) => {
+      const res = await apiRequest("POST", "/api/voice-clone/finalize", { voiceCloneId });
+      return res.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/voices/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/voice-clone/status", currentCloneId] });
+      if (data.voiceClone.status === "failed") {
+        toast({
+          title: "Failed to create voice clone",
+          description: data.voiceClone.errorMessage || "Please try again",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      // The clone may still be processing; the status query keeps polling.
+      queryClient.invalidateQueries({ queryKey: ["/api/voice-clone/status", currentCloneId] });
       toast({
         title: "Failed to create voice clone",
-        description: error.message || "Please try again",
+        description: describeError(error),
         variant: "destructive",
       });
     },
@@ -206,9 +283,10 @@ export default function VoiceSettings() {
         title: "Voice clone deleted",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Failed to delete",
+        description: describeError(error),
         variant: "destructive",
       });
     },
@@ -220,6 +298,30 @@ export default function VoiceSettings() {
   const selectedVoiceId = userSettings?.preferences?.selectedVoiceId || "21m00Tcm4TlvDq8ikWAM";
   const ttsEnabled = userSettings?.preferences?.ttsEnabled ?? true;
 
+  const cloneSamples = cloneStatus?.samples || [];
+  const requirements = cloneStatus?.requirements || userSettings?.voiceCloneRequirements;
+  const minSamples = requirements?.minSamples ?? 3;
+  const maxSamples = requirements?.maxSamples ?? 10;
+  const speechSeconds = cloneSamples.reduce((sum, s) => sum + (s.duration ?? 0), 0);
+  const cloneState = cloneStatus?.voiceClone.status;
+  const isCloneProcessing = cloneState === "processing" || finalizeCloneMutation.isPending;
+  const canFinalize =
+    cloneSamples.length >= minSamples &&
+    speechSeconds >= (requirements?.minTotalSpeechSeconds ?? 0) &&
+    !isCloneProcessing &&
+    !addSampleMutation.isPending;
+
+  // Finished, whether in the finalize request or found by polling.
+  useEffect(() => {
+    if (cloneState !== "completed") return;
+    queryClient.invalidateQueries({ queryKey: ["/api/voices/user"] });
+    closeCloneUI();
+    toast({
+      title: "Voice clone created!",
+      description: "Your custom voice is now ready to use",
+    });
+  }, [cloneState, closeCloneUI, toast]);
+
   // Recording functions
   const startRecording = useCallback(async () => {
     try {
@@ -234,21 +336,9 @@ export default function VoiceSettings() {
         }
       };
 
-      mediaRecorder.onstop = async () => {
+      mediaRecorder.onstop = () => {
         const blob = new Blob(recordingChunksRef.current, { type: 'audio/webm' });
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          const base64 = (reader.result as string).split(',')[1];
-          const newSample: AudioSample = {
-            id: `sample-${Date.now()}`,
-            audioBase64: base64,
-            filename: `recording_${audioSamples.length + 1}.webm`,
-            duration: recordingTime,
-          };
-          setAudioSamples(prev => [...prev, newSample]);
-        };
-        reader.readAsDataURL(blob);
-        
+        addSampleMutation.mutate(blob);
         stream.getTracks().forEach(track => track.stop());
       };
 
@@ -266,7 +356,7 @@ export default function VoiceSettings() {
         variant: "destructive",
       });
     }
-  }, [audioSamples.length, recordingTime, toast]);
+  }, [addSampleMutation, toast]);
 
   const stopRecording = useCallback(() => {
     if (mediaRecorderRef.current && isRecording) {
@@ -283,29 +373,12 @@ export default function VoiceSettings() {
     const files = event.target.files;
     if (!files) return;
 
-    Array.from(files).forEach(file => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64 = (reader.result as string).split(',')[1];
-        const newSample: AudioSample = {
-          id: `sample-${Date.now()}-${file.name}`,
-          audioBase64: base64,
-          filename: file.name,
-          duration: 0,
-        };
-        setAudioSamples(prev => [...prev, newSample]);
-      };
-      reader.readAsDataURL(file);
-    });
+    Array.from(files).forEach(file => addSampleMutation.mutate(file));
     
     event.target.value = '';
-  }, []);
+  }, [addSampleMutation]);
 
-  const removeSample = useCallback((sampleId: string) => {
-    setAudioSamples(prev => prev.filter(s => s.id !== sampleId));
-  }, []);
-
-  const handleCreateClone = async () => {
+  const handleStartClone = () => {
     if (!cloneName.trim()) {
       toast({
         title: "Name required",
@@ -315,25 +388,30 @@ export default function VoiceSettings() {
       return;
     }
 
-    if (audioSamples.length === 0) {
+    if (!consentGiven) {
       toast({
-        title: "Samples required",
-        description: "Please record or upload at least one audio sample",
+        title: "Consent required",
+        description: "Please confirm you agree to cloning your voice",
         variant: "destructive",
       });
       return;
     }
 
-    // Start clone first if needed
-    let cloneId = currentCloneId;
-    if (!cloneId) {
-      const result = await startCloneMutation.mutateAsync({ name: cloneName });
-      cloneId = result.voiceClone.id;
-    }
+    startCloneMutation.mutate({ name: cloneName.trim(), consent: true });
+  };
 
-    if (cloneId) {
-      finalizeCloneMutation.mutate({ voiceCloneId: cloneId, samples: audioSamples });
+  const continueClone = (clone: VoiceClone) => {
+    setCurrentCloneId(clone.id);
+    setCloneName(clone.name || "");
+    setShowCloneUI(true);
+  };
+
+  // Cancelling discards the unfinished clone and its recordings.
+  const cancelClone = () => {
+    if (currentCloneId && !isCloneProcessing) {
+      deleteCloneMutation.mutate(currentCloneId);
     }
+    closeCloneUI();
   };
 
   const formatTime = (seconds: number) => {
@@ -638,6 +716,16 @@ export default function VoiceSettings() {
                     </div>
                     
                     <div className="flex items-center gap-2">
+                      {(clone.status === "pending" || clone.status === "failed") && clone.id !== currentCloneId && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => continueClone(clone)}
+                          data-testid={`button-continue-clone-${clone.id}`}
+                        >
+                          Continue
+                        </Button>
+                      )}
                       {clone.status === "completed" && !clone.isDefault && (
                         <Button
                           variant="outline"
@@ -706,176 +794,221 @@ export default function VoiceSettings() {
                 className="space-y-4"
               >
                 <GlassCard variant="dark" className="space-y-4">
-                  {/* Clone Name */}
-                  <div className="space-y-2">
-                    <label className="text-sm font-medium">Voice Name</label>
-                    <Input
-                      placeholder="My Custom Voice"
-                      value={cloneName}
-                      onChange={(e) => setCloneName(e.target.value)}
-                      data-testid="input-clone-name"
-                    />
-                  </div>
+                  {!currentCloneId ? (
+                    <>
+                      {/* Clone Name */}
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Voice Name</label>
+                        <Input
+                          placeholder="My Custom Voice"
+                          value={cloneName}
+                          onChange={(e) => setCloneName(e.target.value)}
+                          data-testid="input-clone-name"
+                        />
+                      </div>
 
-                  {/* Recording Section */}
-                  <div className="space-y-3">
-                    <div className="flex items-center justify-between gap-2 flex-wrap">
-                      <label className="text-sm font-medium">Audio Samples</label>
-                      <span className="text-xs text-muted-foreground">
-                        {audioSamples.length}/3 samples (min 1 required)
-                      </span>
-                    </div>
+                      {/* Consent, recorded with the clone */}
+                      <div className="flex items-start gap-3 p-3 rounded-lg bg-muted/30">
+                        <Checkbox
+                          id="voice-clone-consent"
+                          checked={consentGiven}
+                          onCheckedChange={(checked) => setConsentGiven(checked === true)}
+                          className="mt-0.5"
+                          data-testid="checkbox-clone-consent"
+                        />
+                        <label htmlFor="voice-clone-consent" className="text-xs text-muted-foreground leading-relaxed">
+                          {userSettings?.voiceCloneConsent}
+                        </label>
+                      </div>
 
-                    {/* Recording UI */}
-                    <div className="flex items-center gap-3 flex-wrap">
-                      <Button
-                        variant={isRecording ? "destructive" : "outline"}
-                        onClick={isRecording ? stopRecording : startRecording}
-                        disabled={audioSamples.length >= 3}
-                        data-testid="button-record"
-                      >
-                        {isRecording ? (
-                          <>
-                            <MicOff className="w-4 h-4 mr-2" />
-                            Stop ({formatTime(recordingTime)})
-                          </>
-                        ) : (
-                          <>
+                      <div className="flex items-center justify-end gap-2 pt-2">
+                        <Button variant="outline" onClick={cancelClone} data-testid="button-cancel-clone">
+                          Cancel
+                        </Button>
+                        <Button
+                          onClick={handleStartClone}
+                          disabled={!cloneName.trim() || !consentGiven || startCloneMutation.isPending}
+                          data-testid="button-begin-clone"
+                        >
+                          {startCloneMutation.isPending ? (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          ) : (
                             <Mic className="w-4 h-4 mr-2" />
-                            Record Sample
-                          </>
+                          )}
+                          Start Recording Samples
+                        </Button>
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="font-medium">{cloneName || "My Voice"}</p>
+                        {cloneState === "failed" && (
+                          <Badge variant="secondary" className="bg-red-500/20 text-red-400">failed</Badge>
                         )}
-                      </Button>
+                      </div>
+                      {cloneState === "failed" && cloneStatus?.voiceClone.errorMessage && (
+                        <p className="text-sm text-red-400">{cloneStatus.voiceClone.errorMessage}</p>
+                      )}
 
-                      <span className="text-muted-foreground">or</span>
-
-                      <input
-                        type="file"
-                        ref={fileInputRef}
-                        className="hidden"
-                        accept="audio/*"
-                        multiple
-                        onChange={handleFileUpload}
-                        data-testid="input-file-upload"
-                      />
-                      <Button
-                        variant="outline"
-                        onClick={() => fileInputRef.current?.click()}
-                        disabled={audioSamples.length >= 3}
-                        data-testid="button-upload"
-                      >
-                        <Upload className="w-4 h-4 mr-2" />
-                        Upload Audio
-                      </Button>
-                    </div>
+                      {/* Recording Section */}
+                      <div className="space-y-3">
+                        <div className="flex items-center justify-between gap-2 flex-wrap">
+                          <label className="text-sm font-medium">Audio Samples</label>
+                          <span className="text-xs text-muted-foreground">
+                            {cloneSamples.length}/{minSamples} samples, {formatTime(speechSeconds)} of speech
+                          </span>
+                        </div>
 
-                    {/* Recording indicator */}
-                    {isRecording && (
-                      <motion.div
-                        initial={{ opacity: 0 }}
-                        animate={{ opacity: 1 }}
-                        className="flex items-center gap-2 text-red-400"
-                      >
-                        <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
-                        <span className="text-sm">Recording... Speak clearly for 30 seconds</span>
-                      </motion.div>
-                    )}
+                        {/* Recording UI */}
+                        <div className="flex items-center gap-3 flex-wrap">
+                          <Button
+                            variant={isRecording ? "destructive" : "outline"}
+                            onClick={isRecording ? stopRecording : startRecording}
+                            disabled={cloneSamples.length >= maxSamples || isCloneProcessing || addSampleMutation.isPending}
+                            data-testid="button-record"
+                          >
+                            {isRecording ? (
+                              <>
+                                <MicOff className="w-4 h-4 mr-2" />
+                                Stop ({formatTime(recordingTime)})
+                              </>
+                            ) : addSampleMutation.isPending ? (
+                              <>
+                                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                                Checking...
+                              </>
+                            ) : (
+                              <>
+                                <Mic className="w-4 h-4 mr-2" />
+                                Record Sample
+                              </>
+                            )}
+                          </Button>
 
-                    {/* Sample Progress */}
-                    <div className="space-y-2">
-                      <Progress value={(audioSamples.length / 3) * 100} className="h-2" />
-                    </div>
+                          <span className="text-muted-foreground">or</span>
 
-                    {/* Samples List */}
-                    {audioSamples.length > 0 && (
-                      <div className="space-y-2">
-                        {audioSamples.map((sample, index) => (
+                          <input
+                            type="file"
+                            ref={fileInputRef}
+                            className="hidden"
+                            accept="audio/*"
+                            multiple
+                            onChange={handleFileUpload}
+                            data-testid="input-file-upload"
+                          />
+                          <Button
+                            variant="outline"
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={cloneSamples.length >= maxSamples || isCloneProcessing || addSampleMutation.isPending}
+                            data-testid="button-upload"
+                          >
+                            <Upload className="w-4 h-4 mr-2" />
+                            Upload Audio
+                          </Button>
+                        </div>
+
+                        {/* Recording indicator */}
+                        {isRecording && (
                           <motion.div
-                            key={sample.id}
-                            initial={{ opacity: 0, x: -10 }}
-                            animate={{ opacity: 1, x: 0 }}
-                            className="flex items-center justify-between gap-2 p-2 rounded-lg bg-muted/50"
-                            data-testid={`sample-item-${index}`}
+                            initial={{ opacity: 0 }}
+                            animate={{ opacity: 1 }}
+                            className="flex items-center gap-2 text-red-400"
                           >
-                            <div className="flex items-center gap-2">
-                              <Volume2 className="w-4 h-4 text-muted-foreground" />
-                              <span className="text-sm">{sample.filename}</span>
-                              {sample.duration > 0 && (
-                                <span className="text-xs text-muted-foreground">
-                                  ({formatTime(sample.duration)})
-                                </span>
-                              )}
-                            </div>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => removeSample(sample.id)}
-                              data-testid={`button-remove-sample-${index}`}
-                            >
-                              <X className="w-4 h-4" />
-                            </Button>
+                            <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
+                            <span className="text-sm">Recording... Speak clearly for 30 seconds</span>
                           </motion.div>
-                        ))}
-                      </div>
-                    )}
+                        )}
 
-                    {/* Tips */}
-                    <div className="p-3 rounded-lg bg-muted/30 space-y-1">
-                      <p className="text-xs font-medium text-muted-foreground">Tips for best results:</p>
-                      <ul className="text-xs text-muted-foreground space-y-1">
-                        <li className="flex items-start gap-2">
-                          <span className="text-primary">-</span>
-                          Record in a quiet environment
-                        </li>
-                        <li className="flex items-start gap-2">
-                          <span className="text-primary">-</span>
-                          Speak clearly and naturally
-                        </li>
-                        <li className="flex items-start gap-2">
-                          <span className="text-primary">-</span>
-                          Each sample should be 30+ seconds
-                        </li>
-                      </ul>
-                    </div>
-                  </div>
+                        {/* Sample Progress */}
+                        <div className="space-y-2">
+                          <Progress value={Math.min(100, (cloneSamples.length / minSamples) * 100)} className="h-2" />
+                        </div>
 
-                  {/* Action Buttons */}
-                  <div className="flex items-center justify-end gap-2 pt-2">
-                    <Button
-                      variant="outline"
-                      onClick={() => {
-                        setShowCloneUI(false);
-                        setAudioSamples([]);
-                        setCloneName("");
-                        setCurrentCloneId(null);
-                      }}
-                      data-testid="button-cancel-clone"
-                    >
-                      Cancel
-                    </Button>
-                    <Button
-                      onClick={handleCreateClone}
-                      disabled={
-                        !cloneName.trim() || 
-                        audioSamples.length === 0 || 
-                        startCloneMutation.isPending || 
-                        finalizeCloneMutation.isPending
-                      }
-                      data-testid="button-create-clone"
-                    >
-                      {(startCloneMutation.isPending || finalizeCloneMutation.isPending) ? (
-                        <>
-                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                          Creating...
-                        </>
-                      ) : (
-                        <>
-                          <Wand2 className="w-4 h-4 mr-2" />
-                          Create Voice Clone
-                        </>
-                      )}
-                    </Button>
-                  </div>
+                        {/* Samples List */}
+                        {cloneSamples.length > 0 && (
+                          <div className="space-y-2">
+                            {cloneSamples.map((sample, index) => (
+                              <motion.div
+                                key={sample.id}
+                                initial={{ opacity: 0, x: -10 }}
+                                animate={{ opacity: 1, x: 0 }}
+                                className="flex items-center justify-between gap-2 p-2 rounded-lg bg-muted/50"
+                                data-testid={`sample-item-${index}`}
+                              >
+                                <div className="flex items-center gap-2">
+                                  <Volume2 className="w-4 h-4 text-muted-foreground" />
+                                  <span className="text-sm">Sample {cloneSamples.length - index}</span>
+                                  {!!sample.duration && (
+                                    <span className="text-xs text-muted-foreground">
+                                      ({formatTime(sample.duration)} of speech)
+                                    </span>
+                                  )}
+                                </div>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => removeSampleMutation.mutate(sample.id)}
+                                  disabled={isCloneProcessing || removeSampleMutation.isPending}
+                                  data-testid={`button-remove-sample-${index}`}
+                                >
+                                  <X className="w-4 h-4" />
+                                </Button>
+                              </motion.div>
+                            ))}
+                          </div>
+                        )}
+
+                        {/* Tips */}
+                        <div className="p-3 rounded-lg bg-muted/30 space-y-1">
+                          <p className="text-xs font-medium text-muted-foreground">Tips for best results:</p>
+                          <ul className="text-xs text-muted-foreground space-y-1">
+                            <li className="flex items-start gap-2">
+                              <span className="text-primary">-</span>
+                              Record in a quiet environment
+                            </li>
+                            <li className="flex items-start gap-2">
+                              <span className="text-primary">-</span>
+                              Speak clearly and naturally
+                            </li>
+                            <li className="flex items-start gap-2">
+                              <span className="text-primary">-</span>
+                              Each sample should be 30+ seconds
+                            </li>
+                          </ul>
+                        </div>
+                      </div>
+
+                      {/* Action Buttons */}
+                      <div className="flex items-center justify-end gap-2 pt-2">
+                        <Button
+                          variant="outline"
+                          onClick={cancelClone}
+                          disabled={isCloneProcessing}
+                          data-testid="button-cancel-clone"
+                        >
+                          Cancel
+                        </Button>
+                        <Button
+                          onClick={() => finalizeCloneMutation.mutate(currentCloneId)}
+                          disabled={!canFinalize}
+                          data-testid="button-create-clone"
+                        >
+                          {isCloneProcessing ? (
+                            <>
+                              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                              Creating...
+                            </>
+                          ) : (
+                            <>
+                              <Wand2 className="w-4 h-4 mr-2" />
+                              Create Voice Clone
+                            </>
+                          )}
+                        </Button>
+                      </div>
+                    </>
+                  )}
                 </GlassCard>
               </motion.div>
             )}
@@ -0,0 +1,110 @@
+import { Fragment, useEffect, useMemo, useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+import { Pause } from "lucide-react";
+import { wordIndexAt, type SpeechTimeline } from "@shared/timeline";
+
+interface AnnotatedTranscriptProps {
+  timeline: SpeechTimeline;
+  audioSrc?: string;
+  className?: string;
+}
+
+export function AnnotatedTranscript({ timeline, audioSrc, className }: AnnotatedTranscriptProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const wordRefs = useRef<Array<HTMLSpanElement | null>>([]);
+  const [currentTime, setCurrentTime] = useState<number | null>(null);
+
+  const fillerWords = useMemo(() => {
+    const indexes = new Set<number>();
+    for (const filler of timeline.fillers) {
+      for (let i = 0; i < filler.wordCount; i++) indexes.add(filler.wordIndex + i);
+    }
+    return indexes;
+  }, [timeline]);
+
+  const silencesAfter = useMemo(
+    () => new Map(timeline.silences.map(silence => [silence.afterWordIndex, silence])),
+    [timeline]
+  );
+
+  const activeIndex = currentTime === null ? -1 : wordIndexAt(timeline, currentTime);
+
+  useEffect(() => {
+    if (activeIndex >= 0) {
+      wordRefs.current[activeIndex]?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+    }
+  }, [activeIndex]);
+
+  const seekTo = (time: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = time;
+    void audioRef.current.play();
+  };
+
+  const renderSilence = (index: number) => {
+    const silence = silencesAfter.get(index);
+    if (!silence) return null;
+    return (
+      <button
+        type="button"
+        onClick={() => seekTo(silence.start)}
+        className="inline-flex items-center gap-0.5 mx-1 px-1.5 rounded-full bg-muted text-[10px] text-muted-foreground align-middle"
+        data-testid={`silence-${index}`}
+      >
+        <Pause className="w-2.5 h-2.5" />
+        {silence.duration.toFixed(1)}s
+      </button>
+    );
+  };
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {audioSrc && (
+        <audio
+          ref={audioRef}
+          src={audioSrc}
+          controls
+          className="w-full h-9"
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          onEnded={() => setCurrentTime(null)}
+          data-testid="transcript-audio"
+        />
+      )}
+
+      <div className="max-h-48 overflow-y-auto text-sm leading-relaxed" data-testid="annotated-transcript">
+        {renderSilence(-1)}
+        {timeline.words.map((word, i) => (
+          <Fragment key={i}>
+            <span
+              ref={(el) => { wordRefs.current[i] = el; }}
+              onClick={() => seekTo(word.start)}
+              className={cn(
+                "rounded px-0.5 transition-colors",
+                audioSrc && "cursor-pointer",
+                fillerWords.has(i) && "bg-amber-500/20 text-amber-400",
+                i === activeIndex && "bg-primary/25 text-foreground"
+              )}
+              data-testid={`transcript-word-${i}`}
+            >
+              {word.text}
+            </span>{" "}
+            {renderSilence(i)}
+          </Fragment>
+        ))}
+      </div>
+
+      {(timeline.fillers.length > 0 || timeline.silences.length > 0) && (
+        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1.5">
+            <span className="w-2 h-2 rounded-full bg-amber-400" />
+            {timeline.fillers.length} filler{timeline.fillers.length === 1 ? "" : "s"}
+          </span>
+          <span className="flex items-center gap-1.5">
+            <Pause className="w-3 h-3" />
+            {timeline.silences.length} long pause{timeline.silences.length === 1 ? "" : "s"}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
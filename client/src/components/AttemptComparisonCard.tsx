@@ -0,0 +1,100 @@
+import { useQuery } from "@tanstack/react-query";
+import { GlassCard } from "@/components/GlassCard";
+import { Badge } from "@/components/ui/badge";
+import { ArrowRight, TrendingDown, TrendingUp } from "lucide-react";
+import type { AttemptChain, MetricDelta } from "@shared/attempts";
+
+interface AttemptComparisonCardProps {
+  sessionId: string;
+}
+
+function formatDelta(delta: number): string {
+  return delta > 0 ? `+${delta}` : `${delta}`;
+}
+
+// For score, up is better; for fillers, down is better. Pace has no better
+// direction on its own, so it is shown neutral.
+function MetricRow({ label, metric, better }: { label: string; metric: MetricDelta; better?: "up" | "down" }) {
+  if (metric.delta === null) return null;
+  const improved = better === "up" ? metric.delta > 0 : better === "down" ? metric.delta < 0 : false;
+  const worse = better === "up" ? metric.delta < 0 : better === "down" ? metric.delta > 0 : false;
+
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="flex items-center gap-2">
+        <span className="text-muted-foreground">{metric.from}</span>
+        <ArrowRight className="w-3 h-3 text-muted-foreground" />
+        <span className="font-medium">{metric.to}</span>
+        <span className={improved ? "text-emerald-500" : worse ? "text-amber-500" : "text-muted-foreground"}>
+          ({formatDelta(metric.delta)})
+        </span>
+      </span>
+    </div>
+  );
+}
+
+export function AttemptComparisonCard({ sessionId }: AttemptComparisonCardProps) {
+  const { data: chain } = useQuery<AttemptChain>({
+    queryKey: ["/api/practice/attempts", sessionId],
+  });
+
+  const comparison = chain?.comparisons.find(c => c.toId === sessionId);
+  if (!chain || !comparison) return null;
+
+  const attemptNumber = chain.attempts.find(a => a.id === sessionId)?.attemptNumber;
+  const scoreDelta = comparison.score.delta ?? 0;
+
+  return (
+    <GlassCard variant="dark" className="space-y-4" data-testid="attempt-comparison">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold flex items-center gap-2">
+          {scoreDelta >= 0 ? (
+            <TrendingUp className="w-4 h-4 text-emerald-500" />
+          ) : (
+            <TrendingDown className="w-4 h-4 text-amber-500" />
+          )}
+          What Changed
+        </h3>
+        {attemptNumber && <Badge variant="outline">Attempt {attemptNumber}</Badge>}
+      </div>
+
+      <div className="space-y-2">
+        <MetricRow label="Score" metric={comparison.score} better="up" />
+        {comparison.tone.changed && (
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">Tone</span>
+            <span className="flex items-center gap-2">
+              <span className="text-muted-foreground">{comparison.tone.from}</span>
+              <ArrowRight className="w-3 h-3 text-muted-foreground" />
+              <span className="font-medium">{comparison.tone.to}</span>
+            </span>
+          </div>
+        )}
+        <MetricRow label="Filler words" metric={comparison.fillerWordCount} better="down" />
+        <MetricRow label="Words per minute" metric={comparison.wordsPerMinute} />
+        <MetricRow label="Length (words)" metric={comparison.wordCount} />
+      </div>
+
+      <div>
+        <p className="text-xs text-muted-foreground mb-2">Your wording, compared with last time</p>
+        <p className="text-sm leading-relaxed p-3 rounded-lg bg-muted/30" data-testid="attempt-wording-diff">
+          {comparison.wording.map((segment, i) => (
+            <span
+              key={i}
+              className={
+                segment.type === "added"
+                  ? "text-emerald-500"
+                  : segment.type === "removed"
+                    ? "text-muted-foreground line-through"
+                    : undefined
+              }
+            >
+              {segment.text}{" "}
+            </span>
+          ))}
+        </p>
+      </div>
+    </GlassCard>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { GlassCard } from "@/components/GlassCard";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { PRACTICE_CATEGORIES, type PracticeCategory } from "@shared/categories";
+import { lintScenarioText } from "@shared/scenarioLint";
+import type { CustomScenario } from "@shared/schema";
+import { Sparkles, Loader2, Save, Play, X } from "lucide-react";
+
+// Draft returned by /api/scenarios/generate, before it is saved.
+interface ScenarioDraft {
+  title: string;
+  description: string;
+  category: string;
+  difficulty: string;
+  context: string;
+  prompt: string;
+  sampleResponse: string;
+  tips: string[];
+  handoffLines: string[];
+}
+
+interface PersonalScenarioBuilderProps {
+  onPractice: (category: PracticeCategory, line: string) => void;
+}
+
+const MIN_SITUATION_LENGTH = 20;
+
+function toPracticeCategory(category: string): PracticeCategory {
+  return PRACTICE_CATEGORIES.find(c => c.id === category)?.id ?? "social";
+}
+
+export function PersonalScenarioBuilder({ onPractice }: PersonalScenarioBuilderProps) {
+  const { toast } = useToast();
+  const [situation, setSituation] = useState("");
+  const [draft, setDraft] = useState<ScenarioDraft | null>(null);
+  const [saved, setSaved] = useState<CustomScenario | null>(null);
+
+  const generateMutation = useMutation({
+    mutationFn: async (text: string) => {
+      const res = await apiRequest("POST", "/api/scenarios/generate", { situation: text });
+      return (await res.json()) as ScenarioDraft;
+    },
+    onSuccess: (data) => {
+      setDraft(data);
+      setSaved(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't build your scenario",
+        description: error?.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ScenarioDraft) => {
+      const lines = data.handoffLines.map(line => line.trim()).filter(Boolean);
+      const res = await apiRequest("POST", "/api/scenarios/custom", {
+        title: data.title,
+        description: data.description,
+        category: data.category,
+        difficulty: data.difficulty,
+        context: data.context,
+        prompt: lines[0] ?? data.prompt,
+        handoffLines: lines,
+        sampleResponse: data.sampleResponse,
+        tips: data.tips,
+      });
+      return (await res.json()) as CustomScenario;
+    },
+    onSuccess: (scenario) => {
+      setSaved(scenario);
+      queryClient.invalidateQueries({ queryKey: ["/api/scenarios/custom"] });
+      toast({ title: "Scenario saved", description: "Only you can see it." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't save your scenario",
+        description: error?.message || "Please try again",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateDraft = (changes: Partial<ScenarioDraft>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+    setSaved(null);
+  };
+
+  const updateLine = (index: number, line: string) => {
+    if (!draft) return;
+    updateDraft({ handoffLines: draft.handoffLines.map((l, i) => (i === index ? line : l)) });
+  };
+
+  const reset = () => {
+    setDraft(null);
+    setSaved(null);
+    setSituation("");
+  };
+
+  if (!draft) {
+    return (
+      <GlassCard variant="dark" className="space-y-3" data-testid="personal-scenario-builder">
+        <div>
+          <h3 className="font-semibold flex items-center gap-2">
+            <Sparkles className="w-4 h-4 text-violet-500" />
+            Practice your own conversation
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Describe a conversation you have coming up. We'll turn it into moments to practice.
+          </p>
+        </div>
+        <Textarea
+          value={situation}
+          onChange={(e) => setSituation(e.target.value)}
+          placeholder="My manager keeps moving my deadlines up, and I need to tell them the new date isn't realistic..."
+          className="min-h-[100px] resize-none"
+          data-testid="input-situation"
+        />
+        <Button
+          className="w-full gap-2"
+          onClick={() => generateMutation.mutate(situation.trim())}
+          disabled={situation.trim().length < MIN_SITUATION_LENGTH || generateMutation.isPending}
+          data-testid="button-generate-scenario"
+        >
+          {generateMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+          Build my scenario
+        </Button>
+      </GlassCard>
+    );
+  }
+
+  const category = toPracticeCategory(draft.category);
+  const lineLint = draft.handoffLines.map(line => lintScenarioText(line));
+  const hasErrors = lineLint.some(violations => violations.some(v => v.severity === "error"));
+
+  return (
+    <GlassCard variant="dark" className="space-y-4" data-testid="personal-scenario-draft">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex gap-2 flex-wrap">
+          <Badge variant="outline">{PRACTICE_CATEGORIES.find(c => c.id === category)?.label}</Badge>
+          <Badge variant="outline" className="capitalize">{draft.difficulty}</Badge>
+        </div>
+        <Button variant="ghost" size="icon" onClick={reset} data-testid="button-discard-scenario">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">Title</p>
+        <Input
+          value={draft.title}
+          onChange={(e) => updateDraft({ title: e.target.value })}
+          data-testid="input-scenario-title"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">Background</p>
+        <Textarea
+          value={draft.context}
+          onChange={(e) => updateDraft({ context: e.target.value })}
+          className="min-h-[80px] resize-none"
+          data-testid="input-scenario-context"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">Moments to respond to</p>
+        {draft.handoffLines.map((line, i) => (
+          <div key={i} className="space-y-1">
+            <div className="flex gap-2 items-start">
+              <Textarea
+                value={line}
+                onChange={(e) => updateLine(i, e.target.value)}
+                className="min-h-[60px] resize-none"
+                data-testid={`input-handoff-line-${i}`}
+              />
+              {saved && line.trim() && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => onPractice(category, line.trim())}
+                  data-testid={`button-practice-line-${i}`}
+                >
+                  <Play className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+            {lineLint[i].map((violation, j) => (
+              <p
+                key={j}
+                className={`text-xs ${violation.severity === "error" ? "text-amber-500" : "text-muted-foreground"}`}
+                data-testid={`lint-handoff-line-${i}`}
+              >
+                {violation.message} {violation.suggestion}
+              </p>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {draft.tips.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Tips</p>
+          <ul className="text-sm list-disc pl-5 space-y-1">
+            {draft.tips.map((tip, i) => (
+              <li key={i}>{tip}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {!saved && (
+        <Button
+          className="w-full gap-2"
+          onClick={() => saveMutation.mutate(draft)}
+          disabled={!draft.title.trim() || !draft.handoffLines.some(l => l.trim()) || hasErrors || saveMutation.isPending}
+          data-testid="button-save-scenario"
+        >
+          {saveMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+          Save privately
+        </Button>
+      )}
+    </GlassCard>
+  );
+}
@@ -8,6 +8,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { usePracticeHandoffs } from "@/hooks/usePracticeHandoffs";
 import { getRandomHandoffLine, DEFAULT_HANDOFF_LINE } from "@shared/promptBank";
 import { PRACTICE_CATEGORIES, type PracticeCategory } from "@shared/categories";
 import { Zap, Play, Pause, Send, RefreshCw, Sparkles, TrendingUp, MessageCircle } from "lucide-react";
@@ -55,6 +56,7 @@ interface QuickAnalysisResult {
 
 export function QuickPractice() {
   const { toast } = useToast();
+  const handoffs = usePracticeHandoffs();
   const [isActive, setIsActive] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [timeLeft, setTimeLeft] = useState(QUICK_PRACTICE_DURATION);
@@ -67,7 +69,7 @@ export function QuickPractice() {
 
   const getNewPrompt = useCallback(() => {
     const randomCategory = PRACTICE_CATEGORIES[Math.floor(Math.random() * PRACTICE_CATEGORIES.length)].id;
-    const prompt = getRandomHandoffLine(randomCategory) || DEFAULT_HANDOFF_LINE;
+    const prompt = getRandomHandoffLine(randomCategory, handoffs) || DEFAULT_HANDOFF_LINE;
     setCurrentCategory(randomCategory);
     setCurrentPrompt(prompt);
     setTimeLeft(QUICK_PRACTICE_DURATION);
@@ -75,7 +77,7 @@ export function QuickPractice() {
     setResult(null);
     setHasSubmitted(false);
     setIsPaused(false);
-  }, []);
+  }, [handoffs]);
 
   const startPractice = useCallback(() => {
     if (!currentPrompt) {
@@ -14,10 +14,13 @@ import {
   ThumbsUp,
   Target,
   Lightbulb,
-  User
+  User,
+  MessageSquare
 } from "lucide-react";
 import { useState } from "react";
 import type { WheelCategory } from "@/components/SpinWheel";
+import { AnnotatedTranscript } from "@/components/AnnotatedTranscript";
+import type { SpeechTimeline } from "@shared/timeline";
 
 interface ToneAnalysis {
   primaryTone: string;
@@ -38,6 +41,8 @@ interface ToneAnalysis {
 interface ToneFeedbackProps {
   analysis: ToneAnalysis;
   originalResponse: string;
+  timeline?: SpeechTimeline | null;
+  audioSrc?: string;
   category: WheelCategory;
   onContinue: () => void;
   onTryAgain: () => void;
@@ -81,6 +86,8 @@ const getPaceLabel = (pace: string) => {
 export function ToneFeedback({
   analysis,
   originalResponse,
+  timeline,
+  audioSrc,
   category,
   onContinue,
   onTryAgain,
@@ -167,6 +174,16 @@ export function ToneFeedback({
         </div>
       </GlassCard>
 
+      {timeline && timeline.words.length > 0 && (
+        <GlassCard className="p-5 space-y-3" data-testid="transcript-card">
+          <h3 className="font-medium flex items-center gap-2">
+            <MessageSquare className="w-4 h-4 text-primary" />
+            What You Said
+          </h3>
+          <AnnotatedTranscript timeline={timeline} audioSrc={audioSrc} />
+        </GlassCard>
+      )}
+
       {analysis.strengths && analysis.strengths.length > 0 && (
         <GlassCard className="p-5 space-y-3" data-testid="strengths-card">
           <h3 className="font-medium flex items-center gap-2">
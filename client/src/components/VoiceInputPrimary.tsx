@@ -4,7 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { GlassCard } from "@/components/GlassCard";
 import { VoiceWaveform } from "@/components/VoiceWaveform";
-import { apiRequest } from "@/lib/queryClient";
+import { transcribeRecording } from "@/lib/audioUpload";
 import { useToast } from "@/hooks/use-toast";
 import { 
   Mic, 
@@ -176,34 +176,28 @@ export function VoiceInputPrimary({
       
       if (audioChunksRef.current.length > 0) {
         setPhase("transcribing");
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
+        const audioBlob = new Blob(audioChunksRef.current, { type: mediaRecorder.mimeType || 'audio/webm' });
         
-        const reader = new FileReader();
-        reader.onloadend = async () => {
-          const base64 = (reader.result as string).split(',')[1];
-          try {
-            const res = await apiRequest("POST", "/api/transcribe", { audioBase64: base64 });
-            const data = await res.json();
-            if (data.text) {
-              setTranscribedText(data.text);
-              setPhase("ready");
-            } else {
-              setPhase("idle");
-              toast({
-                title: "No speech detected",
-                description: "We couldn't hear anything. Please try again.",
-              });
-            }
-          } catch {
+        try {
+          const data = await transcribeRecording(audioBlob);
+          if (data.text) {
+            setTranscribedText(data.text);
+            setPhase("ready");
+          } else {
             setPhase("idle");
             toast({
-              title: "Transcription failed",
-              description: "Could not convert your speech to text. Please try again.",
-              variant: "destructive",
+              title: "No speech detected",
+              description: "We couldn't hear anything. Please try again.",
             });
           }
-        };
-        reader.readAsDataURL(audioBlob);
+        } catch {
+          setPhase("idle");
+          toast({
+            title: "Transcription failed",
+            description: "Could not convert your speech to text. Please try again.",
+            variant: "destructive",
+          });
+        }
       }
     };
 
@@ -5,16 +5,43 @@ import { Button } from "@/components/ui/button";
 import { GlassCard } from "@/components/GlassCard";
 import { Mic, Square, Keyboard, RefreshCw, ArrowRight, Loader2, Volume2 } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
 import { apiRequest } from "@/lib/queryClient";
 import type { WheelCategory } from "@/components/SpinWheel";
 import type { PracticeHandoff } from "@shared/promptBank";
 
+// Parts of the streamed analysis received so far.
+export interface AnalysisProgress {
+  transcription?: string;
+  tone?: string;
+  score?: number;
+  coachingInsight?: string;
+}
+
+// The user's skill rating in a category, from /api/practice/skill-ratings.
+export interface SkillLevel {
+  category: string;
+  rating: number;
+  difficulty: PracticeHandoff["difficulty"];
+  provisional: boolean;
+}
+
+const DIFFICULTY_LABELS: Record<PracticeHandoff["difficulty"], string> = {
+  beginner: "Beginner",
+  intermediate: "Intermediate",
+  advanced: "Advanced",
+};
+
 interface VoicePracticeSessionProps {
   category: WheelCategory;
   prompt: PracticeHandoff;
-  onComplete: (response: string, audioData?: string, duration?: number) => void;
+  skillLevel?: SkillLevel;
+  // Recordings are passed with an empty response; the transcription comes
+  // back as the first event of the analysis stream.
+  onComplete: (response: string, recording?: Blob, duration?: number) => void;
   onSkip: () => void;
   isProcessing?: boolean;
+  analysisProgress?: AnalysisProgress;
 }
 
 type SessionPhase = "ai-speaking" | "ready" | "recording" | "processing" | "text-input";
@@ -22,9 +49,11 @@ type SessionPhase = "ai-speaking" | "ready" | "recording" | "processing" | "text
 export function VoicePracticeSession({
   category,
   prompt,
+  skillLevel,
   onComplete,
   onSkip,
   isProcessing = false,
+  analysisProgress = {},
 }: VoicePracticeSessionProps) {
   const [phase, setPhase] = useState<SessionPhase>("ai-speaking");
   const [recordingTime, setRecordingTime] = useState(0);
@@ -49,11 +78,16 @@ export function VoicePracticeSession({
     setPhase("ai-speaking");
     setIsSpeaking(true);
     try {
-      const res = await apiRequest("POST", "/api/tts", { text: prompt.line, section: "scenario" });
+      const res = await apiRequest("POST", "/api/tts", {
+        text: prompt.line,
+        section: "scenario",
+        category: prompt.category,
+        handoffId: prompt.id,
+      });
       const data = await res.json();
       
       if (data.audio) {
-        const audio = new Audio(`data:audio/mp3;base64,${data.audio}`);
+        const audio = new Audio(`data:${data.mimeType || "audio/mpeg"};base64,${data.audio}`);
         audioRef.current = audio;
         
         await new Promise<void>((resolve) => {
@@ -78,7 +112,7 @@ export function VoicePracticeSession({
     }
     
     setTimeout(() => setPhase("ready"), 500);
-  }, [prompt.line]);
+  }, [prompt.line, prompt.category, prompt.id]);
 
   useEffect(() => {
     speakPrompt();
@@ -181,27 +215,8 @@ export function VoicePracticeSession({
     try {
       const mimeType = mediaRecorderRef.current?.mimeType || 'audio/webm';
       const audioBlob = new Blob(chunksRef.current, { type: mimeType });
-      
-      const reader = new FileReader();
-      const base64Promise = new Promise<string>((resolve, reject) => {
-        reader.onloadend = () => {
-          const result = reader.result as string;
-          const base64 = result.split(',')[1];
-          resolve(base64);
-        };
-        reader.onerror = reject;
-      });
-      reader.readAsDataURL(audioBlob);
-      
-      const audioBase64 = await base64Promise;
-      
-      const response = await apiRequest("POST", "/api/transcribe", { audioBase64 });
-
-      if (!response.ok) throw new Error("Transcription failed");
 
-      const { text } = await response.json();
-      
-      onComplete(text, audioBase64, recordingTime);
+      onComplete("", audioBlob, recordingTime);
     } catch (err) {
       console.error("Processing error:", err);
       setPhase("text-input");
@@ -222,6 +237,15 @@ export function VoicePracticeSession({
 
   const CategoryIcon = category.icon;
 
+  const { transcription, tone, score, coachingInsight } = analysisProgress;
+  const processingLabel = !transcription
+    ? "Analyzing your response..."
+    : score === undefined
+      ? "Reading your tone..."
+      : !coachingInsight
+        ? "Writing your coaching notes..."
+        : "Adding up your rewards...";
+
   return (
     <div className="flex flex-col items-center gap-6 w-full max-w-lg mx-auto px-4">
       <motion.div
@@ -239,6 +263,13 @@ export function VoicePracticeSession({
         <span className="text-lg font-medium" style={{ color: category.color }}>
           {category.label}
         </span>
+        {skillLevel && (
+          <Badge variant="outline" className="text-xs" data-testid="skill-level">
+            {skillLevel.provisional
+              ? `${DIFFICULTY_LABELS[skillLevel.difficulty]} · calibrating`
+              : `${DIFFICULTY_LABELS[skillLevel.difficulty]} · ${skillLevel.rating}`}
+          </Badge>
+        )}
       </motion.div>
 
       <motion.div
@@ -395,11 +426,42 @@ export function VoicePracticeSession({
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
             transition={{ duration: 0.3 }}
-            className="flex flex-col items-center gap-3 mt-4"
+            className="flex flex-col items-center gap-3 mt-4 w-full"
           >
+            {transcription && (
+              <motion.p
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="text-sm text-muted-foreground text-center italic"
+                data-testid="text-live-transcription"
+              >
+                "{transcription}"
+              </motion.p>
+            )}
+            {tone && score !== undefined && (
+              <motion.div
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="flex items-center gap-3"
+                data-testid="live-tone-score"
+              >
+                <span className="text-2xl font-bold" style={{ color: category.color }}>{score}</span>
+                <span className="text-sm capitalize text-muted-foreground">{tone}</span>
+              </motion.div>
+            )}
+            {coachingInsight && (
+              <motion.p
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="text-sm text-center leading-relaxed"
+                data-testid="text-live-coaching"
+              >
+                {coachingInsight}
+              </motion.p>
+            )}
             <Loader2 className="w-8 h-8 animate-spin text-violet-400" />
             <p className="text-sm text-muted-foreground">
-              Analyzing your response...
+              {processingLabel}
             </p>
           </motion.div>
         )}
@@ -13,7 +13,7 @@ import {
 } from "lucide-react";
 
 interface VoiceRecorderProps {
-  onSubmit: (audioBase64: string, duration: number) => void;
+  onSubmit: (recording: Blob, duration: number) => void;
   isSubmitting?: boolean;
   disabled?: boolean;
 }
@@ -173,15 +173,9 @@ export function VoiceRecorder({ onSubmit, isSubmitting, disabled }: VoiceRecorde
     setIsPlaying(false);
   };
 
-  const handleSubmit = async () => {
+  const handleSubmit = () => {
     if (!audioBlob) return;
-
-    const reader = new FileReader();
-    reader.onload = () => {
-      const base64 = (reader.result as string).split(',')[1];
-      onSubmit(base64, recordingTime);
-    };
-    reader.readAsDataURL(audioBlob);
+    onSubmit(audioBlob, recordingTime);
   };
 
   const formatTime = (seconds: number) => {
@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import { PRACTICE_HANDOFFS, type PracticeHandoff } from "@shared/promptBank";
+import { apiRequest } from "@/lib/queryClient";
+
+// Handoff lines published from the content admin, in the browser's locale
+// (the server fills in untranslated lines from the default one). The bundled
+// bank is used until they load, or if the request fails.
+export function usePracticeHandoffs(): PracticeHandoff[] {
+  const locale = navigator.language || "en";
+  const { data } = useQuery<PracticeHandoff[]>({
+    queryKey: ["/api/content/handoffs", { locale }],
+    queryFn: async () => {
+      const params = new URLSearchParams({ locale });
+      const res = await apiRequest("GET", `/api/content/handoffs?${params.toString()}`);
+      return res.json();
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return data && data.length > 0 ? data : PRACTICE_HANDOFFS;
+}
@@ -1,5 +1,6 @@
 import { useState, useRef, useCallback, useEffect } from "react";
 import { apiRequest } from "@/lib/queryClient";
+import { transcribeRecording } from "@/lib/audioUpload";
 
 interface VoiceCommand {
   keywords: string[];
@@ -121,7 +122,7 @@ export function useVoiceAssistant(options: UseVoiceAssistantOptions = {}) {
       const data = await res.json();
       
       if (data.audio) {
-        const audio = new Audio(`data:audio/mp3;base64,${data.audio}`);
+        const audio = new Audio(`data:${data.mimeType || "audio/mpeg"};base64,${data.audio}`);
         audioRef.current = audio;
         
         return new Promise((resolve) => {
@@ -166,20 +167,7 @@ export function useVoiceAssistant(options: UseVoiceAssistantOptions = {}) {
     setState(prev => ({ ...prev, isTranscribing: true }));
     
     try {
-      const reader = new FileReader();
-      const base64Promise = new Promise<string>((resolve, reject) => {
-        reader.onloadend = () => {
-          const result = reader.result as string;
-          const base64 = result.split(',')[1];
-          resolve(base64);
-        };
-        reader.onerror = reject;
-      });
-      reader.readAsDataURL(audioBlob);
-      
-      const base64 = await base64Promise;
-      const res = await apiRequest("POST", "/api/transcribe", { audioBase64: base64 });
-      const data = await res.json();
+      const data = await transcribeRecording(audioBlob);
       
       if (data.text) {
         setState(prev => ({ ...prev, transcript: data.text, isTranscribing: false }));
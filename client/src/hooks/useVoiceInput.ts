@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef, useCallback } from "react";
+import { transcribeRecording } from "@/lib/audioUpload";
 
 export interface VoiceInputState {
   isListening: boolean;
@@ -86,21 +87,11 @@ export function useVoiceInput({
 
     setState(prev => ({ ...prev, isProcessing: true }));
 
-    const audioBlob = new Blob(chunksRef.current, { type: "audio/webm" });
+    const audioBlob = new Blob(chunksRef.current, { type: mediaRecorderRef.current?.mimeType || "audio/webm" });
     chunksRef.current = [];
 
     try {
-      const formData = new FormData();
-      formData.append("audio", audioBlob, "recording.webm");
-
-      const response = await fetch("/api/transcribe", {
-        method: "POST",
-        body: formData,
-      });
-
-      if (!response.ok) throw new Error("Transcription failed");
-
-      const { text } = await response.json();
+      const { text } = await transcribeRecording(audioBlob);
       setState(prev => ({ ...prev, transcript: text, isProcessing: false }));
       onTranscript(text);
       onAutoSubmit?.();
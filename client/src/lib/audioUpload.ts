@@ -0,0 +1,27 @@
+import { apiRequest, apiUpload } from "@/lib/queryClient";
+
+export interface AudioUpload {
+  uploadId: string;
+  mimeType: string;
+  sizeBytes: number;
+  durationSeconds: number;
+}
+
+export interface Transcription {
+  text: string;
+  language: string | null;
+  confidence: number | null;
+}
+
+// Sends a recording to /api/audio/upload once; transcription, analysis and
+// journaling then take the returned uploadId.
+export async function uploadAudio(recording: Blob): Promise<AudioUpload> {
+  const res = await apiUpload("/api/audio/upload", recording);
+  return res.json();
+}
+
+export async function transcribeRecording(recording: Blob): Promise<Transcription> {
+  const { uploadId } = await uploadAudio(recording);
+  const res = await apiRequest("POST", "/api/transcribe", { uploadId, language: navigator.language });
+  return res.json();
+}
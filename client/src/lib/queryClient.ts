@@ -42,6 +42,89 @@ export async function apiRequest(
   return res;
 }
 
+// POSTs a Blob as the raw request body, typed with the blob's own MIME type.
+export async function apiUpload(url: string, body: Blob): Promise<Response> {
+  const authHeaders = await getAuthHeaders();
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": body.type || "application/octet-stream",
+      ...authHeaders,
+    },
+    body,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
+// POSTs to an endpoint that streams Server-Sent Events. Each event is handed
+// to onEvent as it arrives; resolves with the `done` payload and rejects on
+// an `error` event or a non-2xx response.
+export async function apiEventStream<T>(
+  url: string,
+  data: unknown,
+  onEvent: (event: string, payload: any) => void,
+): Promise<T> {
+  const authHeaders = await getAuthHeaders();
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+      ...authHeaders,
+    },
+    body: JSON.stringify(data),
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  if (!res.body) {
+    throw new Error("Streaming is not supported in this browser");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let result: T | undefined;
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      let event = "message";
+      const dataLines: string[] = [];
+      for (const line of frame.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+      }
+      if (dataLines.length === 0) continue;
+
+      const payload = JSON.parse(dataLines.join("\n"));
+      if (event === "error") {
+        throw Object.assign(new Error(payload.message || "Request failed"), payload);
+      }
+      if (event === "done") {
+        result = payload as T;
+      }
+      onEvent(event, payload);
+    }
+  }
+
+  if (result === undefined) {
+    throw new Error("Stream ended before the response was complete");
+  }
+  return result;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -0,0 +1,378 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { lintScenarioText, type ScenarioLintViolation } from "@shared/scenarioLint";
+import type { ContentItem } from "@shared/schema";
+
+type ContentKind = "handoff" | "scenario";
+
+interface HandoffBody {
+  id: string;
+  category: string;
+  line: string;
+  difficulty: "beginner" | "intermediate" | "advanced";
+}
+
+const DIFFICULTIES: HandoffBody["difficulty"][] = ["beginner", "intermediate", "advanced"];
+
+// Scenario contexts get the same 60-word allowance as the server.
+const CONTEXT_MAX_WORDS = 60;
+
+const NEW_BODIES: Record<ContentKind, (key: string) => unknown> = {
+  handoff: (key) => ({ id: key, category: "general", line: "", difficulty: "beginner" }),
+  scenario: (key) => ({
+    id: key,
+    title: "",
+    description: "",
+    category: "general",
+    difficulty: 1,
+    requiredLevel: 1,
+    context: "",
+    aiRole: "",
+    phases: [{ name: "Opening", objective: "", tips: [] }],
+  }),
+};
+
+async function adminFetch(path: string, init: RequestInit = {}) {
+  const adminToken = import.meta.env.VITE_ADMIN_TOKEN as string | undefined;
+  if (!adminToken) throw new Error("Missing VITE_ADMIN_TOKEN env var");
+
+  const res = await fetch(path, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${adminToken}`,
+      ...(init.body ? { "Content-Type": "application/json" } : {}),
+    },
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(res.status === 401 ? "Unauthorized" : data?.message || "Request failed");
+  }
+  return data;
+}
+
+function lintBody(kind: string, body: unknown, locale: string): ScenarioLintViolation[] {
+  if (!locale.startsWith("en") || !body || typeof body !== "object") return [];
+  if (kind === "handoff") return lintScenarioText((body as HandoffBody).line ?? "");
+  const context = (body as { context?: string }).context ?? "";
+  return lintScenarioText(context, { maxWords: CONTEXT_MAX_WORDS });
+}
+
+function statusVariant(status: string): "default" | "secondary" | "outline" {
+  if (status === "published") return "default";
+  if (status === "draft") return "secondary";
+  return "outline";
+}
+
+export default function AdminContent() {
+  const [kind, setKind] = useState<ContentKind>("handoff");
+  const [locale, setLocale] = useState("en");
+  const [items, setItems] = useState<ContentItem[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [editing, setEditing] = useState<ContentItem | null>(null);
+  const [bodyText, setBodyText] = useState("");
+  const [newKey, setNewKey] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(() => {
+    setLoading(true);
+    const params = new URLSearchParams({ kind, locale });
+    adminFetch(`/api/admin/content?${params}`)
+      .then((data: ContentItem[]) => {
+        setItems(data);
+        setError(null);
+      })
+      .catch((err) => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [kind, locale]);
+
+  useEffect(() => {
+    load();
+    setSelectedKey(null);
+    setEditing(null);
+  }, [load]);
+
+  // Rows come back newest version first within each key.
+  const keys = useMemo(() => {
+    const byKey = new Map<string, ContentItem[]>();
+    for (const item of items) {
+      byKey.set(item.contentKey, [...(byKey.get(item.contentKey) ?? []), item]);
+    }
+    return Array.from(byKey.entries());
+  }, [items]);
+
+  const versions = selectedKey ? keys.find(([key]) => key === selectedKey)?.[1] ?? [] : [];
+
+  let parsedBody: unknown = null;
+  let parseError: string | null = null;
+  try {
+    parsedBody = bodyText ? JSON.parse(bodyText) : null;
+  } catch (err: any) {
+    parseError = err.message;
+  }
+  const liveLint = editing ? lintBody(editing.kind, parsedBody, editing.locale) : [];
+  const hasLintErrors = liveLint.some((v) => v.severity === "error");
+
+  const openItem = (item: ContentItem) => {
+    setEditing(item);
+    setBodyText(JSON.stringify(item.body, null, 2));
+    setNotice(null);
+  };
+
+  const run = async (action: () => Promise<void>, message: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setNotice(message);
+      load();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createDraft = (contentKey: string, body: unknown) =>
+    run(async () => {
+      const data = await adminFetch("/api/admin/content", {
+        method: "POST",
+        body: JSON.stringify({ kind, contentKey, locale, body }),
+      });
+      setSelectedKey(contentKey);
+      openItem(data.item);
+    }, "Draft created");
+
+  const saveDraft = () =>
+    editing &&
+    run(async () => {
+      const data = await adminFetch(`/api/admin/content/${editing.id}`, {
+        method: "PUT",
+        body: JSON.stringify({ body: parsedBody }),
+      });
+      openItem(data.item);
+    }, "Draft saved");
+
+  const publish = (item: ContentItem) =>
+    run(async () => {
+      const published = await adminFetch("/api/admin/content/publish", {
+        method: "POST",
+        body: JSON.stringify({ id: item.id }),
+      });
+      openItem(published);
+    }, `Version ${item.version} published`);
+
+  const deleteDraft = (item: ContentItem) =>
+    run(async () => {
+      await adminFetch(`/api/admin/content/${item.id}`, { method: "DELETE" });
+      setEditing(null);
+    }, "Draft deleted");
+
+  const seed = () =>
+    run(async () => {
+      const result = await adminFetch("/api/admin/content/seed", { method: "POST" });
+      setNotice(`Seeded ${result.created} items (${result.skipped} already present)`);
+    }, "Seeded");
+
+  const updateHandoff = (changes: Partial<HandoffBody>) => {
+    setBodyText(JSON.stringify({ ...(parsedBody as HandoffBody), ...changes }, null, 2));
+  };
+
+  return (
+    <div className="min-h-screen bg-background text-foreground p-6 space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">Practice Content</h1>
+          <p className="text-sm text-muted-foreground">Handoff lines and scenarios · drafts, versions, locales · token gated</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant={kind === "handoff" ? "default" : "ghost"} onClick={() => setKind("handoff")}>Handoffs</Button>
+          <Button size="sm" variant={kind === "scenario" ? "default" : "ghost"} onClick={() => setKind("scenario")}>Scenarios</Button>
+          <Input
+            value={locale}
+            onChange={(e) => setLocale(e.target.value.trim())}
+            className="w-24"
+            placeholder="en"
+            data-testid="input-content-locale"
+          />
+          <Button size="sm" variant="outline" onClick={seed} disabled={busy}>Seed from bundled content</Button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      {notice && <p className="text-sm text-muted-foreground">{notice}</p>}
+
+      <div className="grid gap-4 md:grid-cols-[minmax(0,1fr)_minmax(0,2fr)]">
+        <div className="space-y-2">
+          <Card className="p-3 flex gap-2">
+            <Input
+              value={newKey}
+              onChange={(e) => setNewKey(e.target.value.trim())}
+              placeholder={kind === "handoff" ? "new key, e.g. w6" : "new key, e.g. workplace-4"}
+              data-testid="input-new-content-key"
+            />
+            <Button
+              size="sm"
+              onClick={() => createDraft(newKey, NEW_BODIES[kind](newKey))}
+              disabled={!newKey || busy}
+            >
+              New
+            </Button>
+          </Card>
+
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading…</p>
+          ) : keys.length === 0 ? (
+            <Card className="p-4 text-sm text-muted-foreground">
+              Nothing in {locale} yet. Seed the bank or add a key; players see the bundled content until then.
+            </Card>
+          ) : (
+            keys.map(([key, rows]) => {
+              const live = rows.find((r) => r.status === "published");
+              const draft = rows.find((r) => r.status === "draft");
+              const preview = (live ?? rows[0]).body as { line?: string; title?: string };
+              return (
+                <Card
+                  key={key}
+                  className={`p-3 space-y-1 cursor-pointer ${selectedKey === key ? "border-primary" : ""}`}
+                  onClick={() => {
+                    setSelectedKey(key);
+                    openItem(draft ?? live ?? rows[0]);
+                  }}
+                  data-testid={`content-key-${key}`}
+                >
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span className="font-medium text-foreground">{key}</span>
+                    <Badge variant="outline">{rows[0].category}</Badge>
+                    {live && <Badge variant="default">v{live.version} live</Badge>}
+                    {draft && <Badge variant="secondary">v{draft.version} draft</Badge>}
+                  </div>
+                  <p className="text-sm line-clamp-2">{preview.line ?? preview.title}</p>
+                </Card>
+              );
+            })
+          )}
+        </div>
+
+        {editing && (
+          <Card className="p-4 space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <span className="font-medium text-foreground">{editing.contentKey}</span>
+              <Badge variant={statusVariant(editing.status)}>{editing.status}</Badge>
+              <span>v{editing.version}</span>
+              <span>{editing.locale}</span>
+              {editing.publishedAt && <span>published {format(new Date(editing.publishedAt), "yyyy-MM-dd HH:mm")}</span>}
+            </div>
+
+            {editing.kind === "handoff" && parsedBody !== null && (
+              <div className="space-y-2">
+                <Textarea
+                  value={(parsedBody as HandoffBody).line ?? ""}
+                  onChange={(e) => updateHandoff({ line: e.target.value })}
+                  disabled={editing.status !== "draft"}
+                  className="min-h-[80px] resize-none"
+                  data-testid="input-content-line"
+                />
+                <div className="flex flex-wrap gap-2">
+                  <Input
+                    value={(parsedBody as HandoffBody).category ?? ""}
+                    onChange={(e) => updateHandoff({ category: e.target.value.trim() })}
+                    disabled={editing.status !== "draft"}
+                    className="w-40"
+                  />
+                  {DIFFICULTIES.map((difficulty) => (
+                    <Button
+                      key={difficulty}
+                      size="sm"
+                      variant={(parsedBody as HandoffBody).difficulty === difficulty ? "default" : "ghost"}
+                      onClick={() => updateHandoff({ difficulty })}
+                      disabled={editing.status !== "draft"}
+                      className="capitalize"
+                    >
+                      {difficulty}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {editing.kind === "scenario" && (
+              <Textarea
+                value={bodyText}
+                onChange={(e) => setBodyText(e.target.value)}
+                disabled={editing.status !== "draft"}
+                className="min-h-[360px] font-mono text-xs"
+                data-testid="input-content-body"
+              />
+            )}
+
+            {parseError && <p className="text-xs text-red-500">{parseError}</p>}
+            {liveLint.map((violation, i) => (
+              <p
+                key={i}
+                className={`text-xs ${violation.severity === "error" ? "text-amber-500" : "text-muted-foreground"}`}
+              >
+                {violation.rule}: {violation.message} {violation.suggestion}
+              </p>
+            ))}
+
+            <div className="flex flex-wrap gap-2">
+              {editing.status === "draft" ? (
+                <>
+                  <Button size="sm" onClick={saveDraft} disabled={busy || !!parseError}>Save draft</Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => publish(editing)}
+                    disabled={busy || hasLintErrors || bodyText !== JSON.stringify(editing.body, null, 2)}
+                  >
+                    Publish
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => deleteDraft(editing)} disabled={busy}>Delete draft</Button>
+                </>
+              ) : (
+                <Button
+                  size="sm"
+                  onClick={() => createDraft(editing.contentKey, editing.body)}
+                  disabled={busy || versions.some((v) => v.status === "draft")}
+                >
+                  Edit as new draft
+                </Button>
+              )}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">Versions in {editing.locale}</p>
+              {versions.map((version) => (
+                <div key={version.id} className="flex items-center gap-2 text-xs">
+                  <button className="underline" onClick={() => openItem(version)}>v{version.version}</button>
+                  <Badge variant={statusVariant(version.status)}>{version.status}</Badge>
+                  {version.updatedAt && <span>{format(new Date(version.updatedAt), "yyyy-MM-dd HH:mm")}</span>}
+                  {version.status === "archived" && (
+                    <Button size="sm" variant="ghost" onClick={() => publish(version)} disabled={busy}>Restore</Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+      </div>
+
+      <Separator className="my-4" />
+      <p className="text-xs text-muted-foreground">
+        Uses /api/admin/content with the same Bearer token as /admin/feedback. Switch the locale to write a
+        translation; keys without one fall back to en. Published changes reach players within a few minutes.
+      </p>
+    </div>
+  );
+}
@@ -9,8 +9,12 @@ import { Badge } from "@/components/ui/badge";
 import { UserAvatar } from "@/components/UserAvatar";
 import { VoiceRecorder } from "@/components/VoiceRecorder";
 import { QuickPractice } from "@/components/QuickPractice";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { PersonalScenarioBuilder } from "@/components/PersonalScenarioBuilder";
+import { AttemptComparisonCard } from "@/components/AttemptComparisonCard";
+import { apiEventStream, queryClient } from "@/lib/queryClient";
+import { uploadAudio } from "@/lib/audioUpload";
 import { useToast } from "@/hooks/use-toast";
+import { usePracticeHandoffs } from "@/hooks/usePracticeHandoffs";
 import { 
   Briefcase, 
   Heart, 
@@ -37,10 +41,12 @@ import {
   Flame,
   Award,
   Crown,
-  Zap
+  Zap,
+  RotateCcw
 } from "lucide-react";
-import { getRandomHandoffLine, DEFAULT_HANDOFF_LINE } from "@shared/promptBank";
+import { getRandomHandoff } from "@shared/promptBank";
 import { PRACTICE_CATEGORIES, type PracticeCategory } from "@shared/categories";
+import { FILLER_TYPES, FILLER_TYPE_LABELS, type FillerBreakdown } from "@shared/fillers";
 
 const categoryConfig: Record<PracticeCategory, { icon: any; color: string; label: string }> = {
   workplace: { icon: Briefcase, color: "text-blue-500 bg-blue-500/20", label: "Workplace" },
@@ -64,6 +70,8 @@ interface TextAnalysisResult {
   xpEarned: number;
   ppEarned: number;
   streakBonus: number;
+  sessionId?: string;
+  attemptNumber?: number;
   currentStreak: number;
   newBadges: EarnedBadge[];
 }
@@ -74,12 +82,22 @@ interface VoiceAnalysisResult extends TextAnalysisResult {
   wordsPerMinute: number;
   paceFeedback: string;
   fillerWordCount: number;
+  fillerBreakdown: FillerBreakdown;
   detectedFillers: string[];
   audioDuration: number;
   confidenceLevel?: number;
   voiceCoachingTips?: string[];
 }
 
+type VoiceMetrics = Pick<
+  VoiceAnalysisResult,
+  'transcription' | 'wordCount' | 'wordsPerMinute' | 'paceFeedback' | 'fillerWordCount' | 'fillerBreakdown' | 'detectedFillers' | 'audioDuration'
+>;
+
+// The analysis streams in as separate events (transcription, tone/score,
+// coaching, rewards), so every field may still be missing while it renders.
+type AnalysisView = Partial<VoiceAnalysisResult>;
+
 type PracticeMode = 'text' | 'voice';
 
 interface UsageData {
@@ -98,11 +116,13 @@ const tierLabels: Record<string, string> = {
 export default function Practice() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
+  const handoffs = usePracticeHandoffs();
   
   const [selectedCategory, setSelectedCategory] = useState<PracticeCategory | null>(null);
   const [currentPrompt, setCurrentPrompt] = useState<string | null>(null);
+  const [handoffId, setHandoffId] = useState<string | null>(null);
   const [response, setResponse] = useState("");
-  const [analysis, setAnalysis] = useState<TextAnalysisResult | VoiceAnalysisResult | null>(null);
+  const [analysis, setAnalysis] = useState<AnalysisView | null>(null);
   const [practiceMode, setPracticeMode] = useState<PracticeMode>('text');
   const [limitExceeded, setLimitExceeded] = useState(false);
 
@@ -115,17 +135,15 @@ export default function Practice() {
   const isNearLimit = typeof remaining === 'number' && remaining <= 2 && remaining > 0;
   const isAtLimit = typeof remaining === 'number' && remaining === 0;
 
+  const mergeAnalysis = (_event: string, payload: AnalysisView) => {
+    setAnalysis(prev => ({ ...prev, ...payload }));
+  };
+
   const analyzeMutation = useMutation({
-    mutationFn: async (data: { prompt: string; response: string; category: string }) => {
-      const res = await apiRequest("POST", "/api/practice/analyze", data);
-      if (res.status === 402) {
-        const errorData = await res.json();
-        throw { status: 402, ...errorData };
-      }
-      return res.json() as Promise<TextAnalysisResult>;
-    },
+    mutationFn: (data: { prompt: string; response: string; category: string; handoffId?: string }) =>
+      apiEventStream<TextAnalysisResult>("/api/practice/analyze", data, mergeAnalysis),
     onSuccess: (data) => {
-      setAnalysis(data);
+      setAnalysis(prev => ({ ...prev, ...data }));
       setLimitExceeded(false);
       queryClient.invalidateQueries({ queryKey: ["/api/progress"] });
       refetchUsage();
@@ -146,6 +164,7 @@ export default function Practice() {
       }
     },
     onError: (error: any) => {
+      setAnalysis(null);
       if (error?.status === 402 || error?.upgradeRequired) {
         setLimitExceeded(true);
         toast({
@@ -164,16 +183,12 @@ export default function Practice() {
   });
 
   const voiceAnalyzeMutation = useMutation({
-    mutationFn: async (data: { audioBase64: string; duration: number; prompt: string; category: string }) => {
-      const res = await apiRequest("POST", "/api/practice/analyze-voice", data);
-      if (res.status === 402) {
-        const errorData = await res.json();
-        throw { status: 402, ...errorData };
-      }
-      return res.json() as Promise<VoiceAnalysisResult>;
+    mutationFn: async ({ recording, ...data }: { recording: Blob; duration: number; prompt: string; category: string; handoffId?: string }) => {
+      const { uploadId } = await uploadAudio(recording);
+      return apiEventStream<VoiceAnalysisResult>("/api/practice/analyze-voice", { ...data, uploadId }, mergeAnalysis);
     },
     onSuccess: (data) => {
-      setAnalysis(data);
+      setAnalysis(prev => ({ ...prev, ...data }));
       setLimitExceeded(false);
       queryClient.invalidateQueries({ queryKey: ["/api/progress"] });
       refetchUsage();
@@ -194,6 +209,7 @@ export default function Practice() {
       }
     },
     onError: (error: any) => {
+      setAnalysis(null);
       if (error?.status === 402 || error?.upgradeRequired) {
         setLimitExceeded(true);
         toast({
@@ -211,21 +227,41 @@ export default function Practice() {
     },
   });
 
+  const showHandoff = (category: PracticeCategory) => {
+    const handoff = getRandomHandoff(category, handoffs);
+    setCurrentPrompt(handoff.line);
+    setHandoffId(handoff.id);
+    setResponse("");
+    setAnalysis(null);
+  };
+
   const selectCategory = (category: PracticeCategory) => {
     setSelectedCategory(category);
-    setCurrentPrompt(getRandomHandoffLine(category) || DEFAULT_HANDOFF_LINE);
+    showHandoff(category);
+  };
+
+  // A line from the user's own saved scenario. It has no handoff id, so its
+  // attempts are chained by the prompt text.
+  const practiceCustomLine = (category: PracticeCategory, line: string) => {
+    setSelectedCategory(category);
+    setCurrentPrompt(line);
+    setHandoffId(null);
     setResponse("");
     setAnalysis(null);
   };
 
   const refreshPrompt = () => {
     if (selectedCategory) {
-      setCurrentPrompt(getRandomHandoffLine(selectedCategory) || DEFAULT_HANDOFF_LINE);
-      setResponse("");
-      setAnalysis(null);
+      showHandoff(selectedCategory);
     }
   };
 
+  // Same prompt again; the next analysis joins this prompt's attempt chain.
+  const tryAgain = () => {
+    setResponse("");
+    setAnalysis(null);
+  };
+
   const handleTextSubmit = () => {
     if (!currentPrompt || !response.trim() || !selectedCategory) return;
     
@@ -233,29 +269,32 @@ export default function Practice() {
       prompt: currentPrompt,
       response: response.trim(),
       category: selectedCategory,
+      handoffId: handoffId ?? undefined,
     });
   };
 
-  const handleVoiceSubmit = (audioBase64: string, duration: number) => {
+  const handleVoiceSubmit = (recording: Blob, duration: number) => {
     if (!currentPrompt || !selectedCategory) return;
 
     voiceAnalyzeMutation.mutate({
-      audioBase64,
+      recording,
       duration,
       prompt: currentPrompt,
       category: selectedCategory,
+      handoffId: handoffId ?? undefined,
     });
   };
 
   const resetPractice = () => {
     setSelectedCategory(null);
     setCurrentPrompt(null);
+    setHandoffId(null);
     setResponse("");
     setAnalysis(null);
   };
 
-  const isVoiceAnalysis = (result: TextAnalysisResult | VoiceAnalysisResult): result is VoiceAnalysisResult => {
-    return 'transcription' in result;
+  const isVoiceAnalysis = (result: AnalysisView): result is AnalysisView & VoiceMetrics => {
+    return result.transcription !== undefined;
   };
 
   const getPaceColor = (wpm: number) => {
@@ -291,6 +330,14 @@ export default function Practice() {
           <QuickPractice />
         </motion.div>
 
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.08 }}
+        >
+          <PersonalScenarioBuilder onPractice={practiceCustomLine} />
+        </motion.div>
+
         {usageData && (
           <motion.div
             initial={{ opacity: 0, y: 10 }}
@@ -377,6 +424,11 @@ export default function Practice() {
 
   const config = categoryConfig[selectedCategory];
   const isLoading = analyzeMutation.isPending || voiceAnalyzeMutation.isPending;
+  const pendingLabel = !analysis || analysis.score === undefined
+    ? "Reading your tone..."
+    : !analysis.tips
+      ? "Writing your coaching notes..."
+      : "Adding up your rewards...";
 
   // Practice View
   return (
@@ -534,43 +586,52 @@ export default function Practice() {
             className="space-y-4"
           >
             {/* Score */}
-            <GlassCard variant="glow">
-              <div className="flex items-center justify-between gap-4">
-                <div>
-                  <p className="text-sm text-muted-foreground">Communication Score</p>
-                  <p className="text-3xl font-bold" data-testid="text-score">{analysis.score}/100</p>
+            {analysis.score !== undefined && (
+              <GlassCard variant="glow">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Communication Score</p>
+                    <p className="text-3xl font-bold" data-testid="text-score">{analysis.score}/100</p>
+                  </div>
+                  <Badge className="text-lg py-2 px-4" data-testid="badge-tone">{analysis.tone}</Badge>
                 </div>
-                <Badge className="text-lg py-2 px-4" data-testid="badge-tone">{analysis.tone}</Badge>
-              </div>
-            </GlassCard>
+              </GlassCard>
+            )}
+
+            {/* Compared with the previous attempt */}
+            {!isLoading && analysis.sessionId && (analysis.attemptNumber ?? 1) > 1 && (
+              <AttemptComparisonCard sessionId={analysis.sessionId} />
+            )}
 
             {/* XP Earned */}
-            <GlassCard variant="dark" className="py-4">
-              <div className="flex items-center justify-center gap-6">
-                <div className="flex items-center gap-2">
-                  <Sparkles className="w-5 h-5 text-primary" />
-                  <span className="font-bold" data-testid="text-xp">+{analysis.xpEarned} XP</span>
-                </div>
-                <div className="w-px h-6 bg-border" />
-                <div className="flex items-center gap-2">
-                  <span className="text-amber-500 font-bold" data-testid="text-pp">+{analysis.ppEarned} PP</span>
+            {analysis.xpEarned !== undefined && (
+              <GlassCard variant="dark" className="py-4">
+                <div className="flex items-center justify-center gap-6">
+                  <div className="flex items-center gap-2">
+                    <Sparkles className="w-5 h-5 text-primary" />
+                    <span className="font-bold" data-testid="text-xp">+{analysis.xpEarned} XP</span>
+                  </div>
+                  <div className="w-px h-6 bg-border" />
+                  <div className="flex items-center gap-2">
+                    <span className="text-amber-500 font-bold" data-testid="text-pp">+{analysis.ppEarned} PP</span>
+                  </div>
+                  {(analysis.currentStreak ?? 0) > 0 && (
+                    <>
+                      <div className="w-px h-6 bg-border" />
+                      <div className="flex items-center gap-2">
+                        <Flame className="w-5 h-5 text-orange-500" />
+                        <span className="text-orange-500 font-bold" data-testid="text-streak">{analysis.currentStreak} day streak</span>
+                      </div>
+                    </>
+                  )}
                 </div>
-                {analysis.currentStreak > 0 && (
-                  <>
-                    <div className="w-px h-6 bg-border" />
-                    <div className="flex items-center gap-2">
-                      <Flame className="w-5 h-5 text-orange-500" />
-                      <span className="text-orange-500 font-bold" data-testid="text-streak">{analysis.currentStreak} day streak</span>
-                    </div>
-                  </>
+                {(analysis.streakBonus ?? 0) > 0 && (
+                  <p className="text-center text-sm text-muted-foreground mt-2" data-testid="text-streak-bonus">
+                    Includes +{analysis.streakBonus} XP streak bonus
+                  </p>
                 )}
-              </div>
-              {analysis.streakBonus > 0 && (
-                <p className="text-center text-sm text-muted-foreground mt-2" data-testid="text-streak-bonus">
-                  Includes +{analysis.streakBonus} XP streak bonus
-                </p>
-              )}
-            </GlassCard>
+              </GlassCard>
+            )}
             
             {/* New Badges Earned */}
             {analysis.newBadges && analysis.newBadges.length > 0 && (
@@ -662,6 +723,16 @@ export default function Practice() {
                         </Badge>
                       ))}
                     </div>
+                    {analysis.fillerBreakdown && (
+                      <div className="mt-3 space-y-1" data-testid="filler-breakdown">
+                        {FILLER_TYPES.filter(type => analysis.fillerBreakdown![type] > 0).map(type => (
+                          <div key={type} className="flex items-center justify-between text-xs text-muted-foreground">
+                            <span>{FILLER_TYPE_LABELS[type]}</span>
+                            <span className="font-medium text-amber-500">{analysis.fillerBreakdown![type]}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     <p className="text-xs text-muted-foreground mt-2">
                       Try to reduce filler words for more confident delivery
                     </p>
@@ -689,23 +760,25 @@ export default function Practice() {
             )}
 
             {/* Tips */}
-            <GlassCard variant="dark">
-              <h3 className="font-semibold mb-3 flex items-center gap-2">
-                <Lightbulb className="w-4 h-4 text-yellow-500" />
-                Tips to Improve
-              </h3>
-              <ul className="space-y-2">
-                {analysis.tips.map((tip, i) => (
-                  <li key={i} className="flex items-start gap-2 text-sm text-muted-foreground">
-                    <Check className="w-4 h-4 text-emerald-500 mt-0.5 shrink-0" />
-                    {tip}
-                  </li>
-                ))}
-              </ul>
-            </GlassCard>
+            {analysis.tips && (
+              <GlassCard variant="dark">
+                <h3 className="font-semibold mb-3 flex items-center gap-2">
+                  <Lightbulb className="w-4 h-4 text-yellow-500" />
+                  Tips to Improve
+                </h3>
+                <ul className="space-y-2">
+                  {analysis.tips.map((tip, i) => (
+                    <li key={i} className="flex items-start gap-2 text-sm text-muted-foreground">
+                      <Check className="w-4 h-4 text-emerald-500 mt-0.5 shrink-0" />
+                      {tip}
+                    </li>
+                  ))}
+                </ul>
+              </GlassCard>
+            )}
 
             {/* Example Responses */}
-            {analysis.exampleResponses.length > 0 && (
+            {analysis.exampleResponses && analysis.exampleResponses.length > 0 && (
               <GlassCard variant="dark">
                 <h3 className="font-semibold mb-3">Example Responses</h3>
                 <div className="space-y-3">
@@ -718,16 +791,32 @@ export default function Practice() {
               </GlassCard>
             )}
 
+            {/* Still streaming */}
+            {isLoading && (
+              <GlassCard variant="dark" className="py-4">
+                <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground" data-testid="text-analysis-pending">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  {pendingLabel}
+                </div>
+              </GlassCard>
+            )}
+
             {/* Actions */}
-            <div className="flex gap-3">
-              <Button variant="outline" className="flex-1" onClick={refreshPrompt} data-testid="button-try-another">
-                <RefreshCw className="w-4 h-4 mr-2" />
-                Try Another
-              </Button>
-              <Button className="flex-1" onClick={resetPractice} data-testid="button-done">
-                Done
-              </Button>
-            </div>
+            {!isLoading && (
+              <div className="flex gap-3">
+                <Button variant="outline" className="flex-1" onClick={tryAgain} data-testid="button-try-again">
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Try Again
+                </Button>
+                <Button variant="outline" className="flex-1" onClick={refreshPrompt} data-testid="button-try-another">
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Try Another
+                </Button>
+                <Button className="flex-1" onClick={resetPractice} data-testid="button-done">
+                  Done
+                </Button>
+              </div>
+            )}
           </motion.div>
         )}
       </AnimatePresence>
@@ -3,7 +3,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { motion, AnimatePresence } from "framer-motion";
 import { useLocation } from "wouter";
 import { SpinWheel, WheelCategory, WHEEL_CATEGORIES } from "@/components/SpinWheel";
-import { VoicePracticeSession } from "@/components/VoicePracticeSession";
+import { VoicePracticeSession, type AnalysisProgress, type SkillLevel } from "@/components/VoicePracticeSession";
 import { ToneFeedback } from "@/components/ToneFeedback";
 import { MysticalOrb } from "@/components/MysticalOrb";
 import { GlassCard } from "@/components/GlassCard";
@@ -19,7 +19,8 @@ import {
   DialogDescription,
   DialogFooter,
 } from "@/components/ui/dialog";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiEventStream, apiRequest, queryClient } from "@/lib/queryClient";
+import { uploadAudio } from "@/lib/audioUpload";
 import { useToast } from "@/hooks/use-toast";
 import { playSound } from "@/lib/sounds";
 import confetti from "canvas-confetti";
@@ -44,7 +45,9 @@ import {
 import { getRandomHandoff, type PracticeHandoff } from "@shared/promptBank";
 import { normalizeReward, formatRewardLabel, type RawDatabaseReward } from "@shared/rewards";
 import type { UserProgress, DailyLoginReward } from "@shared/schema";
+import type { SpeechTimeline } from "@shared/timeline";
 import { useAuth } from "@/hooks/useAuth";
+import { usePracticeHandoffs } from "@/hooks/usePracticeHandoffs";
 
 type PracticePhase = "loading" | "greeting" | "reward" | "hub" | "practice" | "feedback" | "locked" | "signup";
 
@@ -192,6 +195,7 @@ const SUBSCRIPTION_CATEGORIES: PracticeCategory[] = [
 
 export default function PracticeHub() {
   const { toast } = useToast();
+  const handoffs = usePracticeHandoffs();
   const [, navigate] = useLocation();
   const { user } = useAuth();
   const [phase, setPhase] = useState<PracticePhase>("loading");
@@ -199,7 +203,10 @@ export default function PracticeHub() {
   const [selectedCategory, setSelectedCategory] = useState<WheelCategory | null>(null);
   const [currentPrompt, setCurrentPrompt] = useState<PracticeHandoff | null>(null);
   const [lastResponse, setLastResponse] = useState("");
+  const [lastTimeline, setLastTimeline] = useState<SpeechTimeline | null>(null);
+  const [lastRecording, setLastRecording] = useState<string | undefined>(undefined);
   const [toneAnalysis, setToneAnalysis] = useState<ToneAnalysis | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress>({});
   const [pendingCategory, setPendingCategory] = useState<PracticeCategory | null>(null);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [wheelSpinsUsed, setWheelSpinsUsed] = useState(0);
@@ -226,6 +233,11 @@ export default function PracticeHub() {
     enabled: !isAnonymous,
   });
 
+  const { data: skillLevels } = useQuery<SkillLevel[]>({
+    queryKey: ["/api/practice/skill-ratings"],
+    enabled: !isAnonymous,
+  });
+
   const isPaidUser = usageData?.tier === "peace_plus" || usageData?.tier === "pro_mind";
   const userLevel = progress?.level || 1;
 
@@ -295,9 +307,15 @@ export default function PracticeHub() {
   }, [usageData, isPaidUser, phase, isAnonymous]);
 
   const analyzeMutation = useMutation({
-    mutationFn: async (data: { response: string; prompt: string; category: string; audioBase64?: string; duration?: number }) => {
-      const res = await apiRequest("POST", "/api/practice/analyze-voice", data);
-      return res.json();
+    mutationFn: async ({ recording, ...data }: { response: string; prompt: string; category: string; difficulty: string; handoffId: string; recording?: Blob; duration?: number }) => {
+      const uploadId = recording ? (await uploadAudio(recording)).uploadId : undefined;
+      return apiEventStream<any>("/api/practice/analyze-voice", { ...data, uploadId }, (event, payload) => {
+        if (event === "transcription") {
+          setLastResponse(payload.transcription);
+          setLastTimeline(payload.timeline ?? null);
+        }
+        setAnalysisProgress(prev => ({ ...prev, ...payload }));
+      });
     },
     onSuccess: (result) => {
       setToneAnalysis({
@@ -330,6 +348,7 @@ export default function PracticeHub() {
 
       queryClient.invalidateQueries({ queryKey: ["/api/progress"] });
       queryClient.invalidateQueries({ queryKey: ["/api/subscription/usage"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/practice/skill-ratings"] });
     },
     onError: () => {
       toast({
@@ -353,14 +372,27 @@ export default function PracticeHub() {
 
     setWheelSpinsUsed(s => s + 1);
     setSelectedCategory(category);
-    const prompt = getRandomHandoff(category.id);
-    setCurrentPrompt(prompt);
+    setCurrentPrompt(null);
+    void pickHandoff(category.id).then(setCurrentPrompt);
     
     setTimeout(() => {
       setPhase("practice");
     }, 500);
   };
 
+  // Signed-in users get the next prompt due for review in the category.
+  // Anonymous users, or a failed request, get a random one.
+  const pickHandoff = async (categoryId: string): Promise<PracticeHandoff> => {
+    if (isAnonymous) return getRandomHandoff(categoryId, handoffs);
+    try {
+      const res = await apiRequest("GET", `/api/practice/next-due?category=${encodeURIComponent(categoryId)}`);
+      const next = await res.json();
+      return next?.handoff ?? getRandomHandoff(categoryId, handoffs);
+    } catch {
+      return getRandomHandoff(categoryId, handoffs);
+    }
+  };
+
   const handleCardCategoryClick = (category: PracticeCategory) => {
     if (category.requiredLevel && userLevel < category.requiredLevel) {
       toast({
@@ -398,8 +430,8 @@ export default function PracticeHub() {
     const categoryToUse = wheelCategory || WHEEL_CATEGORIES[0];
     
     setSelectedCategory(categoryToUse);
-    const prompt = getRandomHandoff(categoryToUse.id);
-    setCurrentPrompt(prompt);
+    setCurrentPrompt(null);
+    void pickHandoff(categoryToUse.id).then(setCurrentPrompt);
     setShowConfirmModal(false);
     
     const transition = getRandomTransition();
@@ -413,15 +445,23 @@ export default function PracticeHub() {
     }, transition === "genie" ? 600 : transition === "bounce" ? 500 : 400);
   };
 
-  const handlePracticeComplete = (response: string, audioData?: string, duration?: number) => {
+  const handlePracticeComplete = (response: string, recording?: Blob, duration?: number) => {
     setLastResponse(response);
+    setLastTimeline(null);
+    setLastRecording(prev => {
+      if (prev) URL.revokeObjectURL(prev);
+      return recording ? URL.createObjectURL(recording) : undefined;
+    });
+    setAnalysisProgress({});
     
     if (selectedCategory && currentPrompt) {
       analyzeMutation.mutate({
         response,
         prompt: currentPrompt.line,
         category: selectedCategory.id,
-        audioBase64: audioData,
+        difficulty: currentPrompt.difficulty,
+        handoffId: currentPrompt.id,
+        recording,
         duration,
       });
     }
@@ -429,7 +469,7 @@ export default function PracticeHub() {
 
   const handleSkipPrompt = () => {
     if (selectedCategory) {
-      const newPrompt = getRandomHandoff(selectedCategory.id);
+      const newPrompt = getRandomHandoff(selectedCategory.id, handoffs);
       setCurrentPrompt(newPrompt);
     }
   };
@@ -977,9 +1017,11 @@ export default function PracticeHub() {
             <VoicePracticeSession
               category={selectedCategory}
               prompt={currentPrompt}
+              skillLevel={skillLevels?.find(level => level.category === selectedCategory.id)}
               onComplete={handlePracticeComplete}
               onSkip={handleSkipPrompt}
               isProcessing={analyzeMutation.isPending}
+              analysisProgress={analysisProgress}
             />
           </motion.div>
         )}
@@ -996,6 +1038,8 @@ export default function PracticeHub() {
             <ToneFeedback
               analysis={toneAnalysis}
               originalResponse={lastResponse}
+              timeline={lastTimeline}
+              audioSrc={lastRecording}
               category={selectedCategory}
               onContinue={handleContinue}
               onTryAgain={handleTryAgain}
@@ -20,10 +20,17 @@ import {
   HelpCircle,
   AlertTriangle,
   RotateCcw,
+  Clock,
 } from "lucide-react";
 import { useOnboardingTour } from "@/components/OnboardingTour";
 import { useTheme } from "@/contexts/ThemeContext";
-import type { UserProgress } from "@shared/schema";
+import { DEFAULT_RECORDING_RETENTION, type RecordingRetention, type UserProgress } from "@shared/schema";
+
+const RETENTION_LABELS: Record<RecordingRetention, string> = {
+  "7d": "7 days",
+  "30d": "30 days",
+  forever: "Forever",
+};
 
 export default function Settings() {
   const { toast } = useToast();
@@ -35,7 +42,7 @@ export default function Settings() {
   });
 
   const updateSettingsMutation = useMutation({
-    mutationFn: async (data: { textInputEnabled: boolean }) => {
+    mutationFn: async (data: { textInputEnabled?: boolean; recordingRetention?: RecordingRetention }) => {
       const res = await apiRequest("PATCH", "/api/settings", data);
       return res.json();
     },
@@ -49,6 +56,7 @@ export default function Settings() {
   });
 
   const textInputEnabled = progress?.textInputEnabled || false;
+  const recordingRetention = (progress?.recordingRetention || DEFAULT_RECORDING_RETENTION) as RecordingRetention;
 
   const handleTextInputToggle = (enabled: boolean) => {
     updateSettingsMutation.mutate({ textInputEnabled: enabled });
@@ -114,6 +122,33 @@ export default function Settings() {
                 />
               </div>
             </div>
+
+            <div className="border-t border-white/10 pt-4">
+              <div className="flex items-center gap-3 mb-3">
+                <div className="w-10 h-10 rounded-full bg-muted/30 flex items-center justify-center">
+                  <Clock className="w-5 h-5 text-muted-foreground" />
+                </div>
+                <div>
+                  <Label className="text-base font-medium">Keep Recordings</Label>
+                  <p className="text-sm text-muted-foreground">Older recordings are deleted; transcripts stay</p>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                {(Object.keys(RETENTION_LABELS) as RecordingRetention[]).map(option => (
+                  <Button
+                    key={option}
+                    variant={recordingRetention === option ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => updateSettingsMutation.mutate({ recordingRetention: option })}
+                    disabled={updateSettingsMutation.isPending}
+                    className="flex-1"
+                    data-testid={`button-retention-${option}`}
+                  >
+                    {RETENTION_LABELS[option]}
+                  </Button>
+                ))}
+              </div>
+            </div>
           </div>
         </GlassCard>
 
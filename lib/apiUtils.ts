@@ -12,6 +12,8 @@ export type ResLike = {
   setHeader: (name: string, value: string) => void;
   send?: (body: unknown) => void;
   end?: (body?: unknown) => void;
+  write?: (chunk: string) => void;
+  flushHeaders?: () => void;
 };
 
 export function getHeaderValue(
@@ -72,3 +74,10 @@ export function getLastPathSegment(req: ReqLike): string | undefined {
   const parts = url.pathname.split("/").filter(Boolean);
   return parts.length > 0 ? parts[parts.length - 1] : undefined;
 }
+
+// The bearer-token gate for every /api/admin route.
+export function isAdminRequest(req: ReqLike): boolean {
+  const authHeader = getHeaderValue(req.headers, "authorization") || "";
+  const token = authHeader.replace(/^Bearer\s+/i, "");
+  return !!token && token === process.env.ADMIN_FEEDBACK_TOKEN;
+}
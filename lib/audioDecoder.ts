@@ -0,0 +1,101 @@
+import { spawn } from "child_process";
+import { randomUUID } from "crypto";
+import { tmpdir } from "os";
+import { join } from "path";
+import { unlink, writeFile } from "fs/promises";
+
+export const PCM_SAMPLE_RATE = 16000;
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+const DECODE_TIMEOUT_MS = 20000;
+
+export class AudioDecodeError extends Error {
+  // True when ffmpeg itself is missing, as opposed to the audio being bad.
+  unavailable: boolean;
+
+  constructor(message: string, unavailable = false) {
+    super(message);
+    this.name = "AudioDecodeError";
+    this.unavailable = unavailable;
+  }
+}
+
+function runFfmpeg(inputPath: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(FFMPEG_PATH, [
+      "-hide_banner",
+      "-loglevel", "error",
+      "-i", inputPath,
+      "-ac", "1",
+      "-ar", String(PCM_SAMPLE_RATE),
+      "-f", "f32le",
+      "pipe:1",
+    ]);
+    const chunks: Buffer[] = [];
+    let stderr = "";
+
+    const timer = setTimeout(() => {
+      ffmpeg.kill("SIGKILL");
+      reject(new AudioDecodeError("Audio decoding timed out"));
+    }, DECODE_TIMEOUT_MS);
+
+    ffmpeg.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    ffmpeg.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    ffmpeg.on("error", (error) => {
+      clearTimeout(timer);
+      reject(new AudioDecodeError(`ffmpeg is not available: ${error.message}`, true));
+    });
+    ffmpeg.on("close", (code) => {
+      clearTimeout(timer);
+      if (code !== 0) {
+        return reject(new AudioDecodeError(stderr.trim() || `ffmpeg exited with code ${code}`));
+      }
+      resolve(Buffer.concat(chunks));
+    });
+  });
+}
+
+// Decodes a recording (webm/opus, mp4/aac, ogg, wav, ...) to mono float
+// samples at PCM_SAMPLE_RATE. The audio goes through a temp file rather than
+// stdin because mp4 recordings often put the index at the end of the file.
+export async function decodeToPcm(audio: Buffer): Promise<Float32Array> {
+  const inputPath = join(tmpdir(), `mirrorplay-${randomUUID()}`);
+  await writeFile(inputPath, audio);
+
+  try {
+    const raw = await runFfmpeg(inputPath);
+    const samples = new Float32Array(Math.floor(raw.length / 4));
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = raw.readFloatLE(i * 4);
+    }
+    return samples;
+  } finally {
+    await unlink(inputPath).catch(() => {});
+  }
+}
+
+// 16-bit mono WAV from decoded samples, for engines that only read WAV.
+export function encodeWav(samples: Float32Array, sampleRate = PCM_SAMPLE_RATE): Buffer {
+  const dataSize = samples.length * 2;
+  const wav = Buffer.alloc(44 + dataSize);
+  wav.write("RIFF", 0, "latin1");
+  wav.writeUInt32LE(36 + dataSize, 4);
+  wav.write("WAVE", 8, "latin1");
+  wav.write("fmt ", 12, "latin1");
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20); // PCM
+  wav.writeUInt16LE(1, 22); // mono
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * 2, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write("data", 36, "latin1");
+  wav.writeUInt32LE(dataSize, 40);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    wav.writeInt16LE(Math.round(sample * 0x7fff), 44 + i * 2);
+  }
+  return wav;
+}
@@ -0,0 +1,73 @@
+// Container detection for uploaded recordings. Browsers disagree on what
+// MediaRecorder produces (Chrome and Firefox: webm/opus, Safari: mp4/aac),
+// and clients often label the blob audio/webm regardless, so the leading
+// bytes decide and the declared type is only a fallback.
+
+export interface AudioFormat {
+  mimeType: string;
+  extension: string;
+}
+
+export type AudioContainer = "webm" | "mp4" | "ogg" | "wav" | "mp3" | "flac" | "aac";
+
+export const AUDIO_FORMATS: Record<AudioContainer, AudioFormat> = {
+  webm: { mimeType: "audio/webm", extension: "webm" },
+  mp4: { mimeType: "audio/mp4", extension: "m4a" },
+  ogg: { mimeType: "audio/ogg", extension: "ogg" },
+  wav: { mimeType: "audio/wav", extension: "wav" },
+  mp3: { mimeType: "audio/mpeg", extension: "mp3" },
+  flac: { mimeType: "audio/flac", extension: "flac" },
+  aac: { mimeType: "audio/aac", extension: "aac" },
+};
+
+const DECLARED_TYPES: Record<string, AudioContainer> = {
+  "audio/webm": "webm",
+  "video/webm": "webm",
+  "audio/mp4": "mp4",
+  "video/mp4": "mp4",
+  "audio/x-m4a": "mp4",
+  "audio/m4a": "mp4",
+  "audio/ogg": "ogg",
+  "audio/opus": "ogg",
+  "audio/wav": "wav",
+  "audio/wave": "wav",
+  "audio/x-wav": "wav",
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+  "audio/flac": "flac",
+  "audio/x-flac": "flac",
+  "audio/aac": "aac",
+  "audio/x-aac": "aac",
+};
+
+function ascii(audio: Buffer, start: number, end: number): string {
+  return audio.length >= end ? audio.toString("latin1", start, end) : "";
+}
+
+// The container named by the leading bytes, or undefined if they match none.
+export function sniffAudioContainer(audio: Buffer): AudioContainer | undefined {
+  if (audio.length < 4) return undefined;
+  if (audio[0] === 0x1a && audio[1] === 0x45 && audio[2] === 0xdf && audio[3] === 0xa3) return "webm";
+  if (ascii(audio, 4, 8) === "ftyp") return "mp4";
+  if (ascii(audio, 0, 4) === "OggS") return "ogg";
+  if (ascii(audio, 0, 4) === "RIFF" && ascii(audio, 8, 12) === "WAVE") return "wav";
+  if (ascii(audio, 0, 4) === "fLaC") return "flac";
+  if (ascii(audio, 0, 3) === "ID3") return "mp3";
+  if (audio[0] === 0xff) {
+    // ADTS (raw AAC) sets layer bits to 00; MPEG audio frames never do.
+    if ((audio[1] & 0xf6) === 0xf0) return "aac";
+    if ((audio[1] & 0xe0) === 0xe0 && (audio[1] & 0x06) !== 0) return "mp3";
+  }
+  return undefined;
+}
+
+// "audio/webm;codecs=opus" -> "webm"
+function declaredContainer(mimeType?: string | null): AudioContainer | undefined {
+  const base = mimeType?.split(";")[0].trim().toLowerCase();
+  return base ? DECLARED_TYPES[base] : undefined;
+}
+
+export function detectAudioFormat(audio: Buffer, declaredMimeType?: string | null): AudioFormat {
+  const container = sniffAudioContainer(audio) ?? declaredContainer(declaredMimeType) ?? "webm";
+  return AUDIO_FORMATS[container];
+}
@@ -0,0 +1,67 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Object storage for audio blobs: a Supabase Storage bucket in production,
+// a local directory in dev. Paths are relative ("tts/ab/<key>.mp3").
+export interface AudioStore {
+  name: string;
+  get(objectPath: string): Promise<Buffer | null>;
+  put(objectPath: string, audio: Buffer, contentType: string): Promise<void>;
+  // Deleting a missing object is not an error.
+  delete(objectPath: string): Promise<void>;
+  // A time-limited URL the browser can fetch directly, where the backend
+  // can issue one. Disk stores can't; their audio is served by the app.
+  signedUrl?(objectPath: string, expiresInSeconds: number): Promise<string | null>;
+}
+
+export function createDiskStore(root: string): AudioStore {
+  return {
+    name: `disk:${root}`,
+    async get(objectPath) {
+      try {
+        return await fs.readFile(path.join(root, objectPath));
+      } catch (error: any) {
+        if (error?.code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    async put(objectPath, audio) {
+      const file = path.join(root, objectPath);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, audio);
+    },
+    async delete(objectPath) {
+      await fs.rm(path.join(root, objectPath), { force: true });
+    },
+  };
+}
+
+export function createSupabaseStore(bucket: string): AudioStore {
+  // Loaded lazily so local scripts don't need Supabase credentials.
+  const client = () => import("./supabaseServer.js").then(m => m.supabaseServer.storage.from(bucket));
+
+  return {
+    name: `supabase:${bucket}`,
+    async get(objectPath) {
+      const { data, error } = await (await client()).download(objectPath);
+      if (error || !data) {
+        // Missing objects come back as errors; treat them as a miss.
+        return null;
+      }
+      return Buffer.from(await data.arrayBuffer());
+    },
+    async put(objectPath, audio, contentType) {
+      const { error } = await (await client()).upload(objectPath, audio, { contentType, upsert: true });
+      if (error) throw error;
+    },
+    async delete(objectPath) {
+      const { error } = await (await client()).remove([objectPath]);
+      if (error) throw error;
+    },
+    async signedUrl(objectPath, expiresInSeconds) {
+      const { data, error } = await (await client()).createSignedUrl(objectPath, expiresInSeconds);
+      if (error || !data) return null;
+      return data.signedUrl;
+    },
+  };
+}
@@ -0,0 +1,188 @@
+import { randomUUID } from "crypto";
+import { storage } from "./storage.js";
+import { getHeaderValue, type ReqLike } from "./apiUtils.js";
+import { AUDIO_FORMATS, sniffAudioContainer, type AudioFormat } from "./audioFormat.js";
+import { AudioDecodeError, decodeToPcm, PCM_SAMPLE_RATE } from "./audioDecoder.js";
+import { createDiskStore, createSupabaseStore, type AudioStore } from "./audioStore.js";
+import type { AudioUpload } from "../shared/schema.js";
+
+// Audio ingest for /api/audio/upload. Clients post the recording once, as
+// raw bytes (Content-Type: audio/webm, audio/mp4, ...) or as multipart form
+// data with an "audio" field, and pass the returned id to transcription,
+// analysis and journaling.
+//
+// Backends:
+// - AUDIO_UPLOAD_BUCKET: a Supabase Storage bucket (production)
+// - AUDIO_UPLOAD_DIR, or .cache/uploads outside production: local disk (dev)
+
+// Serverless request bodies are capped at 4.5 MB.
+export const MAX_UPLOAD_BYTES = Number(process.env.AUDIO_UPLOAD_MAX_BYTES) || 4 * 1024 * 1024;
+export const MAX_UPLOAD_SECONDS = Number(process.env.AUDIO_UPLOAD_MAX_SECONDS) || 300;
+const MIN_UPLOAD_SECONDS = 0.3;
+
+const DEFAULT_UPLOAD_DIR = ".cache/uploads";
+
+export class AudioUploadError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "AudioUploadError";
+    this.status = status;
+  }
+}
+
+function resolveStore(): AudioStore | null {
+  if (process.env.AUDIO_UPLOAD_BUCKET) return createSupabaseStore(process.env.AUDIO_UPLOAD_BUCKET);
+  if (process.env.AUDIO_UPLOAD_DIR) return createDiskStore(process.env.AUDIO_UPLOAD_DIR);
+  if (process.env.NODE_ENV !== "production") return createDiskStore(DEFAULT_UPLOAD_DIR);
+  return null;
+}
+
+const store = resolveStore();
+
+export function getUploadStore(): AudioStore | null {
+  return store;
+}
+
+function requireStore(): AudioStore {
+  if (!store) {
+    throw new AudioUploadError(503, "Audio uploads are not configured");
+  }
+  return store;
+}
+
+function tooLarge(): AudioUploadError {
+  return new AudioUploadError(413, `Recording is larger than ${Math.floor(MAX_UPLOAD_BYTES / (1024 * 1024))} MB`);
+}
+
+// The platform hands over a Buffer for binary bodies; anything it didn't
+// parse is read from the request stream.
+function readRawBody(req: ReqLike): Promise<Buffer> {
+  if (Buffer.isBuffer(req.body)) return Promise.resolve(req.body);
+  if (typeof req.body === "string") return Promise.resolve(Buffer.from(req.body, "binary"));
+
+  const stream = req as unknown as NodeJS.ReadableStream;
+  if (typeof stream.on !== "function") return Promise.resolve(Buffer.alloc(0));
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_UPLOAD_BYTES) {
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("end", () => resolve(Buffer.concat(chunks)));
+    stream.on("error", reject);
+  });
+}
+
+// Returns the "audio" part of a multipart body (or the first file part).
+function readMultipartAudio(body: Buffer, contentType: string): { audio: Buffer; declaredType?: string } {
+  const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+  if (!boundary) {
+    throw new AudioUploadError(400, "Multipart body has no boundary");
+  }
+  const delimiter = `--${boundary[1] || boundary[2]}`;
+
+  const parts: { headers: string; data: Buffer }[] = [];
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const next = body.indexOf(delimiter, start + delimiter.length);
+    if (next === -1) break;
+    const part = body.subarray(start + delimiter.length + 2, next - 2); // skip CRLFs
+    const headerEnd = part.indexOf("\r\n\r\n");
+    if (headerEnd !== -1) {
+      parts.push({ headers: part.subarray(0, headerEnd).toString("utf8"), data: part.subarray(headerEnd + 4) });
+    }
+    start = next;
+  }
+
+  const audioPart =
+    parts.find(p => /name="audio"/i.test(p.headers)) ?? parts.find(p => /filename="/i.test(p.headers));
+  if (!audioPart) {
+    throw new AudioUploadError(400, "Multipart body has no audio field");
+  }
+  return {
+    audio: audioPart.data,
+    declaredType: audioPart.headers.match(/content-type:\s*([^\r\n]+)/i)?.[1]?.trim(),
+  };
+}
+
+export async function readAudioBody(req: ReqLike): Promise<{ audio: Buffer; declaredType?: string }> {
+  const declaredLength = Number(getHeaderValue(req.headers, "content-length"));
+  if (declaredLength > MAX_UPLOAD_BYTES) {
+    throw tooLarge();
+  }
+
+  const contentType = getHeaderValue(req.headers, "content-type") || "";
+  const body = await readRawBody(req);
+  if (body.length > MAX_UPLOAD_BYTES) {
+    throw tooLarge();
+  }
+
+  return contentType.toLowerCase().startsWith("multipart/form-data")
+    ? readMultipartAudio(body, contentType)
+    : { audio: body, declaredType: contentType || undefined };
+}
+
+// Checks the container and decodes the audio to measure it, then stores it.
+// The declared type is ignored; browsers label mp4 recordings audio/webm.
+export async function ingestAudio(userId: string, audio: Buffer): Promise<AudioUpload> {
+  if (audio.length === 0) {
+    throw new AudioUploadError(400, "Audio data is required");
+  }
+
+  const container = sniffAudioContainer(audio);
+  if (!container) {
+    throw new AudioUploadError(415, "Unsupported audio format. Send webm, mp4, ogg, wav, mp3, flac or aac.");
+  }
+  const format = AUDIO_FORMATS[container];
+
+  let durationSeconds: number;
+  try {
+    durationSeconds = (await decodeToPcm(audio)).length / PCM_SAMPLE_RATE;
+  } catch (error) {
+    if (error instanceof AudioDecodeError && !error.unavailable) {
+      throw new AudioUploadError(422, "Audio could not be decoded");
+    }
+    throw error;
+  }
+
+  if (durationSeconds < MIN_UPLOAD_SECONDS) {
+    throw new AudioUploadError(422, "Recording is too short");
+  }
+  if (durationSeconds > MAX_UPLOAD_SECONDS) {
+    throw new AudioUploadError(413, `Recording is longer than ${Math.floor(MAX_UPLOAD_SECONDS / 60)} minutes`);
+  }
+
+  const storagePath = `uploads/${userId}/${randomUUID()}.${format.extension}`;
+  await requireStore().put(storagePath, audio, format.mimeType);
+
+  return storage.createAudioUpload({
+    userId,
+    mimeType: format.mimeType,
+    sizeBytes: audio.length,
+    durationSeconds: Math.round(durationSeconds * 100) / 100,
+    storagePath,
+  });
+}
+
+// Uploads are private to the user who made them.
+export async function loadAudioUpload(
+  userId: string,
+  uploadId: string
+): Promise<{ upload: AudioUpload; audio: Buffer; format: AudioFormat }> {
+  const upload = await storage.getAudioUpload(uploadId, userId);
+  const audio = upload ? await requireStore().get(upload.storagePath) : null;
+  if (!upload || !audio) {
+    throw new AudioUploadError(404, "Recording not found");
+  }
+
+  const format = Object.values(AUDIO_FORMATS).find(f => f.mimeType === upload.mimeType) ?? AUDIO_FORMATS.webm;
+  return { upload, audio, format };
+}
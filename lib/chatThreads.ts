@@ -0,0 +1,162 @@
+import { storage } from "./storage.js";
+import { requireLlm } from "./services/llmProvider.js";
+import type { Conversation, InsertConversation } from "../shared/schema.js";
+
+// Mirror AI chat threads. Each conversation row is a thread the user can
+// name, archive and search; messages go to the thread the client names, or
+// to the most recently active one. Threads get a short title from the model
+// after the first exchange unless the user has renamed them.
+
+export const MAX_THREAD_TITLE_LENGTH = 60;
+export const DEFAULT_THREAD_TITLE = "New conversation";
+
+// Words kept when the title comes from the first message instead of the model.
+const FALLBACK_TITLE_WORDS = 6;
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export class ChatThreadError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "ChatThreadError";
+    this.status = status;
+  }
+}
+
+export function getThreadMessages(conversation: Conversation): ChatMessage[] {
+  return (conversation.messages as ChatMessage[] | null) || [];
+}
+
+// Trims, collapses whitespace and caps the length. Returns null when nothing is left.
+export function normalizeThreadTitle(title: unknown): string | null {
+  if (typeof title !== "string") return null;
+  const cleaned = title
+    .replace(/\s+/g, " ")
+    .replace(/^["'“‘\s]+|["'”’\s]+$/g, "")
+    .replace(/[.!?:;,]+$/, "")
+    .trim();
+  if (!cleaned) return null;
+  return cleaned.length > MAX_THREAD_TITLE_LENGTH
+    ? `${cleaned.slice(0, MAX_THREAD_TITLE_LENGTH - 3).trimEnd()}...`
+    : cleaned;
+}
+
+export async function createChatThread(userId: string, title?: string | null): Promise<Conversation> {
+  const named = normalizeThreadTitle(title);
+  return storage.createConversation({
+    userId,
+    title: named,
+    titleIsCustom: named !== null,
+    messages: [],
+    emotionState: "calm",
+  });
+}
+
+// The thread a new message belongs to. A named thread must belong to the
+// user; writing to an archived thread brings it back. Without an id the
+// latest active thread is used, and one is created if there is none.
+export async function resolveChatThread(userId: string, conversationId?: string | null): Promise<Conversation> {
+  if (!conversationId) {
+    return (await storage.getConversation(userId)) ?? (await createChatThread(userId));
+  }
+
+  const conversation = await storage.getConversationById(conversationId, userId);
+  if (!conversation) {
+    throw new ChatThreadError(404, "Conversation not found");
+  }
+  if (conversation.archivedAt) {
+    return (await storage.updateConversation(conversation.id, { archivedAt: null })) ?? conversation;
+  }
+  return conversation;
+}
+
+export async function getChatThread(userId: string, conversationId: string): Promise<Conversation> {
+  const conversation = await storage.getConversationById(conversationId, userId);
+  if (!conversation) {
+    throw new ChatThreadError(404, "Conversation not found");
+  }
+  return conversation;
+}
+
+export async function updateChatThread(
+  userId: string,
+  conversationId: string,
+  changes: { title?: unknown; archived?: unknown }
+): Promise<Conversation> {
+  const conversation = await getChatThread(userId, conversationId);
+  const updates: Partial<InsertConversation> = {};
+
+  if (changes.title !== undefined) {
+    const title = normalizeThreadTitle(changes.title);
+    if (!title) {
+      throw new ChatThreadError(400, "Title must be a non-empty string");
+    }
+    updates.title = title;
+    updates.titleIsCustom = true;
+  }
+
+  if (changes.archived !== undefined) {
+    if (typeof changes.archived !== "boolean") {
+      throw new ChatThreadError(400, "archived must be true or false");
+    }
+    updates.archivedAt = changes.archived ? conversation.archivedAt ?? new Date() : null;
+  }
+
+  if (Object.keys(updates).length === 0) {
+    throw new ChatThreadError(400, "Nothing to update");
+  }
+
+  return (await storage.updateConversation(conversation.id, updates)) ?? conversation;
+}
+
+export async function deleteChatThread(userId: string, conversationId: string): Promise<void> {
+  const conversation = await getChatThread(userId, conversationId);
+  await storage.deleteConversation(conversation.id);
+}
+
+export function fallbackThreadTitle(messages: ChatMessage[]): string {
+  const first = messages.find(m => m.role === "user")?.content ?? "";
+  const words = first.split(/\s+/).filter(Boolean);
+  return normalizeThreadTitle(words.slice(0, FALLBACK_TITLE_WORDS).join(" ")) ?? DEFAULT_THREAD_TITLE;
+}
+
+// A few words naming what the thread is about. Falls back to the opening of
+// the first user message when the model is unavailable or returns nothing.
+export async function generateThreadTitle(messages: ChatMessage[]): Promise<string> {
+  const transcript = messages
+    .slice(0, 4)
+    .map(m => `${m.role === "user" ? "User" : "Mirror AI"}: ${m.content}`)
+    .join("\n");
+
+  try {
+    const response = await requireLlm().complete({
+      task: "thread-title",
+      messages: [
+        {
+          role: "system",
+          content: `Name this coaching conversation in 2-6 words, like a chat thread title ("Asking my manager for a raise", "Sunday dinner with mum").
+Use the user's topic, not their feelings about it. No quotes, no trailing punctuation. Reply with the title only.`,
+        },
+        { role: "user", content: transcript },
+      ],
+      maxTokens: 20,
+    });
+    return normalizeThreadTitle(response) ?? fallbackThreadTitle(messages);
+  } catch (error) {
+    console.error("Thread title generation failed:", error);
+    return fallbackThreadTitle(messages);
+  }
+}
+
+// Titles an untitled thread once it holds a user message and a reply.
+// Returns the title to store, or undefined when the thread keeps its own.
+export async function autoTitleFor(conversation: Conversation, messages: ChatMessage[]): Promise<string | undefined> {
+  if (conversation.title || conversation.titleIsCustom) return undefined;
+  if (!messages.some(m => m.role === "user") || !messages.some(m => m.role === "assistant")) return undefined;
+  return generateThreadTitle(messages);
+}
@@ -0,0 +1,176 @@
+import { z } from "zod";
+import { storage } from "./storage.js";
+import { PRACTICE_HANDOFFS, type PracticeHandoff } from "../shared/promptBank.js";
+import { scenarios as BUNDLED_SCENARIOS, type Scenario } from "../shared/scenarios.js";
+import { hasLintErrors, lintScenarioText, type ScenarioFieldLint } from "../shared/scenarioLint.js";
+import type { ContentItem } from "../shared/schema.js";
+
+// Practice content served from the content_items table. The TS arrays in
+// shared/promptBank.ts and shared/scenarios.ts are the seed source and the
+// fallback while the bank is empty or the database is unreachable.
+
+export const CONTENT_KINDS = ["handoff", "scenario"] as const;
+export type ContentKind = (typeof CONTENT_KINDS)[number];
+
+export const CONTENT_STATUSES = ["draft", "published", "archived"] as const;
+export type ContentStatus = (typeof CONTENT_STATUSES)[number];
+
+export const DEFAULT_LOCALE = "en";
+
+// Published content changes rarely; each instance re-reads it at most once a minute.
+const CACHE_TTL_MS = 60 * 1000;
+
+// Scenario contexts set a scene over several short lines, so they get more
+// room than handoff lines (same allowance as script/audit-scenarios.ts).
+const CONTEXT_MAX_WORDS = 60;
+
+export const localeSchema = z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/, "Use a locale like en or es-MX");
+
+export const handoffBodySchema = z.object({
+  id: z.string().min(1),
+  category: z.string().min(1),
+  line: z.string().trim().min(1).max(500),
+  difficulty: z.enum(["beginner", "intermediate", "advanced"]),
+});
+
+export const scenarioBodySchema = z.object({
+  id: z.string().min(1),
+  title: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+  category: z.enum(["workplace", "relationship", "co-parenting", "general"]),
+  difficulty: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(5)]),
+  requiredLevel: z.number().int().min(1),
+  context: z.string().trim().min(1),
+  aiRole: z.string().trim().min(1),
+  phases: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        objective: z.string().min(1),
+        tips: z.array(z.string()),
+      })
+    )
+    .min(1),
+  duoMode: z.boolean().optional(),
+  roleA: z.string().optional(),
+  roleB: z.string().optional(),
+});
+
+export function isContentKind(value: unknown): value is ContentKind {
+  return typeof value === "string" && (CONTENT_KINDS as readonly string[]).includes(value);
+}
+
+export function isContentStatus(value: unknown): value is ContentStatus {
+  return typeof value === "string" && (CONTENT_STATUSES as readonly string[]).includes(value);
+}
+
+// Validates a body for the given kind. The key is authoritative for the id so
+// a copy-pasted body can't publish under someone else's key.
+export function parseContentBody(kind: ContentKind, contentKey: string, body: unknown) {
+  const withKey = body && typeof body === "object" ? { ...(body as object), id: contentKey } : body;
+  return kind === "handoff" ? handoffBodySchema.safeParse(withKey) : scenarioBodySchema.safeParse(withKey);
+}
+
+// Lints the text a user responds to: a handoff's line, a scenario's context.
+// The rules' word lists are English, so other locales are not linted.
+export function lintContentItem(item: { kind: string; locale: string; body: unknown }): ScenarioFieldLint[] {
+  if (!item.locale.startsWith("en")) return [];
+  const results =
+    item.kind === "handoff"
+      ? [{ field: "line", violations: lintScenarioText((item.body as PracticeHandoff).line) }]
+      : [{ field: "context", violations: lintScenarioText((item.body as Scenario).context, { maxWords: CONTEXT_MAX_WORDS }) }];
+  return results.filter(r => r.violations.length > 0);
+}
+
+const cache = new Map<string, { expiresAt: number; items: ContentItem[] }>();
+
+export function invalidateContentCache() {
+  cache.clear();
+}
+
+// Published rows for a locale, falling back per key to the default locale so
+// a partial translation still serves the full bank.
+async function getPublishedItems(kind: ContentKind, locale: string): Promise<ContentItem[]> {
+  const cacheKey = `${kind}:${locale}`;
+  const cached = cache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) return cached.items;
+
+  const [localized, fallback] = await Promise.all([
+    storage.getContentItems({ kind, locale, status: "published" }),
+    locale === DEFAULT_LOCALE
+      ? Promise.resolve([])
+      : storage.getContentItems({ kind, locale: DEFAULT_LOCALE, status: "published" }),
+  ]);
+  const byKey = new Map(fallback.map(item => [item.contentKey, item]));
+  for (const item of localized) byKey.set(item.contentKey, item);
+
+  const items = Array.from(byKey.values());
+  cache.set(cacheKey, { expiresAt: Date.now() + CACHE_TTL_MS, items });
+  return items;
+}
+
+export async function getPublishedHandoffs(locale: string = DEFAULT_LOCALE): Promise<PracticeHandoff[]> {
+  try {
+    const items = await getPublishedItems("handoff", locale);
+    if (items.length > 0) return items.map(item => item.body as PracticeHandoff);
+  } catch (error) {
+    console.error("Failed to load handoffs from the content bank:", error);
+  }
+  return PRACTICE_HANDOFFS;
+}
+
+export async function getPublishedScenarios(locale: string = DEFAULT_LOCALE): Promise<Scenario[]> {
+  try {
+    const items = await getPublishedItems("scenario", locale);
+    if (items.length > 0) return items.map(item => item.body as Scenario);
+  } catch (error) {
+    console.error("Failed to load scenarios from the content bank:", error);
+  }
+  return BUNDLED_SCENARIOS;
+}
+
+export async function findPublishedHandoff(id: string, locale?: string): Promise<PracticeHandoff | undefined> {
+  return (await getPublishedHandoffs(locale)).find(h => h.id === id);
+}
+
+export async function findPublishedScenario(id: string, locale?: string): Promise<Scenario | undefined> {
+  return (await getPublishedScenarios(locale)).find(s => s.id === id);
+}
+
+// Creates version 1 for every bundled handoff and scenario that has no row
+// yet in the default locale. Items go through the same lint as
+// /api/admin/content/publish: clean ones are published, the rest are left as
+// drafts to fix in the content admin. Safe to re-run; edited content is kept.
+export async function seedContentBank(): Promise<{ created: number; drafted: number; skipped: number }> {
+  const bundled: Array<{ kind: ContentKind; key: string; category: string; body: PracticeHandoff | Scenario }> = [
+    ...PRACTICE_HANDOFFS.map(h => ({ kind: "handoff" as const, key: h.id, category: h.category, body: h })),
+    ...BUNDLED_SCENARIOS.map(s => ({ kind: "scenario" as const, key: s.id, category: s.category, body: s })),
+  ];
+
+  let created = 0;
+  let drafted = 0;
+  let skipped = 0;
+  for (const entry of bundled) {
+    const latest = await storage.getLatestContentVersion(entry.kind, entry.key, DEFAULT_LOCALE);
+    if (latest > 0) {
+      skipped++;
+      continue;
+    }
+    const publishable = !hasLintErrors(lintContentItem({ kind: entry.kind, locale: DEFAULT_LOCALE, body: entry.body }));
+    await storage.createContentItem({
+      kind: entry.kind,
+      contentKey: entry.key,
+      locale: DEFAULT_LOCALE,
+      version: 1,
+      status: publishable ? "published" : "draft",
+      category: entry.category,
+      body: entry.body,
+      publishedAt: publishable ? new Date() : null,
+    });
+    created++;
+    if (!publishable) drafted++;
+  }
+
+  invalidateContentCache();
+  return { created, drafted, skipped };
+}
@@ -0,0 +1,248 @@
+import { completeStructured, type LlmMessage } from "./services/llmProvider.js";
+import { conversationSummarySchema } from "../shared/analysis.js";
+
+// Memory for long conversations, shared by Mirror AI chat and rehearsals.
+//
+// Every request is assembled under a token budget: the system prompt, then
+// what the model should remember (pinned facts and a running summary of
+// older turns), then as many recent turns as fit, newest first. Once the
+// turns outside the recent window grow past a threshold they are folded
+// into the summary and stop being sent verbatim. The summary, the facts and
+// how many messages they cover are stored alongside the messages (the
+// `memory` column), so nothing is re-summarized.
+//
+// Tokens are estimated at four characters each, which is close enough for
+// English to keep requests well inside the model's context.
+
+export interface ConversationMemory {
+  summary: string;
+  // Things the user said about themselves: names, relationships, goals.
+  facts: string[];
+  // How many leading messages the summary covers.
+  summarizedThrough: number;
+  updatedAt: string;
+}
+
+export interface MemoryBudget {
+  // Everything sent in one request: system prompt, memory and turns.
+  maxInputTokens: number;
+  // Messages at the end of the conversation that are never summarized.
+  recentMessages: number;
+  // Older, unsummarized turns are rolled up once they pass this size.
+  summarizeAfterTokens: number;
+}
+
+export interface MemoryTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export const CHAT_MEMORY_BUDGET: MemoryBudget = {
+  maxInputTokens: 6000,
+  recentMessages: 12,
+  summarizeAfterTokens: 1500,
+};
+
+export const REHEARSAL_MEMORY_BUDGET: MemoryBudget = {
+  maxInputTokens: 4000,
+  recentMessages: 8,
+  summarizeAfterTokens: 1000,
+};
+
+export const MAX_PINNED_FACTS = 12;
+
+// Role and formatting overhead per message.
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const CHARS_PER_TOKEN = 4;
+const MAX_SUMMARY_TOKENS = 600;
+const MAX_FACT_WORDS = 16;
+
+const RELATIONS = [
+  "wife", "husband", "partner", "boyfriend", "girlfriend", "boss", "manager", "sister", "brother",
+  "mom", "mum", "mother", "dad", "father", "son", "daughter", "friend", "coworker", "colleague", "roommate",
+];
+
+// Names must be capitalized, which keeps "my boss is exhausting" out.
+const NAME_PATTERN = /\b(?:[Mm]y name is|[Cc]all me)\s+([A-Z][a-z'-]+)/;
+const RELATION_PATTERN = new RegExp(`\\b[Mm]y (${RELATIONS.join("|")})(?:'s name)? is (?:called |named )?([A-Z][a-z'-]+)`, "g");
+const GOAL_PATTERN = /\b(?:my goal is to|i(?:'m| am) trying to|i want to get better at)\s+([^.!?\n]+)/gi;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function messageTokens(message: { content: string }): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+function truncateToTokens(text: string, tokens: number): string {
+  const maxChars = Math.max(0, tokens * CHARS_PER_TOKEN);
+  return text.length > maxChars ? `${text.slice(0, Math.max(0, maxChars - 3)).trimEnd()}...` : text;
+}
+
+export function emptyMemory(): ConversationMemory {
+  return { summary: "", facts: [], summarizedThrough: 0, updatedAt: new Date(0).toISOString() };
+}
+
+// Reads the stored column, tolerating rows written before it existed.
+export function readMemory(value: unknown): ConversationMemory {
+  const stored = (value ?? {}) as Partial<ConversationMemory>;
+  return {
+    summary: typeof stored.summary === "string" ? stored.summary : "",
+    facts: Array.isArray(stored.facts) ? stored.facts.filter((f): f is string => typeof f === "string") : [],
+    summarizedThrough: typeof stored.summarizedThrough === "number" ? stored.summarizedThrough : 0,
+    updatedAt: typeof stored.updatedAt === "string" ? stored.updatedAt : new Date(0).toISOString(),
+  };
+}
+
+// "The user's boss is Dana." and "The user's boss is Sam." describe the same
+// thing, so the newer one replaces the older.
+function factKey(fact: string): string {
+  const subject = fact.match(/^(.+?)\s+(?:is|are)\s/i)?.[1];
+  return (subject ?? fact).toLowerCase().replace(/[^a-z0-9' ]/g, "").trim();
+}
+
+export function mergeFacts(existing: string[], added: string[]): string[] {
+  let facts = existing;
+  for (const fact of added) {
+    const trimmed = fact.trim();
+    if (!trimmed) continue;
+    const key = factKey(trimmed);
+    facts = [...facts.filter(f => factKey(f) !== key), trimmed];
+  }
+  return facts.slice(-MAX_PINNED_FACTS);
+}
+
+// Facts the user states outright, picked up on the turn they are said so
+// they're kept even if a later summary misses them.
+export function extractPinnedFacts(text: string): string[] {
+  const facts: string[] = [];
+
+  const name = text.match(NAME_PATTERN)?.[1];
+  if (name) facts.push(`The user's name is ${name}.`);
+
+  for (const match of Array.from(text.matchAll(RELATION_PATTERN))) {
+    facts.push(`The user's ${match[1].toLowerCase()} is ${match[2]}.`);
+  }
+
+  for (const match of Array.from(text.matchAll(GOAL_PATTERN))) {
+    const goal = match[1].trim().split(/\s+/).slice(0, MAX_FACT_WORDS).join(" ");
+    if (goal) facts.push(`The user's goal: ${goal}.`);
+  }
+
+  return facts;
+}
+
+export function pinFacts(memory: ConversationMemory, userMessage: string): ConversationMemory {
+  const found = extractPinnedFacts(userMessage);
+  if (found.length === 0) return memory;
+  return { ...memory, facts: mergeFacts(memory.facts, found), updatedAt: new Date().toISOString() };
+}
+
+// The memory block sent after the system prompt; empty while there is
+// nothing to remember.
+export function formatMemory(memory: ConversationMemory, speaker = "the user"): string {
+  const parts: string[] = [];
+  if (memory.facts.length > 0) {
+    parts.push(`Facts ${speaker} has shared:\n${memory.facts.map(f => `- ${f}`).join("\n")}`);
+  }
+  if (memory.summary) {
+    parts.push(`Summary of the earlier conversation:\n${truncateToTokens(memory.summary, MAX_SUMMARY_TOKENS)}`);
+  }
+  return parts.join("\n\n");
+}
+
+// The turns not yet covered by the summary, trimmed from the oldest end to
+// `tokens`. The latest turn is always kept, cut down if it alone is too long.
+export function selectRecentTurns<T extends MemoryTurn>(messages: T[], memory: ConversationMemory, tokens: number): T[] {
+  const unsummarized = messages.slice(Math.min(memory.summarizedThrough, messages.length));
+  const selected: T[] = [];
+  let used = 0;
+
+  for (let i = unsummarized.length - 1; i >= 0; i--) {
+    const cost = messageTokens(unsummarized[i]);
+    if (selected.length > 0 && used + cost > tokens) break;
+    selected.unshift(
+      cost > tokens
+        ? { ...unsummarized[i], content: truncateToTokens(unsummarized[i].content, tokens - MESSAGE_OVERHEAD_TOKENS) }
+        : unsummarized[i]
+    );
+    used += cost;
+  }
+
+  return selected;
+}
+
+// System prompt, memory, then recent turns, within budget.maxInputTokens.
+export function buildMemoryContext(
+  systemPrompt: string,
+  messages: MemoryTurn[],
+  memory: ConversationMemory,
+  budget: MemoryBudget,
+  options: { speaker?: string } = {}
+): LlmMessage[] {
+  const context: LlmMessage[] = [{ role: "system", content: systemPrompt }];
+  const remembered = formatMemory(memory, options.speaker);
+  if (remembered) {
+    context.push({ role: "system", content: `What you remember from earlier in this conversation:\n\n${remembered}` });
+  }
+
+  const used = context.reduce((sum, m) => sum + messageTokens(m), 0);
+  const turns = selectRecentTurns(messages, memory, budget.maxInputTokens - used);
+  return [...context, ...turns.map(m => ({ role: m.role, content: m.content }))];
+}
+
+// Folds older turns into the summary once they outgrow
+// budget.summarizeAfterTokens, keeping the last budget.recentMessages
+// verbatim. A failed summary leaves the memory as it was; the context
+// builder still keeps requests inside the budget, and the next turn retries.
+export async function rollUpMemory(
+  messages: MemoryTurn[],
+  memory: ConversationMemory,
+  budget: MemoryBudget,
+  options: { speakers?: { user: string; assistant: string } } = {}
+): Promise<ConversationMemory> {
+  const foldThrough = messages.length - budget.recentMessages;
+  const pending = messages.slice(memory.summarizedThrough, Math.max(memory.summarizedThrough, foldThrough));
+  if (pending.length === 0 || pending.reduce((sum, m) => sum + messageTokens(m), 0) < budget.summarizeAfterTokens) {
+    return memory;
+  }
+
+  const speakers = options.speakers ?? { user: "User", assistant: "Mirror AI" };
+  const transcript = pending.map(m => `${m.role === "user" ? speakers.user : speakers.assistant}: ${m.content}`).join("\n");
+
+  try {
+    const result = await completeStructured(conversationSummarySchema, {
+      task: "memory-summarize",
+      messages: [
+        {
+          role: "system",
+          content: `You maintain the running memory of a long conversation. Merge the summary so far with the new turns into one updated summary, under 150 words, written in the third person ("The user..."). Keep what matters for continuing the conversation: the situations discussed, what the user decided or tried, and anything left open. Drop small talk.
+
+Also list facts the user stated about themselves that should never be forgotten: names of people in their life, relationships, roles, goals. One short sentence each ("The user's manager is Dana."). Only facts the user said, not guesses.
+
+JSON only:
+{
+  "summary": "string",
+  "facts": ["string"]
+}`,
+        },
+        {
+          role: "user",
+          content: `Summary so far:\n${memory.summary || "(none)"}\n\nKnown facts:\n${memory.facts.map(f => `- ${f}`).join("\n") || "(none)"}\n\nNew turns:\n${transcript}`,
+        },
+      ],
+      maxTokens: 400,
+    });
+
+    return {
+      summary: truncateToTokens(result.summary, MAX_SUMMARY_TOKENS),
+      facts: mergeFacts(memory.facts, result.facts),
+      summarizedThrough: foldThrough,
+      updatedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.error("Conversation memory roll-up failed:", error);
+    return memory;
+  }
+}
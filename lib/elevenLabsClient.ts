@@ -1,5 +1,6 @@
 const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY;
 const ELEVENLABS_API_URL = "https://api.elevenlabs.io/v1";
+export const ELEVENLABS_MODEL_ID = "eleven_monolingual_v1";
 
 export const DEFAULT_VOICES = [
   { id: "21m00Tcm4TlvDq8ikWAM", name: "Rachel", description: "Calm female" },
@@ -25,7 +26,7 @@ export interface VoiceCloneResult {
 export async function createVoiceClone(
   name: string,
   description: string,
-  audioSamples: { buffer: Buffer; filename: string }[]
+  audioSamples: { buffer: Buffer; filename: string; mimeType?: string }[]
 ): Promise<VoiceCloneResult> {
   if (!ELEVENLABS_API_KEY) {
     return { success: false, error: "ElevenLabs API key not available" };
@@ -43,7 +44,7 @@ export async function createVoiceClone(
     formData.append("description", description || "Custom voice clone");
     
     for (const sample of audioSamples) {
-      const blob = new Blob([sample.buffer], { type: "audio/mpeg" });
+      const blob = new Blob([sample.buffer], { type: sample.mimeType || "audio/mpeg" });
       formData.append("files", blob, sample.filename);
     }
 
@@ -113,72 +114,16 @@ export async function getVoiceDetails(voiceId: string): Promise<any | null> {
   }
 }
 
-export type TtsSection = "general" | "scenario" | "analysis-what" | "analysis-how" | "analysis-reframe";
-
-export interface TtsOptions {
-  section?: TtsSection;
-  difficulty?: "beginner" | "intermediate" | "advanced";
-}
-
-function sanitizeForSsml(text: string): string {
-  const withoutEmoji = text.replace(/[^\x00-\x7F]/g, "");
-  const withoutExclaim = withoutEmoji.replace(/[!]+/g, ".");
-  const withoutQuestions = withoutExclaim.replace(/[?]+/g, ".");
-  const collapsed = withoutQuestions.replace(/\s+/g, " ").trim();
-  return collapsed;
-}
-
-function escapeXml(text: string): string {
-  return text
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&apos;");
-}
-
-function buildSsml(text: string, options: TtsOptions = {}): string {
-  const section = options.section || "general";
-  const difficulty = options.difficulty || "intermediate";
-
-  const cleaned = escapeXml(sanitizeForSsml(text));
-  const baseRate = section === "scenario"
-    ? "88%"
-    : difficulty === "advanced"
-      ? "92%"
-      : difficulty === "beginner"
-        ? "88%"
-        : "90%";
-
-  const sentenceBreak = section === "scenario" ? " <break time=\"400ms\"/> " : " <break time=\"350ms\"/> ";
-  const paragraphBreak = section === "scenario" ? "<break time=\"700ms\"/>" : "<break time=\"600ms\"/>";
-
-  const sentences = cleaned
-    .split(/(?<=[.])\s+/)
-    .map(part => part.trim())
-    .filter(Boolean);
-
-  const sentenceBody = sentences.length > 0 ? sentences.join(sentenceBreak) : cleaned;
-  const withParagraphs = sentenceBody.replace(/\n\s*\n/g, paragraphBreak);
-  const trailingPause = section === "scenario" ? " <break time=\"700ms\"/>" : "";
-
-  return `<speak><prosody rate="${baseRate}" pitch="-2%">${withParagraphs}${trailingPause}</prosody></speak>`;
-}
-
-export async function textToSpeech(
-  text: string,
-  voiceId: string = DEFAULT_VOICE_ID,
-  options: TtsOptions = {}
-): Promise<Buffer | null> {
+// Renders prepared SSML in one voice. Pacing and voice QA happen in the
+// TTS provider layer (lib/services/ttsProvider.ts).
+export async function renderElevenLabsSpeech(ssml: string, voiceId: string): Promise<Buffer | null> {
   if (!ELEVENLABS_API_KEY) {
     console.log("ElevenLabs API key not available");
     return null;
   }
 
   try {
-    const shaped = buildSsml(text.slice(0, 800), options);
-
-    console.log("Calling ElevenLabs TTS for voice:", voiceId, "text:", shaped.substring(0, 80));
+    console.log("Calling ElevenLabs TTS for voice:", voiceId, "text:", ssml.substring(0, 80));
     const response = await fetch(
       `${ELEVENLABS_API_URL}/text-to-speech/${voiceId}`,
       {
@@ -188,8 +133,8 @@ export async function textToSpeech(
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          text: shaped,
-          model_id: "eleven_monolingual_v1",
+          text: ssml,
+          model_id: ELEVENLABS_MODEL_ID,
           voice_settings: {
             stability: 0.72,
             similarity_boost: 0.7,
@@ -215,7 +160,3 @@ export async function textToSpeech(
     return null;
   }
 }
-
-export async function getVoiceSample(voiceId: string): Promise<Buffer | null> {
-  return textToSpeech("Hello, I'm your AI companion. How can I help you today?", voiceId);
-}
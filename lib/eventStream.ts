@@ -0,0 +1,60 @@
+import { getHeaderValue, type ReqLike, type ResLike } from "./apiUtils.js";
+
+export interface EventStream {
+  send: (event: string, data: unknown) => void;
+  close: () => void;
+  // Stands in for `res` once the stream is open, so the usual error
+  // handlers report failures as an `error` event instead of a status code.
+  errorResponse: ResLike;
+}
+
+export function wantsEventStream(req: ReqLike): boolean {
+  const accept = getHeaderValue(req.headers, "accept") || "";
+  return accept.includes("text/event-stream");
+}
+
+export function openEventStream(res: ResLike): EventStream {
+  if (!res.write || !res.end) {
+    throw new Error("Response does not support streaming");
+  }
+  const write = res.write.bind(res);
+  const end = res.end.bind(res);
+
+  res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.status(200);
+  res.flushHeaders?.();
+
+  let closed = false;
+  const stream: EventStream = {
+    send(event, data) {
+      if (closed) return;
+      write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      end();
+    },
+    errorResponse: {
+      status(code) {
+        return {
+          ...stream.errorResponse,
+          json(payload) {
+            stream.send("error", { status: code, ...(payload as Record<string, unknown>) });
+            stream.close();
+          },
+        };
+      },
+      json(payload) {
+        stream.send("error", payload);
+        stream.close();
+      },
+      setHeader() {},
+    },
+  };
+
+  return stream;
+}
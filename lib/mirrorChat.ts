@@ -0,0 +1,152 @@
+import { storage } from "./storage.js";
+import { requireLlm, streamCompletion, type LlmMessage } from "./services/llmProvider.js";
+import { synthesizeSpeech } from "./services/ttsProvider.js";
+import { autoTitleFor, getThreadMessages, resolveChatThread, type ChatMessage } from "./chatThreads.js";
+import {
+  buildMemoryContext,
+  pinFacts,
+  readMemory,
+  rollUpMemory,
+  CHAT_MEMORY_BUDGET,
+  type ConversationMemory,
+} from "./conversationMemory.js";
+import { createSentenceChunker } from "./sentenceChunker.js";
+import type { EventStream } from "./eventStream.js";
+import type { Conversation } from "../shared/schema.js";
+
+// One Mirror AI chat turn, shared by /api/chat/message and
+// /api/chat/message/audio: resolve the thread, build the prompt from memory,
+// get the reply (whole or streamed), then save it with the thread's title
+// and memory.
+//
+// Streaming responses (Accept: text/event-stream) send, in order:
+//   token  { text }                         as the model produces it
+//   audio  { index, sentence, text, audio, audioMimeType }
+//                                           one per sentence of the reply, audio mode only;
+//                                           `text` is what the voice said after voice QA,
+//                                           and `audio` is null (with `text` "") when
+//                                           nothing was spoken for the sentence
+//   done   { message, conversationId, title, ... }
+//   error  { status, message }
+
+export const MIRROR_SYSTEM_PROMPT = `You are Mirror AI, a warm and supportive emotional intelligence coach. Your role is to:
+1. Listen with empathy and validate feelings
+2. Help users navigate difficult emotions and situations
+3. Provide practical communication strategies
+4. Encourage self-reflection and growth
+5. Celebrate progress and wins
+
+Be conversational, warm, and supportive. Use "I" statements and ask thoughtful questions. Keep responses concise but meaningful (2-3 paragraphs max).`;
+
+const FALLBACK_REPLY = "I'm here to help. Could you tell me more?";
+
+export interface ChatTurn {
+  conversation: Conversation;
+  messages: ChatMessage[];
+  memory: ConversationMemory;
+  context: LlmMessage[];
+}
+
+export interface SavedChatTurn {
+  message: string;
+  conversationId: string;
+  title: string | null;
+}
+
+export interface ChatVoice {
+  voiceId?: string | null;
+  provider?: string | null;
+}
+
+export async function beginChatTurn(userId: string, conversationId: string | undefined, message: string): Promise<ChatTurn> {
+  const conversation = await resolveChatThread(userId, conversationId);
+  const messages = getThreadMessages(conversation);
+  messages.push({ role: "user", content: message });
+  const memory = pinFacts(readMemory(conversation.memory), message);
+
+  return {
+    conversation,
+    messages,
+    memory,
+    context: buildMemoryContext(MIRROR_SYSTEM_PROMPT, messages, memory, CHAT_MEMORY_BUDGET),
+  };
+}
+
+export async function finishChatTurn(turn: ChatTurn, reply: string): Promise<SavedChatTurn> {
+  const message = reply.trim() || FALLBACK_REPLY;
+  const messages: ChatMessage[] = [...turn.messages, { role: "assistant", content: message }];
+
+  const [title, memory] = await Promise.all([
+    autoTitleFor(turn.conversation, messages),
+    rollUpMemory(messages, turn.memory, CHAT_MEMORY_BUDGET),
+  ]);
+  await storage.updateConversation(turn.conversation.id, {
+    messages,
+    memory,
+    emotionState: "supportive",
+    ...(title ? { title } : {}),
+  });
+
+  return { message, conversationId: turn.conversation.id, title: title ?? turn.conversation.title };
+}
+
+export async function completeChatReply(turn: ChatTurn): Promise<string> {
+  return requireLlm().complete({ task: "chat", messages: turn.context });
+}
+
+// The voice the user picked, unless the request names one.
+export async function resolveChatVoice(userId: string, voiceId?: string): Promise<ChatVoice> {
+  const prefs = await storage.getUserVoicePreferences(userId);
+  return { voiceId: voiceId || prefs?.selectedVoiceId, provider: prefs?.ttsProvider };
+}
+
+export async function synthesizeChatReply(text: string, voice: ChatVoice) {
+  return synthesizeSpeech(text, { section: "chat", ...voice });
+}
+
+// Streams the reply as `token` events. With a voice, each sentence is sent
+// to TTS as soon as it completes; synthesis runs alongside generation and
+// `audio` events go out in sentence order. Resolves once the reply and all
+// of its audio have been sent.
+export async function streamChatReply(turn: ChatTurn, stream: EventStream, voice?: ChatVoice): Promise<string> {
+  const chunker = createSentenceChunker();
+  let reply = "";
+  let spoken = 0;
+  let audioSent = Promise.resolve();
+
+  const speak = (sentence: string) => {
+    if (!voice) return;
+    const index = spoken++;
+    const pending = synthesizeChatReply(sentence, voice).catch(error => {
+      console.error("Chat sentence TTS failed:", error);
+      return null;
+    });
+    audioSent = audioSent.then(async () => {
+      const result = await pending;
+      stream.send("audio", {
+        index,
+        sentence,
+        text: result?.text ?? "",
+        audio: result ? result.audio.toString("base64") : null,
+        audioMimeType: result?.mimeType ?? null,
+      });
+    });
+  };
+
+  for await (const text of streamCompletion({ task: "chat", messages: turn.context })) {
+    reply += text;
+    stream.send("token", { text });
+    chunker.push(text).forEach(speak);
+  }
+
+  if (!reply.trim()) {
+    reply = FALLBACK_REPLY;
+    stream.send("token", { text: reply });
+    chunker.push(reply).forEach(speak);
+  }
+  const rest = chunker.flush();
+  if (rest) speak(rest);
+
+  await audioSent;
+  return reply;
+}
@@ -0,0 +1,99 @@
+import { completeStructured } from "./services/llmProvider.js";
+import { getSkillLevel, isDifficulty, type Difficulty } from "./skillRating.js";
+import { PRACTICE_CATEGORIES, type PracticeCategory } from "../shared/categories.js";
+import { SCENARIO_RULES } from "../shared/scenarios.js";
+import { applyLintFixes, lintScenarioText } from "../shared/scenarioLint.js";
+import { personalScenarioSchema } from "../shared/analysis.js";
+import type { InsertCustomScenario } from "../shared/schema.js";
+
+export const MIN_SITUATION_LENGTH = 20;
+export const MAX_SITUATION_LENGTH = 1500;
+
+// A custom_scenarios row waiting for the user to review it. Nothing is saved
+// until they post it to /api/scenarios/custom.
+export type PersonalScenarioDraft = Pick<
+  InsertCustomScenario,
+  "title" | "description" | "category" | "difficulty" | "context" | "prompt" | "sampleResponse" | "tips"
+> & { handoffLines: string[] };
+
+function isPracticeCategory(value: unknown): value is PracticeCategory {
+  return typeof value === "string" && PRACTICE_CATEGORIES.some(c => c.id === value);
+}
+
+export async function generatePersonalScenario(
+  userId: string,
+  input: { situation: string; category?: unknown; difficulty?: unknown }
+): Promise<PersonalScenarioDraft> {
+  const situation = input.situation.replace(/\s+/g, " ").trim();
+  const category = isPracticeCategory(input.category) ? input.category : undefined;
+  // The user's own level in the category, unless they asked for one.
+  const difficulty: Difficulty = isDifficulty(input.difficulty)
+    ? input.difficulty
+    : (await getSkillLevel(userId, category)).difficulty;
+
+  const result = await completeStructured(personalScenarioSchema, {
+    task: "scenario-generate",
+    messages: [
+      {
+        role: "system",
+        content: `You turn a real situation someone is facing into a short practice scenario for a voice-first communication coach. The user will rehearse their side of the conversation out loud.
+
+Mirror Play Scenario Rules (apply to every handoff line):
+${SCENARIO_RULES.map(rule => `- ${rule}`).join("\n")}
+
+Handoff lines put the user in the moment just before they speak: what the other person does or says, and that they are waiting. Write them in second person, present tense, one or two short sentences each. Keep names, places and details from the situation only where they make the moment concrete.
+
+Match the difficulty given:
+- beginner: the other person is open and the moment is low-stakes.
+- intermediate: some friction or pushback.
+- advanced: pressure, resistance or high stakes from the first line.
+
+Fields to return:
+- title: 3-6 words naming the conversation
+- description: one sentence summarising the situation
+- category: one of ${PRACTICE_CATEGORIES.map(c => c.id).join(", ")}
+- context: 2-3 sentences of background, written to the user
+- handoffLines: 3 handoff lines, each a different moment in the conversation, the opening first
+- tips: 2-3 short, concrete tips for responding. No questions.
+- sampleResponse: one calm, clear response to the first handoff line
+
+JSON only:
+{
+  "title": "string",
+  "description": "string",
+  "category": "string",
+  "context": "string",
+  "handoffLines": ["string", "string", "string"],
+  "tips": ["string"],
+  "sampleResponse": "string"
+}`,
+      },
+      {
+        role: "user",
+        content: [
+          `Situation: ${situation}`,
+          `Category: ${category ?? "choose the closest"}`,
+          `Difficulty: ${difficulty}`,
+        ].join("\n"),
+      },
+    ],
+  });
+
+  // Mechanical fixes only (question marks, "what would you say"); anything
+  // needing a rewrite is left for the user to see when they review the draft.
+  const handoffLines = result.handoffLines
+    .map(line => applyLintFixes(line, lintScenarioText(line).filter(v => v.severity === "error")))
+    .filter(line => line.length > 0);
+
+  return {
+    title: result.title,
+    description: result.description,
+    category: category ?? result.category,
+    difficulty,
+    context: result.context,
+    prompt: handoffLines[0] ?? result.handoffLines[0],
+    sampleResponse: result.sampleResponse,
+    tips: result.tips,
+    handoffLines,
+  };
+}
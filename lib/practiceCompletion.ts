@@ -0,0 +1,282 @@
+import { createHash } from "crypto";
+import { storage } from "./storage.js";
+import { updateStreak, checkAndAwardBadges } from "./badgeService.js";
+import { completeStructured } from "./services/llmProvider.js";
+import { recordPracticeReview } from "./reviewScheduler.js";
+import { recordSkillResult, type SkillLevel } from "./skillRating.js";
+import type { InsertPracticeSession, PracticeSession } from "../shared/schema.js";
+import { bestMomentInsightSchema } from "../shared/analysis.js";
+
+export type PracticeCompletionMode = "text" | "quick" | "voice" | "daily-capsule" | "rehearsal";
+
+interface RewardRule {
+  baseXp: number;
+  scoreXp: number;
+  basePp: number;
+  scorePp: number;
+  scale: number;
+}
+
+const REWARD_RULES: Record<PracticeCompletionMode, RewardRule> = {
+  text: { baseXp: 10, scoreXp: 20, basePp: 5, scorePp: 10, scale: 1 },
+  quick: { baseXp: 10, scoreXp: 20, basePp: 5, scorePp: 10, scale: 0.5 },
+  voice: { baseXp: 15, scoreXp: 25, basePp: 8, scorePp: 12, scale: 1 },
+  "daily-capsule": { baseXp: 10, scoreXp: 20, basePp: 5, scorePp: 10, scale: 1 },
+  rehearsal: { baseXp: 20, scoreXp: 30, basePp: 10, scorePp: 15, scale: 1 },
+};
+
+export const BEST_MOMENT_MIN_SCORE = 85;
+// Longest typed answer a practice accepts, in characters.
+export const MAX_RESPONSE_LENGTH = 5000;
+export const XP_PER_LEVEL = 100;
+
+export interface PracticeRewards {
+  baseXp: number;
+  xpEarned: number;
+  ppEarned: number;
+  streakMultiplier: number;
+}
+
+export function getStreakMultiplier(streakDays: number): number {
+  if (streakDays >= 30) return 5;
+  if (streakDays >= 14) return 3;
+  if (streakDays >= 7) return 2;
+  return 1;
+}
+
+export function getLevelForXp(totalXp: number): number {
+  return Math.floor(totalXp / XP_PER_LEVEL) + 1;
+}
+
+export function isVoiceMode(mode: PracticeCompletionMode): boolean {
+  return mode === "voice";
+}
+
+export function calculatePracticeRewards(
+  mode: PracticeCompletionMode,
+  score: number,
+  currentStreak: number,
+  streakBonus: number
+): PracticeRewards {
+  const rule = REWARD_RULES[mode];
+  const baseXp = Math.floor((rule.baseXp + (score / 100) * rule.scoreXp) * rule.scale);
+  const ppEarned = Math.floor((rule.basePp + (score / 100) * rule.scorePp) * rule.scale);
+  const streakMultiplier = getStreakMultiplier(currentStreak);
+  const xpEarned = Math.floor(baseXp * streakMultiplier) + streakBonus;
+
+  return { baseXp, xpEarned, ppEarned, streakMultiplier };
+}
+
+export interface PracticeCompletionInput {
+  userId: string;
+  mode: PracticeCompletionMode;
+  score: number;
+  prompt: string;
+  responseText: string;
+  tone?: string | null;
+  category?: string | null;
+  // Fields for the practice_sessions row. Omit for modes that persist
+  // their own record (rehearsal).
+  session?: Omit<InsertPracticeSession, "userId" | "prompt" | "response" | "score" | "xpEarned" | "ppEarned">;
+  rehearsalId?: string;
+  // Groups the session with earlier attempts at the same handoff line. Falls
+  // back to the prompt text when absent.
+  handoffId?: string;
+  // Difficulty the response was scored at; rates the user's skill in the category.
+  difficulty?: string | null;
+  // Extra lines appended to the best-moment insight request.
+  insightContext?: string[];
+}
+
+export interface PracticeCompletionResult {
+  session?: PracticeSession;
+  skillLevel?: SkillLevel;
+  xpEarned: number;
+  ppEarned: number;
+  streakBonus: number;
+  currentStreak: number;
+  streakMultiplier: number;
+  level: number;
+  leveledUp: boolean;
+  bestMomentCreated: boolean;
+  newBadges: { name: string; icon: string | null; description: string | null }[];
+}
+
+async function createBestMoment(
+  input: PracticeCompletionInput,
+  sessionId: string | undefined
+): Promise<boolean> {
+  const voice = isVoiceMode(input.mode);
+  try {
+    const insightResult = await completeStructured(bestMomentInsightSchema, {
+      task: "best-moment",
+      messages: [
+        {
+          role: "system",
+          content: `You are an expert communication${voice ? " and voice" : ""} coach. Analyze this excellent ${voice ? "spoken " : ""}response and explain what made it exceptional. Generate a short title (5-8 words), extract a key excerpt (1-2 sentences from the ${voice ? "transcription" : "response"} that showcase the best part), provide an AI insight (2-3 sentences explaining what made it great${voice ? " including any notable vocal delivery aspects" : ""}), and suggest 2-3 relevant tags.
+
+Respond in JSON format:
+{
+  "title": "string",
+  "excerpt": "string",
+  "aiInsight": "string",
+  "tags": ["tag1", "tag2"]
+}`,
+        },
+        {
+          role: "user",
+          content: [
+            `Scenario: ${input.prompt}`,
+            "",
+            `${voice ? "Spoken Response" : "Response"} (score: ${input.score}): ${input.responseText}`,
+            `Tone: ${input.tone}`,
+            `Category: ${input.category || "general"}`,
+            ...(input.insightContext || []),
+          ].join("\n"),
+        },
+      ],
+    });
+
+    await storage.createBestMoment({
+      userId: input.userId,
+      sessionId,
+      rehearsalId: input.rehearsalId,
+      title: insightResult.title,
+      excerpt: insightResult.excerpt,
+      category: input.category || "general",
+      score: input.score,
+      aiInsight: insightResult.aiInsight,
+      tags: insightResult.tags,
+      isPublic: false,
+    });
+    return true;
+  } catch (momentError) {
+    console.error("Error creating best moment:", momentError);
+    return false;
+  }
+}
+
+async function applyProgress(
+  userId: string,
+  xpEarned: number,
+  ppEarned: number
+): Promise<{ level: number; leveledUp: boolean }> {
+  const progress = await storage.getProgress(userId);
+  if (!progress) {
+    return { level: 1, leveledUp: false };
+  }
+
+  const oldLevel = progress.level || 1;
+  const newTotalXp = (progress.totalXp || 0) + xpEarned;
+  const newLevel = getLevelForXp(newTotalXp);
+  await storage.updateProgress(userId, {
+    totalXp: newTotalXp,
+    totalPp: (progress.totalPp || 0) + ppEarned,
+    practiceCount: (progress.practiceCount || 0) + 1,
+    level: newLevel,
+  });
+
+  if (newLevel > oldLevel) {
+    try {
+      await storage.createCommunityPost({
+        userId,
+        type: "milestone",
+        content: `Reached Level ${newLevel}!`,
+        metadata: {
+          level: newLevel,
+          previousLevel: oldLevel,
+          autoShared: true,
+        },
+      });
+    } catch (postError) {
+      console.error("Failed to auto-share level-up:", postError);
+    }
+  }
+
+  return { level: newLevel, leveledUp: newLevel > oldLevel };
+}
+
+export function attemptChainKey(prompt: string, handoffId?: string | null): string {
+  if (handoffId) return `handoff:${handoffId}`;
+  const normalized = prompt.trim().toLowerCase().replace(/\s+/g, " ");
+  return `prompt:${createHash("sha1").update(normalized).digest("hex").slice(0, 16)}`;
+}
+
+export async function completePractice(input: PracticeCompletionInput): Promise<PracticeCompletionResult> {
+  const { streakBonus, currentStreak } = await updateStreak(input.userId);
+  const rewards = calculatePracticeRewards(input.mode, input.score, currentStreak, streakBonus);
+
+  let session: PracticeSession | undefined;
+  let skillLevel: SkillLevel | undefined;
+  if (input.session) {
+    const chainKey = attemptChainKey(input.prompt, input.handoffId);
+    session = await storage.createPracticeSession({
+      ...input.session,
+      chainKey,
+      userId: input.userId,
+      prompt: input.prompt,
+      response: input.responseText,
+      category: input.session.category ?? input.category,
+      tone: input.session.tone ?? input.tone,
+      score: input.score,
+      xpEarned: rewards.xpEarned,
+      ppEarned: rewards.ppEarned,
+    });
+
+    try {
+      await recordPracticeReview({
+        userId: input.userId,
+        prompt: input.prompt,
+        handoffId: input.handoffId,
+        score: input.score,
+        tone: input.tone,
+      });
+    } catch (reviewError) {
+      console.error("Failed to schedule practice review:", reviewError);
+    }
+
+    try {
+      skillLevel = await recordSkillResult({
+        userId: input.userId,
+        category: session.category,
+        difficulty: input.difficulty,
+        score: input.score,
+      });
+    } catch (ratingError) {
+      console.error("Failed to update skill rating:", ratingError);
+    }
+  }
+
+  const bestMomentCreated =
+    input.score >= BEST_MOMENT_MIN_SCORE
+      ? await createBestMoment(input, session?.id)
+      : false;
+
+  const { level, leveledUp } = await applyProgress(input.userId, rewards.xpEarned, rewards.ppEarned);
+
+  const voice = isVoiceMode(input.mode);
+  const newBadges = await checkAndAwardBadges({
+    userId: input.userId,
+    eventType: voice ? "voice_practice" : "practice",
+    score: input.score,
+    mode: voice ? "voice" : "text",
+  });
+
+  return {
+    session,
+    skillLevel,
+    xpEarned: rewards.xpEarned,
+    ppEarned: rewards.ppEarned,
+    streakBonus,
+    currentStreak,
+    streakMultiplier: rewards.streakMultiplier,
+    level,
+    leveledUp,
+    bestMomentCreated,
+    newBadges: newBadges.map((b) => ({
+      name: b.name,
+      icon: b.icon,
+      description: b.description,
+    })),
+  };
+}
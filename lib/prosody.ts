@@ -0,0 +1,226 @@
+import { decodeToPcm, PCM_SAMPLE_RATE } from "./audioDecoder.js";
+
+const FRAME_SECONDS = 0.03;
+const HOP_SECONDS = 0.01;
+// Silences shorter than this are part of normal articulation, not pauses.
+const MIN_PAUSE_SECONDS = 0.3;
+// A frame counts as speech when it is this far above the recording's noise
+// floor (and above an absolute floor, for very clean recordings).
+const SPEECH_MARGIN_DB = 12;
+const SPEECH_FLOOR_DB = -50;
+const MIN_PITCH_HZ = 75;
+const MAX_PITCH_HZ = 400;
+const PITCH_WINDOW_SECONDS = 0.04;
+const VOICING_THRESHOLD = 0.5;
+const OCTAVE_TOLERANCE = 0.9;
+
+export interface VocalMetrics {
+  durationSeconds: number;
+  speechSpanSeconds: number;
+  speakingSeconds: number;
+  speakingTimeRatio: number;
+  timeToFirstWordSeconds: number | null;
+  pauseCount: number;
+  averagePauseSeconds: number;
+  longestPauseSeconds: number;
+  medianPitchHz: number | null;
+  pitchRangeSemitones: number | null;
+  loudnessVariationDb: number;
+}
+
+export interface DeliveryReading {
+  pace: "slow" | "moderate" | "fast";
+  energy: "low" | "medium" | "high";
+  wordsPerMinute: number;
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+}
+
+function frameLevelsDb(samples: Float32Array, frameSize: number, hopSize: number): number[] {
+  const levels: number[] = [];
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    let sum = 0;
+    for (let i = start; i < start + frameSize; i++) {
+      sum += samples[i] * samples[i];
+    }
+    levels.push(20 * Math.log10(Math.sqrt(sum / frameSize) + 1e-10));
+  }
+  return levels;
+}
+
+// Normalized autocorrelation pitch estimate for one window, or null when the
+// window is not clearly voiced.
+function estimatePitch(samples: Float32Array, start: number, windowSize: number, sampleRate: number): number | null {
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+  const maxLag = Math.ceil(sampleRate / MIN_PITCH_HZ);
+  if (start + windowSize + maxLag > samples.length) return null;
+
+  const correlations: number[] = [];
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let cross = 0;
+    let energyA = 0;
+    let energyB = 0;
+    for (let i = start; i < start + windowSize; i++) {
+      const a = samples[i];
+      const b = samples[i + lag];
+      cross += a * b;
+      energyA += a * a;
+      energyB += b * b;
+    }
+    correlations.push(cross / (Math.sqrt(energyA * energyB) + 1e-10));
+  }
+
+  const best = Math.max(...correlations);
+  if (best < VOICING_THRESHOLD) return null;
+
+  // Multiples of the period correlate almost as well as the period itself, so
+  // take the shortest lag that comes close to the best peak.
+  for (let k = 0; k < correlations.length; k++) {
+    const isPeak = (k === 0 || correlations[k] >= correlations[k - 1]) &&
+      (k === correlations.length - 1 || correlations[k] >= correlations[k + 1]);
+    if (isPeak && correlations[k] >= best * OCTAVE_TOLERANCE) {
+      return sampleRate / (minLag + k);
+    }
+  }
+  return null;
+}
+
+// Halves the sample rate for pitch tracking; averaging adjacent samples is
+// enough of a low-pass for the 75-400 Hz range.
+function downsample(samples: Float32Array): Float32Array {
+  const out = new Float32Array(Math.floor(samples.length / 2));
+  for (let i = 0; i < out.length; i++) {
+    out[i] = (samples[2 * i] + samples[2 * i + 1]) / 2;
+  }
+  return out;
+}
+
+export function analyzePcm(samples: Float32Array, sampleRate = PCM_SAMPLE_RATE): VocalMetrics {
+  const frameSize = Math.round(FRAME_SECONDS * sampleRate);
+  const hopSize = Math.round(HOP_SECONDS * sampleRate);
+  const durationSeconds = samples.length / sampleRate;
+  const levels = frameLevelsDb(samples, frameSize, hopSize);
+
+  const noiseFloor = percentile([...levels].sort((a, b) => a - b), 0.1);
+  const threshold = Math.max(noiseFloor + SPEECH_MARGIN_DB, SPEECH_FLOOR_DB);
+  const speech = levels.map(level => level > threshold);
+
+  const first = speech.indexOf(true);
+  const last = speech.lastIndexOf(true);
+  if (first === -1) {
+    return {
+      durationSeconds: round(durationSeconds),
+      speechSpanSeconds: 0,
+      speakingSeconds: 0,
+      speakingTimeRatio: 0,
+      timeToFirstWordSeconds: null,
+      pauseCount: 0,
+      averagePauseSeconds: 0,
+      longestPauseSeconds: 0,
+      medianPitchHz: null,
+      pitchRangeSemitones: null,
+      loudnessVariationDb: 0,
+    };
+  }
+
+  const pauses: number[] = [];
+  let silentRun = 0;
+  for (let i = first; i <= last; i++) {
+    if (speech[i]) {
+      if (silentRun * HOP_SECONDS >= MIN_PAUSE_SECONDS) pauses.push(silentRun * HOP_SECONDS);
+      silentRun = 0;
+    } else {
+      silentRun++;
+    }
+  }
+
+  const speechSpanSeconds = (last - first + 1) * HOP_SECONDS;
+  const totalPause = pauses.reduce((sum, p) => sum + p, 0);
+  const speakingSeconds = speechSpanSeconds - totalPause;
+
+  const speechLevels = levels.filter((_, i) => speech[i]);
+  const meanLevel = speechLevels.reduce((sum, l) => sum + l, 0) / speechLevels.length;
+  const loudnessVariationDb = Math.sqrt(
+    speechLevels.reduce((sum, l) => sum + (l - meanLevel) ** 2, 0) / speechLevels.length
+  );
+
+  const pitchRate = sampleRate / 2;
+  const pitchSamples = downsample(samples);
+  const pitchWindow = Math.round(PITCH_WINDOW_SECONDS * pitchRate);
+  const pitches: number[] = [];
+  // Every other speech frame is plenty for a range estimate.
+  for (let i = first; i <= last; i += 2) {
+    if (!speech[i]) continue;
+    const pitch = estimatePitch(pitchSamples, Math.floor((i * hopSize) / 2), pitchWindow, pitchRate);
+    if (pitch !== null) pitches.push(pitch);
+  }
+  pitches.sort((a, b) => a - b);
+  const low = percentile(pitches, 0.1);
+  const high = percentile(pitches, 0.9);
+
+  return {
+    durationSeconds: round(durationSeconds),
+    speechSpanSeconds: round(speechSpanSeconds),
+    speakingSeconds: round(speakingSeconds),
+    speakingTimeRatio: round(durationSeconds > 0 ? speakingSeconds / durationSeconds : 0),
+    timeToFirstWordSeconds: round(first * HOP_SECONDS),
+    pauseCount: pauses.length,
+    averagePauseSeconds: round(pauses.length > 0 ? totalPause / pauses.length : 0),
+    longestPauseSeconds: round(pauses.length > 0 ? Math.max(...pauses) : 0),
+    medianPitchHz: pitches.length > 0 ? round(percentile(pitches, 0.5), 1) : null,
+    pitchRangeSemitones: pitches.length > 1 ? round(12 * Math.log2(high / low), 1) : null,
+    loudnessVariationDb: round(loudnessVariationDb, 1),
+  };
+}
+
+// Decodes and measures a recording. Returns null when the audio cannot be
+// decoded, so callers fall back to transcript-only analysis.
+export async function analyzeProsody(audio: Buffer): Promise<VocalMetrics | null> {
+  try {
+    return analyzePcm(await decodeToPcm(audio));
+  } catch (error) {
+    console.warn("Prosody analysis unavailable:", error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+// Pace comes from words over the time between the first and last word, so
+// leading and trailing silence do not count against the speaker. Energy
+// comes from how much pitch and loudness move.
+export function readDelivery(metrics: VocalMetrics, wordCount: number): DeliveryReading {
+  const wordsPerMinute = metrics.speechSpanSeconds > 0
+    ? Math.round((wordCount / metrics.speechSpanSeconds) * 60)
+    : 0;
+  const pace = wordsPerMinute < 100 ? "slow" : wordsPerMinute > 170 ? "fast" : "moderate";
+
+  const range = metrics.pitchRangeSemitones ?? 0;
+  const energy =
+    range >= 10 || metrics.loudnessVariationDb >= 9
+      ? "high"
+      : range < 4 && metrics.loudnessVariationDb < 5
+        ? "low"
+        : "medium";
+
+  return { pace, energy, wordsPerMinute };
+}
+
+export function formatDeliveryForPrompt(metrics: VocalMetrics, delivery: DeliveryReading): string {
+  return [
+    `Measured pace: ${delivery.pace} (${delivery.wordsPerMinute} words per minute while speaking)`,
+    `Measured energy: ${delivery.energy}`,
+    `Pitch range: ${metrics.pitchRangeSemitones ?? "unknown"} semitones`,
+    `Loudness variation: ${metrics.loudnessVariationDb} dB`,
+    `Pauses: ${metrics.pauseCount} (average ${metrics.averagePauseSeconds}s, longest ${metrics.longestPauseSeconds}s)`,
+    `Speaking time: ${Math.round(metrics.speakingTimeRatio * 100)}% of the recording`,
+    `Time to first word: ${metrics.timeToFirstWordSeconds ?? "unknown"}s`,
+  ].join("\n");
+}
@@ -0,0 +1,153 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { storage } from "./storage.js";
+import { getUploadStore } from "./audioUploads.js";
+import { RECORDING_RETENTION_OPTIONS, type AudioUpload, type RecordingRetention } from "../shared/schema.js";
+
+// Playback and retention for stored recordings (see lib/audioUploads.ts).
+//
+// Playback URLs are signed and expire. A Supabase bucket signs its own; disk
+// storage is served by /api/audio/play, signed with AUDIO_SIGNING_SECRET.
+//
+// Each user chooses how long recordings are kept (user_progress
+// .recording_retention); `npm run recordings:purge` deletes the expired ones.
+
+export const PLAYBACK_URL_TTL_SECONDS = 60 * 60;
+
+const RETENTION_DAYS: Record<RecordingRetention, number | null> = {
+  "7d": 7,
+  "30d": 30,
+  forever: null,
+};
+
+const DEV_SIGNING_SECRET = "mirrorplay-dev-audio";
+
+export function isRecordingRetention(value: unknown): value is RecordingRetention {
+  return typeof value === "string" && (RECORDING_RETENTION_OPTIONS as readonly string[]).includes(value);
+}
+
+function signingSecret(): string | null {
+  if (process.env.AUDIO_SIGNING_SECRET) return process.env.AUDIO_SIGNING_SECRET;
+  return process.env.NODE_ENV !== "production" ? DEV_SIGNING_SECRET : null;
+}
+
+function sign(uploadId: string, expires: number, secret: string): string {
+  return createHmac("sha256", secret).update(`${uploadId}.${expires}`).digest("hex");
+}
+
+export function verifyPlaybackSignature(uploadId: string, expires: number, signature: string): boolean {
+  const secret = signingSecret();
+  if (!secret || !Number.isFinite(expires) || expires * 1000 < Date.now()) {
+    return false;
+  }
+  const expected = Buffer.from(sign(uploadId, expires, secret), "hex");
+  const given = Buffer.from(signature, "hex");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// Null when the recording can't be played back right now; callers show the
+// entry without audio.
+export async function getPlaybackUrl(upload: AudioUpload): Promise<string | null> {
+  const store = getUploadStore();
+  if (!store) return null;
+
+  try {
+    if (store.signedUrl) {
+      return await store.signedUrl(upload.storagePath, PLAYBACK_URL_TTL_SECONDS);
+    }
+    const secret = signingSecret();
+    if (!secret) return null;
+    const expires = Math.floor(Date.now() / 1000) + PLAYBACK_URL_TTL_SECONDS;
+    const params = new URLSearchParams({ id: upload.id, expires: String(expires), sig: sign(upload.id, expires, secret) });
+    return `/api/audio/play?${params}`;
+  } catch (error) {
+    console.error("Error signing recording URL:", error);
+    return null;
+  }
+}
+
+// Adds `audioUrl` to rows that reference an upload. Rows without one keep
+// whatever audioUrl they already had.
+export async function withPlaybackUrls<T extends { uploadId: string | null }>(
+  userId: string,
+  rows: T[]
+): Promise<(T & { audioUrl: string | null })[]> {
+  const uploadIds = Array.from(new Set(rows.flatMap(row => (row.uploadId ? [row.uploadId] : []))));
+  const uploads = new Map((await storage.getAudioUploads(uploadIds, userId)).map(upload => [upload.id, upload]));
+  return Promise.all(
+    rows.map(async row => {
+      const existing = (row as { audioUrl?: string | null }).audioUrl ?? null;
+      if (!row.uploadId) return { ...row, audioUrl: existing };
+      const upload = uploads.get(row.uploadId);
+      return { ...row, audioUrl: upload ? await getPlaybackUrl(upload) : null };
+    })
+  );
+}
+
+// Removes the audio and its upload row. Entries that referenced it stay.
+export async function deleteRecording(upload: AudioUpload): Promise<void> {
+  const store = getUploadStore();
+  if (!store) {
+    throw new Error("Audio uploads are not configured");
+  }
+  await store.delete(upload.storagePath);
+  await storage.deleteAudioUpload(upload.id);
+}
+
+export interface PurgeResult {
+  retention: RecordingRetention;
+  cutoff: Date;
+  deleted: number;
+  failed: number;
+}
+
+const PURGE_BATCH_SIZE = 100;
+
+// Deletes recordings older than their owner's retention setting: the blob
+// first, then the row. A blob that fails to delete leaves its row for the
+// next run. Samples of a voice clone that is still being created are kept
+// (see getExpiredAudioUploads).
+export async function purgeExpiredRecordings(
+  options: { now?: Date; dryRun?: boolean } = {}
+): Promise<PurgeResult[]> {
+  if (!getUploadStore()) {
+    throw new Error("Audio uploads are not configured");
+  }
+  const now = options.now ?? new Date();
+  const results: PurgeResult[] = [];
+
+  for (const retention of RECORDING_RETENTION_OPTIONS) {
+    const days = RETENTION_DAYS[retention];
+    if (days === null) continue;
+
+    const cutoff = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+    const result: PurgeResult = { retention, cutoff, deleted: 0, failed: 0 };
+    const skipped = new Set<string>();
+
+    while (true) {
+      const batch = (await storage.getExpiredAudioUploads(retention, cutoff, PURGE_BATCH_SIZE + skipped.size)).filter(
+        upload => !skipped.has(upload.id)
+      );
+      if (batch.length === 0) break;
+
+      for (const upload of batch) {
+        if (options.dryRun) {
+          result.deleted++;
+          skipped.add(upload.id);
+          continue;
+        }
+        try {
+          await deleteRecording(upload);
+          result.deleted++;
+        } catch (error) {
+          result.failed++;
+          skipped.add(upload.id);
+          console.error(`Error purging recording ${upload.id}:`, error);
+        }
+      }
+    }
+
+    results.push(result);
+  }
+
+  return results;
+}
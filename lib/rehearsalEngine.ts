@@ -0,0 +1,397 @@
+import { storage } from "./storage.js";
+import { completePractice, type PracticeCompletionResult } from "./practiceCompletion.js";
+import { completeStructured, requireLlm, type LlmMessage } from "./services/llmProvider.js";
+import {
+  buildMemoryContext,
+  estimateTokens,
+  formatMemory,
+  pinFacts,
+  readMemory,
+  rollUpMemory,
+  selectRecentTurns,
+  REHEARSAL_MEMORY_BUDGET,
+  type ConversationMemory,
+} from "./conversationMemory.js";
+import type { CustomScenario, Rehearsal } from "../shared/schema.js";
+import type { Scenario, ScenarioPhase } from "../shared/scenarios.js";
+import type { PracticeCategory } from "../shared/categories.js";
+import {
+  rehearsalTurnSchema,
+  rehearsalDebriefSchema,
+  type RehearsalDebrief,
+  type RehearsalTone,
+} from "../shared/analysis.js";
+
+export const MIN_ESCALATION = 1;
+export const MAX_ESCALATION = 5;
+
+// A phase also ends after this many user turns, so a conversation that never
+// meets an objective still reaches a debrief.
+export const MAX_TURNS_PER_PHASE = 4;
+
+const ESCALATION_BY_TONE: Record<RehearsalTone, number> = {
+  aggressive: 1,
+  defensive: 1,
+  passive: 0,
+  assertive: 0,
+  calm: -1,
+  empathetic: -1,
+};
+
+const ESCALATION_GUIDE: Record<number, string> = {
+  1: "Guarded but willing to talk.",
+  2: "Defensive. Pushes back on details.",
+  3: "Frustrated. Deflects and interrupts.",
+  4: "Heated. Takes things personally.",
+  5: "On the edge of walking away.",
+};
+
+export class RehearsalError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "RehearsalError";
+    this.status = status;
+  }
+}
+
+export interface RehearsalMessage {
+  role: "user" | "assistant";
+  content: string;
+  phase: number;
+  tone?: RehearsalTone;
+}
+
+export interface RehearsalPhaseFeedback {
+  phase: number;
+  name: string;
+  objective: string;
+  objectiveMet: boolean;
+  score: number;
+  note: string;
+  turns: number;
+}
+
+// Stored in rehearsals.feedback. The debrief fields are filled in once the
+// last phase ends.
+export interface RehearsalFeedback extends Partial<RehearsalDebrief> {
+  phases: RehearsalPhaseFeedback[];
+}
+
+// A scenario as rehearsed. `practiceCategory` is what the finished rehearsal
+// is scored, rated and rubric-matched under, the same ids analyze sessions use.
+export interface RehearsalScenario extends Scenario {
+  practiceCategory: string;
+}
+
+export interface RehearsalTurnResult {
+  rehearsal: Rehearsal;
+  reply: string;
+  tone: RehearsalTone;
+  phaseFeedback?: RehearsalPhaseFeedback;
+  completion?: PracticeCompletionResult;
+}
+
+const CUSTOM_DIFFICULTY: Record<string, Scenario["difficulty"]> = {
+  beginner: 2,
+  intermediate: 3,
+  advanced: 4,
+};
+
+// Built-in scenarios have their own category names.
+const PRACTICE_CATEGORY_BY_SCENARIO: Record<Scenario["category"], PracticeCategory> = {
+  workplace: "workplace",
+  relationship: "relationships",
+  "co-parenting": "family",
+  general: "social",
+};
+
+export function rehearsalScenario(scenario: Scenario): RehearsalScenario {
+  return { ...scenario, practiceCategory: PRACTICE_CATEGORY_BY_SCENARIO[scenario.category] ?? scenario.category };
+}
+
+// Custom scenarios are a single moment, so they rehearse as one phase. Their
+// category already uses the practice ids and is kept as it is.
+export function scenarioFromCustom(custom: CustomScenario): RehearsalScenario {
+  return {
+    id: custom.id,
+    title: custom.title,
+    description: custom.description,
+    category: custom.category === "workplace" ? "workplace" : custom.category === "relationships" ? "relationship" : "general",
+    difficulty: CUSTOM_DIFFICULTY[custom.difficulty || "beginner"] ?? 2,
+    requiredLevel: 1,
+    context: custom.context,
+    aiRole: `The person in this moment, who opens with: "${custom.prompt}"`,
+    phases: [
+      {
+        name: "Respond",
+        objective: "Respond to the moment with clarity and care",
+        tips: custom.tips || [],
+      },
+    ],
+    practiceCategory: custom.category,
+  };
+}
+
+// Custom scenarios are referenced from rehearsals.custom_scenario_id and stay
+// out of the shared scenarios table. Built-in ones are referenced from
+// rehearsals.scenario_id, so their row is created the first time anyone
+// rehearses them; the content bank stays the source of their text.
+export async function startRehearsal(
+  userId: string,
+  scenario: Scenario,
+  options: { custom?: boolean } = {}
+): Promise<Rehearsal> {
+  if (!options.custom) {
+    await storage.createScenarioIfMissing(scenario.id, {
+      title: scenario.title,
+      description: scenario.description,
+      category: scenario.category,
+      difficulty: scenario.difficulty,
+      requiredLevel: scenario.requiredLevel,
+      phases: scenario.phases,
+      isActive: true,
+    });
+  }
+
+  return storage.createRehearsal({
+    userId,
+    ...(options.custom ? { customScenarioId: scenario.id } : { scenarioId: scenario.id }),
+    messages: [],
+    currentPhase: 0,
+    escalationLevel: MIN_ESCALATION,
+  });
+}
+
+function clampEscalation(level: number): number {
+  return Math.max(MIN_ESCALATION, Math.min(MAX_ESCALATION, level));
+}
+
+const TRANSCRIPT_SPEAKERS = { user: "You", assistant: "Them" };
+
+function formatTranscript(messages: RehearsalMessage[]): string {
+  return messages.map(m => `${TRANSCRIPT_SPEAKERS[m.role]}: ${m.content}`).join("\n");
+}
+
+// The transcript for prompts that read the conversation as text: the memory
+// summary for older turns, then as many recent turns as fit in `tokens`.
+function budgetedTranscript(messages: RehearsalMessage[], memory: ConversationMemory, tokens: number): string {
+  const earlier = formatMemory(memory);
+  const recent = formatTranscript(selectRecentTurns(messages, memory, tokens - estimateTokens(earlier)));
+  return earlier ? `${earlier}\n\nMost recent turns:\n${recent}` : recent;
+}
+
+// What is left of the request budget once the fixed parts are counted.
+function transcriptTokens(...fixed: string[]): number {
+  return REHEARSAL_MEMORY_BUDGET.maxInputTokens - fixed.reduce((sum, text) => sum + estimateTokens(text), 0);
+}
+
+function evaluationMessages(
+  scenario: Scenario,
+  phase: ScenarioPhase,
+  history: RehearsalMessage[],
+  memory: ConversationMemory,
+  message: string
+): LlmMessage[] {
+  const system = `You are evaluating one turn of a communication rehearsal. Judge only the user's latest response, in light of the conversation so far. Never ask questions. Calm, precise, human.
+
+Scenario: ${scenario.title}. ${scenario.description}
+Current phase: ${phase.name}
+Phase objective: ${phase.objective}
+Difficulty: ${scenario.difficulty}/5. Higher difficulty expects more control before the objective counts as met.
+
+Fields to return:
+- tone: one of "calm" | "assertive" | "empathetic" | "passive" | "defensive" | "aggressive"
+- objectiveMet: true when the conversation in this phase now achieves the objective
+- score: 0-100 for how well the phase objective is being handled
+- note: 1-2 short observation sentences about this turn, no questions
+
+JSON only:
+{
+  "tone": "string",
+  "objectiveMet": boolean,
+  "score": number,
+  "note": "string"
+}`;
+  const transcript = budgetedTranscript(history, memory, transcriptTokens(system, message));
+
+  return [
+    { role: "system", content: system },
+    {
+      role: "user",
+      content: `Conversation so far:\n${transcript || "(none)"}\n\nUser's Response: ${message}`,
+    },
+  ];
+}
+
+function replyMessages(
+  scenario: Scenario,
+  phase: ScenarioPhase,
+  escalationLevel: number,
+  messages: RehearsalMessage[],
+  memory: ConversationMemory,
+  closing: boolean
+): LlmMessage[] {
+  return buildMemoryContext(
+    `You are playing ${scenario.aiRole}. Stay in character for the whole conversation. Never mention practice, coaching or feedback, and never step outside the scene.
+
+Scene:
+${scenario.context}
+
+The other person is working toward: ${phase.objective}. React to how they speak. Do not make it easy for them.
+Escalation: ${escalationLevel}/${MAX_ESCALATION}. ${ESCALATION_GUIDE[escalationLevel]}
+${closing ? "This is the last exchange. Let the conversation come to a natural close.\n" : ""}
+Reply with 1-3 short sentences, spoken aloud. No stage directions.`,
+    messages,
+    memory,
+    REHEARSAL_MEMORY_BUDGET,
+    { speaker: "the other person" }
+  );
+}
+
+function debriefMessages(
+  scenario: Scenario,
+  feedback: RehearsalFeedback,
+  messages: RehearsalMessage[],
+  memory: ConversationMemory
+): LlmMessage[] {
+  const phases = feedback.phases
+    .map(p => `- ${p.name} (${p.objectiveMet ? "objective met" : "objective not met"}, ${p.score}): ${p.note}`)
+    .join("\n");
+  const system = `You are a voice-first communication coach reviewing a finished rehearsal. Never ask questions. No theory or meta commentary. Calm, precise, human.
+
+Fields to return:
+- strengths: 2-3 short observation sentences
+- improvements: 2-3 short observation sentences (action-oriented, no questions)
+- overallTip: 1-2 sentences, spoken-friendly
+
+JSON only:
+{
+  "strengths": ["string"],
+  "improvements": ["string"],
+  "overallTip": "string"
+}`;
+  const transcript = budgetedTranscript(messages, memory, transcriptTokens(system, phases));
+
+  return [
+    { role: "system", content: system },
+    {
+      role: "user",
+      content: `Scenario: ${scenario.title}\nPhases:\n${phases}\n\nTranscript:\n${transcript}`,
+    },
+  ];
+}
+
+function mostFrequentTone(messages: RehearsalMessage[]): RehearsalTone | undefined {
+  const counts = new Map<RehearsalTone, number>();
+  for (const m of messages) {
+    if (m.tone) counts.set(m.tone, (counts.get(m.tone) || 0) + 1);
+  }
+  let best: RehearsalTone | undefined;
+  for (const [tone, count] of Array.from(counts)) {
+    if (!best || count > (counts.get(best) || 0)) best = tone;
+  }
+  return best;
+}
+
+export async function takeRehearsalTurn(
+  userId: string,
+  rehearsal: Rehearsal,
+  scenario: RehearsalScenario,
+  message: string
+): Promise<RehearsalTurnResult> {
+  const history = (rehearsal.messages as RehearsalMessage[] | null) || [];
+  const feedback: RehearsalFeedback = (rehearsal.feedback as RehearsalFeedback | null) || { phases: [] };
+  const lastPhase = scenario.phases.length - 1;
+  const phaseIndex = Math.min(rehearsal.currentPhase || 0, lastPhase);
+  const phase = scenario.phases[phaseIndex];
+  const memory = pinFacts(readMemory(rehearsal.memory), message);
+
+  const turn = await completeStructured(rehearsalTurnSchema, {
+    task: "rehearsal-evaluate",
+    messages: evaluationMessages(scenario, phase, history, memory, message),
+  });
+  const escalationLevel = clampEscalation((rehearsal.escalationLevel || MIN_ESCALATION) + ESCALATION_BY_TONE[turn.tone]);
+
+  const messages: RehearsalMessage[] = [...history, { role: "user", content: message, phase: phaseIndex, tone: turn.tone }];
+  const turnsInPhase = messages.filter(m => m.role === "user" && m.phase === phaseIndex).length;
+
+  let phaseFeedback: RehearsalPhaseFeedback | undefined;
+  let nextPhase = phaseIndex;
+  if (turn.objectiveMet || turnsInPhase >= MAX_TURNS_PER_PHASE) {
+    phaseFeedback = {
+      phase: phaseIndex,
+      name: phase.name,
+      objective: phase.objective,
+      objectiveMet: turn.objectiveMet,
+      score: turn.score,
+      note: turn.note,
+      turns: turnsInPhase,
+    };
+    feedback.phases = [...feedback.phases, phaseFeedback];
+    nextPhase = phaseIndex + 1;
+  }
+  const completed = nextPhase > lastPhase;
+  nextPhase = Math.min(nextPhase, lastPhase);
+
+  const reply = (
+    await requireLlm().complete({
+      task: "rehearsal-reply",
+      messages: replyMessages(scenario, scenario.phases[nextPhase], escalationLevel, messages, memory, completed),
+      maxTokens: 200,
+    })
+  ).trim();
+  messages.push({ role: "assistant", content: reply, phase: nextPhase });
+
+  if (!completed) {
+    const nextMemory = await rollUpMemory(messages, memory, REHEARSAL_MEMORY_BUDGET, { speakers: TRANSCRIPT_SPEAKERS });
+    const updated = await storage.saveRehearsalTurn(rehearsal.id, history.length, {
+      messages,
+      memory: nextMemory,
+      currentPhase: nextPhase,
+      escalationLevel,
+      feedback,
+    });
+    if (!updated) throw staleTurn();
+    return { rehearsal: updated, reply, tone: turn.tone, phaseFeedback };
+  }
+
+  const score = Math.round(feedback.phases.reduce((sum, p) => sum + p.score, 0) / feedback.phases.length);
+  const debrief = await completeStructured(rehearsalDebriefSchema, {
+    task: "rehearsal-debrief",
+    messages: debriefMessages(scenario, feedback, messages, memory),
+  });
+  const finalFeedback: RehearsalFeedback = { ...feedback, ...debrief };
+
+  // Only the turn that actually closes the rehearsal awards the practice.
+  const updated = await storage.saveRehearsalTurn(rehearsal.id, history.length, {
+    messages,
+    memory,
+    currentPhase: nextPhase,
+    escalationLevel,
+    feedback: finalFeedback,
+    completed: true,
+    score,
+    completedAt: new Date(),
+  });
+  if (!updated) throw staleTurn();
+
+  const userTurns = messages.filter(m => m.role === "user");
+  const completion = await completePractice({
+    userId,
+    mode: "rehearsal",
+    score,
+    prompt: `${scenario.title}: ${scenario.description}`,
+    responseText: userTurns.map(m => m.content).join("\n"),
+    tone: mostFrequentTone(userTurns),
+    category: scenario.practiceCategory,
+    rehearsalId: rehearsal.id,
+  });
+
+  return { rehearsal: updated, reply, tone: turn.tone, phaseFeedback, completion };
+}
+
+function staleTurn(): RehearsalError {
+  return new RehearsalError(409, "This rehearsal moved on before your message was saved");
+}
@@ -0,0 +1,214 @@
+import { storage } from "./storage.js";
+import { getToneAverages, normalizeTone, WEAK_TONE_THRESHOLD } from "./toneStats.js";
+import { DEFAULT_DIFFICULTY, difficultyFit, getSkillLevels, type Difficulty } from "./skillRating.js";
+import { getRandomHandoff, type PracticeHandoff } from "../shared/promptBank.js";
+import { getPublishedHandoffs } from "./contentBank.js";
+import type { ReviewItem } from "../shared/schema.js";
+
+export type ReviewItemType = "prompt" | "category";
+
+export interface Sm2State {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+}
+
+export interface DuePractice {
+  handoff: PracticeHandoff;
+  // due: scheduled review has come round. new: never practiced.
+  // upcoming: nothing is due, so this is the next one that will be.
+  reason: "due" | "new" | "upcoming";
+  dueAt: string | null;
+  priority: number;
+  weakTone: string | null;
+  // Difficulty the user's rating in the handoff's category points to.
+  targetDifficulty: Difficulty;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+// Sessions looked at when working out which tones are weak.
+const TONE_HISTORY_LIMIT = 200;
+
+// A category untouched this long gets full weight for introducing new prompts.
+const CATEGORY_STALE_DAYS = 14;
+
+// Maps a 0-100 practice score to SM-2's 0-5 recall quality. Below 3 counts as
+// a lapse and restarts the interval.
+export function scoreToQuality(score: number): number {
+  if (score >= 90) return 5;
+  if (score >= 80) return 4;
+  if (score >= 70) return 3;
+  if (score >= 55) return 2;
+  if (score >= 40) return 1;
+  return 0;
+}
+
+export function nextSm2State(state: Sm2State, quality: number): Sm2State {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (quality < 3) {
+    return { easeFactor, intervalDays: 1, repetitions: 0 };
+  }
+
+  const repetitions = state.repetitions + 1;
+  const intervalDays =
+    repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(state.intervalDays * easeFactor);
+  return { easeFactor, intervalDays, repetitions };
+}
+
+function itemKey(type: ReviewItemType, key: string): string {
+  return `${type}:${key}`;
+}
+
+async function findHandoff(handoffId: string | null | undefined, prompt: string): Promise<PracticeHandoff | undefined> {
+  const handoffs = await getPublishedHandoffs();
+  return (handoffId ? handoffs.find(h => h.id === handoffId) : undefined) ?? handoffs.find(h => h.line === prompt);
+}
+
+// Reschedules the prompt and its category after a practice. Prompts outside
+// the handoff bank (custom scenarios, free text) are not scheduled.
+export async function recordPracticeReview(input: {
+  userId: string;
+  prompt: string;
+  handoffId?: string | null;
+  score: number;
+  tone?: string | null;
+}): Promise<void> {
+  const handoff = await findHandoff(input.handoffId, input.prompt);
+  if (!handoff) return;
+
+  const existing = new Map(
+    (await storage.getReviewItems(input.userId)).map(item => [itemKey(item.itemType as ReviewItemType, item.itemKey), item])
+  );
+  const quality = scoreToQuality(input.score);
+  const now = new Date();
+
+  const targets: Array<[ReviewItemType, string]> = [
+    ["prompt", handoff.id],
+    ["category", handoff.category],
+  ];
+
+  for (const [type, key] of targets) {
+    const item = existing.get(itemKey(type, key));
+    const next = nextSm2State(
+      {
+        easeFactor: item?.easeFactor ?? DEFAULT_EASE_FACTOR,
+        intervalDays: item?.intervalDays ?? 0,
+        repetitions: item?.repetitions ?? 0,
+      },
+      quality
+    );
+
+    await storage.upsertReviewItem({
+      userId: input.userId,
+      itemType: type,
+      itemKey: key,
+      category: handoff.category,
+      ...next,
+      lastScore: input.score,
+      lastTone: input.tone ? normalizeTone(input.tone) ?? input.tone.toLowerCase() : null,
+      lastReviewedAt: now,
+      dueAt: new Date(now.getTime() + next.intervalDays * DAY_MS),
+    });
+  }
+}
+
+// Ranks handoffs for a user. Due prompts come first, boosted when they were
+// last answered in a weak tone or sit in a category with a low ease factor.
+// New prompts are introduced from categories that have gone longest without
+// practice. Both are weighted towards the difficulty the user's skill rating
+// points to. When nothing is due or new, the soonest upcoming prompt is used.
+export async function rankDuePractice(
+  userId: string,
+  options: { category?: string; limit?: number; now?: Date } = {}
+): Promise<DuePractice[]> {
+  const now = options.now ?? new Date();
+  const limit = options.limit ?? 1;
+
+  const [items, sessions, skillLevels, handoffs] = await Promise.all([
+    storage.getReviewItems(userId),
+    storage.getPracticeSessions(userId, TONE_HISTORY_LIMIT),
+    getSkillLevels(userId),
+    getPublishedHandoffs(),
+  ]);
+  const byKey = new Map(items.map(item => [itemKey(item.itemType as ReviewItemType, item.itemKey), item]));
+  const toneAverages = getToneAverages(sessions);
+  const targets = new Map(skillLevels.map(level => [level.category, level.difficulty]));
+  const targetDifficulty = (category: string): Difficulty => targets.get(category) ?? DEFAULT_DIFFICULTY;
+
+  const toneWeakness = (tone: string | null): number => {
+    const average = tone ? toneAverages.get(tone)?.average : undefined;
+    return average === undefined ? 0 : Math.max(0, (WEAK_TONE_THRESHOLD - average) / WEAK_TONE_THRESHOLD);
+  };
+
+  const categoryWeight = (item: ReviewItem | undefined): number =>
+    item ? 1 + Math.max(0, DEFAULT_EASE_FACTOR - (item.easeFactor ?? DEFAULT_EASE_FACTOR)) : 1;
+
+  const candidates = handoffs.filter(h => !options.category || h.category === options.category);
+  if (candidates.length === 0) {
+    const fallback = getRandomHandoff(options.category || "general");
+    return [{
+      handoff: fallback,
+      reason: "new",
+      dueAt: null,
+      priority: 0,
+      weakTone: null,
+      targetDifficulty: targetDifficulty(fallback.category),
+    }];
+  }
+
+  const ready: DuePractice[] = [];
+  const upcoming: DuePractice[] = [];
+
+  for (const handoff of candidates) {
+    const item = byKey.get(itemKey("prompt", handoff.id));
+    const categoryItem = byKey.get(itemKey("category", handoff.category));
+    const target = targetDifficulty(handoff.category);
+    const fit = difficultyFit(handoff.difficulty, target);
+
+    if (!item) {
+      const lastCategoryReview = categoryItem?.lastReviewedAt ? new Date(categoryItem.lastReviewedAt).getTime() : null;
+      const staleDays = lastCategoryReview === null
+        ? CATEGORY_STALE_DAYS
+        : Math.min(CATEGORY_STALE_DAYS, (now.getTime() - lastCategoryReview) / DAY_MS);
+      // The jitter keeps equally ranked new prompts from always coming out in bank order.
+      const priority =
+        (0.5 + (0.5 * staleDays) / CATEGORY_STALE_DAYS) * categoryWeight(categoryItem) * fit + Math.random() * 0.01;
+      ready.push({ handoff, reason: "new", dueAt: null, priority, weakTone: null, targetDifficulty: target });
+      continue;
+    }
+
+    const dueAt = item.dueAt ? new Date(item.dueAt) : now;
+    const overdueDays = (now.getTime() - dueAt.getTime()) / DAY_MS;
+    const weakness = toneWeakness(item.lastTone);
+    const weakTone = weakness > 0 ? item.lastTone : null;
+
+    if (overdueDays >= 0) {
+      const priority =
+        (1 + overdueDays / Math.max(1, item.intervalDays ?? 1)) *
+        (1 + 2 * weakness) *
+        categoryWeight(categoryItem) *
+        fit;
+      ready.push({ handoff, reason: "due", dueAt: dueAt.toISOString(), priority, weakTone, targetDifficulty: target });
+    } else {
+      upcoming.push({
+        handoff,
+        reason: "upcoming",
+        dueAt: dueAt.toISOString(),
+        priority: overdueDays,
+        weakTone,
+        targetDifficulty: target,
+      });
+    }
+  }
+
+  ready.sort((a, b) => b.priority - a.priority);
+  upcoming.sort((a, b) => b.priority - a.priority);
+  return [...ready, ...upcoming].slice(0, limit);
+}
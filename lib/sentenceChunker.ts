@@ -0,0 +1,68 @@
+// Splits streamed text into sentences as they complete, so each one can be
+// spoken while the rest of the reply is still being generated.
+//
+// A sentence ends at . ! or ? followed by whitespace, or at a line break.
+// Very short sentences ("Hi.", "I see.") are held and joined to the next one
+// so speech isn't cut into clipped fragments; common abbreviations don't end
+// a sentence.
+
+export const MIN_SPOKEN_CHUNK_CHARS = 24;
+
+const ABBREVIATIONS = ["mr", "mrs", "ms", "dr", "prof", "sr", "jr", "st", "vs", "etc", "e.g", "i.e"];
+
+export interface SentenceChunker {
+  // Adds streamed text and returns any sentences it completed.
+  push(text: string): string[];
+  // The remaining text once the stream ends, or null when there is none.
+  flush(): string | null;
+}
+
+function endsWithAbbreviation(text: string): boolean {
+  const lastWord = text.match(/(\S+)[.]$/)?.[1]?.toLowerCase();
+  return !!lastWord && ABBREVIATIONS.includes(lastWord);
+}
+
+export function createSentenceChunker(minChars = MIN_SPOKEN_CHUNK_CHARS): SentenceChunker {
+  let buffer = "";
+  let held = "";
+
+  const take = (sentence: string): string | null => {
+    const joined = held ? `${held} ${sentence}` : sentence;
+    if (joined.length < minChars) {
+      held = joined;
+      return null;
+    }
+    held = "";
+    return joined;
+  };
+
+  return {
+    push(text) {
+      buffer += text;
+      const sentences: string[] = [];
+      const boundary = /[.!?]+["')\]]*\s+|\n+/g;
+      let start = 0;
+      let match: RegExpExecArray | null;
+
+      while ((match = boundary.exec(buffer)) !== null) {
+        const end = match.index + match[0].length;
+        const sentence = buffer.slice(start, end).trim();
+        if (endsWithAbbreviation(sentence)) continue;
+        start = end;
+        if (!sentence) continue;
+        const ready = take(sentence);
+        if (ready) sentences.push(ready);
+      }
+
+      buffer = buffer.slice(start);
+      return sentences;
+    },
+
+    flush() {
+      const rest = [held, buffer.trim()].filter(Boolean).join(" ");
+      held = "";
+      buffer = "";
+      return rest || null;
+    },
+  };
+}
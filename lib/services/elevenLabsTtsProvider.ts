@@ -0,0 +1,48 @@
+import type { TtsProvider } from "./ttsProvider.js";
+import { getTtsPacing, splitSpokenText } from "./ttsPacing.js";
+import {
+  DEFAULT_VOICE_ID,
+  ELEVENLABS_MODEL_ID,
+  isElevenLabsAvailable,
+  renderElevenLabsSpeech,
+} from "../elevenLabsClient.js";
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Pacing as SSML: a prosody rate, breaks between sentences and paragraphs,
+// and a trailing break after scenario lines.
+export const elevenLabsTtsProvider: TtsProvider = {
+  name: "elevenlabs",
+  model: ELEVENLABS_MODEL_ID,
+  format: { mimeType: "audio/mpeg", extension: "mp3" },
+
+  isAvailable() {
+    return isElevenLabsAvailable();
+  },
+
+  // App voice ids are ElevenLabs ids (defaults and clones).
+  resolveVoice(voiceId) {
+    return voiceId || DEFAULT_VOICE_ID;
+  },
+
+  async synthesize(text, voice, options) {
+    const pacing = getTtsPacing(options);
+    const sentenceBreak = ` <break time="${pacing.sentencePauseMs}ms"/> `;
+    const paragraphBreak = `<break time="${pacing.paragraphPauseMs}ms"/>`;
+    const trailingPause = pacing.trailingPauseMs > 0 ? ` <break time="${pacing.trailingPauseMs}ms"/>` : "";
+
+    const body = splitSpokenText(text)
+      .map(sentences => sentences.map(escapeXml).join(sentenceBreak))
+      .join(paragraphBreak);
+    const ssml = `<speak><prosody rate="${Math.round(pacing.rate * 100)}%" pitch="-2%">${body}${trailingPause}</prosody></speak>`;
+
+    return renderElevenLabsSpeech(ssml, voice);
+  },
+};
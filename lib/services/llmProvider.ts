@@ -0,0 +1,155 @@
+import type { ZodType, ZodTypeDef } from "zod";
+import { openaiProvider } from "./openaiProvider.js";
+import { localLlmProvider } from "./localLlmProvider.js";
+import { OpenAIUnavailableError } from "./openaiClient.js";
+
+export type LlmTask =
+  | "analysis-quick"
+  | "analysis-full"
+  | "feedback"
+  | "best-moment"
+  | "chat"
+  | "greeting"
+  | "thread-title"
+  | "memory-summarize"
+  | "rehearsal-evaluate"
+  | "rehearsal-reply"
+  | "rehearsal-debrief"
+  | "scenario-generate";
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmCompletionRequest {
+  task: LlmTask;
+  messages: LlmMessage[];
+  responseFormat?: "text" | "json";
+  maxTokens?: number;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  isAvailable(): boolean;
+  complete(request: LlmCompletionRequest): Promise<string>;
+  // Yields the reply in pieces as the model produces it.
+  stream?(request: LlmCompletionRequest): AsyncIterable<string>;
+}
+
+export type LlmProviderName = "openai" | "local";
+
+const providers: Record<LlmProviderName, LlmProvider> = {
+  openai: openaiProvider,
+  local: localLlmProvider,
+};
+
+export function getLlmProviderName(): LlmProviderName {
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+  return configured === "local" ? "local" : "openai";
+}
+
+export function getLlmProvider(): LlmProvider {
+  return providers[getLlmProviderName()];
+}
+
+export function isLlmAvailable(): boolean {
+  return getLlmProvider().isAvailable();
+}
+
+export function requireLlm(): LlmProvider {
+  const provider = getLlmProvider();
+  if (!provider.isAvailable()) {
+    throw new OpenAIUnavailableError();
+  }
+  return provider;
+}
+
+// Streams a text completion. Providers that can't stream yield the whole
+// reply as one piece.
+export async function* streamCompletion(request: LlmCompletionRequest): AsyncGenerator<string> {
+  const provider = requireLlm();
+  if (provider.stream) {
+    yield* provider.stream(request);
+    return;
+  }
+  yield await provider.complete(request);
+}
+
+export class AiResponseValidationError extends Error {
+  task: LlmTask;
+  issues: string[];
+
+  constructor(task: LlmTask, issues: string[]) {
+    super(`AI response for ${task} failed validation: ${issues.join("; ")}`);
+    this.name = "AiResponseValidationError";
+    this.task = task;
+    this.issues = issues;
+  }
+}
+
+type ValidationOutcome<T> = { ok: true; value: T } | { ok: false; issues: string[] };
+
+function validate<T>(schema: ZodType<T, ZodTypeDef, unknown>, content: string): ValidationOutcome<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return { ok: false, issues: ["response is not valid JSON"] };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (result.success) {
+    return { ok: true, value: result.data };
+  }
+  return {
+    ok: false,
+    issues: result.error.issues.map(issue =>
+      issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+    ),
+  };
+}
+
+// Requests JSON from the provider and validates it against `schema`. An
+// invalid reply gets one repair pass with the validation issues attached;
+// a second failure throws AiResponseValidationError.
+export async function completeStructured<T>(
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  request: Omit<LlmCompletionRequest, "responseFormat">
+): Promise<T> {
+  const provider = requireLlm();
+  const first = await provider.complete({ ...request, responseFormat: "json" });
+  const firstOutcome = validate(schema, first);
+  if (firstOutcome.ok) {
+    return firstOutcome.value;
+  }
+
+  console.warn(`LLM: ${request.task} response failed validation, requesting repair:`, firstOutcome.issues);
+
+  const repaired = await provider.complete({
+    ...request,
+    responseFormat: "json",
+    messages: [
+      ...request.messages,
+      { role: "assistant", content: first },
+      {
+        role: "user",
+        content: `Your previous reply did not match the required JSON structure.\nProblems:\n- ${firstOutcome.issues.join("\n- ")}\nReturn the corrected JSON object only, with every required field.`,
+      },
+    ],
+  });
+  const repairedOutcome = validate(schema, repaired);
+  if (repairedOutcome.ok) {
+    return repairedOutcome.value;
+  }
+
+  throw new AiResponseValidationError(request.task, repairedOutcome.issues);
+}
+
+export function handleAiResponseError(res: any, error: AiResponseValidationError) {
+  console.error(error.message);
+  return res.status(502).json({
+    message: "The analysis came back incomplete. Please try again.",
+    code: "AI_INVALID_RESPONSE",
+  });
+}
@@ -0,0 +1,385 @@
+import type { LlmCompletionRequest, LlmMessage, LlmProvider } from "./llmProvider.js";
+
+// Offline stand-in for the hosted model. Output depends only on the request
+// content, so the same response always produces the same analysis.
+
+interface ResponseTraits {
+  text: string;
+  wordCount: number;
+  ownsFeelings: boolean;
+  acknowledges: boolean;
+  statesNeed: boolean;
+  hedges: number;
+  absolutes: number;
+  hostile: boolean;
+  questions: number;
+  exclamations: number;
+}
+
+const HEDGES = ["maybe", "i guess", "sorry", "kind of", "sort of", "i think", "just"];
+const ABSOLUTES = ["always", "never", "every time", "nobody", "everyone"];
+const HOSTILE = ["stupid", "ridiculous", "whatever", "shut up", "idiot", "hate"];
+const ACKNOWLEDGEMENTS = ["i hear", "i understand", "sounds like", "makes sense", "that must", "i see"];
+const NEEDS = ["i need", "i want", "i would like", "i'd like", "i'm not able", "i can't", "i won't"];
+
+function countMatches(text: string, phrases: string[]): number {
+  return phrases.reduce((total, phrase) => {
+    const regex = new RegExp(`\\b${phrase.replace(/'/g, "['’]")}\\b`, "g");
+    return total + (text.match(regex)?.length ?? 0);
+  }, 0);
+}
+
+function lastUserContent(messages: LlmMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === "user") return messages[i].content;
+  }
+  return "";
+}
+
+function extractResponse(content: string): string {
+  const match = content.match(/Response(?:\s*\([^)]*\))?[^:\n]*:\s*([\s\S]*)$/);
+  const raw = (match ? match[1] : content).split(/\n(?:Tone|Category|Words Per Minute):/)[0];
+  return raw.trim().replace(/^"|"$/g, "");
+}
+
+function extractField(content: string, label: string): string | undefined {
+  const match = content.match(new RegExp(`${label}:\\s*(.+)`));
+  return match?.[1]?.trim();
+}
+
+function readTraits(text: string): ResponseTraits {
+  const lower = text.toLowerCase();
+  return {
+    text,
+    wordCount: text.split(/\s+/).filter(Boolean).length,
+    ownsFeelings: /\bi (feel|felt|am feeling)\b/.test(lower),
+    acknowledges: countMatches(lower, ACKNOWLEDGEMENTS) > 0,
+    statesNeed: countMatches(lower, NEEDS) > 0,
+    hedges: countMatches(lower, HEDGES),
+    absolutes: countMatches(lower, ABSOLUTES),
+    hostile: countMatches(lower, HOSTILE) > 0,
+    questions: (text.match(/\?/g) || []).length,
+    exclamations: (text.match(/!/g) || []).length,
+  };
+}
+
+function scoreTraits(traits: ResponseTraits): number {
+  let score = 55;
+  if (traits.wordCount >= 10 && traits.wordCount <= 80) score += 12;
+  else if (traits.wordCount >= 5) score += 5;
+  if (traits.ownsFeelings) score += 8;
+  if (traits.acknowledges) score += 8;
+  if (traits.statesNeed) score += 7;
+  score -= Math.min(traits.hedges, 3) * 3;
+  score -= Math.min(traits.absolutes, 2) * 5;
+  if (traits.hostile) score -= 20;
+  if (traits.questions > 1) score -= 4;
+  return Math.max(20, Math.min(95, score));
+}
+
+function toneFor(traits: ResponseTraits): { tone: string; secondaryTone: string | null } {
+  if (traits.hostile) return { tone: "aggressive", secondaryTone: "defensive" };
+  if (traits.absolutes > 0) return { tone: "defensive", secondaryTone: traits.statesNeed ? "assertive" : null };
+  if (traits.hedges >= 2) return { tone: "passive", secondaryTone: "anxious" };
+  if (traits.statesNeed) return { tone: "assertive", secondaryTone: traits.acknowledges ? "empathetic" : "calm" };
+  if (traits.acknowledges || traits.ownsFeelings) return { tone: "empathetic", secondaryTone: "calm" };
+  return { tone: "calm", secondaryTone: null };
+}
+
+function energyFor(traits: ResponseTraits): "low" | "medium" | "high" {
+  if (traits.exclamations > 0 || traits.hostile) return "high";
+  if (traits.wordCount < 8) return "low";
+  return "medium";
+}
+
+function paceFor(traits: ResponseTraits): "slow" | "moderate" | "fast" {
+  if (traits.wordCount > 80) return "fast";
+  if (traits.wordCount < 6) return "slow";
+  return "moderate";
+}
+
+function firstSentence(text: string): string {
+  const sentence = text.split(/(?<=[.!?])\s+/)[0] || text;
+  return sentence.length > 150 ? `${sentence.slice(0, 147)}...` : sentence;
+}
+
+function strengthsFor(traits: ResponseTraits): string[] {
+  const strengths: string[] = [];
+  if (traits.acknowledges) strengths.push("The other person's experience was named before your own point.");
+  if (traits.ownsFeelings) strengths.push("Your feelings came through as your own, not as blame.");
+  if (traits.statesNeed) strengths.push("The need was stated plainly.");
+  if (!traits.hostile && traits.absolutes === 0) strengths.push("The wording stayed steady without sharp edges.");
+  if (strengths.length < 2) strengths.push("You stayed in the moment and responded directly.");
+  return strengths.slice(0, 3);
+}
+
+function improvementsFor(traits: ResponseTraits): string[] {
+  const areas: string[] = [];
+  if (traits.hostile) areas.push("Sharp words pull attention away from what you need.");
+  if (traits.absolutes > 0) areas.push("Words like always and never invite the other person to argue the exception.");
+  if (traits.hedges >= 2) areas.push("Softeners stacked together blur the point you are making.");
+  if (!traits.statesNeed) areas.push("Naming one clear need would give the moment a direction.");
+  if (!traits.acknowledges) areas.push("A brief nod to their side would lower the temperature.");
+  if (areas.length < 2) areas.push("A short pause before the key sentence would give it more weight.");
+  if (areas.length < 2) areas.push("Ending on the request, not the explanation, keeps the focus where it belongs.");
+  return areas.slice(0, 3);
+}
+
+function exampleResponsesFor(traits: ResponseTraits): string[] {
+  return [
+    "I hear that this matters to you, and I want to get it right too.",
+    traits.statesNeed
+      ? "I need us to agree on a next step before we move on."
+      : "What I need right now is a little more clarity on the plan.",
+    "I'd like to pause here and come back to this with a clear head.",
+  ];
+}
+
+function coachingInsightFor(traits: ResponseTraits, tone: string): string {
+  const presence = traits.acknowledges
+    ? "There was real attention to the other person in this."
+    : `The response came across as ${tone}.`;
+  const performance = traits.statesNeed
+    ? "The point landed because it was stated directly."
+    : "The point was present but arrived without a clear ask.";
+  const cue = traits.hedges >= 2
+    ? "Fewer softeners would let it land with more weight."
+    : "A slower first sentence would give it even more room.";
+  return `${presence} ${performance} ${cue}`;
+}
+
+function quickAnalysis(content: string) {
+  const traits = readTraits(extractResponse(content));
+  const { tone } = toneFor(traits);
+  return {
+    tone,
+    score: scoreTraits(traits),
+    tip: coachingInsightFor(traits, tone),
+  };
+}
+
+function fullAnalysis(content: string) {
+  const traits = readTraits(extractResponse(content));
+  const { tone, secondaryTone } = toneFor(traits);
+  const score = scoreTraits(traits);
+  return {
+    tone,
+    secondaryTone,
+    score,
+    energy: energyFor(traits),
+    pace: paceFor(traits),
+    emotionalClarity: Math.max(20, Math.min(95, score + (traits.ownsFeelings ? 5 : -5))),
+    strengths: strengthsFor(traits),
+    areasToImprove: improvementsFor(traits),
+    coachingInsight: coachingInsightFor(traits, tone),
+    exampleResponses: exampleResponsesFor(traits),
+    whyItMatters: "How a hard moment opens shapes how much the other person can hear.",
+    bodyLanguageTip: "Keep the shoulders loose and let the last word settle before moving on.",
+  };
+}
+
+function feedback(content: string) {
+  const traits = readTraits(extractResponse(content));
+  const { tone } = toneFor(traits);
+  return {
+    overallRead: `The message reads as ${tone}. ${traits.statesNeed ? "The need is clear." : "The need is implied more than stated."}`,
+    whatsWorking: strengthsFor(traits),
+    whatCouldBeStronger: improvementsFor(traits).slice(0, 2),
+    optionalRewrite: traits.statesNeed && traits.acknowledges ? "" : exampleResponsesFor(traits)[1],
+  };
+}
+
+function bestMoment(content: string) {
+  const responseText = extractResponse(content);
+  const tone = extractField(content, "Tone") || "calm";
+  const category = extractField(content, "Category") || "general";
+  return {
+    title: `A steady ${tone} response`,
+    excerpt: firstSentence(responseText),
+    aiInsight: "The response stayed grounded and direct. It left room for the other person while keeping the point clear.",
+    tags: [tone, category],
+  };
+}
+
+function rehearsalEvaluation(content: string) {
+  const traits = readTraits(extractResponse(content));
+  const { tone } = toneFor(traits);
+  const score = scoreTraits(traits);
+  return {
+    tone,
+    objectiveMet: score >= 65,
+    score,
+    note: coachingInsightFor(traits, tone),
+  };
+}
+
+const REHEARSAL_LINES: Record<number, string[]> = {
+  1: ["Okay. I'm listening.", "Fine. Say what you came to say.", "Alright. Go on."],
+  2: ["I don't really see the problem here.", "That's not quite how I remember it.", "I think you're reading too much into this."],
+  3: ["Can we not do this right now?", "You're making this a bigger deal than it is.", "I already told you where I stand."],
+  4: ["Honestly, I don't appreciate the way you're putting this.", "So this is all on me, then.", "I'm not going to stand here and be lectured."],
+  5: ["I'm done with this conversation.", "Forget it. I'm not doing this.", "If that's how you see it, there's nothing left to say."],
+};
+
+function rehearsalReply(messages: LlmMessage[]): string {
+  const system = messages.find(m => m.role === "system")?.content || "";
+  if (system.includes("This is the last exchange")) {
+    return "Alright. I hear you. Let's leave it there for now.";
+  }
+  const level = Number(system.match(/Escalation: (\d)/)?.[1]) || 1;
+  const lines = REHEARSAL_LINES[level] || REHEARSAL_LINES[1];
+  const turn = messages.filter(m => m.role === "user").length;
+  return lines[turn % lines.length];
+}
+
+function rehearsalDebrief(content: string) {
+  const spoken = content
+    .split("\n")
+    .filter(line => line.startsWith("You: "))
+    .map(line => line.slice(5))
+    .join(" ");
+  const traits = readTraits(spoken);
+  const { tone } = toneFor(traits);
+  return {
+    strengths: strengthsFor(traits),
+    improvements: improvementsFor(traits),
+    overallTip: coachingInsightFor(traits, tone),
+  };
+}
+
+const SCENARIO_LINES: Record<string, string[]> = {
+  workplace: [
+    "The meeting room empties until it is just the two of you. They look up from their laptop.",
+    "Your message sits on their screen. They turn their chair toward you.",
+    "They close the door behind them and wait for you to start.",
+  ],
+  relationships: [
+    "You sit down across from them. They put their phone face down and wait.",
+    "The room goes quiet after dinner. They glance over at you.",
+    "They stop at the doorway, keys in hand, and turn back to you.",
+  ],
+  family: [
+    "Everyone has left the table except the two of you. They fold their napkin and wait.",
+    "The call connects. You hear them settle in on the other end.",
+    "They set down their cup and look across the kitchen at you.",
+  ],
+  social: [
+    "The group drifts off and it is just the two of you. They raise an eyebrow.",
+    "Your phone lights up with their reply. The typing dots appear again.",
+    "They catch your eye across the room and walk over.",
+  ],
+  "self-advocacy": [
+    "They slide the paperwork across the desk and wait for you.",
+    "The appointment is almost over. They glance at the clock, then at you.",
+    "They finish explaining and lean back, waiting.",
+  ],
+};
+
+function personalScenario(content: string) {
+  const situation = extractField(content, "Situation") || "An upcoming conversation";
+  const requestedCategory = extractField(content, "Category") || "";
+  const category = SCENARIO_LINES[requestedCategory] ? requestedCategory : "social";
+  const title = situation.split(/\s+/).slice(0, 6).join(" ").replace(/[.,;:!?]+$/, "");
+
+  return {
+    title,
+    description: firstSentence(situation),
+    category,
+    context: situation,
+    handoffLines: SCENARIO_LINES[category],
+    tips: [
+      "Open with the one sentence you most need them to hear.",
+      "Name what you noticed before what you want.",
+    ],
+    sampleResponse: "I want to talk about something that matters to me, and I'd like us to find a way forward together.",
+  };
+}
+
+function chatReply(messages: LlmMessage[]): string {
+  const latest = lastUserContent(messages).trim();
+  const turn = messages.filter(m => m.role === "user").length;
+  const echo = latest.length > 80 ? `${latest.slice(0, 77)}...` : latest;
+  const openers = [
+    "That sounds like a lot to hold.",
+    "Thank you for putting that into words.",
+    "That makes sense given what you described.",
+  ];
+  return `${openers[turn % openers.length]} You said: "${echo}". One small step is to name what you need from the other person in a single sentence.`;
+}
+
+function greeting(content: string): string {
+  const name = content.match(/greeting for ([^.]+)\./)?.[1]?.trim() || "friend";
+  return `Welcome back, ${name}. This is a good moment to practice.`;
+}
+
+// The first few words the user said, as a thread title.
+function threadTitle(content: string): string {
+  const firstLine = content.match(/^User:\s*(.+)$/m)?.[1] ?? content;
+  const words = firstLine.split(/\s+/).filter(Boolean);
+  return words.slice(0, 5).join(" ").replace(/[.!?,;:]+$/, "") || "New conversation";
+}
+
+// Keeps the opening clause of each user line from the transcript being
+// folded into the summary, and any "my name is" statements as facts.
+function memorySummary(content: string) {
+  const userLines = Array.from(content.matchAll(/^(?:User|You): (.+)$/gm), m => m[1]);
+  const clauses = userLines.map(line => line.split(/[.!?]/)[0].trim()).filter(Boolean);
+  const previous = content.match(/Summary so far:\n(.+)/)?.[1]?.trim();
+  const parts = [
+    previous && previous !== "(none)" ? previous : "",
+    clauses.length > 0 ? `The user talked about: ${clauses.slice(0, 4).join("; ")}.` : "",
+  ];
+  const summary = parts.filter(Boolean).join(" ");
+  const facts = userLines.flatMap(line => {
+    const name = line.match(/\bmy name is ([A-Z][a-z]+)/i)?.[1];
+    return name ? [`The user's name is ${name}.`] : [];
+  });
+  return { summary: summary || "Earlier turns were small talk.", facts };
+}
+
+export const localLlmProvider: LlmProvider = {
+  name: "local",
+
+  isAvailable() {
+    return true;
+  },
+
+  async complete(request: LlmCompletionRequest) {
+    const content = lastUserContent(request.messages);
+
+    switch (request.task) {
+      case "analysis-quick":
+        return JSON.stringify(quickAnalysis(content));
+      case "analysis-full":
+        return JSON.stringify(fullAnalysis(content));
+      case "feedback":
+        return JSON.stringify(feedback(content));
+      case "best-moment":
+        return JSON.stringify(bestMoment(content));
+      case "chat":
+        return chatReply(request.messages);
+      case "greeting":
+        return greeting(content);
+      case "thread-title":
+        return threadTitle(content);
+      case "memory-summarize":
+        return JSON.stringify(memorySummary(content));
+      case "rehearsal-evaluate":
+        return JSON.stringify(rehearsalEvaluation(content));
+      case "rehearsal-reply":
+        return rehearsalReply(request.messages);
+      case "rehearsal-debrief":
+        return JSON.stringify(rehearsalDebrief(content));
+      case "scenario-generate":
+        return JSON.stringify(personalScenario(content));
+    }
+  },
+
+  // Word by word, so streaming clients can be exercised offline.
+  async *stream(request: LlmCompletionRequest) {
+    const reply = await localLlmProvider.complete(request);
+    for (const piece of reply.match(/\S+\s*/g) ?? []) {
+      yield piece;
+    }
+  },
+};
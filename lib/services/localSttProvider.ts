@@ -0,0 +1,143 @@
+import { spawn } from "child_process";
+import { randomUUID } from "crypto";
+import { existsSync } from "fs";
+import { readFile, unlink, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { delimiter, isAbsolute, join } from "path";
+import type { SttProvider, SttTranscript } from "./sttProvider.js";
+import { decodeToPcm, encodeWav, PCM_SAMPLE_RATE } from "../audioDecoder.js";
+import type { TimelineSegment, TimelineWord } from "../../shared/timeline.js";
+
+// Offline transcription with whisper.cpp. WHISPER_MODEL points at a ggml
+// model file; WHISPER_CPP_BIN overrides the binary (default whisper-cli).
+// Recordings are decoded to 16 kHz WAV first, which is all whisper.cpp reads.
+
+const WHISPER_BIN = process.env.WHISPER_CPP_BIN || "whisper-cli";
+const WHISPER_MODEL = process.env.WHISPER_MODEL;
+const TRANSCRIBE_TIMEOUT_MS = 60000;
+
+interface WhisperToken {
+  text: string;
+  offsets: { from: number; to: number }; // milliseconds
+  p?: number;
+}
+
+interface WhisperOutput {
+  result?: { language?: string };
+  transcription: {
+    text: string;
+    offsets: { from: number; to: number };
+    tokens?: WhisperToken[];
+  }[];
+}
+
+let binaryFound: boolean | undefined;
+
+function findBinary(bin: string): boolean {
+  if (isAbsolute(bin)) return existsSync(bin);
+  return (process.env.PATH || "").split(delimiter).some(dir => dir && existsSync(join(dir, bin)));
+}
+
+function runWhisper(args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const whisper = spawn(WHISPER_BIN, args);
+    let stderr = "";
+
+    const timer = setTimeout(() => {
+      whisper.kill("SIGKILL");
+      reject(new Error("whisper.cpp timed out"));
+    }, TRANSCRIBE_TIMEOUT_MS);
+
+    whisper.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    whisper.on("error", (error) => {
+      clearTimeout(timer);
+      reject(new Error(`whisper.cpp is not available: ${error.message}`));
+    });
+    whisper.on("close", (code) => {
+      clearTimeout(timer);
+      if (code !== 0) {
+        return reject(new Error(stderr.trim().split("\n").pop() || `whisper.cpp exited with code ${code}`));
+      }
+      resolve();
+    });
+  });
+}
+
+// Special tokens ([_BEG_], [_TT_150]) carry no text.
+function isSpoken(token: WhisperToken): boolean {
+  return token.text.trim().length > 0 && !token.text.trim().startsWith("[_");
+}
+
+// whisper.cpp emits sub-word tokens; a token starting with a space opens a
+// new word.
+function readWhisperOutput(output: WhisperOutput, duration: number): SttTranscript {
+  const words: TimelineWord[] = [];
+  const probabilities: number[] = [];
+
+  for (const segment of output.transcription) {
+    for (const token of (segment.tokens || []).filter(isSpoken)) {
+      if (typeof token.p === "number") probabilities.push(token.p);
+      const start = token.offsets.from / 1000;
+      const end = token.offsets.to / 1000;
+      const last = words[words.length - 1];
+      if (last && !token.text.startsWith(" ")) {
+        last.text += token.text;
+        last.end = end;
+      } else {
+        words.push({ text: token.text.trim(), start, end });
+      }
+    }
+  }
+
+  const segments: TimelineSegment[] = output.transcription.map(s => ({
+    text: s.text.trim(),
+    start: s.offsets.from / 1000,
+    end: s.offsets.to / 1000,
+  }));
+
+  const confidence =
+    probabilities.length > 0 ? probabilities.reduce((sum, p) => sum + p, 0) / probabilities.length : null;
+
+  return {
+    text: segments.map(s => s.text).join(" ").trim(),
+    words,
+    segments,
+    duration,
+    language: output.result?.language ?? null,
+    confidence: confidence === null ? null : Math.round(confidence * 100) / 100,
+  };
+}
+
+export const localSttProvider: SttProvider = {
+  name: "local",
+
+  isAvailable() {
+    if (!WHISPER_MODEL) return false;
+    if (binaryFound === undefined) binaryFound = findBinary(WHISPER_BIN);
+    return binaryFound;
+  },
+
+  async transcribe(audio, options) {
+    const samples = await decodeToPcm(audio.data);
+    const base = join(tmpdir(), `mirrorplay-stt-${randomUUID()}`);
+    await writeFile(`${base}.wav`, encodeWav(samples));
+
+    try {
+      await runWhisper([
+        "-m", WHISPER_MODEL || "",
+        "-f", `${base}.wav`,
+        "-l", options.language || "auto",
+        "-ojf",
+        "-of", base,
+        "-np",
+      ]);
+      const output = JSON.parse(await readFile(`${base}.json`, "utf8")) as WhisperOutput;
+      return readWhisperOutput(output, samples.length / PCM_SAMPLE_RATE);
+    } finally {
+      await unlink(`${base}.wav`).catch(() => {});
+      await unlink(`${base}.json`).catch(() => {});
+    }
+  },
+};
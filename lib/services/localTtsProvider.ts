@@ -0,0 +1,129 @@
+import { spawn } from "child_process";
+import { existsSync } from "fs";
+import { delimiter, isAbsolute, join } from "path";
+import type { TtsProvider } from "./ttsProvider.js";
+import { getTtsPacing, splitSpokenText, type TtsPacing } from "./ttsPacing.js";
+import { DEFAULT_VOICES } from "../elevenLabsClient.js";
+
+// Offline voice through a local engine run as a child process:
+// - LOCAL_TTS_ENGINE=espeak-ng (default) or piper
+// - LOCAL_TTS_BIN overrides the binary; piper also needs PIPER_MODEL (.onnx)
+// - LOCAL_TTS_VOICE overrides the espeak-ng voice
+// Both engines write WAV to stdout.
+
+type LocalEngine = "espeak-ng" | "piper";
+
+const ENGINE: LocalEngine = process.env.LOCAL_TTS_ENGINE === "piper" ? "piper" : "espeak-ng";
+const ENGINE_BIN = process.env.LOCAL_TTS_BIN || ENGINE;
+const PIPER_MODEL = process.env.PIPER_MODEL;
+const SYNTHESIS_TIMEOUT_MS = 20000;
+
+// espeak-ng speaks about 175 words per minute at its default speed.
+const ESPEAK_BASE_WPM = 175;
+
+let binaryFound: boolean | undefined;
+
+function findBinary(bin: string): boolean {
+  if (isAbsolute(bin)) return existsSync(bin);
+  return (process.env.PATH || "").split(delimiter).some(dir => dir && existsSync(join(dir, bin)));
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// Default voices are described as male or female; pick the matching variant.
+function espeakVoice(voiceId?: string | null): string {
+  if (process.env.LOCAL_TTS_VOICE) return process.env.LOCAL_TTS_VOICE;
+  const voice = DEFAULT_VOICES.find(v => v.id === voiceId);
+  return voice && /\bmale\b/i.test(voice.description) ? "en-us+m3" : "en-us+f3";
+}
+
+// espeak-ng reads SSML with -m, so pauses are explicit breaks.
+function espeakArgs(voice: string, pacing: TtsPacing): string[] {
+  return ["-m", "--stdout", "-v", voice, "-s", String(Math.round(ESPEAK_BASE_WPM * pacing.rate))];
+}
+
+function espeakInput(text: string, pacing: TtsPacing): string {
+  const body = splitSpokenText(text)
+    .map(sentences => sentences.map(escapeXml).join(` <break time="${pacing.sentencePauseMs}ms"/> `))
+    .join(` <break time="${pacing.paragraphPauseMs}ms"/> `);
+  const trailing = pacing.trailingPauseMs > 0 ? ` <break time="${pacing.trailingPauseMs}ms"/>` : "";
+  return `<speak>${body}${trailing}</speak>`;
+}
+
+// Piper has no markup; length_scale slows the voice and sentence_silence
+// sets the gap after each sentence. Paragraph pauses fall back to the
+// sentence pause.
+function piperArgs(pacing: TtsPacing): string[] {
+  return [
+    "--model", PIPER_MODEL || "",
+    "--length_scale", (1 / pacing.rate).toFixed(2),
+    "--sentence_silence", (pacing.sentencePauseMs / 1000).toFixed(2),
+    "--output_file", "/dev/stdout",
+  ];
+}
+
+function piperInput(text: string): string {
+  return splitSpokenText(text)
+    .map(sentences => sentences.join(" "))
+    .join("\n");
+}
+
+function runEngine(args: string[], input: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(ENGINE_BIN, args);
+    const chunks: Buffer[] = [];
+    let stderr = "";
+
+    const timer = setTimeout(() => {
+      child.kill("SIGKILL");
+      reject(new Error(`${ENGINE} timed out`));
+    }, SYNTHESIS_TIMEOUT_MS);
+
+    child.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(new Error(`${ENGINE} is not available: ${error.message}`));
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (code !== 0) {
+        return reject(new Error(stderr.trim() || `${ENGINE} exited with code ${code}`));
+      }
+      resolve(Buffer.concat(chunks));
+    });
+
+    child.stdin.on("error", () => {});
+    child.stdin.end(input);
+  });
+}
+
+export const localTtsProvider: TtsProvider = {
+  name: "local",
+  model: ENGINE === "piper" ? `piper:${PIPER_MODEL || "none"}` : "espeak-ng",
+  format: { mimeType: "audio/wav", extension: "wav" },
+
+  isAvailable() {
+    if (ENGINE === "piper" && !PIPER_MODEL) return false;
+    if (binaryFound === undefined) binaryFound = findBinary(ENGINE_BIN);
+    return binaryFound;
+  },
+
+  // Piper's voice is its model; espeak-ng gets a variant per default voice.
+  resolveVoice(voiceId) {
+    return ENGINE === "piper" ? PIPER_MODEL || "" : espeakVoice(voiceId);
+  },
+
+  async synthesize(text, voice, options) {
+    const pacing = getTtsPacing(options);
+    const audio =
+      ENGINE === "piper"
+        ? await runEngine(piperArgs(pacing), piperInput(text))
+        : await runEngine(espeakArgs(voice, pacing), espeakInput(text, pacing));
+    return audio.length > 0 ? audio : null;
+  },
+};
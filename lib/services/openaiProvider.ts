@@ -0,0 +1,37 @@
+import { isOpenAIAvailable, requireOpenAI } from "./openaiClient.js";
+import type { LlmCompletionRequest, LlmProvider } from "./llmProvider.js";
+
+export const OPENAI_CHAT_MODEL = process.env.OPENAI_CHAT_MODEL || "gpt-4o";
+
+export const openaiProvider: LlmProvider = {
+  name: "openai",
+
+  isAvailable() {
+    return isOpenAIAvailable();
+  },
+
+  async complete(request: LlmCompletionRequest) {
+    const completion = await requireOpenAI().chat.completions.create({
+      model: OPENAI_CHAT_MODEL,
+      messages: request.messages,
+      ...(request.responseFormat === "json" ? { response_format: { type: "json_object" as const } } : {}),
+      ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+    });
+
+    return completion.choices[0]?.message.content || "";
+  },
+
+  async *stream(request: LlmCompletionRequest) {
+    const stream = await requireOpenAI().chat.completions.create({
+      model: OPENAI_CHAT_MODEL,
+      messages: request.messages,
+      stream: true,
+      ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+    });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+    }
+  },
+};
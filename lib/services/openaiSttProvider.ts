@@ -0,0 +1,50 @@
+import { isOpenAIAvailable, requireOpenAI } from "./openaiClient.js";
+import type { SttProvider } from "./sttProvider.js";
+import { AUDIO_FORMATS } from "../audioFormat.js";
+import { decodeToPcm, encodeWav } from "../audioDecoder.js";
+
+// Containers the transcription endpoint accepts; anything else (raw AAC from
+// older Safari builds) is converted to WAV first.
+const SUPPORTED_EXTENSIONS = ["webm", "m4a", "ogg", "wav", "mp3", "flac"];
+
+export const openaiSttProvider: SttProvider = {
+  name: "openai",
+
+  isAvailable() {
+    return isOpenAIAvailable();
+  },
+
+  async transcribe(audio, options) {
+    let { data, format } = audio;
+    if (!SUPPORTED_EXTENSIONS.includes(format.extension)) {
+      data = encodeWav(await decodeToPcm(data));
+      format = AUDIO_FORMATS.wav;
+    }
+
+    const transcription = await requireOpenAI().audio.transcriptions.create({
+      file: new File([data], `audio.${format.extension}`, { type: format.mimeType }),
+      model: "whisper-1",
+      response_format: "verbose_json",
+      timestamp_granularities: ["word", "segment"],
+      ...(options.language ? { language: options.language } : {}),
+    });
+
+    const segments = transcription.segments || [];
+
+    // Duration-weighted mean of each segment's average token probability.
+    const spoken = segments.reduce((sum, s) => sum + Math.max(s.end - s.start, 0), 0);
+    const confidence =
+      spoken > 0
+        ? segments.reduce((sum, s) => sum + Math.exp(s.avg_logprob) * Math.max(s.end - s.start, 0), 0) / spoken
+        : null;
+
+    return {
+      text: transcription.text,
+      words: (transcription.words || []).map(w => ({ text: w.word.trim(), start: w.start, end: w.end })),
+      segments: segments.map(s => ({ text: s.text.trim(), start: s.start, end: s.end })),
+      duration: transcription.duration,
+      language: transcription.language,
+      confidence: confidence === null ? null : Math.round(confidence * 100) / 100,
+    };
+  },
+};
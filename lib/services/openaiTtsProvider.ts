@@ -0,0 +1,73 @@
+import type { TtsProvider } from "./ttsProvider.js";
+import { getTtsPacing, splitSpokenText } from "./ttsPacing.js";
+import { getOpenAI } from "./openaiClient.js";
+import { DEFAULT_VOICES } from "../elevenLabsClient.js";
+
+export const OPENAI_TTS_MODEL = process.env.OPENAI_TTS_MODEL || "gpt-4o-mini-tts";
+
+const OPENAI_VOICES = ["alloy", "ash", "ballad", "coral", "echo", "fable", "nova", "onyx", "sage", "shimmer", "verse"];
+const DEFAULT_OPENAI_VOICE = process.env.OPENAI_TTS_VOICE || "sage";
+
+// Closest OpenAI voice for each default ElevenLabs voice, so a fallback keeps
+// roughly the voice the user picked.
+const ELEVENLABS_VOICE_MAP: Record<string, string> = {
+  [DEFAULT_VOICES[0].id]: "sage", // Rachel, calm female
+  [DEFAULT_VOICES[1].id]: "ash", // Drew, warm male
+  [DEFAULT_VOICES[2].id]: "echo", // Clyde, friendly male
+  [DEFAULT_VOICES[3].id]: "coral", // Domi, confident female
+  [DEFAULT_VOICES[4].id]: "shimmer", // Bella, soft female
+  [DEFAULT_VOICES[5].id]: "ballad", // Antoni, caring male
+};
+
+// The tts-1 models ignore instructions; the rest take the delivery brief.
+function supportsInstructions(model: string): boolean {
+  return !model.startsWith("tts-1");
+}
+
+// OpenAI TTS has no SSML. Pacing becomes the speed parameter, one sentence
+// per line (the model pauses at line breaks), and a delivery brief with the
+// pause lengths for models that accept instructions.
+export const openaiTtsProvider: TtsProvider = {
+  name: "openai",
+  model: OPENAI_TTS_MODEL,
+  format: { mimeType: "audio/mpeg", extension: "mp3" },
+
+  isAvailable() {
+    return getOpenAI() !== null;
+  },
+
+  resolveVoice(voiceId) {
+    if (voiceId && OPENAI_VOICES.includes(voiceId)) return voiceId;
+    return (voiceId && ELEVENLABS_VOICE_MAP[voiceId]) || DEFAULT_OPENAI_VOICE;
+  },
+
+  async synthesize(text, voice, options) {
+    const openai = getOpenAI();
+    if (!openai) return null;
+
+    const pacing = getTtsPacing(options);
+    const input = splitSpokenText(text)
+      .map(sentences => sentences.join("\n"))
+      .join("\n\n");
+
+    const instructions = [
+      "Calm, grounded, observational. Neutral-warm, never upbeat or encouraging.",
+      "Downward endings with no uptalk and no dramatic emphasis.",
+      `Pause about ${pacing.sentencePauseMs}ms between sentences and ${pacing.paragraphPauseMs}ms between paragraphs.`,
+      options.section === "scenario" ? "Set the moment slowly and let the last line trail into silence." : "",
+    ]
+      .filter(Boolean)
+      .join(" ");
+
+    const response = await openai.audio.speech.create({
+      model: OPENAI_TTS_MODEL,
+      voice,
+      input,
+      speed: pacing.rate,
+      response_format: "mp3",
+      ...(supportsInstructions(OPENAI_TTS_MODEL) ? { instructions } : {}),
+    });
+
+    return Buffer.from(await response.arrayBuffer());
+  },
+};
@@ -0,0 +1,63 @@
+import { openaiSttProvider } from "./openaiSttProvider.js";
+import { localSttProvider } from "./localSttProvider.js";
+import type { AudioFormat } from "../audioFormat.js";
+import type { TimelineSegment, TimelineWord } from "../../shared/timeline.js";
+
+export interface SttAudio {
+  data: Buffer;
+  format: AudioFormat;
+}
+
+export interface SttOptions {
+  // ISO 639-1 code ("en"); providers detect the language when absent.
+  language?: string | null;
+}
+
+export interface SttTranscript {
+  text: string;
+  words: TimelineWord[];
+  segments: TimelineSegment[];
+  duration?: number;
+  language?: string | null;
+  // 0-1, how sure the model is of the words; null when it doesn't say.
+  confidence: number | null;
+}
+
+export interface SttProvider {
+  readonly name: SttProviderName;
+  isAvailable(): boolean;
+  transcribe(audio: SttAudio, options: SttOptions): Promise<SttTranscript>;
+}
+
+export type SttProviderName = "openai" | "local";
+
+const providers: Record<SttProviderName, SttProvider> = {
+  openai: openaiSttProvider,
+  local: localSttProvider,
+};
+
+const DEFAULT_CHAIN: SttProviderName[] = ["openai", "local"];
+
+export function isSttProviderName(value: unknown): value is SttProviderName {
+  return typeof value === "string" && value in providers;
+}
+
+// STT_PROVIDERS sets the order for the environment (default openai,local).
+export function getSttProviderChain(): SttProvider[] {
+  const configured = (process.env.STT_PROVIDERS || "")
+    .split(",")
+    .map(name => name.trim().toLowerCase())
+    .filter(isSttProviderName);
+  const chain = configured.length > 0 ? configured : DEFAULT_CHAIN;
+  return chain.map(name => providers[name]).filter(provider => provider.isAvailable());
+}
+
+export function isSttAvailable(): boolean {
+  return getSttProviderChain().length > 0;
+}
+
+// "en-US", "EN", "en_GB" -> "en"; anything else is dropped.
+export function normalizeLanguageHint(language?: string | null): string | null {
+  const base = language?.trim().toLowerCase().split(/[-_]/)[0];
+  return base && /^[a-z]{2}$/.test(base) ? base : null;
+}
@@ -0,0 +1,46 @@
+import type { TtsOptions } from "./ttsProvider.js";
+
+// Delivery targets from VOICE_QA.md. Each provider renders them in its own
+// way: SSML breaks, a speed parameter, or engine flags.
+export interface TtsPacing {
+  rate: number; // fraction of conversational speed
+  sentencePauseMs: number;
+  paragraphPauseMs: number;
+  trailingPauseMs: number; // after a scenario line, before the mic opens
+}
+
+export function getTtsPacing(options: TtsOptions = {}): TtsPacing {
+  const section = options.section || "general";
+  const difficulty = options.difficulty || "intermediate";
+
+  if (section === "scenario") {
+    return { rate: 0.88, sentencePauseMs: 400, paragraphPauseMs: 700, trailingPauseMs: 700 };
+  }
+  const rate = difficulty === "advanced" ? 0.92 : difficulty === "beginner" ? 0.88 : 0.9;
+  return { rate, sentencePauseMs: 350, paragraphPauseMs: 600, trailingPauseMs: 0 };
+}
+
+// Last guard after voice QA: whatever the rewrite left, the voice never reads
+// a question or an exclamation. Blank lines survive as paragraph breaks.
+export function sanitizeSpokenText(text: string): string {
+  return text
+    .replace(/[^\x00-\x7F]/g, "")
+    .replace(/[!?]+/g, ".")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\s*\n\s*\n\s*/g, "\n\n")
+    .replace(/(?<!\n)\n(?!\n)/g, " ")
+    .trim();
+}
+
+// Paragraphs, each split into sentences.
+export function splitSpokenText(text: string): string[][] {
+  return sanitizeSpokenText(text)
+    .split("\n\n")
+    .map(paragraph =>
+      paragraph
+        .split(/(?<=[.])\s+/)
+        .map(sentence => sentence.trim())
+        .filter(Boolean)
+    )
+    .filter(sentences => sentences.length > 0);
+}
@@ -0,0 +1,124 @@
+import { elevenLabsTtsProvider } from "./elevenLabsTtsProvider.js";
+import { openaiTtsProvider } from "./openaiTtsProvider.js";
+import { localTtsProvider } from "./localTtsProvider.js";
+import { recordVoiceQa, reviewVoiceCopy } from "../voiceQa.js";
+import { getCachedAudio, putCachedAudio, ttsCacheKey } from "../ttsCache.js";
+import { getTtsPacing } from "./ttsPacing.js";
+
+export type TtsSection = "general" | "scenario" | "analysis-what" | "analysis-how" | "analysis-reframe" | "chat";
+
+export interface TtsOptions {
+  section?: TtsSection;
+  difficulty?: "beginner" | "intermediate" | "advanced";
+}
+
+export const TTS_SECTIONS: TtsSection[] = ["general", "scenario", "analysis-what", "analysis-how", "analysis-reframe", "chat"];
+
+export interface TtsAudioFormat {
+  mimeType: string;
+  extension: string;
+}
+
+export interface TtsProvider {
+  readonly name: TtsProviderName;
+  // Part of the cache key; change it when the rendering changes.
+  readonly model: string;
+  readonly format: TtsAudioFormat;
+  isAvailable(): boolean;
+  // The provider's own voice for an app-level voice id (or its default).
+  resolveVoice(voiceId?: string | null): string;
+  synthesize(text: string, voice: string, options: TtsOptions): Promise<Buffer | null>;
+}
+
+export type TtsProviderName = "elevenlabs" | "openai" | "local";
+
+export interface TtsResult {
+  audio: Buffer;
+  mimeType: string;
+  provider: TtsProviderName;
+  // What was read aloud: the text after voice QA.
+  text: string;
+}
+
+const providers: Record<TtsProviderName, TtsProvider> = {
+  elevenlabs: elevenLabsTtsProvider,
+  openai: openaiTtsProvider,
+  local: localTtsProvider,
+};
+
+const DEFAULT_CHAIN: TtsProviderName[] = ["elevenlabs", "openai", "local"];
+
+export function isTtsProviderName(value: unknown): value is TtsProviderName {
+  return typeof value === "string" && value in providers;
+}
+
+// TTS_PROVIDERS sets the order for the environment (default
+// elevenlabs,openai,local). A user's preferred provider goes first.
+export function getTtsProviderChain(preferred?: string | null): TtsProvider[] {
+  const configured = (process.env.TTS_PROVIDERS || "")
+    .split(",")
+    .map(name => name.trim().toLowerCase())
+    .filter(isTtsProviderName);
+  const chain = configured.length > 0 ? configured : DEFAULT_CHAIN;
+  const ordered = isTtsProviderName(preferred) ? [preferred, ...chain.filter(name => name !== preferred)] : chain;
+  return ordered.map(name => providers[name]).filter(provider => provider.isAvailable());
+}
+
+export function getAvailableTtsProviders(): TtsProviderName[] {
+  return getTtsProviderChain().map(provider => provider.name);
+}
+
+export function isTtsAvailable(): boolean {
+  return getTtsProviderChain().length > 0;
+}
+
+// Voice QA, then each provider in the chain until one returns audio. Cached
+// audio is looked up per provider so a fallback never serves another
+// provider's voice under the wrong key.
+export async function synthesizeSpeech(
+  text: string,
+  options: TtsOptions & { voiceId?: string | null; provider?: string | null; fallback?: boolean } = {}
+): Promise<TtsResult | null> {
+  const section = options.section || "general";
+  const reviewed = reviewVoiceCopy(text.slice(0, 800), { section });
+  recordVoiceQa(reviewed);
+  if (!reviewed.text) {
+    console.warn("Voice QA removed the whole utterance; skipping TTS");
+    return null;
+  }
+
+  const chain = getTtsProviderChain(options.provider);
+  const attempts = options.fallback === false ? chain.slice(0, 1) : chain;
+  if (options.fallback === false && options.provider && attempts[0]?.name !== options.provider) {
+    return null;
+  }
+
+  for (const provider of attempts) {
+    const voice = provider.resolveVoice(options.voiceId);
+    const cacheKey = ttsCacheKey({
+      text: reviewed.text,
+      voiceId: voice,
+      section,
+      pacing: getTtsPacing({ section, difficulty: options.difficulty }),
+      model: `${provider.name}:${provider.model}`,
+    });
+
+    const cached = await getCachedAudio(cacheKey, section, provider.format);
+    if (cached) {
+      return { audio: cached, mimeType: provider.format.mimeType, provider: provider.name, text: reviewed.text };
+    }
+
+    try {
+      const audio = await provider.synthesize(reviewed.text, voice, { section, difficulty: options.difficulty });
+      if (audio) {
+        await putCachedAudio(cacheKey, audio, provider.format);
+        return { audio, mimeType: provider.format.mimeType, provider: provider.name, text: reviewed.text };
+      }
+    } catch (error) {
+      console.error(`TTS provider ${provider.name} failed:`, error);
+    }
+    console.warn(`TTS provider ${provider.name} returned no audio; trying the next provider`);
+  }
+
+  return null;
+}
@@ -0,0 +1,165 @@
+import { storage } from "./storage.js";
+import { findPublishedHandoff } from "./contentBank.js";
+import type { PracticeHandoff } from "../shared/promptBank.js";
+import type { SkillRating } from "../shared/schema.js";
+
+export type Difficulty = PracticeHandoff["difficulty"];
+
+export interface SkillLevel {
+  category: string;
+  rating: number;
+  deviation: number;
+  difficulty: Difficulty;
+  sessionsRated: number;
+  // True while the deviation is still wide, i.e. the rating is mostly a guess.
+  provisional: boolean;
+  lastRatedAt: string | null;
+}
+
+export const DIFFICULTIES: Difficulty[] = ["beginner", "intermediate", "advanced"];
+
+const DEFAULT_RATING = 1200;
+const MAX_DEVIATION = 350;
+const MIN_DEVIATION = 60;
+const PROVISIONAL_DEVIATION = 150;
+
+// Deviation regained per idle day, so an unpractised rating drifts from
+// MIN_DEVIATION back to MAX_DEVIATION over about a year.
+const DEVIATION_GROWTH = Math.sqrt((MAX_DEVIATION ** 2 - MIN_DEVIATION ** 2) / 365);
+
+// Each prompt is treated as an opponent with a fixed rating for its difficulty.
+const PROMPT_RATINGS: Record<Difficulty, number> = {
+  beginner: 1000,
+  intermediate: 1300,
+  advanced: 1600,
+};
+
+// Scores at or below the floor count as a loss against the prompt, at or
+// above the ceiling as a win, with a linear draw band in between.
+const LOSS_SCORE = 40;
+const WIN_SCORE = 90;
+
+const Q = Math.LN10 / 400;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isDifficulty(value: unknown): value is Difficulty {
+  return typeof value === "string" && (DIFFICULTIES as string[]).includes(value);
+}
+
+// Picks the difficulty whose prompt rating is closest to the user's rating.
+export function ratingToDifficulty(rating: number): Difficulty {
+  if (rating < (PROMPT_RATINGS.beginner + PROMPT_RATINGS.intermediate) / 2) return "beginner";
+  if (rating < (PROMPT_RATINGS.intermediate + PROMPT_RATINGS.advanced) / 2) return "intermediate";
+  return "advanced";
+}
+
+export const DEFAULT_DIFFICULTY: Difficulty = ratingToDifficulty(DEFAULT_RATING);
+
+export function scoreToOutcome(score: number): number {
+  return Math.min(1, Math.max(0, (score - LOSS_SCORE) / (WIN_SCORE - LOSS_SCORE)));
+}
+
+function inflateDeviation(deviation: number, lastRatedAt: Date | null, now: Date): number {
+  if (!lastRatedAt) return deviation;
+  const idleDays = Math.max(0, (now.getTime() - lastRatedAt.getTime()) / DAY_MS);
+  return Math.min(MAX_DEVIATION, Math.sqrt(deviation ** 2 + DEVIATION_GROWTH ** 2 * idleDays));
+}
+
+// One Glicko-1 rating period with a single game against a prompt of known
+// rating. Returns the new rating and deviation.
+export function updateRating(
+  rating: number,
+  deviation: number,
+  difficulty: Difficulty,
+  score: number
+): { rating: number; deviation: number } {
+  const expected = 1 / (1 + Math.pow(10, (PROMPT_RATINGS[difficulty] - rating) / 400));
+  const dSquaredInverse = Q * Q * expected * (1 - expected);
+  const precision = 1 / (deviation * deviation) + dSquaredInverse;
+
+  return {
+    rating: rating + (Q / precision) * (scoreToOutcome(score) - expected),
+    deviation: Math.max(MIN_DEVIATION, Math.sqrt(1 / precision)),
+  };
+}
+
+function toSkillLevel(category: string, row: SkillRating | undefined, now: Date): SkillLevel {
+  const rating = row?.rating ?? DEFAULT_RATING;
+  const lastRatedAt = row?.lastRatedAt ? new Date(row.lastRatedAt) : null;
+  const deviation = inflateDeviation(row?.ratingDeviation ?? MAX_DEVIATION, lastRatedAt, now);
+
+  return {
+    category,
+    rating: Math.round(rating),
+    deviation: Math.round(deviation),
+    difficulty: ratingToDifficulty(rating),
+    sessionsRated: row?.sessionsRated ?? 0,
+    provisional: deviation > PROVISIONAL_DEVIATION,
+    lastRatedAt: lastRatedAt ? lastRatedAt.toISOString() : null,
+  };
+}
+
+export async function getSkillLevel(userId: string, category?: string | null): Promise<SkillLevel> {
+  const key = category || "general";
+  return toSkillLevel(key, await storage.getSkillRating(userId, key), new Date());
+}
+
+// Levels for every category the user has been rated in.
+export async function getSkillLevels(userId: string): Promise<SkillLevel[]> {
+  const now = new Date();
+  const rows = await storage.getSkillRatings(userId);
+  return rows
+    .map(row => toSkillLevel(row.category, row, now))
+    .sort((a, b) => a.category.localeCompare(b.category));
+}
+
+// Difficulty for an analysis or TTS request: an explicit value wins, then the
+// handoff's own difficulty, then the level from the user's rating.
+export async function resolvePracticeDifficulty(
+  userId: string,
+  input: { difficulty?: unknown; handoffId?: string | null; category?: string | null }
+): Promise<Difficulty> {
+  if (isDifficulty(input.difficulty)) return input.difficulty;
+
+  const handoff = input.handoffId ? await findPublishedHandoff(input.handoffId) : undefined;
+  if (handoff) return handoff.difficulty;
+
+  return (await getSkillLevel(userId, input.category)).difficulty;
+}
+
+export async function recordSkillResult(input: {
+  userId: string;
+  category?: string | null;
+  difficulty?: string | null;
+  score: number;
+}): Promise<SkillLevel> {
+  const category = input.category || "general";
+  const difficulty = isDifficulty(input.difficulty) ? input.difficulty : DEFAULT_DIFFICULTY;
+  const now = new Date();
+
+  const current = await storage.getSkillRating(input.userId, category);
+  const lastRatedAt = current?.lastRatedAt ? new Date(current.lastRatedAt) : null;
+  const next = updateRating(
+    current?.rating ?? DEFAULT_RATING,
+    inflateDeviation(current?.ratingDeviation ?? MAX_DEVIATION, lastRatedAt, now),
+    difficulty,
+    input.score
+  );
+
+  const saved = await storage.upsertSkillRating({
+    userId: input.userId,
+    category,
+    rating: next.rating,
+    ratingDeviation: next.deviation,
+    sessionsRated: (current?.sessionsRated ?? 0) + 1,
+    lastRatedAt: now,
+  });
+  return toSkillLevel(category, saved, now);
+}
+
+// Weight applied to a prompt when ranking: 1 at the user's level, halving
+// for each step away from it.
+export function difficultyFit(promptDifficulty: Difficulty, target: Difficulty): number {
+  const distance = Math.abs(DIFFICULTIES.indexOf(promptDifficulty) - DIFFICULTIES.indexOf(target));
+  return 1 / 2 ** distance;
+}
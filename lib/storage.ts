@@ -1,4 +1,4 @@
-import { eq, desc, and, sql, or, gte, lte, inArray } from "drizzle-orm";
+import { eq, desc, and, sql, or, gte, lt, lte, inArray, isNull, isNotNull } from "drizzle-orm";
 import { db } from "./db.js";
 import {
   users,
@@ -171,8 +171,25 @@ import {
   type InsertPrototypeFeedback,
   type UserFeedback,
   type InsertUserFeedback,
+  reviewItems,
+  type ReviewItem,
+  type InsertReviewItem,
+  skillRatings,
+  type SkillRating,
+  type InsertSkillRating,
+  contentItems,
+  type ContentItem,
+  type InsertContentItem,
+  audioUploads,
+  type AudioUpload,
+  type InsertAudioUpload,
+  DEFAULT_RECORDING_RETENTION,
+  type RecordingRetention,
 } from "../shared/schema.js";
 
+// How many times a practice session is renumbered after losing a race for its attempt number.
+const ATTEMPT_NUMBER_RETRIES = 3;
+
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
@@ -195,7 +212,9 @@ export interface IStorage {
   
   // Practice Sessions
   createPracticeSession(session: InsertPracticeSession): Promise<PracticeSession>;
+  getPracticeSession(id: string): Promise<PracticeSession | undefined>;
   getPracticeSessions(userId: string, limit?: number): Promise<PracticeSession[]>;
+  getAttemptChain(userId: string, chainKey: string): Promise<PracticeSession[]>;
   getPracticeSessionsInDateRange(userId: string, startDate: Date, endDate: Date): Promise<PracticeSession[]>;
   getTodayPracticeSessionCount(userId: string): Promise<number>;
   
@@ -206,9 +225,15 @@ export interface IStorage {
   
   // Conversations
   getConversation(userId: string): Promise<Conversation | undefined>;
-  getAllConversations(userId: string, limit?: number): Promise<Conversation[]>;
+  getConversationById(id: string, userId?: string): Promise<Conversation | undefined>;
+  getAllConversations(
+    userId: string,
+    limit?: number,
+    options?: { archived?: boolean; search?: string }
+  ): Promise<Conversation[]>;
   createConversation(conversation: InsertConversation): Promise<Conversation>;
   updateConversation(id: string, updates: Partial<InsertConversation>): Promise<Conversation | undefined>;
+  deleteConversation(id: string): Promise<void>;
   
   // Shop
   getShopItems(): Promise<CosmeticItem[]>;
@@ -246,11 +271,15 @@ export interface IStorage {
   createSubscription(subscription: InsertSubscription): Promise<Subscription>;
   updateSubscription(userId: string, updates: Partial<InsertSubscription>): Promise<Subscription | undefined>;
   
+  // Scenarios
+  createScenarioIfMissing(id: string, scenario: InsertScenario): Promise<void>;
+
   // Rehearsals
   getRehearsal(id: string): Promise<Rehearsal | undefined>;
   getRehearsals(userId: string, limit?: number): Promise<Rehearsal[]>;
   createRehearsal(rehearsal: InsertRehearsal): Promise<Rehearsal>;
   updateRehearsal(id: string, updates: Partial<InsertRehearsal>): Promise<Rehearsal | undefined>;
+  saveRehearsalTurn(id: string, messageCount: number, updates: Partial<InsertRehearsal>): Promise<Rehearsal | undefined>;
   
   // Gifts
   createGift(gift: InsertGift): Promise<Gift>;
@@ -266,6 +295,7 @@ export interface IStorage {
   getVoiceClone(id: string): Promise<VoiceClone | undefined>;
   createVoiceClone(data: InsertVoiceClone): Promise<VoiceClone>;
   updateVoiceClone(id: string, updates: Partial<InsertVoiceClone>): Promise<VoiceClone | undefined>;
+  transitionVoiceClone(id: string, from: string[], updates: Partial<InsertVoiceClone>): Promise<VoiceClone | undefined>;
   deleteVoiceClone(id: string): Promise<void>;
   getDefaultVoice(userId: string): Promise<VoiceClone | undefined>;
   setDefaultVoiceClone(userId: string, voiceCloneId: string): Promise<void>;
@@ -273,6 +303,7 @@ export interface IStorage {
   // Voice Clone Samples
   getVoiceCloneSamples(voiceCloneId: string): Promise<VoiceCloneSample[]>;
   createVoiceCloneSample(data: InsertVoiceCloneSample): Promise<VoiceCloneSample>;
+  deleteVoiceCloneSample(id: string): Promise<void>;
   deleteVoiceCloneSamples(voiceCloneId: string): Promise<void>;
   
   // Voice Preferences
@@ -501,6 +532,31 @@ export interface IStorage {
   // User Feedback
   createUserFeedback(feedback: InsertUserFeedback): Promise<UserFeedback>;
   getUserFeedback(limit?: number): Promise<UserFeedback[]>;
+
+  // Review Items
+  getReviewItems(userId: string): Promise<ReviewItem[]>;
+  upsertReviewItem(item: InsertReviewItem): Promise<ReviewItem>;
+
+  // Skill Ratings
+  getSkillRatings(userId: string): Promise<SkillRating[]>;
+  getSkillRating(userId: string, category: string): Promise<SkillRating | undefined>;
+  upsertSkillRating(rating: InsertSkillRating): Promise<SkillRating>;
+
+  // Content Items
+  getContentItems(filter?: { kind?: string; contentKey?: string; locale?: string; status?: string }): Promise<ContentItem[]>;
+  getContentItem(id: string): Promise<ContentItem | undefined>;
+  getLatestContentVersion(kind: string, contentKey: string, locale: string): Promise<number>;
+  createContentItem(item: InsertContentItem): Promise<ContentItem>;
+  updateContentItem(id: string, updates: Partial<InsertContentItem>): Promise<ContentItem | undefined>;
+  deleteContentItem(id: string): Promise<void>;
+  publishContentItem(id: string): Promise<ContentItem | undefined>;
+
+  // Audio Uploads
+  createAudioUpload(upload: InsertAudioUpload): Promise<AudioUpload>;
+  getAudioUpload(id: string, userId?: string): Promise<AudioUpload | undefined>;
+  getAudioUploads(ids: string[], userId: string): Promise<AudioUpload[]>;
+  getExpiredAudioUploads(retention: RecordingRetention, before: Date, limit: number): Promise<AudioUpload[]>;
+  deleteAudioUpload(id: string): Promise<void>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -616,9 +672,34 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Practice Sessions
+  // A session in an attempt chain is numbered inside the insert. When two
+  // submissions race for the same number the unique index rejects one, and
+  // it is renumbered on retry.
   async createPracticeSession(session: InsertPracticeSession): Promise<PracticeSession> {
-    const [created] = await db.insert(practiceSessions).values(session).returning();
-    return created;
+    if (!session.chainKey) {
+      const [created] = await db.insert(practiceSessions).values(session).returning();
+      return created;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const [created] = await db
+          .insert(practiceSessions)
+          .values({
+            ...session,
+            attemptNumber: sql`(select coalesce(max(attempt_number), 0) + 1 from practice_sessions where user_id = ${session.userId} and chain_key = ${session.chainKey})`,
+          })
+          .returning();
+        return created;
+      } catch (error: any) {
+        if (error?.code !== "23505" || attempt >= ATTEMPT_NUMBER_RETRIES) throw error;
+      }
+    }
+  }
+
+  async getPracticeSession(id: string): Promise<PracticeSession | undefined> {
+    const [session] = await db.select().from(practiceSessions).where(eq(practiceSessions.id, id));
+    return session;
   }
 
   async getPracticeSessions(userId: string, limit = 10): Promise<PracticeSession[]> {
@@ -630,6 +711,14 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async getAttemptChain(userId: string, chainKey: string): Promise<PracticeSession[]> {
+    return db
+      .select()
+      .from(practiceSessions)
+      .where(and(eq(practiceSessions.userId, userId), eq(practiceSessions.chainKey, chainKey)))
+      .orderBy(practiceSessions.createdAt);
+  }
+
   async getPracticeSessionsInDateRange(userId: string, startDate: Date, endDate: Date): Promise<PracticeSession[]> {
     return db
       .select()
@@ -698,21 +787,51 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Conversations
+  // The most recently active thread that isn't archived.
   async getConversation(userId: string): Promise<Conversation | undefined> {
     const [conversation] = await db
       .select()
       .from(conversations)
-      .where(eq(conversations.userId, userId))
+      .where(and(eq(conversations.userId, userId), isNull(conversations.archivedAt)))
       .orderBy(desc(conversations.updatedAt))
       .limit(1);
     return conversation;
   }
 
-  async getAllConversations(userId: string, limit: number = 50): Promise<Conversation[]> {
+  async getConversationById(id: string, userId?: string): Promise<Conversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(userId ? and(eq(conversations.id, id), eq(conversations.userId, userId)) : eq(conversations.id, id));
+    return conversation;
+  }
+
+  // Active threads by default; `archived: true` lists only archived ones.
+  // `search` matches the title or any message text, case-insensitively.
+  async getAllConversations(
+    userId: string,
+    limit: number = 50,
+    options: { archived?: boolean; search?: string } = {}
+  ): Promise<Conversation[]> {
+    const conditions = [
+      eq(conversations.userId, userId),
+      options.archived ? isNotNull(conversations.archivedAt) : isNull(conversations.archivedAt),
+    ];
+    const search = options.search?.trim();
+    if (search) {
+      const pattern = `%${search.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(
+        or(
+          sql`${conversations.title} ILIKE ${pattern}`,
+          sql`EXISTS (SELECT 1 FROM jsonb_array_elements(coalesce(${conversations.messages}, '[]'::jsonb)) AS m WHERE m->>'content' ILIKE ${pattern})`
+        )!
+      );
+    }
+
     return db
       .select()
       .from(conversations)
-      .where(eq(conversations.userId, userId))
+      .where(and(...conditions))
       .orderBy(desc(conversations.updatedAt))
       .limit(limit);
   }
@@ -722,15 +841,21 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  // updatedAt tracks the last message, so renaming or archiving a thread
+  // leaves its place in the thread list alone.
   async updateConversation(id: string, updates: Partial<InsertConversation>): Promise<Conversation | undefined> {
     const [updated] = await db
       .update(conversations)
-      .set({ ...updates, updatedAt: new Date() })
+      .set(updates.messages ? { ...updates, updatedAt: new Date() } : updates)
       .where(eq(conversations.id, id))
       .returning();
     return updated;
   }
 
+  async deleteConversation(id: string): Promise<void> {
+    await db.delete(conversations).where(eq(conversations.id, id));
+  }
+
   // Shop
   async getShopItems(): Promise<CosmeticItem[]> {
     return db.select().from(cosmeticItems).where(eq(cosmeticItems.isActive, true));
@@ -912,6 +1037,14 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  // Scenarios
+  async createScenarioIfMissing(id: string, scenario: InsertScenario): Promise<void> {
+    await db
+      .insert(scenarios)
+      .values({ ...scenario, id })
+      .onConflictDoNothing({ target: scenarios.id });
+  }
+
   // Rehearsals
   async getRehearsal(id: string): Promise<Rehearsal | undefined> {
     const [rehearsal] = await db.select().from(rehearsals).where(eq(rehearsals.id, id));
@@ -941,6 +1074,24 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  // Saves a turn only if the rehearsal is still open and still holds the
+  // `messageCount` messages the turn was built on. Returns undefined when
+  // another turn got there first.
+  async saveRehearsalTurn(id: string, messageCount: number, updates: Partial<InsertRehearsal>): Promise<Rehearsal | undefined> {
+    const [updated] = await db
+      .update(rehearsals)
+      .set(updates)
+      .where(
+        and(
+          eq(rehearsals.id, id),
+          eq(rehearsals.completed, false),
+          sql`jsonb_array_length(coalesce(${rehearsals.messages}, '[]'::jsonb)) = ${messageCount}`
+        )
+      )
+      .returning();
+    return updated;
+  }
+
   // Gifts
   async createGift(gift: InsertGift): Promise<Gift> {
     const [created] = await db.insert(gifts).values(gift).returning();
@@ -1034,8 +1185,19 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
+  // Applies the update only while the clone is in one of the `from`
+  // statuses; returns undefined when another request moved it first.
+  async transitionVoiceClone(id: string, from: string[], updates: Partial<InsertVoiceClone>): Promise<VoiceClone | undefined> {
+    const [updated] = await db
+      .update(voiceClones)
+      .set({ ...updates, statusChangedAt: new Date() })
+      .where(and(eq(voiceClones.id, id), inArray(voiceClones.status, from)))
+      .returning();
+    return updated;
+  }
+
   async deleteVoiceClone(id: string): Promise<void> {
-    await db.update(voiceClones).set({ isActive: false }).where(eq(voiceClones.id, id));
+    await db.update(voiceClones).set({ isActive: false, isDefault: false }).where(eq(voiceClones.id, id));
   }
 
   async getDefaultVoice(userId: string): Promise<VoiceClone | undefined> {
@@ -1072,6 +1234,10 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async deleteVoiceCloneSample(id: string): Promise<void> {
+    await db.delete(voiceCloneSamples).where(eq(voiceCloneSamples.id, id));
+  }
+
   async deleteVoiceCloneSamples(voiceCloneId: string): Promise<void> {
     await db.delete(voiceCloneSamples).where(eq(voiceCloneSamples.voiceCloneId, voiceCloneId));
   }
@@ -2733,6 +2899,195 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(userFeedback.createdAt))
       .limit(limit);
   }
+
+  // Review Items
+  async getReviewItems(userId: string): Promise<ReviewItem[]> {
+    return db.select().from(reviewItems).where(eq(reviewItems.userId, userId));
+  }
+
+  async upsertReviewItem(item: InsertReviewItem): Promise<ReviewItem> {
+    const [saved] = await db
+      .insert(reviewItems)
+      .values(item)
+      .onConflictDoUpdate({
+        target: [reviewItems.userId, reviewItems.itemType, reviewItems.itemKey],
+        set: item,
+      })
+      .returning();
+    return saved;
+  }
+
+  // Skill Ratings
+  async getSkillRatings(userId: string): Promise<SkillRating[]> {
+    return db.select().from(skillRatings).where(eq(skillRatings.userId, userId));
+  }
+
+  async getSkillRating(userId: string, category: string): Promise<SkillRating | undefined> {
+    const [rating] = await db
+      .select()
+      .from(skillRatings)
+      .where(and(eq(skillRatings.userId, userId), eq(skillRatings.category, category)));
+    return rating;
+  }
+
+  async upsertSkillRating(rating: InsertSkillRating): Promise<SkillRating> {
+    const [saved] = await db
+      .insert(skillRatings)
+      .values(rating)
+      .onConflictDoUpdate({
+        target: [skillRatings.userId, skillRatings.category],
+        set: rating,
+      })
+      .returning();
+    return saved;
+  }
+
+  // Content Items
+  async getContentItems(
+    filter: { kind?: string; contentKey?: string; locale?: string; status?: string } = {}
+  ): Promise<ContentItem[]> {
+    const conditions = [];
+    if (filter.kind) conditions.push(eq(contentItems.kind, filter.kind));
+    if (filter.contentKey) conditions.push(eq(contentItems.contentKey, filter.contentKey));
+    if (filter.locale) conditions.push(eq(contentItems.locale, filter.locale));
+    if (filter.status) conditions.push(eq(contentItems.status, filter.status));
+
+    return db
+      .select()
+      .from(contentItems)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(contentItems.kind, contentItems.contentKey, contentItems.locale, desc(contentItems.version));
+  }
+
+  async getContentItem(id: string): Promise<ContentItem | undefined> {
+    const [item] = await db.select().from(contentItems).where(eq(contentItems.id, id));
+    return item;
+  }
+
+  async getLatestContentVersion(kind: string, contentKey: string, locale: string): Promise<number> {
+    const [result] = await db
+      .select({ version: sql<number>`coalesce(max(${contentItems.version}), 0)` })
+      .from(contentItems)
+      .where(and(
+        eq(contentItems.kind, kind),
+        eq(contentItems.contentKey, contentKey),
+        eq(contentItems.locale, locale),
+      ));
+    return Number(result?.version ?? 0);
+  }
+
+  async createContentItem(item: InsertContentItem): Promise<ContentItem> {
+    const [created] = await db.insert(contentItems).values(item).returning();
+    return created;
+  }
+
+  async updateContentItem(id: string, updates: Partial<InsertContentItem>): Promise<ContentItem | undefined> {
+    const [updated] = await db
+      .update(contentItems)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(contentItems.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteContentItem(id: string): Promise<void> {
+    await db.delete(contentItems).where(eq(contentItems.id, id));
+  }
+
+  // Archives whichever version of the same kind, key and locale is live,
+  // then publishes this one.
+  async publishContentItem(id: string): Promise<ContentItem | undefined> {
+    const item = await this.getContentItem(id);
+    if (!item) return undefined;
+
+    const now = new Date();
+    await db
+      .update(contentItems)
+      .set({ status: "archived", updatedAt: now })
+      .where(and(
+        eq(contentItems.kind, item.kind),
+        eq(contentItems.contentKey, item.contentKey),
+        eq(contentItems.locale, item.locale),
+        eq(contentItems.status, "published"),
+      ));
+
+    const [published] = await db
+      .update(contentItems)
+      .set({ status: "published", publishedAt: now, updatedAt: now })
+      .where(eq(contentItems.id, id))
+      .returning();
+    return published;
+  }
+
+  // Audio Uploads
+  async createAudioUpload(upload: InsertAudioUpload): Promise<AudioUpload> {
+    const [created] = await db.insert(audioUploads).values(upload).returning();
+    return created;
+  }
+
+  async getAudioUpload(id: string, userId?: string): Promise<AudioUpload | undefined> {
+    const [upload] = await db
+      .select()
+      .from(audioUploads)
+      .where(userId ? and(eq(audioUploads.id, id), eq(audioUploads.userId, userId)) : eq(audioUploads.id, id));
+    return upload;
+  }
+
+  async getAudioUploads(ids: string[], userId: string): Promise<AudioUpload[]> {
+    if (ids.length === 0) return [];
+    return db
+      .select()
+      .from(audioUploads)
+      .where(and(inArray(audioUploads.id, ids), eq(audioUploads.userId, userId)));
+  }
+
+  // Uploads made before `before` by users whose retention setting is
+  // `retention`. Users without a progress row get the default.
+  async getExpiredAudioUploads(retention: RecordingRetention, before: Date, limit: number): Promise<AudioUpload[]> {
+    const rows = await db
+      .select({ upload: audioUploads })
+      .from(audioUploads)
+      .leftJoin(userProgress, eq(userProgress.userId, audioUploads.userId))
+      .where(
+        and(
+          lt(audioUploads.createdAt, before),
+          sql`coalesce(${userProgress.recordingRetention}, ${DEFAULT_RECORDING_RETENTION}) = ${retention}`,
+          // Samples of a clone that hasn't been created yet are kept until it
+          // is, or until the clone is removed.
+          sql`not exists (
+            select 1 from ${voiceCloneSamples}
+            inner join ${voiceClones} on ${voiceClones.id} = ${voiceCloneSamples.voiceCloneId}
+            where ${voiceCloneSamples.uploadId} = ${audioUploads.id}
+              and ${voiceClones.isActive}
+              and ${voiceClones.status} in ('pending', 'processing', 'failed')
+          )`
+        )
+      )
+      .orderBy(audioUploads.createdAt)
+      .limit(limit);
+    return rows.map(row => row.upload);
+  }
+
+  // Entries that pointed at the recording are kept, without it. A voice clone
+  // sample is only its recording, so it goes too and the clone's count drops.
+  async deleteAudioUpload(id: string): Promise<void> {
+    await db.transaction(async tx => {
+      await tx.update(voiceJournals).set({ uploadId: null }).where(eq(voiceJournals.uploadId, id));
+      await tx.update(practiceSessions).set({ uploadId: null }).where(eq(practiceSessions.uploadId, id));
+      const samples = await tx
+        .delete(voiceCloneSamples)
+        .where(eq(voiceCloneSamples.uploadId, id))
+        .returning({ voiceCloneId: voiceCloneSamples.voiceCloneId });
+      for (const { voiceCloneId } of samples) {
+        if (!voiceCloneId) continue;
+        await tx
+          .update(voiceClones)
+          .set({ sampleCount: sql`greatest(coalesce(${voiceClones.sampleCount}, 0) - 1, 0)` })
+          .where(eq(voiceClones.id, voiceCloneId));
+      }
+      await tx.delete(audioUploads).where(eq(audioUploads.id, id));
+    });
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,50 @@
+import type { PracticeSession } from "../shared/schema.js";
+
+export const CANONICAL_TONES = [
+  "calm",
+  "assertive",
+  "empathetic",
+  "confident",
+  "defensive",
+  "anxious",
+  "aggressive",
+  "passive",
+];
+
+const TONE_ALIASES: Record<string, string> = {
+  empathic: "empathetic",
+  confidence: "confident",
+  assertion: "assertive",
+  "defensive behaviour": "defensive",
+};
+
+// Score below which a tone counts as an area to improve.
+export const WEAK_TONE_THRESHOLD = 70;
+
+export function normalizeTone(tone: string): string | null {
+  const normalized = tone.trim().toLowerCase();
+  if (TONE_ALIASES[normalized]) return TONE_ALIASES[normalized];
+  if (CANONICAL_TONES.includes(normalized)) return normalized;
+  for (const canonical of CANONICAL_TONES) {
+    if (normalized.includes(canonical)) return canonical;
+  }
+  return null;
+}
+
+// Average score per canonical tone across the given sessions.
+export function getToneAverages(sessions: PracticeSession[]): Map<string, { average: number; count: number }> {
+  const totals = new Map<string, { sum: number; count: number }>();
+  for (const session of sessions) {
+    if (!session.tone || session.score === null || session.score === undefined) continue;
+    const tone = normalizeTone(session.tone);
+    if (!tone) continue;
+    const entry = totals.get(tone) || { sum: 0, count: 0 };
+    entry.sum += session.score;
+    entry.count++;
+    totals.set(tone, entry);
+  }
+
+  return new Map(
+    Array.from(totals, ([tone, { sum, count }]) => [tone, { average: sum / count, count }])
+  );
+}
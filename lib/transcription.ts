@@ -0,0 +1,58 @@
+import { OpenAIUnavailableError } from "./services/openaiClient.js";
+import { getSttProviderChain, normalizeLanguageHint, type SttProviderName } from "./services/sttProvider.js";
+import { detectAudioFormat } from "./audioFormat.js";
+import { buildTimeline, type SpeechTimeline } from "../shared/timeline.js";
+
+export interface TimedTranscription {
+  text: string;
+  timeline: SpeechTimeline;
+  language: string | null;
+  confidence: number | null;
+  provider: SttProviderName;
+}
+
+export interface TranscriptionOptions {
+  // What the client says it recorded; the audio's own header wins.
+  mimeType?: string | null;
+  // Locale or language hint ("en-US", "es").
+  language?: string | null;
+}
+
+// Transcribes with the first configured speech-to-text provider that
+// succeeds, asking for word and segment timestamps so the caller gets a
+// timeline alongside the text.
+export async function transcribeWithTimeline(
+  audio: Buffer,
+  options: TranscriptionOptions = {}
+): Promise<TimedTranscription> {
+  const chain = getSttProviderChain();
+  if (chain.length === 0) {
+    throw new OpenAIUnavailableError();
+  }
+
+  const format = detectAudioFormat(audio, options.mimeType);
+  const language = normalizeLanguageHint(options.language);
+
+  let lastError: unknown;
+  for (const provider of chain) {
+    try {
+      const transcript = await provider.transcribe({ data: audio, format }, { language });
+      return {
+        text: transcript.text,
+        timeline: buildTimeline(transcript.words, {
+          segments: transcript.segments,
+          duration: transcript.duration,
+          locale: transcript.language ?? language,
+        }),
+        language: transcript.language ?? language,
+        confidence: transcript.confidence,
+        provider: provider.name,
+      };
+    } catch (error) {
+      lastError = error;
+      console.error(`STT provider ${provider.name} failed on ${format.mimeType}:`, error);
+    }
+  }
+
+  throw lastError;
+}
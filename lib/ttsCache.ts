@@ -0,0 +1,120 @@
+import { createHash } from "crypto";
+import type { TtsAudioFormat } from "./services/ttsProvider.js";
+import type { TtsPacing } from "./services/ttsPacing.js";
+import { createDiskStore, createSupabaseStore, type AudioStore } from "./audioStore.js";
+
+// Content-addressed cache for rendered speech. The key covers everything that
+// changes the audio, so identical requests (the same handoff line in the same
+// voice) are rendered once. Difficulty only changes the audio through its
+// pacing, so the key holds the resolved pacing rather than the difficulty:
+// requests at difficulties that pace alike share one render.
+//
+// Backends:
+// - TTS_CACHE_BUCKET: a Supabase Storage bucket (production)
+// - TTS_CACHE_DIR, or .cache/tts outside production: local disk (dev)
+// Set TTS_CACHE_DISABLED=true to bypass the cache entirely.
+
+export interface TtsCacheKeyInput {
+  text: string;
+  voiceId: string;
+  section: string;
+  pacing: TtsPacing;
+  model: string;
+}
+
+export interface TtsCacheMetrics {
+  backend: string;
+  hits: number;
+  misses: number;
+  writes: number;
+  errors: number;
+  bytesServed: number;
+  hitRate: number;
+  bySection: Record<string, { hits: number; misses: number }>;
+}
+
+const DEFAULT_CACHE_DIR = ".cache/tts";
+
+export function ttsCacheKey(input: TtsCacheKeyInput): string {
+  return createHash("sha256")
+    .update(JSON.stringify([input.text, input.voiceId, input.section, input.pacing, input.model]))
+    .digest("hex");
+}
+
+// Two-character prefix directories keep any one folder small.
+function objectPath(key: string, format: TtsAudioFormat): string {
+  return `tts/${key.slice(0, 2)}/${key}.${format.extension}`;
+}
+
+function resolveStore(): AudioStore | null {
+  if (process.env.TTS_CACHE_DISABLED === "true") return null;
+  if (process.env.TTS_CACHE_BUCKET) return createSupabaseStore(process.env.TTS_CACHE_BUCKET);
+  if (process.env.TTS_CACHE_DIR) return createDiskStore(process.env.TTS_CACHE_DIR);
+  if (process.env.NODE_ENV !== "production") return createDiskStore(DEFAULT_CACHE_DIR);
+  return null;
+}
+
+const store = resolveStore();
+
+const metrics = {
+  hits: 0,
+  misses: 0,
+  writes: 0,
+  errors: 0,
+  bytesServed: 0,
+  bySection: {} as Record<string, { hits: number; misses: number }>,
+};
+
+function countLookup(section: string, hit: boolean) {
+  const bucket = metrics.bySection[section] ?? { hits: 0, misses: 0 };
+  if (hit) {
+    metrics.hits++;
+    bucket.hits++;
+  } else {
+    metrics.misses++;
+    bucket.misses++;
+  }
+  metrics.bySection[section] = bucket;
+}
+
+export function isTtsCacheEnabled(): boolean {
+  return store !== null;
+}
+
+// Cache failures never fail the request; they count as a miss.
+export async function getCachedAudio(key: string, section: string, format: TtsAudioFormat): Promise<Buffer | null> {
+  if (!store) return null;
+  try {
+    const audio = await store.get(objectPath(key, format));
+    countLookup(section, !!audio);
+    if (audio) metrics.bytesServed += audio.length;
+    return audio;
+  } catch (error) {
+    metrics.errors++;
+    countLookup(section, false);
+    console.error("TTS cache read failed:", error);
+    return null;
+  }
+}
+
+export async function putCachedAudio(key: string, audio: Buffer, format: TtsAudioFormat): Promise<void> {
+  if (!store) return;
+  try {
+    await store.put(objectPath(key, format), audio, format.mimeType);
+    metrics.writes++;
+  } catch (error) {
+    metrics.errors++;
+    console.error("TTS cache write failed:", error);
+  }
+}
+
+// Counters for this instance since it started.
+export function getTtsCacheMetrics(): TtsCacheMetrics {
+  const lookups = metrics.hits + metrics.misses;
+  return {
+    backend: store?.name ?? "disabled",
+    ...metrics,
+    bySection: { ...metrics.bySection },
+    hitRate: lookups > 0 ? metrics.hits / lookups : 0,
+  };
+}
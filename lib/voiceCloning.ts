@@ -0,0 +1,395 @@
+import { storage } from "./storage.js";
+import { createVoiceClone, deleteVoiceClone, isElevenLabsAvailable, DEFAULT_VOICE_ID } from "./elevenLabsClient.js";
+import { getSubscriptionTier } from "./subscriptionLimits.js";
+import { loadAudioUpload } from "./audioUploads.js";
+import { deleteRecording } from "./recordings.js";
+import { decodeToPcm, AudioDecodeError, PCM_SAMPLE_RATE } from "./audioDecoder.js";
+import { analyzePcm } from "./prosody.js";
+import type { AudioUpload, VoiceClone, VoiceCloneSample } from "../shared/schema.js";
+
+// Voice cloning, behind /api/voice-clone/*:
+//
+//   start (consent) → upload-sample × N → finalize → status → use / delete
+//
+// A clone collects samples while "pending". Finalize moves it to
+// "processing", sends the samples to ElevenLabs, and lands on "completed" or
+// "failed"; a failed clone takes more samples and can be finalized again.
+// Samples are ordinary uploads (lib/audioUploads.ts) checked for length and
+// recording quality before they count. They are kept past the owner's
+// recording retention until the clone is created; purging one later removes
+// the sample with it.
+
+export const VOICE_CLONE_CONSENT_VERSION = "2026-10";
+export const VOICE_CLONE_CONSENT_TEXT =
+  "I am the person speaking in these recordings. I agree to Mirror Play creating a synthetic copy of my voice " +
+  "with ElevenLabs, used only to read my own practice content back to me. I can delete it at any time, which also " +
+  "deletes the recordings.";
+
+export const MIN_CLONE_SAMPLES = 3;
+export const MAX_CLONE_SAMPLES = 10;
+export const MIN_SAMPLE_SPEECH_SECONDS = 10;
+export const MIN_TOTAL_SPEECH_SECONDS = 60;
+
+// A finalize that hasn't finished in this long died with its request.
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Quality thresholds for a sample, on 16 kHz mono PCM.
+const CLIPPING_LEVEL = 0.99;
+const MAX_CLIPPED_RATIO = 0.002;
+const MIN_PEAK_DB = -30;
+const MIN_SPEAKING_RATIO = 0.4;
+
+export type VoiceCloneStatus = "pending" | "processing" | "completed" | "failed";
+
+export class VoiceCloneError extends Error {
+  status: number;
+  issues?: string[];
+
+  constructor(status: number, message: string, issues?: string[]) {
+    super(message);
+    this.name = "VoiceCloneError";
+    this.status = status;
+    this.issues = issues;
+  }
+}
+
+export interface SampleQuality {
+  durationSeconds: number;
+  speakingSeconds: number;
+  peakDb: number;
+  clippedRatio: number;
+  issues: string[];
+}
+
+export interface VoiceCloneRequirements {
+  minSamples: number;
+  maxSamples: number;
+  minSampleSpeechSeconds: number;
+  minTotalSpeechSeconds: number;
+}
+
+export const VOICE_CLONE_REQUIREMENTS: VoiceCloneRequirements = {
+  minSamples: MIN_CLONE_SAMPLES,
+  maxSamples: MAX_CLONE_SAMPLES,
+  minSampleSpeechSeconds: MIN_SAMPLE_SPEECH_SECONDS,
+  minTotalSpeechSeconds: MIN_TOTAL_SPEECH_SECONDS,
+};
+
+export function checkSampleQuality(samples: Float32Array): SampleQuality {
+  const metrics = analyzePcm(samples);
+
+  let peak = 0;
+  let clipped = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const level = Math.abs(samples[i]);
+    if (level > peak) peak = level;
+    if (level >= CLIPPING_LEVEL) clipped++;
+  }
+  const peakDb = 20 * Math.log10(peak + 1e-10);
+  const clippedRatio = samples.length > 0 ? clipped / samples.length : 0;
+
+  const issues: string[] = [];
+  if (metrics.speakingSeconds < MIN_SAMPLE_SPEECH_SECONDS) {
+    issues.push(`Only ${Math.round(metrics.speakingSeconds)}s of speech; each sample needs at least ${MIN_SAMPLE_SPEECH_SECONDS}s.`);
+  } else if (metrics.speakingTimeRatio < MIN_SPEAKING_RATIO) {
+    issues.push("The recording is mostly silence; keep talking for the whole sample.");
+  }
+  if (peakDb < MIN_PEAK_DB) {
+    issues.push("The recording is too quiet; move closer to the microphone.");
+  }
+  if (clippedRatio > MAX_CLIPPED_RATIO) {
+    issues.push("The recording is distorted; move back from the microphone or speak more softly.");
+  }
+
+  return {
+    durationSeconds: samples.length / PCM_SAMPLE_RATE,
+    speakingSeconds: metrics.speakingSeconds,
+    peakDb: Math.round(peakDb * 10) / 10,
+    clippedRatio,
+    issues,
+  };
+}
+
+// The clone, if it belongs to the user and hasn't been deleted.
+async function requireOwnedClone(userId: string, voiceCloneId: string): Promise<VoiceClone> {
+  const clone = await storage.getVoiceClone(voiceCloneId);
+  if (!clone || clone.userId !== userId || !clone.isActive) {
+    throw new VoiceCloneError(404, "Voice clone not found");
+  }
+  return clone;
+}
+
+function requireCollecting(clone: VoiceClone) {
+  if (clone.status !== "pending" && clone.status !== "failed") {
+    throw new VoiceCloneError(409, `Voice clone is ${clone.status}; samples can't change now`);
+  }
+}
+
+type StartVoiceCloneInput = { name?: unknown; description?: unknown; consent?: unknown };
+
+// Availability, plan and consent; returns the clone's name and description.
+async function checkCloneRequest(
+  userId: string,
+  input: StartVoiceCloneInput
+): Promise<{ name: string; description: string | null }> {
+  if (!isElevenLabsAvailable()) {
+    throw new VoiceCloneError(503, "Voice cloning is not available");
+  }
+  if ((await getSubscriptionTier(userId)) !== "pro_mind") {
+    throw new VoiceCloneError(403, "Voice cloning is part of Pro Mind");
+  }
+  if (input.consent !== true) {
+    throw new VoiceCloneError(400, "Consent to clone your voice is required");
+  }
+
+  const name = typeof input.name === "string" ? input.name.trim().slice(0, 100) : "";
+  if (!name) {
+    throw new VoiceCloneError(400, "Name is required");
+  }
+
+  return {
+    name,
+    description: typeof input.description === "string" ? input.description.trim().slice(0, 255) || null : null,
+  };
+}
+
+export async function startVoiceClone(userId: string, input: StartVoiceCloneInput): Promise<VoiceClone> {
+  const { name, description } = await checkCloneRequest(userId, input);
+
+  return storage.createVoiceClone({
+    userId,
+    name,
+    description,
+    status: "pending",
+    consentText: VOICE_CLONE_CONSENT_TEXT,
+    consentVersion: VOICE_CLONE_CONSENT_VERSION,
+    consentedAt: new Date(),
+  });
+}
+
+// Checks a recording and adds it to the clone. Rejected recordings are
+// reported with the reasons and not attached.
+export async function addVoiceCloneSample(
+  userId: string,
+  voiceCloneId: string,
+  uploadId: string
+): Promise<{ sample: VoiceCloneSample; quality: SampleQuality; voiceClone: VoiceClone }> {
+  const clone = await requireOwnedClone(userId, voiceCloneId);
+  requireCollecting(clone);
+
+  const samples = await storage.getVoiceCloneSamples(clone.id);
+  if (samples.length >= MAX_CLONE_SAMPLES) {
+    throw new VoiceCloneError(409, `A voice clone takes at most ${MAX_CLONE_SAMPLES} samples`);
+  }
+  if (samples.some(s => s.uploadId === uploadId)) {
+    throw new VoiceCloneError(409, "That recording is already a sample");
+  }
+
+  const { upload, quality } = await checkSampleRecording(userId, uploadId);
+  const sample = await storage.createVoiceCloneSample({
+    userId,
+    voiceCloneId: clone.id,
+    uploadId: upload.id,
+    duration: Math.round(quality.speakingSeconds),
+    status: "completed",
+  });
+  const voiceClone = (await storage.updateVoiceClone(clone.id, { sampleCount: samples.length + 1 })) ?? clone;
+  return { sample, quality, voiceClone };
+}
+
+// Loads the user's recording and runs the quality checks; a recording that
+// fails them is rejected with the reasons.
+async function checkSampleRecording(userId: string, uploadId: string): Promise<{ upload: AudioUpload; quality: SampleQuality }> {
+  const { upload, audio } = await loadAudioUpload(userId, uploadId);
+  let quality: SampleQuality;
+  try {
+    quality = checkSampleQuality(await decodeToPcm(audio));
+  } catch (error) {
+    if (error instanceof AudioDecodeError && !error.unavailable) {
+      throw new VoiceCloneError(422, "Audio could not be decoded");
+    }
+    throw error;
+  }
+  if (quality.issues.length > 0) {
+    throw new VoiceCloneError(422, quality.issues[0], quality.issues);
+  }
+  return { upload, quality };
+}
+
+// Sample count and total speech, checked before anything is sent to ElevenLabs.
+function requireEnoughSpeech(durations: number[]) {
+  if (durations.length < MIN_CLONE_SAMPLES) {
+    throw new VoiceCloneError(422, `Record at least ${MIN_CLONE_SAMPLES} samples (${durations.length} so far)`);
+  }
+  const speechSeconds = durations.reduce((sum, d) => sum + d, 0);
+  if (speechSeconds < MIN_TOTAL_SPEECH_SECONDS) {
+    throw new VoiceCloneError(
+      422,
+      `Samples need ${MIN_TOTAL_SPEECH_SECONDS}s of speech together (${speechSeconds}s so far); add another sample`
+    );
+  }
+}
+
+// The one-call flow behind /api/voice/clone. Every recording is checked
+// before the clone is created, so a rejected sample leaves no clone behind.
+export async function createVoiceCloneFromRecordings(
+  userId: string,
+  input: StartVoiceCloneInput,
+  uploadIds: string[]
+): Promise<VoiceClone> {
+  await checkCloneRequest(userId, input);
+
+  const unique = Array.from(new Set(uploadIds));
+  if (unique.length > MAX_CLONE_SAMPLES) {
+    throw new VoiceCloneError(422, `A voice clone takes at most ${MAX_CLONE_SAMPLES} samples`);
+  }
+  const checked = [];
+  for (const uploadId of unique) {
+    checked.push(await checkSampleRecording(userId, uploadId));
+  }
+  requireEnoughSpeech(checked.map(c => Math.round(c.quality.speakingSeconds)));
+
+  const clone = await startVoiceClone(userId, input);
+  try {
+    for (const { upload, quality } of checked) {
+      await storage.createVoiceCloneSample({
+        userId,
+        voiceCloneId: clone.id,
+        uploadId: upload.id,
+        duration: Math.round(quality.speakingSeconds),
+        status: "completed",
+      });
+    }
+    await storage.updateVoiceClone(clone.id, { sampleCount: checked.length });
+  } catch (error) {
+    await storage.deleteVoiceCloneSamples(clone.id);
+    await storage.deleteVoiceClone(clone.id);
+    throw error;
+  }
+
+  return finalizeVoiceClone(userId, clone.id);
+}
+
+export async function removeVoiceCloneSample(userId: string, voiceCloneId: string, sampleId: string): Promise<VoiceClone> {
+  const clone = await requireOwnedClone(userId, voiceCloneId);
+  requireCollecting(clone);
+
+  const samples = await storage.getVoiceCloneSamples(clone.id);
+  const sample = samples.find(s => s.id === sampleId);
+  if (!sample) {
+    throw new VoiceCloneError(404, "Sample not found");
+  }
+
+  await storage.deleteVoiceCloneSample(sample.id);
+  await deleteSampleRecording(userId, sample);
+  return (await storage.updateVoiceClone(clone.id, { sampleCount: samples.length - 1 })) ?? clone;
+}
+
+async function deleteSampleRecording(userId: string, sample: VoiceCloneSample) {
+  if (!sample.uploadId) return;
+  const upload = await storage.getAudioUpload(sample.uploadId, userId);
+  if (upload) await deleteRecording(upload);
+}
+
+// Sends the samples to ElevenLabs. Runs within the request; a client that
+// times out can poll the status until it settles.
+export async function finalizeVoiceClone(userId: string, voiceCloneId: string): Promise<VoiceClone> {
+  const clone = await requireOwnedClone(userId, voiceCloneId);
+  requireCollecting(clone);
+
+  const samples = (await storage.getVoiceCloneSamples(clone.id)).filter(s => s.uploadId);
+  requireEnoughSpeech(samples.map(s => s.duration ?? 0));
+
+  const audioSamples = [];
+  for (let i = 0; i < samples.length; i++) {
+    const { audio, format } = await loadAudioUpload(userId, samples[i].uploadId as string);
+    audioSamples.push({ buffer: audio, filename: `sample_${i + 1}.${format.extension}`, mimeType: format.mimeType });
+  }
+
+  const processing = await storage.transitionVoiceClone(clone.id, ["pending", "failed"], {
+    status: "processing",
+    errorMessage: null,
+  });
+  if (!processing) {
+    throw new VoiceCloneError(409, "Voice clone is already being created");
+  }
+
+  const result = await createVoiceClone(clone.name || "My Voice", clone.description || "", audioSamples);
+  const settled = await storage.transitionVoiceClone(
+    clone.id,
+    ["processing"],
+    result.success && result.voiceId
+      ? { status: "completed", elevenLabsVoiceId: result.voiceId, errorMessage: null }
+      : { status: "failed", errorMessage: (result.error || "Voice cloning failed").slice(0, 255) }
+  );
+  return settled ?? processing;
+}
+
+// The clone and its samples. A clone stuck processing past the timeout is
+// marked failed so it can be retried.
+export async function getVoiceCloneStatus(
+  userId: string,
+  voiceCloneId: string
+): Promise<{ voiceClone: VoiceClone; samples: VoiceCloneSample[]; requirements: VoiceCloneRequirements }> {
+  let clone = await requireOwnedClone(userId, voiceCloneId);
+
+  const changedAt = clone.statusChangedAt?.getTime() ?? 0;
+  if (clone.status === "processing" && Date.now() - changedAt > PROCESSING_TIMEOUT_MS) {
+    clone =
+      (await storage.transitionVoiceClone(clone.id, ["processing"], {
+        status: "failed",
+        errorMessage: "Voice cloning timed out; try again",
+      })) ?? clone;
+  }
+
+  return {
+    voiceClone: clone,
+    samples: await storage.getVoiceCloneSamples(clone.id),
+    requirements: VOICE_CLONE_REQUIREMENTS,
+  };
+}
+
+// Makes the clone the voice for the user's TTS.
+export async function useVoiceClone(userId: string, voiceCloneId: string): Promise<VoiceClone> {
+  const clone = await requireOwnedClone(userId, voiceCloneId);
+  if (clone.status !== "completed" || !clone.elevenLabsVoiceId) {
+    throw new VoiceCloneError(409, "Voice clone is not ready yet");
+  }
+
+  await storage.setDefaultVoiceClone(userId, clone.id);
+  await storage.upsertUserVoicePreferences(userId, {
+    selectedVoiceId: clone.elevenLabsVoiceId,
+    ttsProvider: "elevenlabs",
+  });
+  return { ...clone, isDefault: true };
+}
+
+// Deletes the voice at ElevenLabs, then the samples' recordings and the
+// clone. If ElevenLabs fails to delete it, nothing is removed here so the
+// user can retry.
+export async function removeVoiceClone(userId: string, voiceCloneId: string): Promise<void> {
+  const clone = await requireOwnedClone(userId, voiceCloneId);
+  if (clone.status === "processing") {
+    throw new VoiceCloneError(409, "Voice clone is being created; try again in a moment");
+  }
+
+  if (clone.elevenLabsVoiceId) {
+    if (!isElevenLabsAvailable()) {
+      console.warn(`ElevenLabs is not configured; voice ${clone.elevenLabsVoiceId} must be deleted there by hand`);
+    } else if (!(await deleteVoiceClone(clone.elevenLabsVoiceId))) {
+      throw new VoiceCloneError(502, "Voice could not be deleted at ElevenLabs; try again");
+    }
+  }
+
+  const samples = await storage.getVoiceCloneSamples(clone.id);
+  await storage.deleteVoiceCloneSamples(clone.id);
+  for (const sample of samples) {
+    await deleteSampleRecording(userId, sample);
+  }
+  await storage.deleteVoiceClone(clone.id);
+
+  const prefs = await storage.getUserVoicePreferences(userId);
+  if (clone.elevenLabsVoiceId && prefs?.selectedVoiceId === clone.elevenLabsVoiceId) {
+    await storage.upsertUserVoicePreferences(userId, { selectedVoiceId: DEFAULT_VOICE_ID });
+  }
+}
@@ -0,0 +1,332 @@
+import type { TtsSection } from "./services/ttsProvider.js";
+
+/**
+ * Voice-copy QA against VOICE_QA.md: the voice is a calm observer that sets a
+ * moment and leaves space. Every utterance is checked before TTS for question
+ * forms, exclamations and emoji, coaching language, upbeat praise and
+ * intensifiers, and sentence length.
+ *
+ * Mirror AI chat replies (the "chat" section) are the coach's own words and
+ * are shown on screen as they are spoken, so only the delivery rules apply
+ * there: emoji, exclamations and sentence length.
+ *
+ * Mechanical failures are rewritten (punctuation, emoji, intensifiers, long
+ * sentences split at a clause break, "What would you say?" dropped). Failures
+ * that need a writer, such as coaching or praise inside a longer sentence,
+ * are flagged and left as they are.
+ */
+
+export type VoiceRuleId =
+  | "question"
+  | "exclamation"
+  | "emoji"
+  | "coaching"
+  | "praise"
+  | "intensifier"
+  | "sentence-length"
+  | "single-sentence";
+
+export interface VoiceQaViolation {
+  rule: VoiceRuleId;
+  severity: "error" | "warning";
+  message: string;
+  text: string;
+  // True when the rewrite resolved it.
+  fixed: boolean;
+}
+
+export interface VoiceQaResult {
+  section: TtsSection;
+  original: string;
+  text: string;
+  // 0-100 for the original text; each violation costs points whether or not it was fixed.
+  score: number;
+  violations: VoiceQaViolation[];
+  // No unresolved errors remain in `text`.
+  passed: boolean;
+}
+
+// Scene-setting lines are the shortest; analysis can carry a little more.
+const MAX_SENTENCE_WORDS: Record<TtsSection, number> = {
+  scenario: 18,
+  "analysis-what": 22,
+  "analysis-how": 22,
+  "analysis-reframe": 22,
+  general: 26,
+  chat: 26,
+};
+
+// Sections whose wording is read as written; see the header comment.
+const CONVERSATIONAL_SECTIONS: TtsSection[] = ["chat"];
+
+// Shortest half a long sentence can be split into.
+const MIN_SPLIT_WORDS = 4;
+
+const ERROR_PENALTY = 20;
+const WARNING_PENALTY = 8;
+
+const WHAT_WOULD_YOU_SAY = /^(?:so,?\s+)?(?:what|how)\s+(?:would|do|will|should|could|might)\s+you\s+(?:say|respond|reply|answer|do|react|handle)\b/i;
+
+const QUESTION_OPENERS = /^(?:what|why|how|when|where|who|which|do|does|did|can|could|would|will|should|is|are|was|were|have|has|shall|may)\b/i;
+
+const COACHING_PHRASES = [
+  "you should", "you must", "next time", "try to", "make sure",
+  "remember to", "don't forget", "be sure to", "focus on", "work on", "it's important to", "the key is",
+];
+
+// Sentence-initial verbs that turn an observation into a direction.
+const COACHING_OPENERS = [
+  "try", "remember", "consider", "focus", "imagine", "practice", "practise", "keep", "stay", "avoid",
+  "don't", "take", "breathe", "think about", "ask", "say", "tell them", "speak", "slow down",
+];
+
+const PRAISE = [
+  "great job", "good job", "well done", "nice work", "great work", "nailed it", "amazing", "awesome",
+  "fantastic", "incredible", "brilliant", "excellent", "wonderful", "perfect", "proud of you",
+  "you've got this", "you got this", "keep it up", "keep going", "way to go", "love that", "love it",
+];
+
+// Dropped from the text; the sentence reads the same without them.
+const INTENSIFIERS = ["super", "totally", "absolutely", "incredibly", "extremely", "truly", "hugely", "massively"];
+
+// Short sentences made of praise alone ("Great job!") are dropped entirely.
+const PRAISE_ONLY_MAX_WORDS = 4;
+
+// Symbols and dingbats, the astral emoji planes (as surrogate pairs), and joiners.
+const EMOJI = /[\u2600-\u27BF\uFE0F\u200D]|\uD83C[\uDC00-\uDFFF]|\uD83D[\uDC00-\uDFFF]|\uD83E[\uDC00-\uDFFF]/g;
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/'/g, "['’]");
+}
+
+function phrasePattern(words: string[], flags = "gi"): RegExp {
+  return new RegExp(`\\b(?:${words.map(escapeRegex).join("|")})\\b`, flags);
+}
+
+const COACHING_PATTERN = phrasePattern(COACHING_PHRASES);
+const COACHING_OPENER_PATTERN = new RegExp(`^(?:${COACHING_OPENERS.map(escapeRegex).join("|")})\\b`, "i");
+const PRAISE_PATTERN = phrasePattern(PRAISE);
+const INTENSIFIER_PATTERN = phrasePattern(INTENSIFIERS);
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// Typographic punctuation the TTS path would otherwise strip as non-ASCII.
+function normalizePunctuation(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s*[—–]\s*/g, ", ")
+    .replace(/…/g, "...");
+}
+
+// Quoted speech belongs to the other person in a scenario, so coaching and
+// praise rules skip it; punctuation rules still apply.
+function unquoted(sentence: string): string {
+  return sentence.replace(/"[^"]*"?/g, " ");
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+(?=["A-Z0-9])/)
+    .map(part => part.trim())
+    .filter(Boolean);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// Splits at the clause break nearest the middle, leaving both halves at
+// least MIN_SPLIT_WORDS long. Returns undefined when there is no such break.
+function splitLongSentence(sentence: string): [string, string] | undefined {
+  const body = sentence.replace(/[.]+$/, "");
+  const breaks = Array.from(body.matchAll(/[,;:]\s+|\s+(?:and|but|so)\s+/g));
+  const middle = body.length / 2;
+
+  const candidates = breaks
+    .map(match => {
+      const left = body.slice(0, match.index).trim();
+      const right = body.slice((match.index ?? 0) + match[0].length).trim();
+      return { left, right, distance: Math.abs((match.index ?? 0) - middle) };
+    })
+    .filter(c => wordCount(c.left) >= MIN_SPLIT_WORDS && wordCount(c.right) >= MIN_SPLIT_WORDS)
+    .sort((a, b) => a.distance - b.distance);
+
+  const best = candidates[0];
+  return best ? [`${best.left}.`, `${capitalize(best.right)}.`] : undefined;
+}
+
+function fitSentence(sentence: string, maxWords: number, depth = 0): string[] {
+  if (wordCount(sentence) <= maxWords || depth >= 2) return [sentence];
+  const split = splitLongSentence(sentence);
+  if (!split) return [sentence];
+  return split.flatMap(part => fitSentence(part, maxWords, depth + 1));
+}
+
+export function reviewVoiceCopy(text: string, options: { section?: TtsSection } = {}): VoiceQaResult {
+  const section = options.section ?? "general";
+  const maxWords = MAX_SENTENCE_WORDS[section];
+  const conversational = CONVERSATIONAL_SECTIONS.includes(section);
+  const violations: VoiceQaViolation[] = [];
+  const add = (violation: VoiceQaViolation) => violations.push(violation);
+
+  let working = normalizePunctuation(text);
+
+  const emoji = working.match(EMOJI);
+  if (emoji) {
+    add({ rule: "emoji", severity: "error", message: "No emoji in voice copy.", text: emoji.join(""), fixed: true });
+    working = working.replace(EMOJI, "");
+  }
+
+  const reviewSentence = (original: string): string[] => {
+    let sentence = original;
+    const spoken = unquoted(sentence).trim();
+
+    if (!conversational && WHAT_WOULD_YOU_SAY.test(spoken)) {
+      add({ rule: "question", severity: "error", message: "Never ask the user what they would say.", text: sentence, fixed: true });
+      return [];
+    }
+
+    if (!conversational && sentence.includes("?")) {
+      const asksUser = spoken.includes("?") && QUESTION_OPENERS.test(spoken);
+      add({
+        rule: "question",
+        severity: "error",
+        message: asksUser
+          ? "Reads as a question even with a full stop; rewrite as an observation."
+          : "No questions; the line ends with a full stop.",
+        text: sentence,
+        fixed: !asksUser,
+      });
+      sentence = sentence.replace(/\?+/g, ".");
+    }
+
+    if (sentence.includes("!")) {
+      add({ rule: "exclamation", severity: "error", message: "No exclamation points.", text: sentence, fixed: true });
+      sentence = sentence.replace(/!+/g, ".");
+    }
+
+    const praise = conversational ? null : unquoted(sentence).match(PRAISE_PATTERN);
+    if (praise) {
+      const praiseOnly = wordCount(sentence) <= PRAISE_ONLY_MAX_WORDS;
+      add({
+        rule: "praise",
+        severity: "error",
+        message: `"${praise[0]}" is praise; the voice observes without judging.`,
+        text: sentence,
+        fixed: praiseOnly,
+      });
+      if (praiseOnly) return [];
+    }
+
+    const coaching = conversational
+      ? null
+      : unquoted(sentence).match(COACHING_PATTERN) ?? unquoted(sentence).trim().match(COACHING_OPENER_PATTERN);
+    if (coaching) {
+      add({
+        rule: "coaching",
+        severity: "error",
+        message: `"${coaching[0]}" coaches the user; set the moment and leave space.`,
+        text: sentence,
+        fixed: false,
+      });
+    }
+
+    const intensifiers = conversational ? null : unquoted(sentence).match(INTENSIFIER_PATTERN);
+    if (intensifiers) {
+      add({
+        rule: "intensifier",
+        severity: "warning",
+        message: `"${intensifiers.join('", "')}" raises the energy; the voice stays level.`,
+        text: sentence,
+        fixed: true,
+      });
+      sentence = sentence
+        .replace(INTENSIFIER_PATTERN, "")
+        .replace(/\s{2,}/g, " ")
+        .replace(/\s+([.,;:])/g, "$1")
+        .trim();
+      sentence = capitalize(sentence);
+      if (!/[a-z0-9]/i.test(sentence)) return [];
+    }
+
+    const fitted = fitSentence(sentence, maxWords);
+    if (wordCount(sentence) > maxWords) {
+      const fixed = fitted.every(part => wordCount(part) <= maxWords);
+      add({
+        rule: "sentence-length",
+        severity: "warning",
+        message: `${wordCount(sentence)} words; keep sentences to ${maxWords} or fewer.`,
+        text: sentence,
+        fixed,
+      });
+    }
+    return fitted;
+  };
+
+  // Line breaks are kept; blank lines mark pauses between beats of a scene.
+  const lines = working.split("\n").map(line => splitSentences(line).map(reviewSentence));
+  const sentenceCount = lines.flat(2).length;
+
+  if (section === "analysis-reframe" && sentenceCount > 1) {
+    add({
+      rule: "single-sentence",
+      severity: "warning",
+      message: "A reframe is one sentence.",
+      text: lines.flat(2).join(" "),
+      fixed: false,
+    });
+  }
+
+  const penalty = violations.reduce((sum, v) => sum + (v.severity === "error" ? ERROR_PENALTY : WARNING_PENALTY), 0);
+
+  return {
+    section,
+    original: text,
+    text: lines
+      .map(line => line.flat().join(" "))
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim(),
+    score: Math.max(0, 100 - penalty),
+    violations,
+    passed: !violations.some(v => v.severity === "error" && !v.fixed),
+  };
+}
+
+type SectionStats = {
+  checked: number;
+  rewritten: number;
+  flagged: number;
+  byRule: Partial<Record<VoiceRuleId, number>>;
+};
+
+const sectionStats = new Map<TtsSection, SectionStats>();
+
+// Tallies violations per section for this instance and logs the ones the
+// rewrite couldn't resolve.
+export function recordVoiceQa(result: VoiceQaResult) {
+  const stats = sectionStats.get(result.section) ?? { checked: 0, rewritten: 0, flagged: 0, byRule: {} };
+  stats.checked++;
+  if (result.violations.some(v => v.fixed)) stats.rewritten++;
+  if (!result.passed) stats.flagged++;
+  for (const violation of result.violations) {
+    stats.byRule[violation.rule] = (stats.byRule[violation.rule] ?? 0) + 1;
+  }
+  sectionStats.set(result.section, stats);
+
+  const unresolved = result.violations.filter(v => !v.fixed);
+  if (unresolved.length > 0) {
+    console.warn(
+      `Voice QA [${result.section}] score ${result.score}, unresolved ${unresolved.map(v => v.rule).join(", ")} ` +
+        `(${stats.flagged}/${stats.checked} flagged, ${stats.rewritten} rewritten):`,
+      result.original.slice(0, 120)
+    );
+  }
+}
+
+export function getVoiceQaStats(section: TtsSection): SectionStats | undefined {
+  return sectionStats.get(section);
+}
@@ -0,0 +1,2 @@
+ALTER TABLE "practice_sessions" ADD COLUMN "rubric_version" varchar;
+--> statement-breakpoint
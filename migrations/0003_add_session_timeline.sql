@@ -0,0 +1,2 @@
+ALTER TABLE "practice_sessions" ADD COLUMN "timeline" jsonb;
+--> statement-breakpoint
@@ -0,0 +1,6 @@
+ALTER TABLE "practice_sessions" ADD COLUMN "chain_key" varchar;
+--> statement-breakpoint
+ALTER TABLE "practice_sessions" ADD COLUMN "attempt_number" integer DEFAULT 1;
+--> statement-breakpoint
+CREATE INDEX "IDX_practice_sessions_chain" ON "practice_sessions" USING btree ("user_id","chain_key");
+--> statement-breakpoint
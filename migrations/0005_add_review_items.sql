@@ -0,0 +1,20 @@
+CREATE TABLE "review_items" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"item_type" varchar NOT NULL,
+	"item_key" varchar NOT NULL,
+	"category" varchar NOT NULL,
+	"ease_factor" real DEFAULT 2.5,
+	"interval_days" real DEFAULT 0,
+	"repetitions" integer DEFAULT 0,
+	"last_score" integer,
+	"last_tone" varchar,
+	"last_reviewed_at" timestamp,
+	"due_at" timestamp DEFAULT now(),
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "review_items" ADD CONSTRAINT "review_items_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE UNIQUE INDEX "IDX_review_items_user_item" ON "review_items" USING btree ("user_id","item_type","item_key");
+--> statement-breakpoint
@@ -0,0 +1,15 @@
+CREATE TABLE "skill_ratings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"category" varchar NOT NULL,
+	"rating" real DEFAULT 1200,
+	"rating_deviation" real DEFAULT 350,
+	"sessions_rated" integer DEFAULT 0,
+	"last_rated_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "skill_ratings" ADD CONSTRAINT "skill_ratings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE UNIQUE INDEX "IDX_skill_ratings_user_category" ON "skill_ratings" USING btree ("user_id","category");
+--> statement-breakpoint
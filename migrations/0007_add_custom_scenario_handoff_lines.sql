@@ -0,0 +1,2 @@
+ALTER TABLE "custom_scenarios" ADD COLUMN "handoff_lines" text[];
+--> statement-breakpoint
@@ -0,0 +1,18 @@
+CREATE TABLE "content_items" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"kind" varchar NOT NULL,
+	"content_key" varchar NOT NULL,
+	"locale" varchar DEFAULT 'en' NOT NULL,
+	"version" integer DEFAULT 1 NOT NULL,
+	"status" varchar DEFAULT 'draft' NOT NULL,
+	"category" varchar NOT NULL,
+	"body" jsonb NOT NULL,
+	"published_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "IDX_content_items_version" ON "content_items" USING btree ("kind","content_key","locale","version");
+--> statement-breakpoint
+CREATE INDEX "IDX_content_items_status" ON "content_items" USING btree ("kind","status","locale");
+--> statement-breakpoint
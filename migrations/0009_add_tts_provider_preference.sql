@@ -0,0 +1 @@
+ALTER TABLE "user_voice_preferences" ADD COLUMN "tts_provider" varchar;
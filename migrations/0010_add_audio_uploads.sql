@@ -0,0 +1,18 @@
+CREATE TABLE "audio_uploads" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"mime_type" varchar NOT NULL,
+	"size_bytes" integer NOT NULL,
+	"duration_seconds" real NOT NULL,
+	"storage_path" varchar NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "audio_uploads" ADD CONSTRAINT "audio_uploads_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX "IDX_audio_uploads_user" ON "audio_uploads" USING btree ("user_id","created_at");
+--> statement-breakpoint
+ALTER TABLE "voice_journals" ADD COLUMN "upload_id" varchar;
+--> statement-breakpoint
+ALTER TABLE "voice_journals" ADD CONSTRAINT "voice_journals_upload_id_audio_uploads_id_fk" FOREIGN KEY ("upload_id") REFERENCES "public"."audio_uploads"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
@@ -0,0 +1,6 @@
+ALTER TABLE "user_progress" ADD COLUMN "recording_retention" varchar DEFAULT '30d';
+--> statement-breakpoint
+ALTER TABLE "practice_sessions" ADD COLUMN "upload_id" varchar;
+--> statement-breakpoint
+ALTER TABLE "practice_sessions" ADD CONSTRAINT "practice_sessions_upload_id_audio_uploads_id_fk" FOREIGN KEY ("upload_id") REFERENCES "public"."audio_uploads"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
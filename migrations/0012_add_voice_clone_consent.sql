@@ -0,0 +1,12 @@
+ALTER TABLE "voice_clones" ADD COLUMN "consent_text" text;
+--> statement-breakpoint
+ALTER TABLE "voice_clones" ADD COLUMN "consent_version" varchar;
+--> statement-breakpoint
+ALTER TABLE "voice_clones" ADD COLUMN "consented_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "voice_clones" ADD COLUMN "status_changed_at" timestamp DEFAULT now();
+--> statement-breakpoint
+ALTER TABLE "voice_clone_samples" ADD COLUMN "upload_id" varchar;
+--> statement-breakpoint
+ALTER TABLE "voice_clone_samples" ADD CONSTRAINT "voice_clone_samples_upload_id_audio_uploads_id_fk" FOREIGN KEY ("upload_id") REFERENCES "public"."audio_uploads"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
@@ -0,0 +1,8 @@
+ALTER TABLE "conversations" ADD COLUMN "title" varchar;
+--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "title_is_custom" boolean DEFAULT false;
+--> statement-breakpoint
+ALTER TABLE "conversations" ADD COLUMN "archived_at" timestamp;
+--> statement-breakpoint
+CREATE INDEX "IDX_conversations_user" ON "conversations" USING btree ("user_id","updated_at");
+--> statement-breakpoint
@@ -0,0 +1,4 @@
+ALTER TABLE "conversations" ADD COLUMN "memory" jsonb;
+--> statement-breakpoint
+ALTER TABLE "rehearsals" ADD COLUMN "memory" jsonb;
+--> statement-breakpoint
@@ -0,0 +1,10 @@
+ALTER TABLE "rehearsals" ALTER COLUMN "scenario_id" DROP NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "rehearsals" ADD COLUMN "custom_scenario_id" varchar;
+--> statement-breakpoint
+ALTER TABLE "rehearsals" ADD CONSTRAINT "rehearsals_custom_scenario_id_custom_scenarios_id_fk" FOREIGN KEY ("custom_scenario_id") REFERENCES "public"."custom_scenarios"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+UPDATE "rehearsals" SET "custom_scenario_id" = "scenario_id", "scenario_id" = NULL WHERE "scenario_id" IN (SELECT "id" FROM "custom_scenarios");
+--> statement-breakpoint
+DELETE FROM "scenarios" WHERE "id" IN (SELECT "id" FROM "custom_scenarios");
+--> statement-breakpoint
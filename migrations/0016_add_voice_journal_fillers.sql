@@ -0,0 +1,2 @@
+ALTER TABLE "voice_journals" ADD COLUMN "filler_breakdown" jsonb;
+--> statement-breakpoint
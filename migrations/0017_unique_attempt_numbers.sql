@@ -0,0 +1,12 @@
+UPDATE "practice_sessions" SET "attempt_number" = "numbered"."attempt_number"
+FROM (
+  SELECT "id", row_number() OVER (PARTITION BY "user_id", "chain_key" ORDER BY "created_at", "id") AS "attempt_number"
+  FROM "practice_sessions"
+  WHERE "chain_key" IS NOT NULL
+) AS "numbered"
+WHERE "practice_sessions"."id" = "numbered"."id";
+--> statement-breakpoint
+DROP INDEX "IDX_practice_sessions_chain";
+--> statement-breakpoint
+CREATE UNIQUE INDEX "IDX_practice_sessions_attempt" ON "practice_sessions" USING btree ("user_id","chain_key","attempt_number");
+--> statement-breakpoint
@@ -0,0 +1,59 @@
+import { PRACTICE_HANDOFFS } from "../shared/promptBank.js";
+import { scenarios } from "../shared/scenarios.js";
+import { lintScenarioText, type ScenarioLintViolation } from "../shared/scenarioLint.js";
+
+// Lints every built-in handoff line and scenario context against the Mirror
+// Play Scenario Rules. Exits non-zero when any error is found; pass --strict
+// to fail on warnings too.
+
+// Scenario contexts set a scene over several short lines, so they get more room.
+const CONTEXT_MAX_WORDS = 60;
+
+interface AuditEntry {
+  source: string;
+  text: string;
+  violations: ScenarioLintViolation[];
+}
+
+function formatViolation(v: ScenarioLintViolation): string {
+  const span = JSON.stringify(v.text.length > 60 ? `${v.text.slice(0, 57)}...` : v.text);
+  const fix = v.replacement !== undefined ? ` → ${JSON.stringify(v.replacement)}` : "";
+  return `  ${v.severity.padEnd(7)} ${v.rule} [${v.start}, ${v.end}) ${span}${fix}\n          ${v.message} ${v.suggestion}`;
+}
+
+function auditScenarios() {
+  const strict = process.argv.includes("--strict");
+
+  const entries: AuditEntry[] = [
+    ...PRACTICE_HANDOFFS.map(h => ({
+      source: `handoff ${h.id}`,
+      text: h.line,
+      violations: lintScenarioText(h.line),
+    })),
+    ...scenarios.map(s => ({
+      source: `scenario ${s.id} context`,
+      text: s.context,
+      violations: lintScenarioText(s.context, { maxWords: CONTEXT_MAX_WORDS }),
+    })),
+  ];
+
+  let errors = 0;
+  let warnings = 0;
+  for (const entry of entries) {
+    if (entry.violations.length === 0) continue;
+    console.log(`${entry.source}: ${JSON.stringify(entry.text)}`);
+    for (const violation of entry.violations) {
+      console.log(formatViolation(violation));
+      if (violation.severity === "error") errors++;
+      else warnings++;
+    }
+  }
+
+  console.log(`\nChecked ${entries.length} texts: ${errors} errors, ${warnings} warnings.`);
+
+  if (errors > 0 || (strict && warnings > 0)) {
+    process.exit(1);
+  }
+}
+
+auditScenarios();
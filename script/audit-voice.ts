@@ -0,0 +1,90 @@
+import { PRACTICE_HANDOFFS, type PracticeHandoff } from "../shared/promptBank.js";
+import { scenarios as bundledScenarios, getDuoScenarios, type Scenario } from "../shared/scenarios.js";
+import { reviewVoiceCopy, type VoiceQaResult } from "../lib/voiceQa.js";
+import type { TtsSection } from "../lib/services/ttsProvider.js";
+
+// Runs voice QA (see VOICE_QA.md) over every handoff line and scenario text
+// the voice can read. Exits non-zero when any text fails in a way the rewrite
+// can't fix; pass --strict to fail on any violation. --published reads the
+// content bank instead of the bundled arrays (needs DATABASE_URL), and --json
+// prints the full results.
+
+interface VoiceAuditEntry {
+  source: string;
+  result: VoiceQaResult;
+}
+
+async function loadContent(published: boolean): Promise<{ handoffs: PracticeHandoff[]; scenarios: Scenario[] }> {
+  if (!published) {
+    return { handoffs: PRACTICE_HANDOFFS, scenarios: [...bundledScenarios, ...getDuoScenarios()] };
+  }
+  const { getPublishedHandoffs, getPublishedScenarios } = await import("../lib/contentBank.js");
+  const [handoffs, scenarios] = await Promise.all([getPublishedHandoffs(), getPublishedScenarios()]);
+  return { handoffs, scenarios: [...scenarios, ...getDuoScenarios()] };
+}
+
+function review(source: string, text: string, section: TtsSection): VoiceAuditEntry {
+  return { source, result: reviewVoiceCopy(text, { section }) };
+}
+
+async function auditVoice() {
+  const strict = process.argv.includes("--strict");
+  const asJson = process.argv.includes("--json");
+  const { handoffs, scenarios } = await loadContent(process.argv.includes("--published"));
+
+  const entries: VoiceAuditEntry[] = [
+    ...handoffs.map(h => review(`handoff ${h.id}`, h.line, "scenario")),
+    ...scenarios.flatMap(s => [
+      review(`scenario ${s.id} context`, s.context, "scenario"),
+      review(`scenario ${s.id} description`, s.description, "general"),
+    ]),
+  ];
+
+  if (asJson) {
+    console.log(JSON.stringify(entries, null, 2));
+  } else {
+    for (const { source, result } of entries) {
+      if (result.violations.length === 0) continue;
+      console.log(`${source} [${result.section}] score ${result.score}${result.passed ? "" : " FAIL"}`);
+      console.log(`  ${JSON.stringify(result.original)}`);
+      for (const v of result.violations) {
+        console.log(`  ${v.severity.padEnd(7)} ${v.rule.padEnd(15)} ${v.fixed ? "fixed  " : "flagged"} ${v.message}`);
+      }
+      if (result.violations.some(v => v.fixed)) {
+        console.log(`  → ${JSON.stringify(result.text)}`);
+      }
+    }
+
+    const sections = new Map<string, VoiceQaResult[]>();
+    for (const { result } of entries) {
+      sections.set(result.section, [...(sections.get(result.section) ?? []), result]);
+    }
+    console.log("\nBy section:");
+    for (const [section, results] of Array.from(sections)) {
+      const average = results.reduce((sum, r) => sum + r.score, 0) / results.length;
+      const byRule = new Map<string, number>();
+      for (const v of results.flatMap(r => r.violations)) byRule.set(v.rule, (byRule.get(v.rule) ?? 0) + 1);
+      const rules = Array.from(byRule, ([rule, count]) => `${rule} ${count}`).join(", ") || "none";
+      console.log(
+        `  ${section.padEnd(16)} ${results.length} texts, avg score ${average.toFixed(1)}, ` +
+          `${results.filter(r => r.violations.some(v => v.fixed)).length} rewritten, ${results.filter(r => !r.passed).length} failing (${rules})`
+      );
+    }
+  }
+
+  const failing = entries.filter(e => !e.result.passed).length;
+  const withViolations = entries.filter(e => e.result.violations.length > 0).length;
+  if (!asJson) {
+    console.log(`\nChecked ${entries.length} texts: ${failing} failing, ${withViolations} with violations.`);
+  }
+
+  if (failing > 0 || (strict && withViolations > 0)) {
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+auditVoice().catch(error => {
+  console.error("Voice QA audit failed:", error);
+  process.exit(1);
+});
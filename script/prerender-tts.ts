@@ -0,0 +1,115 @@
+import { PRACTICE_HANDOFFS, type PracticeHandoff } from "../shared/promptBank.js";
+import { scenarios as bundledScenarios, type Scenario } from "../shared/scenarios.js";
+import { DEFAULT_VOICES, DEFAULT_VOICE_ID } from "../lib/elevenLabsClient.js";
+import { getTtsProviderChain, isTtsProviderName, synthesizeSpeech, type TtsOptions } from "../lib/services/ttsProvider.js";
+import { getTtsPacing } from "../lib/services/ttsPacing.js";
+import { getTtsCacheMetrics, isTtsCacheEnabled } from "../lib/ttsCache.js";
+
+// Renders every handoff line and scenario context into the TTS cache so
+// scenario playback is served from storage. Lines already cached are skipped
+// by the cache itself, so re-running only renders what changed.
+//
+//   --all-voices   render for every default voice instead of the default one
+//   --voice <id>   render for one voice
+//   --provider <n> render with one TTS provider (elevenlabs, openai, local)
+//   --published    read the content bank instead of the bundled arrays
+//   --dry-run      list what would be rendered
+
+const DIFFICULTIES: NonNullable<TtsOptions["difficulty"]>[] = ["beginner", "intermediate", "advanced"];
+
+interface RenderJob {
+  source: string;
+  text: string;
+  options: TtsOptions;
+}
+
+function argValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function loadContent(published: boolean): Promise<{ handoffs: PracticeHandoff[]; scenarios: Scenario[] }> {
+  if (!published) return { handoffs: PRACTICE_HANDOFFS, scenarios: bundledScenarios };
+  const { getPublishedHandoffs, getPublishedScenarios } = await import("../lib/contentBank.js");
+  const [handoffs, scenarios] = await Promise.all([getPublishedHandoffs(), getPublishedScenarios()]);
+  return { handoffs, scenarios };
+}
+
+// Jobs that would render the same audio (same text, section and pacing) are
+// rendered once; scenario contexts are paced alike at every difficulty.
+function uniqueRenders(jobs: RenderJob[]): RenderJob[] {
+  const unique = new Map<string, RenderJob>();
+  for (const job of jobs) {
+    const key = JSON.stringify([job.text, job.options.section, getTtsPacing(job.options)]);
+    if (!unique.has(key)) unique.set(key, job);
+  }
+  return Array.from(unique.values());
+}
+
+async function prerenderTts() {
+  const dryRun = process.argv.includes("--dry-run");
+  const provider = argValue("--provider");
+  if (provider && !isTtsProviderName(provider)) {
+    throw new Error(`Unknown TTS provider: ${provider}`);
+  }
+  const voices = process.argv.includes("--all-voices")
+    ? DEFAULT_VOICES.map(v => v.id)
+    : [argValue("--voice") || DEFAULT_VOICE_ID];
+  const { handoffs, scenarios } = await loadContent(process.argv.includes("--published"));
+
+  // Handoffs play at their own difficulty (see resolvePracticeDifficulty);
+  // scenario contexts can be played at any of them.
+  const jobs: RenderJob[] = uniqueRenders([
+    ...handoffs.map(h => ({
+      source: `handoff ${h.id}`,
+      text: h.line,
+      options: { section: "scenario" as const, difficulty: h.difficulty },
+    })),
+    ...scenarios.flatMap(s =>
+      DIFFICULTIES.map(difficulty => ({
+        source: `scenario ${s.id} (${difficulty})`,
+        text: s.context,
+        options: { section: "scenario" as const, difficulty },
+      }))
+    ),
+  ]);
+
+  console.log(`${jobs.length} texts × ${voices.length} voice(s) = ${jobs.length * voices.length} renders`);
+  if (dryRun) {
+    for (const job of jobs) console.log(`  ${job.source}`);
+    return;
+  }
+
+  const chain = getTtsProviderChain(provider);
+  if (chain.length === 0 || (provider && chain[0].name !== provider)) {
+    throw new Error(provider ? `TTS provider ${provider} is not configured` : "No TTS provider is configured");
+  }
+  console.log(`Rendering with ${chain[0].name}`);
+  if (!isTtsCacheEnabled()) {
+    throw new Error("TTS cache is disabled; set TTS_CACHE_BUCKET or TTS_CACHE_DIR");
+  }
+
+  let failed = 0;
+  for (const voiceId of voices) {
+    for (const job of jobs) {
+      const result = await synthesizeSpeech(job.text, { ...job.options, voiceId, provider: chain[0].name, fallback: false });
+      if (!result) {
+        failed++;
+        console.error(`Failed: ${job.source} (${voiceId})`);
+      }
+    }
+  }
+
+  const metrics = getTtsCacheMetrics();
+  console.log(
+    `Cache ${metrics.backend}: ${metrics.hits} already cached, ${metrics.writes} rendered, ${failed} failed, ${metrics.errors} cache errors.`
+  );
+  if (failed > 0) process.exit(1);
+}
+
+prerenderTts()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error("Error pre-rendering TTS:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,23 @@
+import { purgeExpiredRecordings } from "../lib/recordings.js";
+
+// Deletes recordings past each user's retention setting (7 or 30 days; kept
+// forever otherwise). Run it daily. --dry-run counts without deleting.
+
+async function purgeRecordings() {
+  const dryRun = process.argv.includes("--dry-run");
+  const results = await purgeExpiredRecordings({ dryRun });
+
+  for (const { retention, cutoff, deleted, failed } of results) {
+    console.log(
+      `${retention.padEnd(4)} before ${cutoff.toISOString()}: ${deleted} ${dryRun ? "would be deleted" : "deleted"}` +
+        (failed > 0 ? `, ${failed} failed` : "")
+    );
+  }
+
+  process.exit(results.some(r => r.failed > 0) ? 1 : 0);
+}
+
+purgeRecordings().catch(error => {
+  console.error("Recording purge failed:", error);
+  process.exit(1);
+});
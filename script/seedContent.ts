@@ -0,0 +1,26 @@
+import { seedContentBank } from "../lib/contentBank.js";
+
+// Copies the bundled handoffs and scenarios into content_items as version 1,
+// published unless the scenario lint finds errors (those stay drafts). Keys
+// that already have a row are left alone, so this is safe to re-run after the
+// content team has edited anything.
+export async function seedContent() {
+  const { created, drafted, skipped } = await seedContentBank();
+  console.log(`Created ${created} content items (${drafted} left as drafts with lint errors), skipped ${skipped} already in the bank.`);
+}
+
+import { fileURLToPath } from 'url';
+
+const isMainModule = process.argv[1] && fileURLToPath(import.meta.url) === process.argv[1];
+
+if (isMainModule) {
+  seedContent()
+    .then(() => {
+      console.log("Content seeding complete!");
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("Error seeding content:", error);
+      process.exit(1);
+    });
+}
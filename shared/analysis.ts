@@ -0,0 +1,117 @@
+import { z } from "zod";
+import { PRACTICE_CATEGORIES } from "./categories.js";
+
+const score = z.number().min(0).max(100).transform(Math.round);
+const sentence = z.string().trim().min(1);
+
+const PRACTICE_CATEGORY_IDS = PRACTICE_CATEGORIES.map(c => c.id) as [string, ...string[]];
+
+export const quickAnalysisSchema = z.object({
+  tone: sentence,
+  score,
+  tip: sentence,
+});
+
+export const fullAnalysisSchema = z.object({
+  tone: sentence,
+  secondaryTone: z.string().nullable().optional().transform(value => value || null),
+  score,
+  energy: z.enum(["low", "medium", "high"]),
+  pace: z.enum(["slow", "moderate", "fast"]),
+  emotionalClarity: score,
+  strengths: z.array(sentence).min(1).max(5),
+  areasToImprove: z.array(sentence).min(1).max(5),
+  coachingInsight: sentence,
+  exampleResponses: z.array(sentence).min(1).max(5),
+  whyItMatters: sentence,
+  bodyLanguageTip: sentence,
+});
+
+export const practiceFeedbackSchema = z.object({
+  overallRead: sentence,
+  whatsWorking: z.array(sentence).min(1),
+  whatCouldBeStronger: z.array(sentence).min(1),
+  optionalRewrite: z.string().nullable().optional().transform(value => value || null),
+});
+
+export const bestMomentInsightSchema = z.object({
+  title: sentence,
+  excerpt: sentence,
+  aiInsight: sentence,
+  tags: z.array(sentence).max(5).default([]),
+});
+
+// Tones the rehearsal engine reacts to; each one moves the character's
+// escalation up, down or not at all.
+export const REHEARSAL_TONES = ["calm", "assertive", "empathetic", "passive", "defensive", "aggressive"] as const;
+
+export const rehearsalTurnSchema = z.object({
+  tone: z.string().trim().toLowerCase().pipe(z.enum(REHEARSAL_TONES)),
+  objectiveMet: z.boolean(),
+  score,
+  note: sentence,
+});
+
+export const rehearsalDebriefSchema = z.object({
+  strengths: z.array(sentence).min(1).max(5),
+  improvements: z.array(sentence).min(1).max(5),
+  overallTip: sentence,
+});
+
+export const personalScenarioSchema = z.object({
+  title: sentence,
+  description: sentence,
+  category: z.string().trim().toLowerCase().pipe(z.enum(PRACTICE_CATEGORY_IDS)),
+  context: sentence,
+  handoffLines: z.array(sentence).min(1).max(5),
+  tips: z.array(sentence).min(1).max(4),
+  sampleResponse: sentence,
+});
+
+// Rolling summary of older conversation turns (lib/conversationMemory.ts).
+// Facts are things the user said about themselves that should outlive the
+// summary: names, relationships, goals.
+export const conversationSummarySchema = z.object({
+  summary: sentence,
+  facts: z.array(sentence).max(20).default([]),
+});
+
+// Events sent by the streaming variants of /api/practice/analyze and
+// /api/practice/analyze-voice, in the order they are emitted. `done` carries
+// the same payload as the plain JSON response.
+export type AnalysisStreamEvent = "transcription" | "analysis" | "coaching" | "rewards" | "done" | "error";
+
+export type QuickAnalysis = z.infer<typeof quickAnalysisSchema>;
+export type FullAnalysis = z.infer<typeof fullAnalysisSchema>;
+export type PracticeFeedback = z.infer<typeof practiceFeedbackSchema>;
+export type BestMomentInsight = z.infer<typeof bestMomentInsightSchema>;
+export type RehearsalTone = (typeof REHEARSAL_TONES)[number];
+export type RehearsalTurn = z.infer<typeof rehearsalTurnSchema>;
+export type RehearsalDebrief = z.infer<typeof rehearsalDebriefSchema>;
+export type PersonalScenario = z.infer<typeof personalScenarioSchema>;
+export type ConversationSummary = z.infer<typeof conversationSummarySchema>;
+
+// Tips stored on practice_sessions: the coaching insight first, then the
+// concrete areas to improve.
+export function getAnalysisTips(analysis: FullAnalysis): string[] {
+  return [analysis.coachingInsight, ...analysis.areasToImprove];
+}
+
+// Splits a full analysis into the tone/score reading and the coaching text,
+// which the streaming endpoints send as separate events.
+export function splitFullAnalysis(analysis: FullAnalysis) {
+  const { strengths, areasToImprove, coachingInsight, exampleResponses, whyItMatters, bodyLanguageTip, ...reading } =
+    analysis;
+  return {
+    reading,
+    coaching: {
+      strengths,
+      areasToImprove,
+      coachingInsight,
+      exampleResponses,
+      whyItMatters,
+      bodyLanguageTip,
+      tips: getAnalysisTips(analysis),
+    },
+  };
+}
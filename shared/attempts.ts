@@ -0,0 +1,154 @@
+import type { PracticeSession } from "./schema.js";
+
+/**
+ * Attempt chains: repeated answers to the same prompt.
+ *
+ * Every practice_sessions row carries a chain key (the handoff id when the
+ * client sends one, otherwise a hash of the prompt text) and its attempt
+ * number within that chain. Comparisons are made between consecutive attempts.
+ */
+
+export interface AttemptSummary {
+  id: string;
+  attemptNumber: number;
+  createdAt: string | null;
+  score: number | null;
+  tone: string | null;
+  response: string;
+  wordCount: number;
+  wordsPerMinute: number | null;
+  fillerWordCount: number | null;
+}
+
+export interface MetricDelta {
+  from: number | null;
+  to: number | null;
+  delta: number | null;
+}
+
+export interface WordDiffSegment {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+export interface AttemptComparison {
+  fromId: string;
+  toId: string;
+  score: MetricDelta;
+  tone: { from: string | null; to: string | null; changed: boolean };
+  wordCount: MetricDelta;
+  wordsPerMinute: MetricDelta;
+  fillerWordCount: MetricDelta;
+  wording: WordDiffSegment[];
+}
+
+export interface AttemptChain {
+  chainKey: string;
+  attempts: AttemptSummary[];
+  comparisons: AttemptComparison[];
+}
+
+function splitWords(text: string): string[] {
+  return text.split(/\s+/).filter(w => w.length > 0);
+}
+
+export function summarizeAttempt(session: PracticeSession): AttemptSummary {
+  return {
+    id: session.id,
+    attemptNumber: session.attemptNumber ?? 1,
+    createdAt: session.createdAt ? new Date(session.createdAt).toISOString() : null,
+    score: session.score,
+    tone: session.tone,
+    response: session.response,
+    wordCount: splitWords(session.response).length,
+    wordsPerMinute: session.wordsPerMinute,
+    fillerWordCount: session.fillerWordCount,
+  };
+}
+
+function metricDelta(from: number | null, to: number | null): MetricDelta {
+  return { from, to, delta: from !== null && to !== null ? to - from : null };
+}
+
+// The LCS table is quadratic, so longer answers get a coarse diff.
+export const MAX_DIFF_WORDS = 1000;
+
+// Word-level diff via longest common subsequence. Comparison ignores case and
+// punctuation; the segments keep the words as they were written. When either
+// side has more than MAX_DIFF_WORDS words the result is one removed and one
+// added segment: the answer was rewritten.
+export function diffWords(before: string, after: string): WordDiffSegment[] {
+  const a = splitWords(before);
+  const b = splitWords(after);
+  const key = (w: string) => w.toLowerCase().replace(/[^\w']/g, "");
+
+  if (a.length > MAX_DIFF_WORDS || b.length > MAX_DIFF_WORDS) {
+    const rewritten: WordDiffSegment[] = [];
+    if (a.length > 0) rewritten.push({ type: "removed", text: a.join(" ") });
+    if (b.length > 0) rewritten.push({ type: "added", text: b.join(" ") });
+    return rewritten;
+  }
+
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = key(a[i]) === key(b[j])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: WordDiffSegment[] = [];
+  const push = (type: WordDiffSegment["type"], word: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += ` ${word}`;
+    } else {
+      segments.push({ type, text: word });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (key(a[i]) === key(b[j])) {
+      push("same", b[j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+
+  return segments;
+}
+
+export function compareAttempts(previous: AttemptSummary, current: AttemptSummary): AttemptComparison {
+  return {
+    fromId: previous.id,
+    toId: current.id,
+    score: metricDelta(previous.score, current.score),
+    tone: {
+      from: previous.tone,
+      to: current.tone,
+      changed: (previous.tone || "").toLowerCase() !== (current.tone || "").toLowerCase(),
+    },
+    wordCount: metricDelta(previous.wordCount, current.wordCount),
+    wordsPerMinute: metricDelta(previous.wordsPerMinute, current.wordsPerMinute),
+    fillerWordCount: metricDelta(previous.fillerWordCount, current.fillerWordCount),
+    wording: diffWords(previous.response, current.response),
+  };
+}
+
+export function buildAttemptChain(chainKey: string, sessions: PracticeSession[]): AttemptChain {
+  const attempts = sessions.map(summarizeAttempt).sort((a, b) => a.attemptNumber - b.attemptNumber);
+  return {
+    chainKey,
+    attempts,
+    comparisons: attempts.slice(1).map((attempt, i) => compareAttempts(attempts[i], attempt)),
+  };
+}
@@ -0,0 +1,227 @@
+/**
+ * Context-aware filler detection.
+ *
+ * Words like "so", "well", "like" and "right" are only fillers in some
+ * positions: "So, I think..." is a filler, "I'd like to" and "that's right"
+ * are not. Detection works on a word sequence (plain text split on spaces, or
+ * Whisper words with timestamps) and applies these rules:
+ *
+ * - hesitation: "um", "uh" and the like, always counted.
+ * - discourse-marker: counted only when set off from the sentence, i.e. at a
+ *   boundary (start of the response, after sentence punctuation or a comma,
+ *   or after a pause when timings are known) or followed by a comma.
+ * - hedge: "kind of", "sort of", "I guess"; not counted after a determiner
+ *   ("a kind of tree").
+ * - repetition: the same word or two-word phrase said twice in a row, except
+ *   words that repeat legitimately ("had had", "very very").
+ * - false-start: a cut-off word, written with a trailing dash. The word said
+ *   again after it ("going to- to ask") is the restart, not a repetition.
+ */
+
+export type FillerType = "hesitation" | "discourse-marker" | "hedge" | "repetition" | "false-start";
+
+export const FILLER_TYPES: FillerType[] = ["hesitation", "discourse-marker", "hedge", "repetition", "false-start"];
+
+export const FILLER_TYPE_LABELS: Record<FillerType, string> = {
+  hesitation: "Hesitations",
+  "discourse-marker": "Discourse markers",
+  hedge: "Hedges",
+  repetition: "Repeated words",
+  "false-start": "False starts",
+};
+
+export type FillerLocale = "en" | "es" | "fr" | "de";
+
+export const DEFAULT_FILLER_LOCALE: FillerLocale = "en";
+
+export interface FillerLexicon {
+  hesitations: string[];
+  discourseMarkers: string[];
+  hedges: string[];
+  determiners: string[];
+  legitimateRepeats: string[];
+}
+
+export interface FillerWord {
+  text: string;
+  start?: number;
+  end?: number;
+}
+
+export interface FillerMatch {
+  type: FillerType;
+  text: string;
+  // Index of the first word in the input, and how many words the filler spans.
+  wordIndex: number;
+  wordCount: number;
+}
+
+export type FillerBreakdown = Record<FillerType, number>;
+
+const LEXICONS: Record<FillerLocale, FillerLexicon> = {
+  en: {
+    hesitations: ["um", "umm", "uh", "uhh", "er", "erm", "hmm", "mm"],
+    discourseMarkers: ["so", "well", "like", "right", "actually", "basically", "literally", "okay", "you know", "i mean"],
+    hedges: ["kind of", "sort of", "kinda", "sorta", "i guess", "i suppose"],
+    determiners: ["a", "an", "the", "this", "that", "what", "some", "any", "every", "which"],
+    legitimateRepeats: ["had", "that", "very", "really", "no", "bye", "so"],
+  },
+  es: {
+    hesitations: ["eh", "ehh", "em", "mmm"],
+    discourseMarkers: ["este", "pues", "bueno", "entonces", "vale", "sabes", "o sea", "digamos", "en plan"],
+    hedges: ["como que", "más o menos", "no sé"],
+    determiners: ["un", "una", "el", "la", "los", "las"],
+    legitimateRepeats: ["no", "muy", "sí"],
+  },
+  fr: {
+    hesitations: ["euh", "heu", "hum", "bah"],
+    discourseMarkers: ["ben", "bon", "alors", "genre", "quoi", "voilà", "du coup", "en fait", "tu vois"],
+    hedges: ["un peu", "en quelque sorte", "je crois"],
+    determiners: ["un", "une", "le", "la", "les"],
+    legitimateRepeats: ["non", "très", "oui"],
+  },
+  de: {
+    hesitations: ["äh", "ähm", "öh", "hm"],
+    discourseMarkers: ["also", "halt", "eben", "quasi", "sozusagen", "na ja", "weißt du"],
+    hedges: ["irgendwie", "ein bisschen", "ich glaube"],
+    determiners: ["ein", "eine", "der", "die", "das"],
+    legitimateRepeats: ["nein", "sehr", "ja"],
+  },
+};
+
+const LANGUAGE_NAMES: Record<string, FillerLocale> = {
+  english: "en",
+  spanish: "es",
+  french: "fr",
+  german: "de",
+};
+
+// A gap this long before a word sets it off like a comma would.
+const BOUNDARY_PAUSE_SECONDS = 0.25;
+
+// Accepts "en", "en-US" or a language name as returned by Whisper ("english").
+export function resolveFillerLocale(locale?: string | null): FillerLocale {
+  if (!locale) return DEFAULT_FILLER_LOCALE;
+  const lower = locale.toLowerCase();
+  if (LANGUAGE_NAMES[lower]) return LANGUAGE_NAMES[lower];
+  const base = lower.split(/[-_]/)[0];
+  return Object.prototype.hasOwnProperty.call(LEXICONS, base) ? (base as FillerLocale) : DEFAULT_FILLER_LOCALE;
+}
+
+export function getFillerLexicon(locale?: string | null): FillerLexicon {
+  return LEXICONS[resolveFillerLocale(locale)];
+}
+
+export function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/[^a-z0-9'à-öø-ÿ]/g, "");
+}
+
+function endsSentenceOrClause(word: string): boolean {
+  return /[.!?,;:]["')\]]*$/.test(word);
+}
+
+function splitPhrases(phrases: string[]): string[][] {
+  return phrases.map(p => p.split(" ")).sort((a, b) => b.length - a.length);
+}
+
+function matchPhraseAt(normalized: string[], i: number, phrases: string[][]): string[] | undefined {
+  return phrases.find(tokens => tokens.every((token, k) => normalized[i + k] === token));
+}
+
+export function detectFillers(words: FillerWord[], locale?: string | null): FillerMatch[] {
+  const lexicon = getFillerLexicon(locale);
+  const normalized = words.map(w => normalizeWord(w.text));
+  const hesitations = new Set(lexicon.hesitations);
+  const markers = splitPhrases(lexicon.discourseMarkers);
+  const hedges = splitPhrases(lexicon.hedges);
+  const determiners = new Set(lexicon.determiners);
+  const legitimateRepeats = new Set(lexicon.legitimateRepeats);
+
+  const atBoundary = (i: number): boolean => {
+    if (i === 0) return true;
+    const previous = words[i - 1];
+    if (endsSentenceOrClause(previous.text)) return true;
+    const start = words[i].start;
+    return start !== undefined && previous.end !== undefined && start - previous.end >= BOUNDARY_PAUSE_SECONDS;
+  };
+
+  const falseStarts = new Set<number>();
+  const matches: FillerMatch[] = [];
+  const add = (type: FillerType, wordIndex: number, wordCount: number) => {
+    matches.push({ type, text: normalized.slice(wordIndex, wordIndex + wordCount).join(" "), wordIndex, wordCount });
+  };
+
+  for (let i = 0; i < words.length; ) {
+    const word = normalized[i];
+    if (!word) {
+      i++;
+      continue;
+    }
+
+    if (/[-–—]$/.test(words[i].text.trim())) {
+      add("false-start", i, 1);
+      falseStarts.add(i);
+      i++;
+      continue;
+    }
+
+    if (hesitations.has(word)) {
+      add("hesitation", i, 1);
+      i++;
+      continue;
+    }
+
+    const marker = matchPhraseAt(normalized, i, markers);
+    if (marker) {
+      const last = i + marker.length - 1;
+      if (atBoundary(i) || (last < words.length - 1 && /,$/.test(words[last].text))) {
+        add("discourse-marker", i, marker.length);
+        i += marker.length;
+        continue;
+      }
+    }
+
+    const hedge = matchPhraseAt(normalized, i, hedges);
+    if (hedge && !(i > 0 && determiners.has(normalized[i - 1]))) {
+      add("hedge", i, hedge.length);
+      i += hedge.length;
+      continue;
+    }
+
+    // "I was I was going" repeats a two-word phrase; "I I think" a single word.
+    if (
+      i >= 2 &&
+      normalized[i] === normalized[i - 2] &&
+      normalized[i + 1] === normalized[i - 1] &&
+      normalized[i] !== normalized[i + 1] &&
+      !falseStarts.has(i - 2) &&
+      !falseStarts.has(i - 1)
+    ) {
+      add("repetition", i, 2);
+      i += 2;
+      continue;
+    }
+    if (i >= 1 && word === normalized[i - 1] && !legitimateRepeats.has(word) && !falseStarts.has(i - 1)) {
+      add("repetition", i, 1);
+      i++;
+      continue;
+    }
+
+    i++;
+  }
+
+  return matches;
+}
+
+export function summarizeFillers(matches: FillerMatch[]): FillerBreakdown {
+  const breakdown = Object.fromEntries(FILLER_TYPES.map(type => [type, 0])) as FillerBreakdown;
+  for (const match of matches) {
+    breakdown[match.type]++;
+  }
+  return breakdown;
+}
+
+// Convenience for plain text without word timings.
+export function detectFillersInText(text: string, locale?: string | null): FillerMatch[] {
+  return detectFillers(text.split(/\s+/).filter(w => w.length > 0).map(w => ({ text: w })), locale);
+}
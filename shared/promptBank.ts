@@ -26,7 +26,7 @@ export const PRACTICE_HANDOFFS: PracticeHandoff[] = [
   { id: "e1", category: "empathy", line: "A friend blurts out, “I just got let go.” Their voice cracks. They wait for you.", difficulty: "beginner" },
   { id: "e2", category: "empathy", line: "They admit quietly, “I’ve been feeling anxious all the time.” They watch your face.", difficulty: "intermediate" },
   { id: "e3", category: "empathy", line: "A colleague tosses the feedback sheet down, eyes wet. “I thought I did fine.”", difficulty: "intermediate" },
-  { id: "e4", category: "empathy", line: "A family member vents, frustrated and tangled. “You don’t get it.” They look to you.", difficulty: "advanced" },
+  { id: "e4", category: "empathy", line: "A family member vents, words tumbling out. “You don’t get it.” They look to you.", difficulty: "advanced" },
   { id: "e5", category: "empathy", line: "They fumble a task, blush, and mutter, “That was dumb.” Their eyes drop, waiting.", difficulty: "beginner" },
   
   // Boundaries
@@ -53,12 +53,14 @@ export const PRACTICE_HANDOFFS: PracticeHandoff[] = [
   // Goals and stress prompts moved out of Practice for now.
 ];
 
-export function getHandoffsForCategory(categoryId: string): PracticeHandoff[] {
-  return PRACTICE_HANDOFFS.filter(p => p.category === categoryId);
+// The helpers below default to the bundled bank; pass the published handoffs
+// from /api/content/handoffs to use content edited in the admin.
+export function getHandoffsForCategory(categoryId: string, handoffs: PracticeHandoff[] = PRACTICE_HANDOFFS): PracticeHandoff[] {
+  return handoffs.filter(p => p.category === categoryId);
 }
 
-export function getRandomHandoff(categoryId: string): PracticeHandoff {
-  const categoryPrompts = getHandoffsForCategory(categoryId);
+export function getRandomHandoff(categoryId: string, handoffs: PracticeHandoff[] = PRACTICE_HANDOFFS): PracticeHandoff {
+  const categoryPrompts = getHandoffsForCategory(categoryId, handoffs);
   if (!categoryPrompts.length) {
     return {
       id: `${categoryId}-default`,
@@ -71,11 +73,11 @@ export function getRandomHandoff(categoryId: string): PracticeHandoff {
   return categoryPrompts[Math.floor(Math.random() * categoryPrompts.length)];
 }
 
-export function getRandomHandoffLine(categoryId?: string): string {
+export function getRandomHandoffLine(categoryId?: string, handoffs: PracticeHandoff[] = PRACTICE_HANDOFFS): string {
   if (categoryId) {
-    return getRandomHandoff(categoryId).line;
+    return getRandomHandoff(categoryId, handoffs).line;
   }
 
-  const random = PRACTICE_HANDOFFS[Math.floor(Math.random() * PRACTICE_HANDOFFS.length)];
+  const random = handoffs[Math.floor(Math.random() * handoffs.length)];
   return random?.line ?? DEFAULT_HANDOFF_LINE;
 }
@@ -0,0 +1,142 @@
+import type { PracticeCategory } from "./categories.js";
+import type { PracticeHandoff } from "./promptBank.js";
+
+/**
+ * Scoring rubrics for practice analysis.
+ *
+ * Each rubric lists weighted dimensions for one practice category, plus the
+ * standard expected at each difficulty. The resolved version id
+ * (e.g. "workplace@1:intermediate") is stored on every practice_sessions row.
+ *
+ * Bump `version` whenever dimensions, weights or standards change, so scores
+ * from different rubric versions are never compared as if they were the same.
+ */
+
+export type RubricDifficulty = PracticeHandoff["difficulty"];
+
+export interface RubricDimension {
+  id: string;
+  label: string;
+  weight: number;
+  description: string;
+}
+
+interface CategoryRubric {
+  version: number;
+  dimensions: RubricDimension[];
+  standards: Record<RubricDifficulty, string>;
+}
+
+export interface ScoringRubric {
+  version: string;
+  category: PracticeCategory | "general";
+  difficulty: RubricDifficulty;
+  dimensions: RubricDimension[];
+  standard: string;
+}
+
+export const DEFAULT_RUBRIC_DIFFICULTY: RubricDifficulty = "intermediate";
+
+const STANDARDS: Record<RubricDifficulty, string> = {
+  beginner: "A sincere attempt at a dimension earns at least 60 on it. Reserve scores under 40 for responses that work against the goal.",
+  intermediate: "A dimension scores 70 when it is clearly present and 85 when it is present without effort or hedging.",
+  advanced: "A dimension scores 70 only when it holds under pressure. Reserve 85 and above for control that would hold in the real moment.",
+};
+
+const RUBRICS: Record<PracticeCategory | "general", CategoryRubric> = {
+  workplace: {
+    version: 1,
+    dimensions: [
+      { id: "clarity", label: "Clarity", weight: 0.3, description: "The point and the ask are stated plainly." },
+      { id: "ownership", label: "Ownership", weight: 0.25, description: "Speaks from their own role and stake without blame." },
+      { id: "composure", label: "Composure", weight: 0.25, description: "Tone stays professional and steady." },
+      { id: "outcome", label: "Outcome focus", weight: 0.2, description: "Moves toward a decision or next step." },
+    ],
+    standards: STANDARDS,
+  },
+  relationships: {
+    version: 1,
+    dimensions: [
+      { id: "attunement", label: "Attunement", weight: 0.3, description: "Reflects the other person's feelings before their own point." },
+      { id: "ownership", label: "Emotional ownership", weight: 0.25, description: "Names their own feelings without blame." },
+      { id: "safety", label: "Safety", weight: 0.25, description: "Keeps the connection intact; no contempt or absolutes." },
+      { id: "clarity", label: "Clarity of need", weight: 0.2, description: "The need or request is stated, not implied." },
+    ],
+    standards: STANDARDS,
+  },
+  family: {
+    version: 1,
+    dimensions: [
+      { id: "respect", label: "Respect", weight: 0.3, description: "Honors the relationship while disagreeing." },
+      { id: "boundary", label: "Boundary", weight: 0.25, description: "States a limit calmly and holds it." },
+      { id: "composure", label: "Composure", weight: 0.25, description: "Old patterns do not take over the tone." },
+      { id: "clarity", label: "Clarity", weight: 0.2, description: "The point is simple enough to be heard." },
+    ],
+    standards: STANDARDS,
+  },
+  social: {
+    version: 1,
+    dimensions: [
+      { id: "warmth", label: "Warmth", weight: 0.3, description: "Sounds open and easy to respond to." },
+      { id: "presence", label: "Presence", weight: 0.25, description: "Responds to what was said rather than a script." },
+      { id: "confidence", label: "Confidence", weight: 0.25, description: "No excess apology or self-deprecation." },
+      { id: "flow", label: "Flow", weight: 0.2, description: "Leaves room for the conversation to continue." },
+    ],
+    standards: STANDARDS,
+  },
+  "self-advocacy": {
+    version: 1,
+    dimensions: [
+      { id: "directness", label: "Directness", weight: 0.35, description: "The need is stated in the first sentence or two." },
+      { id: "firmness", label: "Firmness", weight: 0.25, description: "Holds the position without over-explaining." },
+      { id: "composure", label: "Composure", weight: 0.2, description: "Firm without edge or hostility." },
+      { id: "self-respect", label: "Self-respect", weight: 0.2, description: "No hedging that gives the point away." },
+    ],
+    standards: STANDARDS,
+  },
+  general: {
+    version: 1,
+    dimensions: [
+      { id: "clarity", label: "Clarity", weight: 0.3, description: "The point is stated plainly." },
+      { id: "empathy", label: "Empathy", weight: 0.25, description: "Acknowledges the other person's side." },
+      { id: "composure", label: "Composure", weight: 0.25, description: "Tone stays calm and steady." },
+      { id: "ownership", label: "Ownership", weight: 0.2, description: "Speaks from their own experience without blame." },
+    ],
+    standards: STANDARDS,
+  },
+};
+
+function isRubricCategory(category: string): category is PracticeCategory | "general" {
+  return Object.prototype.hasOwnProperty.call(RUBRICS, category);
+}
+
+function isRubricDifficulty(difficulty: string): difficulty is RubricDifficulty {
+  return Object.prototype.hasOwnProperty.call(STANDARDS, difficulty);
+}
+
+// Categories outside PRACTICE_CATEGORIES (wheel and legacy ids) fall back to
+// the general rubric.
+export function getScoringRubric(category?: string | null, difficulty?: string | null): ScoringRubric {
+  const rubricCategory = category && isRubricCategory(category) ? category : "general";
+  const rubricDifficulty = difficulty && isRubricDifficulty(difficulty) ? difficulty : DEFAULT_RUBRIC_DIFFICULTY;
+  const rubric = RUBRICS[rubricCategory];
+
+  return {
+    version: `${rubricCategory}@${rubric.version}:${rubricDifficulty}`,
+    category: rubricCategory,
+    difficulty: rubricDifficulty,
+    dimensions: rubric.dimensions,
+    standard: rubric.standards[rubricDifficulty],
+  };
+}
+
+export function formatRubricForPrompt(rubric: ScoringRubric): string {
+  const dimensions = rubric.dimensions
+    .map(d => `- ${d.label} (${Math.round(d.weight * 100)}%): ${d.description}`)
+    .join("\n");
+
+  return `Scoring rubric ${rubric.version} (difficulty: ${rubric.difficulty}):
+${dimensions}
+Standard: ${rubric.standard}
+Judge each dimension 0-100. score is the weighted total of the dimensions, rounded.`;
+}
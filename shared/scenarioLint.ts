@@ -0,0 +1,282 @@
+/**
+ * Linter for the Mirror Play Scenario Rules (see shared/scenarios.ts).
+ *
+ * Checks the lines a user responds to: handoff lines, scenario contexts and
+ * the prompt and handoff lines of custom scenarios. Each violation carries
+ * the span it covers in the original text and a suggested fix; fixes with a
+ * `replacement` can be applied mechanically with `applyLintFixes`.
+ *
+ * Speech inside quotation marks belongs to the other person, so only the
+ * question-mark rule applies there. Built-in lines end quoted questions with
+ * a full stop (“Can you cover this weekend.”) and the fix does the same.
+ *
+ * A feeling word is an error only when it labels someone ("you feel hurt",
+ * "they seem upset"); elsewhere ("a mad rush", "happy hour") it is a warning.
+ * Past tense is fine in sentences that narrate what came before the moment
+ * ("You said you were busy", "The group saw what happened").
+ */
+
+export type ScenarioRuleId =
+  | "no-questions"
+  | "no-what-would-you-say"
+  | "no-instructions"
+  | "no-emotional-labels"
+  | "present-tense"
+  | "minimal";
+
+export interface ScenarioLintViolation {
+  rule: ScenarioRuleId;
+  severity: "error" | "warning";
+  message: string;
+  start: number;
+  end: number;
+  text: string;
+  suggestion: string;
+  // Text to put in place of text[start, end). Absent when the fix needs a rewrite.
+  replacement?: string;
+}
+
+export interface ScenarioLintOptions {
+  // Longer texts get a "minimal" warning. Handoff lines default to 40 words.
+  maxWords?: number;
+}
+
+export interface ScenarioFieldLint {
+  field: string;
+  violations: ScenarioLintViolation[];
+}
+
+export const DEFAULT_MAX_WORDS = 40;
+
+const WHAT_WOULD_YOU_SAY = /\b(?:what|how)\s+(?:would|do|will|should|could|might)\s+you\s+(?:say|respond|reply|answer|do|react|handle)\b[^.!?\n]*[.!?]?/gi;
+
+// Sentence-initial verbs that turn a moment into a direction to the user.
+const INSTRUCTION_OPENERS = [
+  "try", "imagine", "picture", "pretend", "think", "consider", "remember", "make sure", "be sure",
+  "respond", "reply", "answer", "tell", "explain", "practice", "practise", "say", "use", "focus",
+  "stay", "avoid", "don't", "do not", "keep", "show", "express", "describe",
+];
+const INSTRUCTION_PHRASES = ["you should", "you must", "your goal is", "your task is", "your job is"];
+
+const EMOTION_LABELS = [
+  "angry", "furious", "mad", "upset", "sad", "unhappy", "anxious", "nervous", "worried", "scared",
+  "afraid", "frightened", "frustrated", "annoyed", "irritated", "hurt", "embarrassed", "ashamed",
+  "guilty", "jealous", "envious", "disappointed", "overwhelmed", "stressed", "resentful", "lonely",
+  "hopeless", "happy", "excited", "relieved", "defensive", "insecure", "heartbroken", "devastated",
+];
+
+// Verbs that attach a feeling to someone: "they seem upset", "you're so angry".
+const EMOTION_PREDICATE = /\b(?:feel|feels|felt|feeling|am|is|are|was|were|be|being|been|look|looks|looked|looking|seem|seems|seemed|sound|sounds|sounded|get|gets|got|getting|grow|grows|growing|become|becomes|becoming)\s+(?:(?:so|very|really|quite|too|more|clearly|visibly|a\s+bit|a\s+little)\s+)*$|['’](?:m|re|s)\s+(?:(?:so|very|really|quite|too|more|clearly|visibly|a\s+bit|a\s+little)\s+)*$/i;
+
+// Common past-tense narration and its present-tense form.
+const PAST_TO_PRESENT: Record<string, string> = {
+  was: "is", were: "are", had: "has", did: "does", said: "says", told: "tells", asked: "asks",
+  went: "goes", came: "comes", looked: "looks", stared: "stares", walked: "walks", sat: "sits",
+  stood: "stands", turned: "turns", glanced: "glances", smiled: "smiles", paused: "pauses",
+  waited: "waits", replied: "replies", answered: "answers", shrugged: "shrugs", sighed: "sighs",
+  nodded: "nods", laughed: "laughs", yelled: "yells", shouted: "shouts", left: "leaves",
+  took: "takes", gave: "gives", made: "makes", knew: "knows", thought: "thinks", saw: "sees",
+  heard: "hears", leaned: "leans", crossed: "crosses", slammed: "slams", snapped: "snaps",
+};
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/'/g, "['’]");
+}
+
+function wordPattern(words: string[]): RegExp {
+  return new RegExp(`\\b(?:${words.map(escapeRegex).join("|")})\\b`, "gi");
+}
+
+const INSTRUCTION_OPENER_PATTERN = new RegExp(
+  `(?:^|[.!?]\\s+|\\n\\s*)((?:${INSTRUCTION_OPENERS.map(escapeRegex).join("|")})\\b)`,
+  "gi"
+);
+const INSTRUCTION_PHRASE_PATTERN = wordPattern(INSTRUCTION_PHRASES);
+const EMOTION_PATTERN = wordPattern(EMOTION_LABELS);
+const PAST_TENSE_PATTERN = wordPattern(Object.keys(PAST_TO_PRESENT));
+
+// Sentences that narrate earlier events keep their past tense.
+const BACKSTORY_PATTERN = /\b(?:already|earlier|yesterday|ago|before|after|last\s+(?:night|week|month|year|time)|what\s+happened|you\s+(?:said|told|asked)|your\s+\w+\s+(?:was|were))\b/i;
+
+// The sentence around `index`, bounded by sentence ends and line breaks.
+function sentenceAt(text: string, index: number): string {
+  const before = text.slice(0, index);
+  const start = Math.max(before.lastIndexOf("."), before.lastIndexOf("!"), before.lastIndexOf("?"), before.lastIndexOf("\n")) + 1;
+  const end = text.slice(index).search(/[.!?\n]/);
+  return text.slice(start, end === -1 ? text.length : index + end);
+}
+
+// [start, end) ranges of quoted speech, quotes included.
+function quotedRanges(text: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  const pattern = /“[^”]*”?|"[^"]*"?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    ranges.push([match.index, match.index + match[0].length]);
+  }
+  return ranges;
+}
+
+function matchCase(replacement: string, original: string): string {
+  return original[0] === original[0].toUpperCase()
+    ? replacement[0].toUpperCase() + replacement.slice(1)
+    : replacement;
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+export function lintScenarioText(text: string, options: ScenarioLintOptions = {}): ScenarioLintViolation[] {
+  const violations: ScenarioLintViolation[] = [];
+  const quotes = quotedRanges(text);
+  const inQuote = (index: number) => quotes.some(([start, end]) => index >= start && index < end);
+
+  const add = (violation: Omit<ScenarioLintViolation, "text">) => {
+    violations.push({ ...violation, text: text.slice(violation.start, violation.end) });
+  };
+
+  const covered: Array<[number, number]> = [];
+  let match: RegExpExecArray | null;
+
+  WHAT_WOULD_YOU_SAY.lastIndex = 0;
+  while ((match = WHAT_WOULD_YOU_SAY.exec(text))) {
+    if (inQuote(match.index)) continue;
+    const end = match.index + match[0].length;
+    covered.push([match.index, end]);
+    add({
+      rule: "no-what-would-you-say",
+      severity: "error",
+      message: "Scenarios never ask the user what they would say.",
+      start: match.index,
+      end,
+      suggestion: "Remove the question and end on the other person waiting.",
+      replacement: "",
+    });
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] !== "?" || covered.some(([start, end]) => i >= start && i < end)) continue;
+    add({
+      rule: "no-questions",
+      severity: "error",
+      message: inQuote(i)
+        ? "Quoted questions end with a full stop, so the line reads as a moment."
+        : "Scenarios are moments, not questions.",
+      start: i,
+      end: i + 1,
+      suggestion: "End the sentence with a full stop.",
+      replacement: ".",
+    });
+  }
+
+  INSTRUCTION_OPENER_PATTERN.lastIndex = 0;
+  while ((match = INSTRUCTION_OPENER_PATTERN.exec(text))) {
+    const start = match.index + match[0].length - match[1].length;
+    if (inQuote(start)) continue;
+    add({
+      rule: "no-instructions",
+      severity: "error",
+      message: `"${match[1]}" directs the user instead of setting the moment.`,
+      start,
+      end: start + match[1].length,
+      suggestion: "Describe what is happening and leave the response to the user.",
+    });
+  }
+
+  INSTRUCTION_PHRASE_PATTERN.lastIndex = 0;
+  while ((match = INSTRUCTION_PHRASE_PATTERN.exec(text))) {
+    if (inQuote(match.index)) continue;
+    add({
+      rule: "no-instructions",
+      severity: "error",
+      message: `"${match[0]}" tells the user what to do.`,
+      start: match.index,
+      end: match.index + match[0].length,
+      suggestion: "Describe what is happening and leave the response to the user.",
+    });
+  }
+
+  EMOTION_PATTERN.lastIndex = 0;
+  while ((match = EMOTION_PATTERN.exec(text))) {
+    if (inQuote(match.index)) continue;
+    const labels = EMOTION_PREDICATE.test(text.slice(0, match.index));
+    add({
+      rule: "no-emotional-labels",
+      severity: labels ? "error" : "warning",
+      message: labels
+        ? `"${match[0]}" names a feeling instead of showing it.`
+        : `"${match[0]}" may name a feeling instead of showing it.`,
+      start: match.index,
+      end: match.index + match[0].length,
+      suggestion: "Show it through what they do: a pause, a glance, a tightened jaw.",
+    });
+  }
+
+  PAST_TENSE_PATTERN.lastIndex = 0;
+  while ((match = PAST_TENSE_PATTERN.exec(text))) {
+    if (inQuote(match.index) || BACKSTORY_PATTERN.test(sentenceAt(text, match.index))) continue;
+    const present = PAST_TO_PRESENT[match[0].toLowerCase()];
+    add({
+      rule: "present-tense",
+      severity: "warning",
+      message: `"${match[0]}" is past tense; scenarios happen now.`,
+      start: match.index,
+      end: match.index + match[0].length,
+      suggestion: `Use "${present}".`,
+      replacement: matchCase(present, match[0]),
+    });
+  }
+
+  const maxWords = options.maxWords ?? DEFAULT_MAX_WORDS;
+  const words = countWords(text);
+  if (words > maxWords) {
+    add({
+      rule: "minimal",
+      severity: "warning",
+      message: `${words} words; keep it to ${maxWords} or fewer.`,
+      start: 0,
+      end: text.length,
+      suggestion: "Cut to the moment just before the user speaks.",
+    });
+  }
+
+  return violations.sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+// Applies every violation that has a replacement, right to left so earlier
+// spans stay valid. Overlapping fixes after the first are skipped.
+export function applyLintFixes(text: string, violations: ScenarioLintViolation[]): string {
+  const fixes = violations
+    .filter((v): v is ScenarioLintViolation & { replacement: string } => v.replacement !== undefined)
+    .sort((a, b) => b.start - a.start);
+
+  let result = text;
+  let boundary = Infinity;
+  for (const fix of fixes) {
+    if (fix.end > boundary) continue;
+    result = result.slice(0, fix.start) + fix.replacement + result.slice(fix.end);
+    boundary = fix.start;
+  }
+  return result.replace(/[ \t]{2,}/g, " ").trim();
+}
+
+export function hasLintErrors(results: ScenarioFieldLint[]): boolean {
+  return results.some(r => r.violations.some(v => v.severity === "error"));
+}
+
+// The moments of a custom scenario: its prompt and each handoff line. The
+// background context is written to the user and is not held to the rules.
+export function lintCustomScenario(scenario: {
+  prompt?: string | null;
+  handoffLines?: string[] | null;
+}): ScenarioFieldLint[] {
+  const results: ScenarioFieldLint[] = [];
+  if (scenario.prompt) {
+    results.push({ field: "prompt", violations: lintScenarioText(scenario.prompt) });
+  }
+  (scenario.handoffLines ?? []).forEach((line, i) => {
+    results.push({ field: `handoffLines.${i}`, violations: lintScenarioText(line) });
+  });
+  return results.filter(r => r.violations.length > 0);
+}
@@ -7,6 +7,15 @@
  * Always situational, present tense, minimal
  */
 
+// The rules above, for prompts that ask the model to write scenarios.
+export const SCENARIO_RULES: string[] = [
+  "Scenarios are moments, not questions.",
+  "No instructional language.",
+  "No emotional labels.",
+  "No “What would you say?”",
+  "Always situational, present tense, minimal.",
+];
+
 export interface ScenarioPhase {
   name: string;
   objective: string;
@@ -63,7 +72,7 @@ export const scenarios: Scenario[] = [
     category: "workplace",
     difficulty: 4,
     requiredLevel: 8,
-    context: "Your manager pings again.\nAnother update request.\nYour screen is full of half-finished tasks.\n\n\"Just send me what you have so far, okay?\"\n\nYou’ve got the floor.",
+    context: "Your manager pings again.\nAnother update request.\nYour screen is full of half-finished tasks.\n\n\"Just send me what you have so far.\"\n\nYou’ve got the floor.",
     aiRole: "An anxious manager who micromanages out of fear",
     phases: [
       {
@@ -90,7 +99,7 @@ export const scenarios: Scenario[] = [
     category: "workplace",
     difficulty: 4,
     requiredLevel: 12,
-    context: "It’s a scheduled check-in.\nYou’re sitting across from HR.\nYour review was strong, but pay hasn’t moved.\n\n\"We’re tight on budget this cycle.\"\n\nThere’s a pause. Say something.",
+    context: "It’s a scheduled check-in.\nYou’re sitting across from HR.\nYour review was strong, but pay hasn’t moved.\n\n\"We’re tight on budget this cycle.\"\n\nThere’s a pause.",
     aiRole: "A budget-conscious HR manager",
     phases: [
       {
@@ -117,7 +126,7 @@ export const scenarios: Scenario[] = [
     category: "workplace",
     difficulty: 3,
     requiredLevel: 1,
-    context: "Slack is open to the project channel.\nThe deadline is tomorrow.\nYou know your piece won’t be ready.\n\n\"We’re still on track, right?\"\n\nThey’re waiting for you to say something.",
+    context: "Slack is open to the project channel.\nThe deadline is tomorrow.\nYou know your piece won’t be ready.\n\n\"We’re still on track.\"\n\nThey’re waiting for you to say something.",
     aiRole: "A stressed project manager",
     phases: [
       {
@@ -144,7 +153,7 @@ export const scenarios: Scenario[] = [
     category: "relationship",
     difficulty: 3,
     requiredLevel: 1,
-    context: "It’s quiet tonight.\nThey’ve been distant for weeks.\nThey sit on the edge of the couch.\n\n\"I’m just tired, okay?\"\n\nThere’s a pause. Say something.",
+    context: "It’s quiet tonight.\nThey’ve been distant for weeks.\nThey sit on the edge of the couch.\n\n\"I’m just tired.\"\n\nThere’s a pause.",
     aiRole: "A partner who is stressed and withdrawing",
     phases: [
       {
@@ -171,7 +180,7 @@ export const scenarios: Scenario[] = [
     category: "relationship",
     difficulty: 4,
     requiredLevel: 6,
-    context: "The big purchase page is open.\nThey’re excited, you’re not.\nThe number sits between you.\n\n\"It’s not that big of a deal.\"\n\nYou’ve got the floor.",
+    context: "The big purchase page is open.\nThey’re grinning, you’re not.\nThe number sits between you.\n\n\"It’s not that big of a deal.\"\n\nYou’ve got the floor.",
     aiRole: "A partner with different financial values",
     phases: [
       {
@@ -198,7 +207,7 @@ export const scenarios: Scenario[] = [
     category: "co-parenting",
     difficulty: 4,
     requiredLevel: 15,
-    context: "Your phone lights up again.\nAnother last-minute change.\nYou already reshuffled plans.\n\n\"Can we swap days this week?\"\n\nThey’re looking at you.",
+    context: "Your phone lights up again.\nAnother last-minute change.\nYou already reshuffled plans.\n\n\"I need to swap days this week.\"\n\nThey’re looking at you.",
     aiRole: "A co-parent who is disorganized and defensive",
     phases: [
       {
@@ -225,7 +234,7 @@ export const scenarios: Scenario[] = [
     category: "co-parenting",
     difficulty: 3,
     requiredLevel: 1,
-    context: "Your child mentions the other house.\nThe rules sound totally different.\nYou’re both on a call.\n\n\"That’s how I run things over here.\"\n\nThere’s a pause. Say something.",
+    context: "Your child mentions the other house.\nThe rules sound different.\nYou’re both on a call.\n\n\"That’s how I run things over here.\"\n\nThere’s a pause.",
     aiRole: "A co-parent who disagrees with your parenting approach",
     phases: [
       {
@@ -279,7 +288,7 @@ export const scenarios: Scenario[] = [
     category: "general",
     difficulty: 3,
     requiredLevel: 1,
-    context: "It’s late and the bass is thumping.\nYou step into the hallway.\nThey crack the door.\n\n\"Oh, hey—what’s up?\"\n\nThey’re waiting for you.",
+    context: "It’s late and the bass is thumping.\nYou step into the hallway.\nThey crack the door.\n\n\"Oh. Hey.\"\n\nThey’re waiting for you.",
     aiRole: "A neighbor who is unaware of the impact of their behavior",
     phases: [
       {
@@ -306,7 +315,7 @@ export const scenarios: Scenario[] = [
     category: "general",
     difficulty: 2,
     requiredLevel: 1,
-    context: "The line is moving slowly.\nA stranger slides in front of you.\nThey don’t look back.\n\n\"I’m in a hurry.\"\n\nThere’s a pause. Say something.",
+    context: "The line is moving slowly.\nA stranger slides in front of you.\nThey don’t look back.\n\n\"I’m in a hurry.\"\n\nThere’s a pause.",
     aiRole: "An entitled person who believes they're more important",
     phases: [
       {
@@ -328,7 +337,7 @@ export const scenarios: Scenario[] = [
     category: "general",
     difficulty: 2,
     requiredLevel: 1,
-    context: "You’re staring at your phone.\nYou need to reach out.\nYour thumb hovers over their name.\n\n\"Hey—everything okay?\"\n\nYou’ve got the floor.",
+    context: "You’re staring at your phone.\nYou need to reach out.\nYour thumb hovers over their name.\n\n\"Hey—it’s been a while.\"\n\nYou’ve got the floor.",
     aiRole: "A caring friend who wants to help",
     phases: [
       {
@@ -350,7 +359,7 @@ export const duoScenarios: Scenario[] = [
   {
     id: "duo-workplace-1",
     title: "Performance Review Discussion",
-    description: "Practice both sides of a performance review conversation.",
+    description: "A manager and a report sit down for a performance review.",
     category: "workplace",
     difficulty: 3,
     requiredLevel: 5,
@@ -384,7 +393,7 @@ export const duoScenarios: Scenario[] = [
     category: "relationship",
     difficulty: 2,
     requiredLevel: 1,
-    context: "The sink is full.\nThe list on the fridge is crossed out.\nYou both pause.\n\n\"I feel like I’m doing most of it.\"\n\nThere’s a pause. Say something.",
+    context: "The sink is full.\nThe list on the fridge is crossed out.\nYou both pause.\n\n\"I feel like I’m doing most of it.\"\n\nThere’s a pause.",
     aiRole: "",
     duoMode: true,
     roleA: "Partner A",
@@ -440,7 +449,7 @@ export const duoScenarios: Scenario[] = [
   {
     id: "duo-general-1",
     title: "Apologizing and Forgiving",
-    description: "Practice giving a heartfelt apology and accepting one gracefully.",
+    description: "One of you owes the other an apology, and it needs to land.",
     category: "general",
     difficulty: 3,
     requiredLevel: 3,
@@ -474,7 +483,7 @@ export const duoScenarios: Scenario[] = [
     category: "workplace",
     difficulty: 3,
     requiredLevel: 1,
-    context: "The project plan is on the screen.\nTwo different approaches are open.\nYou both stop talking.\n\n\"I think my way is cleaner.\"\n\nThere’s a pause. Say something.",
+    context: "The project plan is on the screen.\nTwo different approaches are open.\nYou both stop talking.\n\n\"I think my way is cleaner.\"\n\nThere’s a pause.",
     aiRole: "",
     duoMode: true,
     roleA: "Team Member A",
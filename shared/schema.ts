@@ -1,5 +1,5 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, index, real } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, boolean, jsonb, index, uniqueIndex, real } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -48,6 +48,7 @@ export const userProgress = pgTable("user_progress", {
   maxEnergy: integer("max_energy").default(100),
   lastEnergyRecharge: timestamp("last_energy_recharge"),
   textInputEnabled: boolean("text_input_enabled").default(false),
+  recordingRetention: varchar("recording_retention").default("30d"), // 7d, 30d or forever
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -65,15 +66,22 @@ export const practiceSessions = pgTable("practice_sessions", {
   tips: text("tips").array(),
   exampleResponses: text("example_responses").array(),
   vocalMetrics: jsonb("vocal_metrics"),
+  timeline: jsonb("timeline"), // word timestamps, fillers and silences, for voice mode
   audioDuration: integer("audio_duration"), // in seconds, for voice mode
   wordsPerMinute: integer("words_per_minute"), // speaking pace, for voice mode
   fillerWordCount: integer("filler_word_count"), // count of filler words, for voice mode
   transcription: text("transcription"), // speech-to-text transcription, for voice mode
+  uploadId: varchar("upload_id").references(() => audioUploads.id), // the recording, for voice mode
+  rubricVersion: varchar("rubric_version"), // scoring rubric the score was judged against, e.g. workplace@1:intermediate
+  chainKey: varchar("chain_key"), // groups attempts at the same prompt: handoff:<id> or prompt:<hash>
+  attemptNumber: integer("attempt_number").default(1),
   isFavorite: boolean("is_favorite").default(false),
   xpEarned: integer("xp_earned").default(0),
   ppEarned: integer("pp_earned").default(0),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("IDX_practice_sessions_attempt").on(table.userId, table.chainKey, table.attemptNumber),
+]);
 
 // Daily capsules
 export const dailyCapsules = pgTable("daily_capsules", {
@@ -88,14 +96,22 @@ export const dailyCapsules = pgTable("daily_capsules", {
 });
 
 // AI Conversations
-export const conversations = pgTable("conversations", {
-  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").notNull().references(() => users.id),
-  messages: jsonb("messages").default([]),
-  emotionState: varchar("emotion_state").default("calm"),
-  createdAt: timestamp("created_at").defaultNow(),
-  updatedAt: timestamp("updated_at").defaultNow(),
-});
+export const conversations = pgTable(
+  "conversations",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    title: varchar("title"), // generated after the first exchange unless the user named the thread
+    titleIsCustom: boolean("title_is_custom").default(false), // set by a rename; stops auto-titling
+    messages: jsonb("messages").default([]),
+    memory: jsonb("memory"), // rolling summary and pinned facts for older turns, see lib/conversationMemory.ts
+    emotionState: varchar("emotion_state").default("calm"),
+    archivedAt: timestamp("archived_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_conversations_user").on(table.userId, table.updatedAt)],
+);
 
 // Scenarios for role-play practice
 export const scenarios = pgTable("scenarios", {
@@ -114,8 +130,10 @@ export const scenarios = pgTable("scenarios", {
 export const rehearsals = pgTable("rehearsals", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
-  scenarioId: varchar("scenario_id").notNull().references(() => scenarios.id),
+  scenarioId: varchar("scenario_id").references(() => scenarios.id), // built-in scenarios
+  customScenarioId: varchar("custom_scenario_id").references(() => customScenarios.id, { onDelete: "set null" }),
   messages: jsonb("messages").default([]),
+  memory: jsonb("memory"), // rolling summary and pinned facts for older turns, see lib/conversationMemory.ts
   currentPhase: integer("current_phase").default(0),
   escalationLevel: integer("escalation_level").default(1),
   completed: boolean("completed").default(false),
@@ -200,11 +218,15 @@ export const voiceClones = pgTable("voice_clones", {
   elevenLabsVoiceId: varchar("elevenlabs_voice_id"),
   name: varchar("name"),
   description: varchar("description"),
-  status: varchar("status").default("pending"), // pending, processing, completed, failed
+  status: varchar("status").default("pending"), // pending (collecting samples), processing, completed, failed
   errorMessage: varchar("error_message"),
   sampleCount: integer("sample_count").default(0),
   isDefault: boolean("is_default").default(false),
   isActive: boolean("is_active").default(true),
+  consentText: text("consent_text"), // the statement the user agreed to, word for word
+  consentVersion: varchar("consent_version"),
+  consentedAt: timestamp("consented_at"),
+  statusChangedAt: timestamp("status_changed_at").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -321,6 +343,10 @@ export const rehearsalsRelations = relations(rehearsals, ({ one }) => ({
     fields: [rehearsals.scenarioId],
     references: [scenarios.id],
   }),
+  customScenario: one(customScenarios, {
+    fields: [rehearsals.customScenarioId],
+    references: [customScenarios.id],
+  }),
 }));
 
 export const userInventoryRelations = relations(userInventory, ({ one }) => ({
@@ -376,6 +402,7 @@ export const userVoicePreferences = pgTable("user_voice_preferences", {
   userId: varchar("user_id").notNull().references(() => users.id).unique(),
   selectedVoiceId: varchar("selected_voice_id").notNull(),
   ttsEnabled: boolean("tts_enabled").default(true),
+  ttsProvider: varchar("tts_provider"), // elevenlabs, openai, local; null follows TTS_PROVIDERS
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -620,6 +647,7 @@ export const customScenarios = pgTable("custom_scenarios", {
   difficulty: varchar("difficulty").default("beginner"), // beginner, intermediate, advanced
   context: text("context").notNull(), // the situation setup
   prompt: text("prompt").notNull(), // what the user should respond to
+  handoffLines: text("handoff_lines").array(), // further moments to respond to, prompt first
   sampleResponse: text("sample_response"), // example good response
   tips: text("tips").array(), // tips for responding
   isPublic: boolean("is_public").default(false),
@@ -661,6 +689,19 @@ export const scenarioRatingsRelations = relations(scenarioRatings, ({ one }) =>
 
 // Insert schemas for custom scenarios
 export const insertCustomScenarioSchema = createInsertSchema(customScenarios).omit({ id: true, createdAt: true, updatedAt: true });
+
+// Fields a creator can set when saving or editing their own scenario.
+export const customScenarioInputSchema = insertCustomScenarioSchema.pick({
+  title: true,
+  description: true,
+  category: true,
+  difficulty: true,
+  context: true,
+  prompt: true,
+  handoffLines: true,
+  sampleResponse: true,
+  tips: true,
+});
 export const insertScenarioRatingSchema = createInsertSchema(scenarioRatings).omit({ id: true, createdAt: true });
 
 // Types for custom scenarios
@@ -823,6 +864,7 @@ export const voiceCloneSamples = pgTable("voice_clone_samples", {
   userId: varchar("user_id").notNull().references(() => users.id),
   voiceCloneId: varchar("voice_clone_id").references(() => voiceClones.id),
   sampleUrl: varchar("sample_url"),
+  uploadId: varchar("upload_id").references(() => audioUploads.id),
   duration: integer("duration"), // seconds
   status: varchar("status").default("pending"), // pending, processing, completed, failed
   createdAt: timestamp("created_at").defaultNow(),
@@ -1157,8 +1199,10 @@ export const voiceJournals = pgTable("voice_journals", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
   audioUrl: varchar("audio_url"),
+  uploadId: varchar("upload_id").references(() => audioUploads.id),
   transcription: text("transcription"),
   emotionAnalysis: jsonb("emotion_analysis"), // AI analysis of emotions
+  fillerBreakdown: jsonb("filler_breakdown"), // filler counts by type, see shared/fillers.ts
   duration: integer("duration"), // in seconds
   journalDate: timestamp("journal_date").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
@@ -1460,3 +1504,128 @@ export const prototypeFeedback = pgTable("prototype_feedback", {
 
 export type PrototypeFeedback = typeof prototypeFeedback.$inferSelect;
 export type InsertPrototypeFeedback = typeof prototypeFeedback.$inferInsert;
+
+// Spaced-repetition review queue: one row per user per prompt (handoff id)
+// and per category, scheduled with SM-2 intervals
+export const reviewItems = pgTable(
+  "review_items",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    itemType: varchar("item_type").notNull(), // prompt or category
+    itemKey: varchar("item_key").notNull(), // handoff id or category id
+    category: varchar("category").notNull(),
+    easeFactor: real("ease_factor").default(2.5),
+    intervalDays: real("interval_days").default(0),
+    repetitions: integer("repetitions").default(0),
+    lastScore: integer("last_score"),
+    lastTone: varchar("last_tone"),
+    lastReviewedAt: timestamp("last_reviewed_at"),
+    dueAt: timestamp("due_at").defaultNow(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_review_items_user_item").on(table.userId, table.itemType, table.itemKey)],
+);
+
+export const reviewItemsRelations = relations(reviewItems, ({ one }) => ({
+  user: one(users, {
+    fields: [reviewItems.userId],
+    references: [users.id],
+  }),
+}));
+
+export const insertReviewItemSchema = createInsertSchema(reviewItems).omit({ id: true, createdAt: true });
+
+export type ReviewItem = typeof reviewItems.$inferSelect;
+export type InsertReviewItem = z.infer<typeof insertReviewItemSchema>;
+
+// Per-user, per-category skill rating (Glicko-style rating and deviation),
+// updated from practice scores and used to pick prompt difficulty
+export const skillRatings = pgTable(
+  "skill_ratings",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    category: varchar("category").notNull(),
+    rating: real("rating").default(1200),
+    ratingDeviation: real("rating_deviation").default(350),
+    sessionsRated: integer("sessions_rated").default(0),
+    lastRatedAt: timestamp("last_rated_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_skill_ratings_user_category").on(table.userId, table.category)],
+);
+
+export const skillRatingsRelations = relations(skillRatings, ({ one }) => ({
+  user: one(users, {
+    fields: [skillRatings.userId],
+    references: [users.id],
+  }),
+}));
+
+export const insertSkillRatingSchema = createInsertSchema(skillRatings).omit({ id: true, createdAt: true });
+
+export type SkillRating = typeof skillRatings.$inferSelect;
+export type InsertSkillRating = z.infer<typeof insertSkillRatingSchema>;
+
+// Versioned practice content (prompt handoffs and rehearsal scenarios) edited
+// by the content team. Each edit is a new version; at most one version per
+// kind, key and locale is published at a time.
+export const contentItems = pgTable(
+  "content_items",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    kind: varchar("kind").notNull(), // handoff or scenario
+    contentKey: varchar("content_key").notNull(), // handoff id (w1) or scenario id
+    locale: varchar("locale").notNull().default("en"),
+    version: integer("version").notNull().default(1),
+    status: varchar("status").notNull().default("draft"), // draft, published, archived
+    category: varchar("category").notNull(),
+    body: jsonb("body").notNull(), // PracticeHandoff or Scenario shape
+    publishedAt: timestamp("published_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_content_items_version").on(table.kind, table.contentKey, table.locale, table.version),
+    index("IDX_content_items_status").on(table.kind, table.status, table.locale),
+  ],
+);
+
+export const insertContentItemSchema = createInsertSchema(contentItems).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type ContentItem = typeof contentItems.$inferSelect;
+export type InsertContentItem = z.infer<typeof insertContentItemSchema>;
+
+// Recordings posted to /api/audio/upload. Transcription, analysis and
+// journaling take the upload id instead of the audio itself.
+export const audioUploads = pgTable(
+  "audio_uploads",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    mimeType: varchar("mime_type").notNull(), // detected container, e.g. audio/webm, audio/mp4
+    sizeBytes: integer("size_bytes").notNull(),
+    durationSeconds: real("duration_seconds").notNull(),
+    storagePath: varchar("storage_path").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_audio_uploads_user").on(table.userId, table.createdAt)],
+);
+
+export const insertAudioUploadSchema = createInsertSchema(audioUploads).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type AudioUpload = typeof audioUploads.$inferSelect;
+export type InsertAudioUpload = z.infer<typeof insertAudioUploadSchema>;
+
+// How long a user's recordings are kept before the purge job deletes them.
+export const RECORDING_RETENTION_OPTIONS = ["7d", "30d", "forever"] as const;
+export type RecordingRetention = typeof RECORDING_RETENTION_OPTIONS[number];
+export const DEFAULT_RECORDING_RETENTION: RecordingRetention = "30d";
@@ -0,0 +1,96 @@
+/**
+ * Speech timeline for a transcribed recording.
+ *
+ * Built from Whisper word timestamps on the server, stored on
+ * practice_sessions.timeline, and rendered as an annotated transcript on the
+ * client. All times are seconds from the start of the recording.
+ */
+
+import { detectFillers, resolveFillerLocale, type FillerLocale, type FillerType } from "./fillers.js";
+
+export interface TimelineWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface TimelineSegment {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface TimelineFiller {
+  type: FillerType;
+  text: string;
+  start: number;
+  end: number;
+  // Index of the first word of the filler in `words`, and how many words it spans.
+  wordIndex: number;
+  wordCount: number;
+}
+
+export interface TimelineSilence {
+  start: number;
+  end: number;
+  duration: number;
+  // The silence follows this word; -1 for silence before the first word.
+  afterWordIndex: number;
+}
+
+export interface SpeechTimeline {
+  locale: FillerLocale;
+  duration: number;
+  words: TimelineWord[];
+  segments: TimelineSegment[];
+  fillers: TimelineFiller[];
+  silences: TimelineSilence[];
+}
+
+// Gaps between words shorter than this read as normal phrasing.
+export const SILENCE_THRESHOLD_SECONDS = 0.7;
+
+export function buildTimeline(
+  words: TimelineWord[],
+  options: { segments?: TimelineSegment[]; duration?: number; locale?: string | null } = {}
+): SpeechTimeline {
+  const locale = resolveFillerLocale(options.locale);
+  const fillers: TimelineFiller[] = detectFillers(words, locale).map(f => ({
+    ...f,
+    start: words[f.wordIndex].start,
+    end: words[f.wordIndex + f.wordCount - 1].end,
+  }));
+
+  const silences: TimelineSilence[] = [];
+  let previousEnd = 0;
+  words.forEach((word, i) => {
+    const gap = word.start - previousEnd;
+    if (gap >= SILENCE_THRESHOLD_SECONDS) {
+      silences.push({
+        start: previousEnd,
+        end: word.start,
+        duration: Math.round(gap * 100) / 100,
+        afterWordIndex: i - 1,
+      });
+    }
+    previousEnd = word.end;
+  });
+
+  return {
+    locale,
+    duration: options.duration ?? (words.length > 0 ? words[words.length - 1].end : 0),
+    words,
+    segments: options.segments ?? [],
+    fillers,
+    silences,
+  };
+}
+
+// Index of the word being spoken at `time`, or of the last word before it.
+export function wordIndexAt(timeline: SpeechTimeline, time: number): number {
+  let index = -1;
+  for (let i = 0; i < timeline.words.length && timeline.words[i].start <= time; i++) {
+    index = i;
+  }
+  return index;
+}